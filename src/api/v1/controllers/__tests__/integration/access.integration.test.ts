@@ -4,12 +4,21 @@
   describe('Authentication Integration Tests', () => {
     const app = createApp();
 
+    // one login for the file: the login rate limit allows 5 per window
+    let session: { token: string; refreshToken: string };
+    beforeAll(async () => {
+      const response = await request(app)
+        .post('/api/v1/access/login')
+        .send({ username: 'sessionuser', password: 'TestPass123' });
+      session = response.body;
+    });
+
     describe('POST /api/v1/access/login', () => {
-      it('should return 200 with valid credentials', async () => {
+      it('should return 200 with valid credentials, as a patient whatever the username says', async () => {
         const response = await request(app)
           .post('/api/v1/access/login')
           .send({
-            username: 'testuser',
+            username: 'admin_testuser',
             password: 'TestPass123'
           });
 
@@ -17,6 +26,7 @@
         expect(response.body).toHaveProperty('success', true);
         expect(response.body).toHaveProperty('token');
         expect(response.body).toHaveProperty('userId');
+        expect(response.body).toHaveProperty('userType', 'patient');
       });
 
       it('should return 400 for missing username', async () => {
@@ -58,33 +68,41 @@
     });
 
     describe('POST /api/v1/access/logout', () => {
-      it('should return 200 with valid user-id header', async () => {
+      it('should return 401 without a token, whatever the user-id header says', async () => {
         const response = await request(app)
           .post('/api/v1/access/logout')
           .set('user-id', '12345');
 
-        expect(response.status).toBe(200);
-        expect(response.body).toHaveProperty('success', true);
+        expect(response.status).toBe(401);
+        expect(response.body).toHaveProperty('success', false);
       });
+    });
 
-      it('should return 200 even without user-id header (mock accepts all)', async () => {
+    describe('POST /api/v1/access/authorize', () => {
+      it('should return 200 with a token issued by login', async () => {
         const response = await request(app)
-          .post('/api/v1/access/logout');
+          .post('/api/v1/access/authorize')
+          .set('Authorization', `Bearer ${session.token}`);
 
-        // Mock implementation accepts logout without validation
         expect(response.status).toBe(200);
         expect(response.body).toHaveProperty('success', true);
       });
-    });
 
-    describe('POST /api/v1/access/authorize', () => {
-      it('should return 200 with valid authorization header', async () => {
+      it('should return 401 for a token that was not issued by us', async () => {
         const response = await request(app)
           .post('/api/v1/access/authorize')
-          .set('Authorization', 'Bearer mock-token');
+          .set('Authorization', 'Bearer mock-jwt-token');
 
-        expect(response.status).toBe(200);
-        expect(response.body).toHaveProperty('success', true);
+        expect(response.status).toBe(401);
+      });
+
+      it('should return 401 when the token belongs to another user', async () => {
+        const response = await request(app)
+          .post('/api/v1/access/authorize')
+          .set('Authorization', `Bearer ${session.token}`)
+          .set('user-id', 'someone-else');
+
+        expect(response.status).toBe(401);
       });
 
       it('should return 401 without authorization header', async () => {
@@ -94,4 +112,36 @@
         expect(response.status).toBe(401);
       });
     });
-  });
\ No newline at end of file
+
+    describe('POST /api/v1/access/refresh', () => {
+      it('should trade a refresh token for a new pair, once', async () => {
+        const { refreshToken } = session;
+        const response = await request(app)
+          .post('/api/v1/access/refresh')
+          .send({ refreshToken });
+
+        expect(response.status).toBe(200);
+        expect(response.body.refreshToken).not.toBe(refreshToken);
+        expect(response.headers['set-cookie']!.join(';')).toContain('refresh_token=');
+
+        const authorize = await request(app)
+          .post('/api/v1/access/authorize')
+          .set('Authorization', `Bearer ${response.body.token}`);
+        expect(authorize.status).toBe(200);
+
+        // replaying the old token revokes the family, including the one just issued
+        const replay = await request(app).post('/api/v1/access/refresh').send({ refreshToken });
+        expect(replay.status).toBe(401);
+        const successor = await request(app)
+          .post('/api/v1/access/refresh')
+          .send({ refreshToken: response.body.refreshToken });
+        expect(successor.status).toBe(401);
+      });
+
+      it('should return 401 without a refresh token', async () => {
+        const response = await request(app).post('/api/v1/access/refresh');
+
+        expect(response.status).toBe(401);
+      });
+    });
+  });
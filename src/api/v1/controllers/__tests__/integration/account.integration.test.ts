@@ -0,0 +1,155 @@
+  import fs from 'fs';
+  import os from 'os';
+  import path from 'path';
+  import request from 'supertest';
+  import type { Express } from 'express';
+  import { FileUserStore } from '../../../../../core/stores/user.store.js';
+  import { hashPassword } from '../../../../../core/utilities/password.utility.js';
+
+  describe('Account Self-Service Integration Tests', () => {
+    const storageRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'soleo-account-'));
+    const outbox = path.join(storageRoot, 'outbox');
+    let app: Express;
+
+    beforeAll(async () => {
+      // LOCAL accounts, with mail going to <LOCAL_STORAGE_PATH>/outbox
+      process.env['LOCAL_STORAGE_PATH'] = storageRoot;
+      process.env['STORAGE_PROVIDER'] = 'LOCAL';
+      process.env['ACCESS_PROVIDER'] = 'LOCAL';
+      process.env['NOTIFIER_PROVIDER'] = 'FILE';
+      process.env['AUTH_RATE_LIMIT_MAX'] = '30';
+
+      const users = new FileUserStore(path.join(storageRoot, 'users', 'users.json'));
+      const createdAt = new Date().toISOString();
+      await users.save({
+        id: 'a1f0c2d4-0000-4000-8000-000000000001',
+        username: 'pat_reset',
+        passwordHash: await hashPassword('Original-Pass1'),
+        userType: 'patient',
+        disabled: false,
+        email: 'pat@example.org',
+        emailVerified: true,
+        createdAt,
+        updatedAt: createdAt,
+      });
+      await users.save({
+        id: 'a1f0c2d4-0000-4000-8000-000000000002',
+        username: 'pat_new',
+        passwordHash: await hashPassword('Original-Pass1'),
+        userType: 'patient',
+        disabled: false,
+        email: 'new@example.org',
+        emailVerified: false,
+        createdAt,
+        updatedAt: createdAt,
+      });
+
+      const { createApp } = await import('../../../../../app.js');
+      app = createApp();
+    });
+
+    afterAll(() => {
+      fs.rmSync(storageRoot, { recursive: true, force: true });
+    });
+
+    function login(username: string, password: string) {
+      return request(app).post('/api/v1/access/login').send({ username, password });
+    }
+
+    function outboxFiles(): string[] {
+      return fs.existsSync(outbox) ? fs.readdirSync(outbox).sort() : [];
+    }
+
+    // Mail is sent after the response, so wait for it to land
+    async function nextMessage(seen: number): Promise<{ to: string; subject: string; text: string }> {
+      for (let attempt = 0; attempt < 50; attempt++) {
+        const files = outboxFiles();
+        if (files.length > seen) {
+          return JSON.parse(fs.readFileSync(path.join(outbox, files[files.length - 1]!), 'utf8'));
+        }
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      throw new Error('no message arrived in the outbox');
+    }
+
+    function tokenFrom(text: string): string {
+      const match = /[?&]token=([A-Za-z0-9_-]+)/.exec(text);
+      if (!match) {
+        throw new Error('no link in the message');
+      }
+      return match[1]!;
+    }
+
+    it('should answer a reset request the same way whether or not the account exists', async () => {
+      const unknown = await request(app).post('/api/v1/account/password/forgot').send({ username: 'nobody_here' });
+      const known = await request(app).post('/api/v1/account/password/forgot').send({ email: 'PAT@example.org' });
+
+      expect(unknown.status).toBe(202);
+      expect(known.status).toBe(202);
+      expect(known.body).toEqual(unknown.body);
+
+      const message = await nextMessage(0);
+      expect(message.to).toBe('pat@example.org');
+      expect(message.subject).toBe('Reset your password');
+      expect(outboxFiles()).toHaveLength(1);
+    });
+
+    it('should reset the password once with a valid token, enforcing the policy', async () => {
+      const seen = outboxFiles().length;
+      await request(app).post('/api/v1/account/password/forgot').send({ username: 'pat_reset' });
+      const token = tokenFrom((await nextMessage(seen)).text);
+      const session = await login('pat_reset', 'Original-Pass1');
+      expect(session.status).toBe(200);
+
+      const weak = await request(app).post('/api/v1/account/password/reset').send({ token, password: 'short' });
+      expect(weak.status).toBe(400);
+      expect(weak.body.problems).toEqual(expect.arrayContaining([expect.stringContaining('characters')]));
+
+      const reset = await request(app).post('/api/v1/account/password/reset').send({ token, password: 'Brand-New-Pass2' });
+      expect(reset.status).toBe(200);
+
+      const reused = await request(app).post('/api/v1/account/password/reset').send({ token, password: 'Another-Pass3' });
+      expect(reused.status).toBe(400);
+
+      expect((await login('pat_reset', 'Brand-New-Pass2')).status).toBe(200);
+      expect((await login('pat_reset', 'Original-Pass1')).status).toBe(401);
+
+      // Existing sessions are signed out
+      const files = await request(app)
+        .get('/api/v1/storage/files')
+        .set('Authorization', `Bearer ${session.body.token}`);
+      expect(files.status).toBe(401);
+    });
+
+    it('should only honour the latest reset link', async () => {
+      let seen = outboxFiles().length;
+      await request(app).post('/api/v1/account/password/forgot').send({ username: 'pat_reset' });
+      const first = tokenFrom((await nextMessage(seen)).text);
+      seen += 1;
+      await request(app).post('/api/v1/account/password/forgot').send({ username: 'pat_reset' });
+      const second = tokenFrom((await nextMessage(seen)).text);
+
+      const stale = await request(app).post('/api/v1/account/password/reset').send({ token: first, password: 'Brand-New-Pass4' });
+      expect(stale.status).toBe(400);
+      const fresh = await request(app).post('/api/v1/account/password/reset').send({ token: second, password: 'Brand-New-Pass4' });
+      expect(fresh.status).toBe(200);
+    });
+
+    it('should refuse to log in an unverified account until its email is confirmed', async () => {
+      const refused = await login('pat_new', 'Original-Pass1');
+      expect(refused.status).toBe(403);
+
+      const seen = outboxFiles().length;
+      const requested = await request(app).post('/api/v1/account/email/verify/request').send({ username: 'pat_new' });
+      expect(requested.status).toBe(202);
+      const message = await nextMessage(seen);
+      expect(message.to).toBe('new@example.org');
+
+      const verified = await request(app).post('/api/v1/account/email/verify').send({ token: tokenFrom(message.text) });
+      expect(verified.status).toBe(200);
+      expect((await login('pat_new', 'Original-Pass1')).status).toBe(200);
+
+      const malformed = await request(app).post('/api/v1/account/email/verify').send({ token: 'abc' });
+      expect(malformed.status).toBe(400);
+    });
+  });
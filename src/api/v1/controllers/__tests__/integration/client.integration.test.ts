@@ -0,0 +1,97 @@
+  import fs from 'fs';
+  import os from 'os';
+  import path from 'path';
+  import request from 'supertest';
+  import type { Express } from 'express';
+  import { addUsers, loginAs } from '../../../../../test/helpers.js';
+
+  describe('API Client Integration Tests', () => {
+    const storageRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'soleo-clients-'));
+    let app: Express;
+    let admin: string;
+
+    beforeAll(async () => {
+      // the client store defaults to <LOCAL_STORAGE_PATH>/users/clients.json
+      process.env['LOCAL_STORAGE_PATH'] = storageRoot;
+      process.env['STORAGE_PROVIDER'] = 'LOCAL';
+      process.env['ACCESS_PROVIDER'] = 'LOCAL';
+      await addUsers(storageRoot, { admin_clients: 'admin', patient_clients: 'patient' });
+      const { createApp } = await import('../../../../../app.js');
+      app = createApp();
+      admin = `Bearer ${await loginAs(app, 'admin_clients')}`;
+    });
+
+    afterAll(() => {
+      fs.rmSync(storageRoot, { recursive: true, force: true });
+    });
+
+    async function register(body: object) {
+      return request(app).post('/api/v1/clients').set('Authorization', admin).send(body);
+    }
+
+    function listFiles(authorization: string) {
+      return request(app).get('/api/v1/storage/files').set('Authorization', authorization);
+    }
+
+    function upload(authorization: string) {
+      return request(app)
+        .post('/api/v1/storage/upload')
+        .set('Authorization', authorization)
+        .attach('file', Buffer.from('nightly export'), { filename: 'export.txt', contentType: 'text/plain' });
+    }
+
+    it('should authenticate an API key as the client, limited to its scopes', async () => {
+      const created = await register({ name: 'reporting job', scopes: ['storage:read:own'] });
+      expect(created.status).toBe(201);
+      expect(created.body.client).toMatchObject({ userType: 'service', scopes: ['storage:read:own'] });
+      expect(created.body.client).not.toHaveProperty('secretHash');
+      const apiKey = `ApiKey ${created.body.apiKey}`;
+
+      expect((await listFiles(apiKey)).status).toBe(200);
+      const refused = await upload(apiKey);
+      expect(refused.status).toBe(403);
+      expect(refused.body).toHaveProperty('missingPermission', 'storage:upload');
+
+      expect((await listFiles(`ApiKey ${created.body.client.clientId}.wrong-secret`)).status).toBe(401);
+    });
+
+    it('should only grant scopes the role allows, and only to admins', async () => {
+      const tooBroad = await register({ name: 'greedy', scopes: ['storage:delete:any'] });
+      expect(tooBroad.status).toBe(400);
+      expect(tooBroad.body.error).toContain('storage:delete:any');
+
+      const patient = `Bearer ${await loginAs(app, 'patient_clients')}`;
+      const forbidden = await request(app).post('/api/v1/clients').set('Authorization', patient).send({ name: 'mine' });
+      expect(forbidden.status).toBe(403);
+    });
+
+    it('should trade client credentials for a bearer token, and honour rotation and revocation', async () => {
+      const created = await register({ name: 'partner sync' });
+      const { clientId } = created.body.client;
+
+      const issued = await request(app)
+        .post('/api/v1/clients/token')
+        .auth(clientId, created.body.clientSecret)
+        .type('form')
+        .send({ grant_type: 'client_credentials', scope: 'storage:upload storage:read:own' });
+      expect(issued.status).toBe(200);
+      expect(issued.body).toMatchObject({ token_type: 'Bearer', scope: 'storage:upload storage:read:own' });
+      const bearer = `Bearer ${issued.body.access_token}`;
+      expect((await upload(bearer)).status).toBe(200);
+      expect((await listFiles(bearer)).body.items).toHaveLength(1);
+
+      // the old secret keeps working through the rotation grace period
+      const rotated = await request(app).post(`/api/v1/clients/${clientId}/rotate`).set('Authorization', admin);
+      expect(rotated.status).toBe(200);
+      expect((await listFiles(`ApiKey ${created.body.apiKey}`)).status).toBe(200);
+      expect((await listFiles(`ApiKey ${rotated.body.apiKey}`)).status).toBe(200);
+
+      const revoked = await request(app).delete(`/api/v1/clients/${clientId}`).set('Authorization', admin);
+      expect(revoked.status).toBe(204);
+      expect((await listFiles(`ApiKey ${rotated.body.apiKey}`)).status).toBe(401);
+      expect((await listFiles(bearer)).status).toBe(401);
+
+      const listed = await request(app).get('/api/v1/clients').set('Authorization', admin);
+      expect(listed.body.clients.find((c: { clientId: string }) => c.clientId === clientId)).toHaveProperty('revokedAt');
+    });
+  });
@@ -0,0 +1,112 @@
+  import fs from 'fs';
+  import os from 'os';
+  import path from 'path';
+  import request from 'supertest';
+  import type { Express } from 'express';
+  import { getCookieConfig } from '../../../../../config/index.js';
+
+  describe('CSRF Protection Integration Tests', () => {
+    const storageRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'soleo-csrf-'));
+    let app: Express;
+
+    beforeAll(async () => {
+      process.env['LOCAL_STORAGE_PATH'] = storageRoot;
+      process.env['STORAGE_PROVIDER'] = 'LOCAL';
+      const { createApp } = await import('../../../../../app.js');
+      app = createApp();
+    });
+
+    afterAll(() => {
+      fs.rmSync(storageRoot, { recursive: true, force: true });
+    });
+
+    // Log in and keep the cookies a browser would send back
+    async function browserLogin(username: string) {
+      const response = await request(app)
+        .post('/api/v1/access/login')
+        .send({ username, password: 'TestPass123' });
+      expect(response.status).toBe(200);
+      const setCookies = response.headers['set-cookie'] as unknown as string[];
+      const cookies = setCookies.map((cookie) => cookie.split(';')[0]).join('; ');
+      return { cookies, setCookies, csrfToken: response.body.csrfToken as string, token: response.body.token as string };
+    }
+
+    function upload(headers: Record<string, string>) {
+      let req = request(app).post('/api/v1/storage/upload');
+      for (const [name, value] of Object.entries(headers)) {
+        req = req.set(name, value);
+      }
+      return req.attach('file', Buffer.from('csrf test'), { filename: 'csrf.txt', contentType: 'text/plain' });
+    }
+
+    it('should set the cookies with explicit SameSite and expiry, and return the CSRF token', async () => {
+      const { setCookies, csrfToken } = await browserLogin('patient_csrf_cookies');
+
+      const auth = setCookies.find((cookie) => cookie.startsWith('auth_token='))!;
+      expect(auth).toMatch(/HttpOnly/);
+      expect(auth).toMatch(/SameSite=Lax/);
+      expect(auth).toMatch(/Expires=/);
+      expect(auth).not.toMatch(/Secure/); // TEST deployment, served over plain HTTP
+
+      const csrf = setCookies.find((cookie) => cookie.startsWith('csrf_token='))!;
+      expect(csrf).toContain(`csrf_token=${csrfToken}`);
+      expect(csrf).not.toMatch(/HttpOnly/);
+    });
+
+    it('should refuse a state-changing cookie request without a matching X-CSRF-Token', async () => {
+      const { cookies, csrfToken } = await browserLogin('patient_csrf_upload');
+
+      const missing = await upload({ Cookie: cookies });
+      expect(missing.status).toBe(403);
+      expect(missing.body.error).toBe('CSRF token missing or invalid');
+
+      expect((await upload({ Cookie: cookies, 'X-CSRF-Token': 'x'.repeat(csrfToken.length) })).status).toBe(403);
+      expect((await upload({ Cookie: cookies, 'X-CSRF-Token': csrfToken })).status).toBe(200);
+    });
+
+    it('should not ask for a CSRF token on reads or bearer requests', async () => {
+      const { cookies, token } = await browserLogin('patient_csrf_exempt');
+
+      expect((await request(app).get('/api/v1/storage/files').set('Cookie', cookies)).status).toBe(200);
+      expect((await upload({ Authorization: `Bearer ${token}` })).status).toBe(200);
+    });
+
+    it('should hand the token back to a cookie client, and protect logout', async () => {
+      const { cookies, csrfToken } = await browserLogin('patient_csrf_logout');
+
+      const fetched = await request(app).get('/api/v1/access/csrf').set('Cookie', cookies);
+      expect(fetched.status).toBe(200);
+      expect(fetched.body.csrfToken).toBe(csrfToken);
+      expect((await request(app).get('/api/v1/access/csrf')).status).toBe(401);
+
+      expect((await request(app).post('/api/v1/access/logout').set('Cookie', cookies)).status).toBe(403);
+      const loggedOut = await request(app).post('/api/v1/access/logout').set('Cookie', cookies).set('X-CSRF-Token', csrfToken);
+      expect(loggedOut.status).toBe(200);
+    });
+
+    describe('cookie configuration', () => {
+      const saved = { ...process.env };
+
+      afterEach(() => {
+        process.env = { ...saved };
+      });
+
+      it('should default to Secure, Strict, __Host- cookies in PRODUCTION', () => {
+        process.env['DEPLOYMENT'] = 'PRODUCTION';
+
+        expect(getCookieConfig()).toEqual({
+          secure: true,
+          sameSite: 'strict',
+          maxAgeSeconds: 28800,
+          csrfCookieName: '__Host-csrf_token',
+        });
+      });
+
+      it('should refuse SameSite=None without Secure', () => {
+        process.env['COOKIE_SAME_SITE'] = 'none';
+        process.env['COOKIE_SECURE'] = 'false';
+
+        expect(() => getCookieConfig()).toThrow('COOKIE_SAME_SITE=none needs COOKIE_SECURE=true');
+      });
+    });
+  });
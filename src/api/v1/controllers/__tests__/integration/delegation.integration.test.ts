@@ -0,0 +1,136 @@
+  import fs from 'fs';
+  import os from 'os';
+  import path from 'path';
+  import request from 'supertest';
+  import type { Express } from 'express';
+  import { addUsers, loginAs } from '../../../../../test/helpers.js';
+
+  describe('Delegation Integration Tests', () => {
+    const storageRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'soleo-delegation-'));
+    let app: Express;
+    let patient: string;
+    let caregiver: string;
+    let patientId: string;
+    let caregiverId: string;
+
+    beforeAll(async () => {
+      // upload.config is read at import time, so set the environment before loading the app
+      process.env['LOCAL_STORAGE_PATH'] = storageRoot;
+      process.env['STORAGE_PROVIDER'] = 'LOCAL';
+      process.env['UPLOAD_RATE_LIMIT_MAX'] = '100';
+      process.env['ACCESS_PROVIDER'] = 'LOCAL';
+      await addUsers(storageRoot, { delegating_patient: 'patient', caregiver_delegate: 'caregiver' });
+      const { createApp } = await import('../../../../../app.js');
+      app = createApp();
+      patient = `Bearer ${await loginAs(app, 'delegating_patient')}`;
+      caregiver = `Bearer ${await loginAs(app, 'caregiver_delegate')}`;
+      patientId = (await request(app).post('/api/v1/access/authorize').set('Authorization', patient)).body.userId;
+      caregiverId = (await request(app).post('/api/v1/access/authorize').set('Authorization', caregiver)).body.userId;
+    });
+
+    afterAll(() => {
+      fs.rmSync(storageRoot, { recursive: true, force: true });
+    });
+
+    async function upload(name: string, as: string, owner?: string) {
+      return request(app)
+        .post('/api/v1/storage/upload')
+        .query(owner ? { owner } : {})
+        .set('Authorization', as)
+        .attach('file', Buffer.from(`contents of ${name}`), { filename: name, contentType: 'text/plain' });
+    }
+
+    function grant(body: Record<string, unknown>, as = patient) {
+      return request(app).post('/api/v1/delegations').set('Authorization', as).send(body);
+    }
+
+    it('should let a caregiver read a patient\'s files only while a delegation is active', async () => {
+      const file = (await upload('lab-results.txt', patient)).body.file;
+      const [owner, name] = file.storageKey.split('/');
+      const download = () => request(app).get(`/api/v1/storage/download/${owner}/${name}`).set('Authorization', caregiver);
+
+      expect((await download()).status).toBe(403);
+
+      const granted = await grant({ delegateId: caregiverId, scope: 'read' });
+      expect(granted.status).toBe(201);
+      expect(granted.body.delegation).toMatchObject({ patientId, delegateId: caregiverId, scope: 'read' });
+
+      const allowed = await download();
+      expect(allowed.status).toBe(200);
+      expect(allowed.text).toBe('contents of lab-results.txt');
+      const listed = await request(app).get('/api/v1/storage/files').query({ owner: patientId }).set('Authorization', caregiver);
+      expect(listed.body.items.map((item: { id: string }) => item.id)).toContain(file.id);
+      expect((await request(app).delete(`/api/v1/storage/files/${file.id}`).set('Authorization', caregiver)).status).toBe(403);
+      expect((await upload('note.txt', caregiver, patientId)).status).toBe(403);
+      expect((await request(app).post('/api/v1/storage/uploads').query({ owner: patientId }).set('Authorization', caregiver)
+        .send({ filename: 'note.txt', mimeType: 'text/plain', size: 4 })).status).toBe(403);
+
+      const revoked = await request(app).delete(`/api/v1/delegations/${granted.body.delegation.id}`).set('Authorization', patient);
+      expect(revoked.status).toBe(204);
+      expect((await download()).status).toBe(403);
+    });
+
+    it('should let a read/write delegate upload into the patient\'s files', async () => {
+      await grant({ delegateId: caregiverId, scope: 'readwrite', expiresAt: new Date(Date.now() + 3600_000).toISOString() });
+
+      const response = await upload('discharge.txt', caregiver, patientId);
+
+      expect(response.status).toBe(200);
+      expect(response.body.file).toMatchObject({ ownerId: patientId, uploadedBy: caregiverId });
+      expect(response.body.file.storageKey.startsWith(`${patientId}/`)).toBe(true);
+    });
+
+    it('should let a read/write delegate upload through a resumable session', async () => {
+      const created = await request(app).post('/api/v1/storage/uploads').query({ owner: patientId }).set('Authorization', caregiver)
+        .send({ filename: 'scan.txt', mimeType: 'text/plain', size: 8 });
+      expect(created.status).toBe(201);
+      const location = created.headers['location'] as string;
+
+      // The session is the caregiver's, for the patient - neither can use it any other way
+      expect((await request(app).head(location).set('Authorization', caregiver)).status).toBe(404);
+      expect((await request(app).head(location).set('Authorization', patient)).status).toBe(404);
+
+      const chunk = await request(app).patch(location).query({ owner: patientId }).set('Authorization', caregiver)
+        .set('Content-Type', 'application/offset+octet-stream').set('Upload-Offset', '0').send(Buffer.from('scanned!'));
+      expect(chunk.status).toBe(204);
+      const completed = await request(app).post(`${location}/complete`).query({ owner: patientId }).set('Authorization', caregiver);
+
+      expect(completed.status).toBe(200);
+      expect(completed.body.file).toMatchObject({ ownerId: patientId, uploadedBy: caregiverId });
+      expect(completed.body.filename.startsWith(`${patientId}/`)).toBe(true);
+
+      const log = fs.readFileSync(path.join(storageRoot, 'delegations', 'delegated-access.jsonl'), 'utf8')
+        .trim().split('\n').map((line) => JSON.parse(line));
+      expect(log.filter((entry: { resource: string }) => entry.resource === 'upload').length).toBeGreaterThanOrEqual(4);
+    });
+
+    it('should record every delegated access with the actor and the subject', async () => {
+      const log = fs.readFileSync(path.join(storageRoot, 'delegations', 'delegated-access.jsonl'), 'utf8')
+        .trim().split('\n').map((line) => JSON.parse(line));
+
+      expect(log.length).toBeGreaterThanOrEqual(3);
+      expect(log).toEqual(expect.arrayContaining([
+        expect.objectContaining({ actorId: caregiverId, subjectId: patientId, action: 'read' }),
+        expect.objectContaining({ actorId: caregiverId, subjectId: patientId, action: 'write', resource: 'upload' }),
+      ]));
+    });
+
+    it('should list delegations from both sides', async () => {
+      const asPatient = await request(app).get('/api/v1/delegations').set('Authorization', patient);
+      const asCaregiver = await request(app).get('/api/v1/delegations').set('Authorization', caregiver);
+
+      expect(asPatient.body.granted).toHaveLength(1);
+      expect(asPatient.body.granted[0]).toMatchObject({ delegateId: caregiverId, scope: 'readwrite' });
+      expect(asCaregiver.body.received.map((d: { id: string }) => d.id)).toEqual([asPatient.body.granted[0].id]);
+    });
+
+    it('should refuse bad grants', async () => {
+      expect((await grant({ delegateId: caregiverId, scope: 'everything' })).status).toBe(400);
+      expect((await grant({ delegateId: patientId, scope: 'read' })).status).toBe(400);
+      expect((await grant({ delegateId: caregiverId, scope: 'read', expiresAt: '2001-01-01T00:00:00Z' })).status).toBe(400);
+
+      const byCaregiver = await grant({ delegateId: patientId, scope: 'read' }, caregiver);
+      expect(byCaregiver.status).toBe(403);
+      expect(byCaregiver.body).toHaveProperty('missingPermission', 'delegation:grant');
+    });
+  });
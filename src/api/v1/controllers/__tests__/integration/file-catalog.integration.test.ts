@@ -0,0 +1,185 @@
+  import fs from 'fs';
+  import os from 'os';
+  import path from 'path';
+  import request from 'supertest';
+  import type { Express } from 'express';
+  import { addUsers, loginAs } from '../../../../../test/helpers.js';
+
+  describe('File Catalog Integration Tests', () => {
+    const storageRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'soleo-catalog-'));
+    const uploadDir = path.join(storageRoot, 'uploads');
+    let app: Express;
+    let auth: string;
+
+    beforeAll(async () => {
+      // upload.config is read at import time, so set the environment before loading the app
+      process.env['LOCAL_STORAGE_PATH'] = storageRoot;
+      process.env['STORAGE_PROVIDER'] = 'LOCAL';
+      process.env['INTEGRITY_CHECK'] = 'SHA256';
+      process.env['UPLOAD_RATE_LIMIT_MAX'] = '100';
+      process.env['ACCESS_PROVIDER'] = 'LOCAL';
+      await addUsers(storageRoot, {
+        catalog_patient: 'patient',
+        catalog_other: 'patient',
+        provider_catalog: 'provider',
+        admin_catalog: 'admin',
+      });
+      const { createApp } = await import('../../../../../app.js');
+      app = createApp();
+      auth = `Bearer ${await loginAs(app, 'catalog_patient')}`;
+    });
+
+    afterAll(() => {
+      fs.rmSync(storageRoot, { recursive: true, force: true });
+    });
+
+    async function upload(name: string, fields: Record<string, string> = {}, as = auth) {
+      const req = request(app).post('/api/v1/storage/upload').set('Authorization', as);
+      for (const [field, value] of Object.entries(fields)) {
+        req.field(field, value);
+      }
+      const response = await req.attach('file', Buffer.from(`contents of ${name}`), { filename: name, contentType: 'text/plain' });
+      expect(response.status).toBe(200);
+      return response.body.file;
+    }
+
+    it('should catalog an upload with its descriptive metadata', async () => {
+      const file = await upload('visit notes.txt', { description: 'Annual check-up', tags: 'Visit,notes', category: 'clinical' });
+
+      expect(file).toMatchObject({
+        originalName: 'visit_notes.txt',
+        mimeType: 'text/plain',
+        size: 'contents of visit notes.txt'.length,
+        metadata: { description: 'Annual check-up', tags: ['visit', 'notes'], category: 'clinical' },
+      });
+      expect(file.storageKey).toMatch(/^[a-f0-9-]{36}\/\d+-visit_notes\.txt$/);
+      expect(file.hash).toMatch(/^[a-f0-9]{64}$/);
+
+      const response = await request(app).get(`/api/v1/storage/files/${file.id}`).set('Authorization', auth);
+      expect(response.status).toBe(200);
+      expect(response.body.file).toEqual(file);
+    });
+
+    it('should reject invalid metadata and not keep the uploaded file', async () => {
+      const before = fs.readdirSync(uploadDir, { recursive: true });
+
+      const response = await request(app)
+        .post('/api/v1/storage/upload')
+        .set('Authorization', auth)
+        .field('tags', '<bad>')
+        .attach('file', Buffer.from('x'), { filename: 'x.txt', contentType: 'text/plain' });
+
+      expect(response.status).toBe(400);
+      expect(fs.readdirSync(uploadDir, { recursive: true })).toEqual(before);
+    });
+
+    it('should page and filter the listing by tag, category and date', async () => {
+      await upload('lab-1.txt', { tags: 'lab', category: 'results' });
+      await upload('lab-2.txt', { tags: 'lab,blood', category: 'results' });
+      await upload('insurance.txt', { category: 'billing' });
+
+      const byTag = await request(app).get('/api/v1/storage/files').set('Authorization', auth).query({ tag: 'LAB' });
+      expect(byTag.status).toBe(200);
+      expect(byTag.body.total).toBe(2);
+      expect(byTag.body.items.map((item: { originalName: string }) => item.originalName)).toEqual(['lab-2.txt', 'lab-1.txt']);
+
+      const byCategory = await request(app).get('/api/v1/storage/files').set('Authorization', auth).query({ category: 'billing' });
+      expect(byCategory.body.items).toHaveLength(1);
+
+      const paged = await request(app).get('/api/v1/storage/files').set('Authorization', auth).query({ limit: 2, page: 2 });
+      expect(paged.body).toMatchObject({ page: 2, limit: 2, total: 4 });
+      expect(paged.body.items).toHaveLength(2);
+
+      const future = await request(app).get('/api/v1/storage/files').set('Authorization', auth).query({ from: new Date(Date.now() + 60_000).toISOString() });
+      expect(future.body.total).toBe(0);
+    });
+
+    it('should reject malformed query parameters', async () => {
+      expect((await request(app).get('/api/v1/storage/files').set('Authorization', auth).query({ page: 0 })).status).toBe(400);
+      expect((await request(app).get('/api/v1/storage/files').set('Authorization', auth).query({ from: 'yesterday' })).status).toBe(400);
+    });
+
+    it('should delete the stored file and its catalog entry', async () => {
+      const file = await upload('old-scan.txt');
+      expect(fs.existsSync(path.join(uploadDir, file.storageKey))).toBe(true);
+
+      const response = await request(app).delete(`/api/v1/storage/files/${file.id}`).set('Authorization', auth);
+
+      expect(response.status).toBe(204);
+      expect(fs.existsSync(path.join(uploadDir, file.storageKey))).toBe(false);
+      expect((await request(app).get(`/api/v1/storage/files/${file.id}`).set('Authorization', auth)).status).toBe(404);
+      expect((await request(app).delete(`/api/v1/storage/files/${file.id}`).set('Authorization', auth)).status).toBe(404);
+    });
+
+    describe('ownership', () => {
+      let other: string;
+      let provider: string;
+      let admin: string;
+
+      beforeAll(async () => {
+        other = `Bearer ${await loginAs(app, 'catalog_other')}`;
+        provider = `Bearer ${await loginAs(app, 'provider_catalog')}`;
+        admin = `Bearer ${await loginAs(app, 'admin_catalog')}`;
+      });
+
+      it('should return 401 without a token or with an unknown token', async () => {
+        const missing = await request(app).get('/api/v1/storage/files');
+        expect(missing.status).toBe(401);
+        expect(missing.headers['www-authenticate']).toBe('Bearer');
+
+        const invalid = await request(app).get('/api/v1/storage/files').set('Authorization', 'Bearer forged');
+        expect(invalid.status).toBe(401);
+        expect(invalid.headers['www-authenticate']).toContain('invalid_token');
+      });
+
+      it('should only list a patient\'s own files', async () => {
+        const file = await upload('other-notes.txt', {}, other);
+
+        const mine = await request(app).get('/api/v1/storage/files').set('Authorization', auth);
+        expect(mine.body.items.map((item: { id: string }) => item.id)).not.toContain(file.id);
+
+        const theirs = await request(app).get('/api/v1/storage/files').set('Authorization', other);
+        expect(theirs.body.items.map((item: { id: string }) => item.id)).toEqual([file.id]);
+
+        const asProvider = await request(app).get('/api/v1/storage/files').query({ owner: file.ownerId }).set('Authorization', provider);
+        expect(asProvider.body.total).toBe(1);
+      });
+
+      it('should deny a patient access to another patient\'s file', async () => {
+        const file = await upload('private.txt', {}, other);
+        const [owner, name] = file.storageKey.split('/');
+
+        expect((await request(app).get(`/api/v1/storage/files/${file.id}`).set('Authorization', auth)).status).toBe(403);
+        expect((await request(app).delete(`/api/v1/storage/files/${file.id}`).set('Authorization', auth)).status).toBe(403);
+        expect((await request(app).get(`/api/v1/storage/download/${owner}/${name}`).set('Authorization', auth)).status).toBe(403);
+        expect(fs.existsSync(path.join(uploadDir, file.storageKey))).toBe(true);
+      });
+
+      it('should let a provider read but not delete a patient\'s file', async () => {
+        const file = await upload('care-plan.txt', {}, other);
+        const [owner, name] = file.storageKey.split('/');
+
+        const download = await request(app).get(`/api/v1/storage/download/${owner}/${name}`).set('Authorization', provider);
+        expect(download.status).toBe(200);
+        expect(download.text).toBe('contents of care-plan.txt');
+        expect((await request(app).delete(`/api/v1/storage/files/${file.id}`).set('Authorization', provider)).status).toBe(403);
+      });
+
+      it('should let an admin delete any file', async () => {
+        const file = await upload('stale.txt', {}, other);
+
+        expect((await request(app).delete(`/api/v1/storage/files/${file.id}`).set('Authorization', admin)).status).toBe(204);
+        expect(fs.existsSync(path.join(uploadDir, file.storageKey))).toBe(false);
+      });
+
+      it('should accept the login cookie in place of a bearer token', async () => {
+        const file = await upload('cookie.txt', {}, other);
+
+        const response = await request(app)
+          .get(`/api/v1/storage/files/${file.id}`)
+          .set('Cookie', `auth_token=${other.slice('Bearer '.length)}`);
+
+        expect(response.status).toBe(200);
+      });
+    });
+  });
@@ -0,0 +1,87 @@
+  import fs from 'fs';
+  import os from 'os';
+  import path from 'path';
+  import request from 'supertest';
+  import type { Express } from 'express';
+
+  describe('Health Integration Tests', () => {
+    const storageRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'soleo-health-'));
+    const probeDir = path.join(storageRoot, '.health');
+    const cacheMs = 300;
+    let app: Express;
+
+    beforeAll(async () => {
+      process.env['LOCAL_STORAGE_PATH'] = storageRoot;
+      process.env['STORAGE_PROVIDER'] = 'LOCAL';
+      process.env['HEALTH_CHECK_CACHE_MS'] = String(cacheMs);
+      const { createApp } = await import('../../../../../app.js');
+      app = createApp();
+    });
+
+    afterAll(() => {
+      delete process.env['HEALTH_CHECK_CACHE_MS'];
+      fs.rmSync(storageRoot, { recursive: true, force: true });
+    });
+
+    function expired(): Promise<void> {
+      return new Promise((resolve) => setTimeout(resolve, cacheMs + 50));
+    }
+
+    it('should report live without probing anything', async () => {
+      const response = await request(app).get('/health/live');
+
+      expect(response.status).toBe(200);
+      expect(response.body.status).toBe('UP');
+    });
+
+    it('should probe storage and access and report each with its latency', async () => {
+      const response = await request(app).get('/health/ready');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['cache-control']).toBe('no-store');
+      expect(response.body).toMatchObject({
+        status: 'READY',
+        services: {
+          storage: { status: 'UP', critical: true },
+          access: { status: 'UP', critical: true },
+        },
+      });
+      expect(typeof response.body.services.storage.latencyMs).toBe('number');
+      expect(typeof response.body.services.access.latencyMs).toBe('number');
+      // The probe file is written, read back and removed
+      expect(fs.readdirSync(probeDir)).toEqual([]);
+    });
+
+    it('should answer 503 once storage cannot be written, after the cached report expires', async () => {
+      await expired();
+      const before = await request(app).get('/health/ready');
+      expect(before.status).toBe(200);
+
+      // A file where the probe directory should be stops the write
+      fs.rmSync(probeDir, { recursive: true, force: true });
+      fs.writeFileSync(probeDir, '');
+      try {
+        const cached = await request(app).get('/health/ready');
+        expect(cached.status).toBe(200);
+        expect(cached.body.checkedAt).toBe(before.body.checkedAt);
+
+        await expired();
+        const down = await request(app).get('/health/ready');
+        expect(down.status).toBe(503);
+        expect(down.body).toMatchObject({
+          status: 'DOWN',
+          services: {
+            storage: { status: 'DOWN', critical: true },
+            access: { status: 'UP' },
+          },
+        });
+        expect(down.body.services.storage.error).toMatch(/^Local storage could not be written \(E[A-Z]+\)$/);
+        expect(JSON.stringify(down.body)).not.toContain(storageRoot);
+      } finally {
+        fs.rmSync(probeDir, { force: true });
+      }
+
+      await expired();
+      expect((await request(app).get('/health/ready')).status).toBe(200);
+    });
+  });
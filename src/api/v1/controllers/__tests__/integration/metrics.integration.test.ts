@@ -0,0 +1,127 @@
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import type { Express } from 'express';
+import { loginAs } from '../../../../../test/helpers.js';
+
+describe('Metrics Integration Tests', () => {
+  const storageRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'soleo-metrics-'));
+  const scrapeToken = 'scrape-token-for-tests';
+  let app: Express;
+  let server: http.Server;
+  const responses = new Set<Promise<void>>();
+  let metricsApp: Express;
+  let auth: string;
+  let getMetricsConfig: typeof import('../../../../../config/index.js').getMetricsConfig;
+
+  beforeAll(async () => {
+    // rate-limit.config is read at import time, so set the environment before loading the app
+    process.env['LOCAL_STORAGE_PATH'] = storageRoot;
+    process.env['STORAGE_PROVIDER'] = 'LOCAL';
+    process.env['METRICS_TOKEN'] = scrapeToken;
+    process.env['AUTH_RATE_LIMIT_MAX'] = '2';
+    ({ getMetricsConfig } = await import('../../../../../config/index.js'));
+    const { createApp, createMetricsApp } = await import('../../../../../app.js');
+    app = createApp();
+    // Requests are counted when the server is done with the response, which can be after supertest resolves
+    server = http.createServer(app);
+    server.on('request', (_req: http.IncomingMessage, res: http.ServerResponse) => {
+      const closed = new Promise<void>((resolve) => res.once('close', () => resolve()));
+      responses.add(closed);
+      void closed.then(() => responses.delete(closed));
+    });
+    metricsApp = createMetricsApp();
+    auth = `Bearer ${await loginAs(app, 'patient_metrics')}`;
+  });
+
+  afterAll(() => {
+    fs.rmSync(storageRoot, { recursive: true, force: true });
+  });
+
+  async function scrape(target: Express = app): Promise<string> {
+    const response = await request(target).get('/metrics').set('Authorization', `Bearer ${scrapeToken}`);
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toContain('text/plain');
+    return response.text;
+  }
+
+  function value(text: string, series: string): number {
+    const line = text.split('\n').find((candidate) => candidate.startsWith(`${series} `));
+    return line ? Number(line.slice(series.length + 1)) : 0;
+  }
+
+  async function responsesEnded(): Promise<void> {
+    await Promise.all([...responses]);
+  }
+
+  it('should refuse scrapes without the metrics token, even from logged-in users', async () => {
+    expect((await request(app).get('/metrics')).status).toBe(401);
+    expect((await request(app).get('/metrics').set('Authorization', auth)).status).toBe(401);
+    expect((await request(metricsApp).get('/metrics')).status).toBe(401);
+  });
+
+  it('should expose process and event-loop metrics', async () => {
+    const text = await scrape(metricsApp);
+
+    expect(text).toContain('process_cpu_seconds_total');
+    expect(text).toContain('nodejs_eventloop_lag_seconds');
+    expect(text).toContain('nodejs_heap_size_used_bytes');
+  });
+
+  it('should count requests by route pattern and status, and storage bytes by provider', async () => {
+    const contents = Buffer.from('metrics test contents');
+    const uploaded = await request(server)
+      .post('/api/v1/storage/upload')
+      .set('Authorization', auth)
+      .attach('file', contents, { filename: 'metrics.txt', contentType: 'text/plain' });
+    expect(uploaded.status).toBe(200);
+    const [owner, name] = uploaded.body.file.storageKey.split('/');
+    expect((await request(server).get(`/api/v1/storage/download/${owner}/${name}`).set('Authorization', auth)).status).toBe(200);
+    expect((await request(server).get('/no/such/route')).status).toBe(404);
+    await responsesEnded();
+
+    const text = await scrape();
+    expect(value(text, 'http_requests_total{method="POST",route="/api/v1/storage/upload",status="200"}')).toBe(1);
+    expect(value(text, 'http_requests_total{method="GET",route="/api/v1/storage/download/:filename|/api/v1/storage/download/:owner/:filename",status="200"}')).toBe(1);
+    expect(value(text, 'http_requests_total{method="GET",route="unmatched",status="404"}')).toBe(1);
+    expect(text).toContain('http_request_duration_seconds_bucket{le="0.005",method="POST",route="/api/v1/storage/upload",status="200"}');
+    expect(value(text, 'storage_bytes_total{provider="local",direction="upload"}')).toBe(contents.length);
+    expect(value(text, 'storage_bytes_total{provider="local",direction="download"}')).toBe(contents.length);
+    expect(value(text, 'storage_operation_duration_seconds_count{provider="local",operation="download",outcome="success"}')).toBe(1);
+    expect(text).not.toContain(name);
+  });
+
+  it('should count logins and rate-limit rejections', async () => {
+    const before = await scrape();
+    const successes = value(before, 'auth_logins_total{step="password",outcome="success"}');
+    expect(successes).toBeGreaterThanOrEqual(1);
+
+    // The limit is 2 and loginAs has used one
+    await request(app).post('/api/v1/access/login').send({ username: 'patient_metrics', password: 'TestPass123' });
+    expect((await request(app).post('/api/v1/access/login').send({ username: 'patient_metrics', password: 'TestPass123' })).status).toBe(429);
+
+    const after = await scrape();
+    expect(value(after, 'auth_logins_total{step="password",outcome="success"}')).toBe(successes + 1);
+    expect(value(after, 'rate_limit_rejections_total{limiter="access"}')).toBe(1);
+  });
+
+  describe('metrics configuration', () => {
+    const saved = { ...process.env };
+
+    afterEach(() => {
+      process.env = { ...saved };
+    });
+
+    it('should refuse to expose unprotected metrics in PRODUCTION', () => {
+      process.env['DEPLOYMENT'] = 'PRODUCTION';
+      delete process.env['METRICS_TOKEN'];
+
+      expect(() => getMetricsConfig()).toThrow('METRICS_TOKEN or METRICS_PORT must be set in PRODUCTION');
+
+      process.env['METRICS_PORT'] = '9464';
+      expect(getMetricsConfig()).toMatchObject({ enabled: true, port: 9464, path: '/metrics' });
+    });
+  });
+});
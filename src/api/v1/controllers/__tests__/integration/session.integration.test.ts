@@ -0,0 +1,93 @@
+  import fs from 'fs';
+  import os from 'os';
+  import path from 'path';
+  import request from 'supertest';
+  import type { Express } from 'express';
+  import { addUsers, loginAs } from '../../../../../test/helpers.js';
+
+  describe('Session Integration Tests', () => {
+    const storageRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'soleo-sessions-'));
+    let app: Express;
+
+    beforeAll(async () => {
+      // session and refresh stores default to <LOCAL_STORAGE_PATH>/sessions
+      process.env['LOCAL_STORAGE_PATH'] = storageRoot;
+      process.env['ACCESS_PROVIDER'] = 'LOCAL';
+      await addUsers(storageRoot, { logoutuser: 'patient', adminsessions: 'admin', multisession: 'patient', plainpatient: 'patient' });
+      const { createApp } = await import('../../../../../app.js');
+      app = createApp();
+    });
+
+    afterAll(() => {
+      fs.rmSync(storageRoot, { recursive: true, force: true });
+    });
+
+    // the login rate limit allows 5 per window, so each login here counts
+    async function login(username: string): Promise<{ token: string; refreshToken: string; userId: string; sessionId: string }> {
+      const response = await request(app)
+        .post('/api/v1/access/login')
+        .send({ username, password: 'TestPass123' });
+      expect(response.status).toBe(200);
+      return response.body;
+    }
+
+    function authorize(token: string) {
+      return request(app).post('/api/v1/access/authorize').set('Authorization', `Bearer ${token}`);
+    }
+
+    it('should revoke the access and refresh tokens of the session logged out of', async () => {
+      const session = await login('logoutuser');
+
+      const response = await request(app)
+        .post('/api/v1/access/logout')
+        .set('Authorization', `Bearer ${session.token}`);
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ success: true, userId: session.userId });
+
+      expect((await authorize(session.token)).status).toBe(401);
+      const refreshed = await request(app).post('/api/v1/access/refresh').send({ refreshToken: session.refreshToken });
+      expect(refreshed.status).toBe(401);
+    });
+
+    it('should let an admin list and kill a user\'s sessions', async () => {
+      const adminToken = await loginAs(app, 'adminsessions');
+      const first = await login('multisession');
+      const second = await login('multisession');
+      const auth = `Bearer ${adminToken}`;
+
+      const listed = await request(app).get(`/api/v1/access/users/${first.userId}/sessions`).set('Authorization', auth);
+      expect(listed.status).toBe(200);
+      expect(listed.body.sessions.map((s: { sessionId: string }) => s.sessionId).sort())
+        .toEqual([first.sessionId, second.sessionId].sort());
+
+      const killed = await request(app)
+        .delete(`/api/v1/access/users/${first.userId}/sessions/${first.sessionId}`)
+        .set('Authorization', auth);
+      expect(killed.status).toBe(200);
+      expect((await authorize(first.token)).status).toBe(401);
+      expect((await authorize(second.token)).status).toBe(200);
+
+      const all = await request(app).delete(`/api/v1/access/users/${first.userId}/sessions`).set('Authorization', auth);
+      expect(all.status).toBe(200);
+      expect(all.body).toHaveProperty('revokedSessions', 1);
+      expect((await authorize(second.token)).status).toBe(401);
+
+      const missing = await request(app)
+        .delete(`/api/v1/access/users/${first.userId}/sessions/${first.sessionId}`)
+        .set('Authorization', auth);
+      expect(missing.status).toBe(404);
+    });
+
+    it('should refuse session administration to non-admins', async () => {
+      const patient = await login('plainpatient');
+
+      const response = await request(app)
+        .get(`/api/v1/access/users/${patient.userId}/sessions`)
+        .set('Authorization', `Bearer ${patient.token}`);
+      expect(response.status).toBe(403);
+      expect(response.body).toMatchObject({ success: false, missingPermission: 'access:admin' });
+
+      const anonymous = await request(app).get(`/api/v1/access/users/${patient.userId}/sessions`);
+      expect(anonymous.status).toBe(401);
+    });
+  });
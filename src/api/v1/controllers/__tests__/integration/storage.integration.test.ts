@@ -0,0 +1,174 @@
+  import fs from 'fs';
+  import os from 'os';
+  import path from 'path';
+  import request from 'supertest';
+  import type { Express } from 'express';
+  import { loginAs } from '../../../../../test/helpers.js';
+
+  describe('Storage Integration Tests', () => {
+    const storageRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'soleo-storage-'));
+    const uploadDir = path.join(storageRoot, 'uploads');
+    let app: Express;
+    let auth: string;
+
+    beforeAll(async () => {
+      // upload.config is read at import time, so set the environment before loading the app
+      process.env['LOCAL_STORAGE_PATH'] = storageRoot;
+      process.env['STORAGE_PROVIDER'] = 'LOCAL';
+      process.env['MAX_FILE_SIZE'] = '1024';
+      process.env['INTEGRITY_CHECK'] = 'SHA256';
+      process.env['UPLOAD_RATE_LIMIT_MAX'] = '100';
+      const { createApp } = await import('../../../../../app.js');
+      app = createApp();
+      auth = `Bearer ${await loginAs(app, 'storage_patient')}`;
+    });
+
+    afterAll(() => {
+      fs.rmSync(storageRoot, { recursive: true, force: true });
+    });
+
+    describe('POST /api/v1/storage/upload', () => {
+      it('should stream the file to storage and return the stored name', async () => {
+        const response = await request(app)
+          .post('/api/v1/storage/upload')
+          .set('Authorization', auth)
+          .attach('file', Buffer.from('hello soleo'), { filename: 'notes.txt', contentType: 'text/plain' });
+
+        expect(response.status).toBe(200);
+        expect(response.body).toHaveProperty('success', true);
+        expect(response.body.filename).toMatch(/^[a-f0-9]{16}\/\d+-notes\.txt$/);
+        expect(response.body.size).toBe(11);
+        expect(response.body.hash).toMatch(/^[a-f0-9]{64}$/);
+        expect(fs.readFileSync(path.join(uploadDir, response.body.filename), 'utf8')).toBe('hello soleo');
+      });
+
+      it('should return 413 and leave no partial file when the size limit is crossed', async () => {
+        const before = fs.readdirSync(uploadDir, { recursive: true });
+
+        const response = await request(app)
+          .post('/api/v1/storage/upload')
+          .set('Authorization', auth)
+          .attach('file', Buffer.alloc(4096, 'a'), { filename: 'big.txt', contentType: 'text/plain' });
+
+        expect(response.status).toBe(413);
+        expect(response.body).toHaveProperty('success', false);
+        expect(fs.readdirSync(uploadDir, { recursive: true })).toEqual(before);
+      });
+
+      it('should return 400 for a disallowed file type', async () => {
+        const response = await request(app)
+          .post('/api/v1/storage/upload')
+          .set('Authorization', auth)
+          .attach('file', Buffer.from('MZ'), { filename: 'tool.exe', contentType: 'application/x-msdownload' });
+
+        expect(response.status).toBe(400);
+        expect(response.body.error).toBe('Invalid file type');
+      });
+
+      it('should return 400 when no file is sent', async () => {
+        const response = await request(app)
+          .post('/api/v1/storage/upload')
+          .set('Authorization', auth)
+          .field('description', 'no file here');
+
+        expect(response.status).toBe(400);
+        expect(response.body.error).toBe('No file uploaded');
+      });
+    });
+      describe('GET/HEAD /api/v1/storage/download/:filename', () => {
+      const contents = '%PDF-0123456789';
+      let filename: string;
+
+      beforeAll(async () => {
+        const uploaded = await request(app)
+          .post('/api/v1/storage/upload')
+          .set('Authorization', auth)
+          .attach('file', Buffer.from(contents), { filename: 'report.pdf', contentType: 'application/pdf' });
+        filename = path.basename(uploaded.body.filename);
+      });
+
+      it('should stream the whole file with length, type and validators', async () => {
+        const response = await request(app).get(`/api/v1/storage/download/${filename}`).buffer(true).set('Authorization', auth);
+
+        expect(response.status).toBe(200);
+        expect(response.headers['content-type']).toBe('application/pdf');
+        expect(response.headers['content-length']).toBe(String(contents.length));
+        expect(response.headers['accept-ranges']).toBe('bytes');
+        expect(response.headers['etag']).toBeDefined();
+        expect(response.headers['last-modified']).toBeDefined();
+        expect(Buffer.from(response.body).toString()).toBe(contents);
+      });
+
+      it('should answer HEAD with the headers only', async () => {
+        const response = await request(app).head(`/api/v1/storage/download/${filename}`).set('Authorization', auth);
+
+        expect(response.status).toBe(200);
+        expect(response.headers['content-length']).toBe(String(contents.length));
+        expect(response.text).toBeUndefined();
+      });
+
+      it('should return 206 with the requested byte range', async () => {
+        const response = await request(app)
+          .get(`/api/v1/storage/download/${filename}`).set('Authorization', auth)
+          .set('Range', 'bytes=5-9')
+          .buffer(true);
+
+        expect(response.status).toBe(206);
+        expect(response.headers['content-range']).toBe(`bytes 5-9/${contents.length}`);
+        expect(response.headers['content-length']).toBe('5');
+        expect(Buffer.from(response.body).toString()).toBe('01234');
+      });
+
+      it('should return 416 for a range past the end of the file', async () => {
+        const response = await request(app)
+          .get(`/api/v1/storage/download/${filename}`).set('Authorization', auth)
+          .set('Range', 'bytes=500-600');
+
+        expect(response.status).toBe(416);
+        expect(response.headers['content-range']).toBe(`bytes */${contents.length}`);
+      });
+
+      it('should ignore the range when If-Range no longer matches', async () => {
+        const response = await request(app)
+          .get(`/api/v1/storage/download/${filename}`).set('Authorization', auth)
+          .set('Range', 'bytes=0-3')
+          .set('If-Range', '"stale"')
+          .buffer(true);
+
+        expect(response.status).toBe(200);
+        expect(Buffer.from(response.body).toString()).toBe(contents);
+      });
+
+      it('should return 304 when the etag still matches', async () => {
+        const first = await request(app).head(`/api/v1/storage/download/${filename}`).set('Authorization', auth);
+
+        const response = await request(app)
+          .get(`/api/v1/storage/download/${filename}`).set('Authorization', auth)
+          .set('If-None-Match', first.headers['etag'] as string);
+
+        expect(response.status).toBe(304);
+      });
+
+      it('should return 304 when not modified since', async () => {
+        const response = await request(app)
+          .get(`/api/v1/storage/download/${filename}`).set('Authorization', auth)
+          .set('If-Modified-Since', new Date(Date.now() + 60_000).toUTCString());
+
+        expect(response.status).toBe(304);
+      });
+
+      it('should return 404 for a missing file', async () => {
+        const response = await request(app).get('/api/v1/storage/download/1700000000000-missing.pdf').set('Authorization', auth);
+
+        expect(response.status).toBe(404);
+        expect(response.body).toHaveProperty('success', false);
+      });
+
+      it('should return 400 for a path traversal attempt', async () => {
+        const response = await request(app).get('/api/v1/storage/download/..%2Fsecrets.txt').set('Authorization', auth);
+
+        expect(response.status).toBe(400);
+        expect(response.body.error).toBe('Invalid filename');
+      });
+    });
+  });
@@ -0,0 +1,109 @@
+  import fs from 'fs';
+  import os from 'os';
+  import path from 'path';
+  import request from 'supertest';
+  import type { Express } from 'express';
+  import type { ReadableSpan } from '@opentelemetry/sdk-trace-node';
+  import { loginAs } from '../../../../../test/helpers.js';
+
+  describe('Tracing Integration Tests', () => {
+    const storageRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'soleo-tracing-'));
+    const callerTraceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+    const callerSpanId = '00f067aa0ba902b7';
+    let app: Express;
+    let auth: string;
+    let tracing: typeof import('../../../../../core/utilities/tracing.utility.js');
+
+    beforeAll(async () => {
+      process.env['LOCAL_STORAGE_PATH'] = storageRoot;
+      process.env['STORAGE_PROVIDER'] = 'LOCAL';
+      process.env['TRACING_EXPORTER'] = 'memory';
+      tracing = await import('../../../../../core/utilities/tracing.utility.js');
+      const { createApp } = await import('../../../../../app.js');
+      app = createApp();
+      auth = `Bearer ${await loginAs(app, 'patient_tracing')}`;
+    });
+
+    afterAll(async () => {
+      delete process.env['TRACING_EXPORTER'];
+      await tracing.stopTracing();
+      fs.rmSync(storageRoot, { recursive: true, force: true });
+    });
+
+    function finishedSpans(): ReadableSpan[] {
+      return tracing.getMemorySpanExporter()!.getFinishedSpans();
+    }
+
+    function named(spans: ReadableSpan[], name: string): ReadableSpan {
+      const span = spans.find((candidate) => candidate.name === name);
+      if (!span) {
+        throw new Error(`no ${name} span among ${spans.map((candidate) => candidate.name).join(', ')}`);
+      }
+      return span;
+    }
+
+    function parentOf(span: ReadableSpan): string | undefined {
+      return span.parentSpanContext?.spanId;
+    }
+
+    it('should continue the caller\'s trace through the controller, service and storage provider', async () => {
+      tracing.getMemorySpanExporter()!.reset();
+      const contents = Buffer.from('traced upload contents');
+
+      const response = await request(app)
+        .post('/api/v1/storage/upload')
+        .set('Authorization', auth)
+        .set('traceparent', `00-${callerTraceId}-${callerSpanId}-01`)
+        .attach('file', contents, { filename: 'traced.txt', contentType: 'text/plain' });
+      expect(response.status).toBe(200);
+
+      const spans = finishedSpans();
+      const server = named(spans, 'POST /api/v1/storage/upload');
+      expect(server.spanContext().traceId).toBe(callerTraceId);
+      expect(parentOf(server)).toBe(callerSpanId);
+      expect(server.attributes).toMatchObject({ 'http.route': '/api/v1/storage/upload', 'http.response.status_code': 200 });
+
+      const controller = named(spans, 'StorageController.uploadFileToStorage');
+      expect(controller.attributes['app.layer']).toBe('controller');
+      // authorizeUpload runs as route middleware, so the rest of the route runs inside it
+      const authorize = named(spans, 'StorageController.authorizeUpload');
+      expect(parentOf(authorize)).toBe(server.spanContext().spanId);
+      expect([server.spanContext().spanId, authorize.spanContext().spanId]).toContain(parentOf(controller));
+
+      const service = named(spans, 'StorageService.uploadFileToStorage');
+      expect(service.attributes['app.layer']).toBe('service');
+      const provider = named(spans, 'storage.upload');
+      expect(parentOf(provider)).toBe(service.spanContext().spanId);
+      expect(provider.attributes).toMatchObject({
+        'storage.provider': 'local',
+        'storage.bytes': contents.length,
+        'storage.integrity_mode': 'SIZE',
+      });
+
+      expect(spans.every((span) => span.spanContext().traceId === callerTraceId)).toBe(true);
+      expect(JSON.stringify(spans.map((span) => span.attributes))).not.toContain('traced.txt');
+    });
+
+    it('should trace the access provider and mark failed calls', async () => {
+      tracing.getMemorySpanExporter()!.reset();
+
+      await request(app).post('/api/v1/access/authorize').set('Authorization', 'Bearer not-a-token');
+
+      const spans = finishedSpans();
+      const server = named(spans, 'POST /api/v1/access/authorize');
+      expect(server.spanContext().traceId).not.toBe(callerTraceId);
+      const provider = spans.find((span) => span.attributes['app.layer'] === 'provider')!;
+      expect(provider.name).toMatch(/^AzureAccess\./);
+      expect(provider.status.code).toBe(2); // SpanStatusCode.ERROR
+      expect(provider.events.map((event) => event.name)).toContain('exception');
+    });
+
+    it('should wrap nothing once tracing is off', async () => {
+      await tracing.stopTracing();
+      const target = { call: () => 1 };
+
+      expect(tracing.isTracingEnabled()).toBe(false);
+      expect(tracing.traceLayer(target, 'service')).toBe(target);
+      expect(tracing.startSpan('unused')).toBeUndefined();
+    });
+  });
@@ -0,0 +1,146 @@
+  import fs from 'fs';
+  import os from 'os';
+  import path from 'path';
+  import request from 'supertest';
+  import type { Express } from 'express';
+  import { loginAs } from '../../../../../test/helpers.js';
+
+  const CHUNK_TYPE = 'application/offset+octet-stream';
+
+  describe('Resumable Upload Session Integration Tests', () => {
+    const storageRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'soleo-sessions-'));
+    const uploadDir = path.join(storageRoot, 'uploads');
+    let createApp: () => Express;
+    let app: Express;
+    let auth: string;
+
+    beforeAll(async () => {
+      // upload.config is read at import time, so set the environment before loading the app
+      process.env['LOCAL_STORAGE_PATH'] = storageRoot;
+      process.env['STORAGE_PROVIDER'] = 'LOCAL';
+      process.env['INTEGRITY_CHECK'] = 'SHA256';
+      process.env['UPLOAD_CHUNK_MIN_SIZE'] = '4';
+      process.env['UPLOAD_CHUNK_MAX_SIZE'] = '8';
+      ({ createApp } = await import('../../../../../app.js'));
+      app = createApp();
+      auth = `Bearer ${await loginAs(app, 'sessions_patient')}`;
+    });
+
+    afterAll(() => {
+      fs.rmSync(storageRoot, { recursive: true, force: true });
+    });
+
+    async function createSession(size: number) {
+      const response = await request(app).post('/api/v1/storage/uploads').set('Authorization', auth)
+        .send({ filename: 'scan results.pdf', mimeType: 'application/pdf', size, metadata: { tags: ['imaging'] } });
+      expect(response.status).toBe(201);
+      return response;
+    }
+
+    it('should accept chunks, report the offset and assemble the file', async () => {
+      const created = await createSession(10);
+      const location = created.headers['location'] as string;
+      expect(location).toBe(`/api/v1/storage/uploads/${created.body.id}`);
+      expect(created.body.filename).toMatch(/^[a-f0-9]{16}\/\d+-scan_results\.pdf$/);
+
+      const first = await request(app).patch(location).set('Authorization', auth).set('Content-Type', CHUNK_TYPE)
+        .set('Upload-Offset', '0').send(Buffer.from('01234'));
+      expect(first.status).toBe(204);
+      expect(first.headers['upload-offset']).toBe('5');
+
+      const head = await request(app).head(location).set('Authorization', auth);
+      expect(head.status).toBe(200);
+      expect(head.headers['upload-offset']).toBe('5');
+      expect(head.headers['upload-length']).toBe('10');
+
+      const second = await request(app).patch(location).set('Authorization', auth).set('Content-Type', CHUNK_TYPE)
+        .set('Upload-Offset', '5').send(Buffer.from('56789'));
+      expect(second.headers['upload-offset']).toBe('10');
+
+      const completed = await request(app).post(`${location}/complete`).set('Authorization', auth);
+      expect(completed.status).toBe(200);
+      expect(completed.body.size).toBe(10);
+      expect(completed.body.hash).toMatch(/^[a-f0-9]{64}$/);
+      expect(fs.readFileSync(path.join(uploadDir, completed.body.filename), 'utf8')).toBe('0123456789');
+      expect(completed.body.file).toMatchObject({
+        storageKey: completed.body.filename,
+        originalName: 'scan_results.pdf',
+        size: 10,
+        metadata: { tags: ['imaging'] },
+      });
+
+      expect((await request(app).head(location).set('Authorization', auth)).status).toBe(404);
+    });
+
+    it('should reject a chunk at the wrong offset with 409', async () => {
+      const created = await createSession(10);
+
+      const response = await request(app).patch(created.headers['location'] as string).set('Authorization', auth)
+        .set('Content-Type', CHUNK_TYPE).set('Upload-Offset', '5').send(Buffer.from('56789'));
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toContain('upload is at 0');
+    });
+
+    it('should refuse to finalize an incomplete upload', async () => {
+      const created = await createSession(10);
+
+      const response = await request(app).post(`${created.headers['location']}/complete`).set('Authorization', auth);
+
+      expect(response.status).toBe(409);
+    });
+
+    it('should hide a session from other users', async () => {
+      const created = await createSession(10);
+      const other = `Bearer ${await loginAs(app, 'sessions_other')}`;
+
+      const head = await request(app).head(created.headers['location'] as string).set('Authorization', other);
+
+      expect(head.status).toBe(404);
+    });
+
+    it('should keep sessions across an application restart', async () => {
+      const created = await createSession(10);
+      const location = created.headers['location'] as string;
+      await request(app).patch(location).set('Authorization', auth).set('Content-Type', CHUNK_TYPE)
+        .set('Upload-Offset', '0').send(Buffer.from('abcde'));
+
+      const restarted = createApp();
+      const head = await request(restarted).head(location).set('Authorization', auth);
+
+      expect(head.status).toBe(200);
+      expect(head.headers['upload-offset']).toBe('5');
+    });
+
+    it('should discard staged parts when a session is aborted', async () => {
+      const created = await createSession(10);
+      const location = created.headers['location'] as string;
+      await request(app).patch(location).set('Authorization', auth).set('Content-Type', CHUNK_TYPE)
+        .set('Upload-Offset', '0').send(Buffer.from('abcde'));
+
+      const response = await request(app).delete(location).set('Authorization', auth);
+
+      expect(response.status).toBe(204);
+      expect((await request(app).head(location).set('Authorization', auth)).status).toBe(404);
+    });
+
+    it('should garbage-collect expired sessions and their staged parts', async () => {
+      const { UploadSessionService } = await import('../../../services/upload-session.service.js');
+      const { FileUploadSessionStore } = await import('../../../../../core/stores/upload-session.store.js');
+      const { LocalStorage } = await import('../../../../../core/middleware/storage/local-storage.js');
+      const { FileCatalogService } = await import('../../../services/file-catalog.service.js');
+      const { FileCatalogStore } = await import('../../../../../core/stores/file-catalog.store.js');
+      const { mockLogger } = await import('../../../../../test/mocks.js');
+      const storage = new LocalStorage(mockLogger());
+      const store = new FileUploadSessionStore(path.join(storageRoot, 'gc-sessions.json'));
+      const catalog = new FileCatalogService(mockLogger(), storage, new FileCatalogStore(path.join(storageRoot, 'gc-catalog.json')));
+      const service = new UploadSessionService(mockLogger(), storage, store, catalog);
+
+      const session = await service.createSession('old.txt', 'text/plain', 10, {}, 'gc-owner');
+      await store.save({ ...session, expiresAt: new Date(Date.now() - 1000).toISOString() });
+
+      expect(await service.purgeExpired()).toBe(1);
+      expect(await store.get(session.id)).toBeUndefined();
+      expect(fs.existsSync(path.join(storageRoot, 'parts', session.providerUploadId))).toBe(false);
+    });
+  });
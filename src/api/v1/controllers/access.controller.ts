@@ -7,9 +7,23 @@ import type {
   IAuthenticatonResponse,
   ILoginResponse,
   ILogoutResponse,
+  IMfaChallengeResponse,
 } from "../interfaces/access.response.interface.js";
 import type { ILogger } from "../../../core/interfaces/logger.interface.js";
-import { toError } from "../../../core/utilities/error.utility.js";
+import { getCookieConfig, type CookieConfig } from "../../../config/index.js";
+import { HttpError, toError } from "../../../core/utilities/error.utility.js";
+import {
+  AUTH_COOKIE_NAME,
+  REFRESH_COOKIE_NAME,
+  getRequestToken,
+  requirePrincipal,
+} from "../../../core/middleware/auth.middleware.js";
+import { clearCsrfCookie, getCsrfToken, setCsrfCookie } from "../../../core/middleware/csrf.middleware.js";
+
+// The refresh cookie is only ever sent back to the access routes
+const REFRESH_COOKIE_PATH = "/api/v1/access";
+const CHALLENGE_TOKEN_PATTERN = /^[A-Za-z0-9_-]{20,200}$/;
+const MFA_CODE_PATTERN = /^[A-Za-z0-9 -]{6,32}$/; // a TOTP code, or a recovery code as printed
 
 /**
  * Authentication controller handling login/logout/etc requests.  Used by the router to
@@ -18,10 +32,17 @@ import { toError } from "../../../core/utilities/error.utility.js";
 export class AccessController implements IAccessController {
   private authService: IAccessService;
   private logger: ILogger;
+  private cookies: CookieConfig;
 
-  constructor(_logger: ILogger, _authService: IAccessService) {
+  /**
+   * @param _logger - Logger instance
+   * @param _authService - Access service
+   * @param _cookies - Attributes for the token and CSRF cookies
+   */
+  constructor(_logger: ILogger, _authService: IAccessService, _cookies: CookieConfig = getCookieConfig()) {
     this.authService = _authService;
     this.logger = _logger;
+    this.cookies = _cookies;
   }
 
   /**
@@ -39,7 +60,7 @@ export class AccessController implements IAccessController {
   ): Promise<void> => {
     this.logger.trace(`enter AccessController.login()`);
 
-    let response: ILoginResponse;
+    let response: ILoginResponse | IMfaChallengeResponse;
     const { username, password } = req.body;
 
     if (
@@ -96,11 +117,11 @@ export class AccessController implements IAccessController {
     }
 
     try {
-      response = (await this.authService.login(
-        username,
-        password
-      )) as ILoginResponse;
-      res.cookie("auth_token", response.token, { httpOnly: true });
+      response = await this.authService.login(username, password);
+      // No cookies until the second factor is in
+      if (!("mfaRequired" in response)) {
+        response = this.setTokenCookies(req, res, response, true);
+      }
       res.status(200).json(response);
     } catch (error: unknown) {
       const err = toError(error); //convert to Error object
@@ -108,15 +129,21 @@ export class AccessController implements IAccessController {
         "Exit AccessController.login caught an error:",
         err.message
       );
+      const retryAfter = err instanceof HttpError ? err.details?.["retryAfter"] : undefined;
+      if (typeof retryAfter === "number") {
+        res.setHeader("Retry-After", String(retryAfter));
+      }
       next(err); //push to global error handler
     }
     this.logger.trace("exit AccessController.login");
   };
 
   /**
-     * Handle user logout request
+     * Handle user logout request.  The session ended is the one the caller's token
+     * (bearer or auth_token cookie) belongs to; `{ "everywhere": true }` in the body, or
+     * ?everywhere=true, ends every session the user has.
      * 
-     * @param req - Express Request object containing user-id in headers
+     * @param req - Express Request object carrying the caller's token
      * @param res - Express Response object for sending logout confirmation
      * @param next - Express NextFunction for error handling middleware chain
      * @returns Promise that resolves when logout processing is complete
@@ -128,15 +155,30 @@ export class AccessController implements IAccessController {
   ): Promise<void> => {
     this.logger.trace(`enter AccessController.logout()`);
 
-    const userId = (req.headers["user-id"] as string) || "unknown";
+    const token = getRequestToken(req);
+    if (!token) {
+      const err = new HttpError(401, "Authentication required");
+      this.logger.error(
+        "Exit AccessController.logout caught an error:",
+        err.message
+      );
+      res.setHeader("WWW-Authenticate", "Bearer");
+      next(err);
+      return;
+    }
+    const everywhere = req.body?.everywhere === true || req.query?.["everywhere"] === "true";
+
     let response: ILogoutResponse;
     try {
-      response = (await this.authService.logout(userId)) as ILogoutResponse;
+      response = (await this.authService.logout(token, everywhere)) as ILogoutResponse;
+      res.clearCookie(AUTH_COOKIE_NAME);
+      res.clearCookie(REFRESH_COOKIE_NAME, { path: REFRESH_COOKIE_PATH });
+      clearCsrfCookie(res, this.cookies);
       res.status(200).json(response);
     } catch (error: unknown) {
       const err = toError(error); //convert to Error object
       this.logger.error(
-        "Exit AccessController.login caught an error:",
+        "Exit AccessController.logout caught an error:",
         err.message
       );
       next(err); //push to global error handler
@@ -204,4 +246,361 @@ export class AccessController implements IAccessController {
     }
     this.logger.trace("exit AccessController.authenticate");
   };
-}
\ No newline at end of file
+
+  /**
+     * Exchange a refresh token for a new access token and refresh token.  The refresh
+     * token is taken from the body ({ refreshToken }) or the refresh_token cookie.
+     *
+     * @param req - Express Request object
+     * @param res - Express Response object for sending the new token pair
+     * @param next - Express NextFunction for error handling middleware chain
+     * @returns Promise that resolves when the refresh is complete
+     */
+  refresh = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    this.logger.trace(`enter AccessController.refresh()`);
+
+    const fromBody: unknown = req.body?.refreshToken;
+    const fromCookie: unknown = req.cookies?.[REFRESH_COOKIE_NAME];
+    const refreshToken = typeof fromBody === "string" && fromBody ? fromBody : fromCookie;
+
+    if (typeof refreshToken !== "string" || !/^[A-Za-z0-9_-]{20,200}$/.test(refreshToken)) {
+      const err = new Error(`Invalid refresh token format`);
+      this.logger.error(
+        "Exit AccessController.refresh caught an error:",
+        err.message
+      );
+      res.status(401).json({ success: false, error: "Invalid refresh token format" });
+      next(err);
+      return;
+    }
+
+    try {
+      const response = await this.authService.refresh(refreshToken);
+      res.status(200).json(this.setTokenCookies(req, res, response, false));
+    } catch (error: unknown) {
+      const err = toError(error); //convert to Error object
+      this.logger.error(
+        "Exit AccessController.refresh caught an error:",
+        err.message
+      );
+      res.clearCookie(REFRESH_COOKIE_NAME, { path: REFRESH_COOKIE_PATH });
+      next(err); //push to global error handler
+    }
+    this.logger.trace("exit AccessController.refresh");
+  };
+
+  /**
+     * Hand a cookie-authenticated client its CSRF token again (after a page reload, say).
+     * Only a page on an allowed origin can read the response, so this gives an attacker
+     * nothing.  A caller whose CSRF cookie has gone is issued a new one.
+     *
+     * @param req - Express Request object carrying the login cookies
+     * @param res - Express Response object for sending { csrfToken }
+     * @param next - Express NextFunction for error handling middleware chain
+     */
+  csrf = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    this.logger.trace(`enter AccessController.csrf()`);
+
+    try {
+      if (!req.cookies?.[AUTH_COOKIE_NAME] && !req.cookies?.[REFRESH_COOKIE_NAME]) {
+        throw new HttpError(401, "No login cookies; bearer token clients do not need a CSRF token");
+      }
+      const csrfToken = getCsrfToken(req, this.cookies) ??
+        setCsrfCookie(res, new Date(Date.now() + this.cookies.maxAgeSeconds * 1000), undefined, this.cookies);
+      res.setHeader("Cache-Control", "no-store");
+      res.status(200).json({ success: true, csrfToken });
+    } catch (error: unknown) {
+      const err = toError(error); //convert to Error object
+      this.logger.error(
+        "Exit AccessController.csrf caught an error:",
+        err.message
+      );
+      next(err); //push to global error handler
+    }
+    this.logger.trace("exit AccessController.csrf");
+  };
+
+  /**
+     * Admin - list a user's active sessions (GET /users/:userId/sessions)
+     *
+     * @param req - Express Request object with the user id in req.params
+     * @param res - Express Response object for sending the sessions
+     * @param next - Express NextFunction for error handling middleware chain
+     */
+  listSessions = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    this.logger.trace(`enter AccessController.listSessions()`);
+
+    try {
+      const userId = this.requireTargetUser(req);
+      const sessions = await this.authService.listSessions(userId);
+      res.status(200).json({ success: true, userId, sessions });
+    } catch (error: unknown) {
+      const err = toError(error); //convert to Error object
+      this.logger.error(
+        "Exit AccessController.listSessions caught an error:",
+        err.message
+      );
+      next(err); //push to global error handler
+    }
+    this.logger.trace("exit AccessController.listSessions");
+  };
+
+  /**
+     * Admin - kill one of a user's sessions (DELETE /users/:userId/sessions/:sessionId)
+     * or all of them (DELETE /users/:userId/sessions)
+     *
+     * @param req - Express Request object with the user id and optional session id in req.params
+     * @param res - Express Response object for sending how many sessions were revoked
+     * @param next - Express NextFunction for error handling middleware chain
+     */
+  revokeSessions = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    this.logger.trace(`enter AccessController.revokeSessions()`);
+
+    try {
+      const userId = this.requireTargetUser(req);
+      const sessionId = req.params["sessionId"];
+      const revokedSessions = await this.authService.revokeSessions(userId, sessionId);
+      this.logger.info(`Admin ${requirePrincipal(req).userId} revoked ${revokedSessions} sessions of ${userId}`);
+      res.status(200).json({ success: true, userId, revokedSessions });
+    } catch (error: unknown) {
+      const err = toError(error); //convert to Error object
+      this.logger.error(
+        "Exit AccessController.revokeSessions caught an error:",
+        err.message
+      );
+      next(err); //push to global error handler
+    }
+    this.logger.trace("exit AccessController.revokeSessions");
+  };
+
+  /**
+     * Admin - clear a username's lockout after failed logins (DELETE /lockouts/:username)
+     *
+     * @param req - Express Request object with the username in req.params
+     * @param res - Express Response object for sending whether anything was cleared
+     * @param next - Express NextFunction for error handling middleware chain
+     */
+  unlockAccount = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    this.logger.trace(`enter AccessController.unlockAccount()`);
+
+    try {
+      const username = req.params["username"];
+      if (!username || !/^[a-zA-Z0-9_-]{3,50}$/.test(username)) {
+        throw new HttpError(400, "Invalid username");
+      }
+      const unlocked = await this.authService.unlockAccount(username);
+      this.logger.info(`Admin ${requirePrincipal(req).userId} unlocked ${username}: ${unlocked ? "cleared" : "was not locked"}`);
+      res.status(200).json({ success: true, username, unlocked });
+    } catch (error: unknown) {
+      const err = toError(error); //convert to Error object
+      this.logger.error(
+        "Exit AccessController.unlockAccount caught an error:",
+        err.message
+      );
+      next(err); //push to global error handler
+    }
+    this.logger.trace("exit AccessController.unlockAccount");
+  };
+
+  /**
+     * Second login step for users who must pass MFA - { challengeToken, code } where the
+     * code is from the authenticator app, or one of the user's recovery codes
+     *
+     * @param req - Express Request object with the challenge and code in the body
+     * @param res - Express Response object for sending the tokens
+     * @param next - Express NextFunction for error handling middleware chain
+     */
+  verifyMfa = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    this.logger.trace(`enter AccessController.verifyMfa()`);
+
+    try {
+      const { challengeToken } = req.body ?? {};
+      if (typeof challengeToken !== "string" || !CHALLENGE_TOKEN_PATTERN.test(challengeToken)) {
+        throw new HttpError(400, "Invalid challenge token format");
+      }
+      const response = await this.authService.verifyMfa(challengeToken, this.requireCode(req));
+      res.status(200).json(this.setTokenCookies(req, res, response, true));
+    } catch (error: unknown) {
+      const err = toError(error); //convert to Error object
+      this.logger.error(
+        "Exit AccessController.verifyMfa caught an error:",
+        err.message
+      );
+      const retryAfter = err instanceof HttpError ? err.details?.["retryAfter"] : undefined;
+      if (typeof retryAfter === "number") {
+        res.setHeader("Retry-After", String(retryAfter));
+      }
+      next(err); //push to global error handler
+    }
+    this.logger.trace("exit AccessController.verifyMfa");
+  };
+
+  /**
+     * Start MFA enrolment for the caller - returns the secret and otpauth URI to load
+     * into an authenticator app
+     *
+     * @param req - Express Request object for an authenticated caller
+     * @param res - Express Response object for sending the enrolment
+     * @param next - Express NextFunction for error handling middleware chain
+     */
+  enrollMfa = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    this.logger.trace(`enter AccessController.enrollMfa()`);
+
+    try {
+      const enrollment = await this.authService.enrollMfa(requirePrincipal(req));
+      res.status(200).json({ success: true, ...enrollment });
+    } catch (error: unknown) {
+      const err = toError(error); //convert to Error object
+      this.logger.error(
+        "Exit AccessController.enrollMfa caught an error:",
+        err.message
+      );
+      next(err); //push to global error handler
+    }
+    this.logger.trace("exit AccessController.enrollMfa");
+  };
+
+  /**
+     * Turn on MFA for the caller with a first code ({ code }) - returns the recovery codes
+     *
+     * @param req - Express Request object with the code in the body
+     * @param res - Express Response object for sending the recovery codes
+     * @param next - Express NextFunction for error handling middleware chain
+     */
+  confirmMfa = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    this.logger.trace(`enter AccessController.confirmMfa()`);
+
+    try {
+      const recoveryCodes = await this.authService.confirmMfa(requirePrincipal(req), this.requireCode(req));
+      res.status(200).json({ success: true, recoveryCodes });
+    } catch (error: unknown) {
+      const err = toError(error); //convert to Error object
+      this.logger.error(
+        "Exit AccessController.confirmMfa caught an error:",
+        err.message
+      );
+      next(err); //push to global error handler
+    }
+    this.logger.trace("exit AccessController.confirmMfa");
+  };
+
+  /**
+     * Admin - remove a user's MFA enrolment, e.g. after a lost phone (DELETE /users/:userId/mfa)
+     *
+     * @param req - Express Request object with the user id in req.params
+     * @param res - Express Response object for sending whether there was an enrolment
+     * @param next - Express NextFunction for error handling middleware chain
+     */
+  resetMfa = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    this.logger.trace(`enter AccessController.resetMfa()`);
+
+    try {
+      const userId = this.requireTargetUser(req);
+      const reset = await this.authService.resetMfa(userId);
+      this.logger.info(`Admin ${requirePrincipal(req).userId} reset MFA for ${userId}: ${reset ? "removed" : "was not enrolled"}`);
+      res.status(200).json({ success: true, userId, reset });
+    } catch (error: unknown) {
+      const err = toError(error); //convert to Error object
+      this.logger.error(
+        "Exit AccessController.resetMfa caught an error:",
+        err.message
+      );
+      next(err); //push to global error handler
+    }
+    this.logger.trace("exit AccessController.resetMfa");
+  };
+
+  private requireCode(req: Request): string {
+    const { code } = req.body ?? {};
+    if (typeof code !== "string" || !MFA_CODE_PATTERN.test(code)) {
+      throw new HttpError(400, "Invalid MFA code format");
+    }
+    return code;
+  }
+
+  /**
+   * The user an admin request is about; the router has already checked access:admin
+   */
+  private requireTargetUser(req: Request): string {
+    const userId = req.params["userId"];
+    if (!userId || !/^[a-zA-Z0-9._-]{1,128}$/.test(userId)) {
+      throw new HttpError(400, "Invalid user ID");
+    }
+    return userId;
+  }
+
+  /**
+   * Mirror a token pair into cookies for browser clients, with a CSRF cookie to match.
+   * Each expires with its token, or after the deployment's cookie max age if sooner.
+   * @param fresh - a new login, which always gets a new CSRF token; a refresh keeps the
+   *   caller's so requests already in flight still pass
+   * @returns the response with the CSRF token added
+   */
+  private setTokenCookies(req: Request, res: Response, response: ILoginResponse, fresh: boolean): ILoginResponse {
+    const { secure, sameSite } = this.cookies;
+    const cap = new Date(Date.now() + this.cookies.maxAgeSeconds * 1000);
+    const authExpires = earliest(new Date(response.expiresAt), cap);
+    res.cookie(AUTH_COOKIE_NAME, response.token, {
+      httpOnly: true,
+      secure,
+      sameSite,
+      expires: authExpires,
+    });
+
+    let csrfExpires = authExpires;
+    if (response.refreshToken && response.refreshExpiresAt) {
+      csrfExpires = earliest(new Date(response.refreshExpiresAt), cap);
+      res.cookie(REFRESH_COOKIE_NAME, response.refreshToken, {
+        httpOnly: true,
+        secure,
+        sameSite,
+        path: REFRESH_COOKIE_PATH,
+        expires: csrfExpires,
+      });
+    }
+
+    const existing = fresh ? undefined : getCsrfToken(req, this.cookies);
+    const csrfToken = setCsrfCookie(res, csrfExpires, existing, this.cookies);
+    return { ...response, csrfToken };
+  }
+}
+
+function earliest(a: Date, b: Date): Date {
+  return a < b ? a : b;
+}
@@ -0,0 +1,150 @@
+import type { Request, Response, NextFunction } from "express";
+import type { IAccountController, IAccountService } from "../../../core/interfaces/account.interface.js";
+import type { ILogger } from "../../../core/interfaces/logger.interface.js";
+import { HttpError, toError } from "../../../core/utilities/error.utility.js";
+
+// What every reset or verification request gets back, whether or not an email was sent
+const ACCEPTED = {
+  success: true,
+  message: "If the account exists and has an email address, a link has been sent to it",
+};
+
+/**
+ * Account self-service controller:
+ *    POST /password/forgot          { username | email } -> 202, always
+ *    POST /password/reset           { token, password }
+ *    POST /email/verify/request     { username | email } -> 202, always
+ *    POST /email/verify             { token }
+ */
+export class AccountController implements IAccountController {
+  private accountService: IAccountService;
+  private logger: ILogger;
+
+  constructor(logger: ILogger, accountService: IAccountService) {
+    this.accountService = accountService;
+    this.logger = logger;
+  }
+
+  /**
+   * Ask for a password reset link
+   *
+   * @param req - Express Request object with { username } or { email } in req.body
+   * @param res - Express Response object, 202 whatever the account's state
+   * @param next - Express NextFunction for error handling middleware chain
+   * @returns Promise that resolves when the response is sent
+   */
+  forgotPassword = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    this.logger.trace(`enter AccountController.forgotPassword`);
+    try {
+      await this.accountService.requestPasswordReset(parseIdentifier(req.body));
+      res.status(202).json(ACCEPTED);
+    } catch (error: unknown) {
+      this.fail(next, toError(error));
+    }
+    this.logger.trace(`exit AccountController.forgotPassword`);
+  };
+
+  /**
+   * Set a new password with the token from a reset link
+   *
+   * @param req - Express Request object with { token, password } in req.body
+   * @param res - Express Response object
+   * @param next - Express NextFunction for error handling middleware chain
+   * @returns Promise that resolves when the password is changed
+   */
+  resetPassword = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    this.logger.trace(`enter AccountController.resetPassword`);
+    try {
+      const { token, password } = (req.body ?? {}) as Record<string, unknown>;
+      if (typeof password !== "string" || !password) {
+        throw new HttpError(400, "password is required");
+      }
+      await this.accountService.resetPassword(parseToken(token), password);
+      res.status(200).json({ success: true, message: "Password changed; log in with the new password" });
+    } catch (error: unknown) {
+      this.fail(next, toError(error));
+    }
+    this.logger.trace(`exit AccountController.resetPassword`);
+  };
+
+  /**
+   * Ask for a new email verification link
+   *
+   * @param req - Express Request object with { username } or { email } in req.body
+   * @param res - Express Response object, 202 whatever the account's state
+   * @param next - Express NextFunction for error handling middleware chain
+   * @returns Promise that resolves when the response is sent
+   */
+  requestVerification = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    this.logger.trace(`enter AccountController.requestVerification`);
+    try {
+      await this.accountService.requestVerification(parseIdentifier(req.body));
+      res.status(202).json(ACCEPTED);
+    } catch (error: unknown) {
+      this.fail(next, toError(error));
+    }
+    this.logger.trace(`exit AccountController.requestVerification`);
+  };
+
+  /**
+   * Confirm an email address with the token from a verification link
+   *
+   * @param req - Express Request object with { token } in req.body
+   * @param res - Express Response object
+   * @param next - Express NextFunction for error handling middleware chain
+   * @returns Promise that resolves when the address is confirmed
+   */
+  verifyEmail = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    this.logger.trace(`enter AccountController.verifyEmail`);
+    try {
+      await this.accountService.verifyEmail(parseToken((req.body ?? {}).token));
+      res.status(200).json({ success: true, message: "Email address confirmed" });
+    } catch (error: unknown) {
+      this.fail(next, toError(error));
+    }
+    this.logger.trace(`exit AccountController.verifyEmail`);
+  };
+
+  private fail(next: NextFunction, err: Error): void {
+    this.logger.error("AccountController caught an error:", err.message);
+    next(err); //push to global error handler
+  }
+}
+
+/**
+ * @throws {HttpError} 400 unless the body names a username or email
+ */
+function parseIdentifier(body: unknown): string {
+  const { username, email } = (body ?? {}) as Record<string, unknown>;
+  const identifier = email ?? username;
+  if (typeof identifier !== "string" || identifier.length === 0 || identifier.length > 254) {
+    throw new HttpError(400, "username or email is required");
+  }
+  return identifier.trim().toLowerCase();
+}
+
+/**
+ * @throws {HttpError} 400 for anything that cannot be one of our tokens
+ */
+function parseToken(token: unknown): string {
+  if (typeof token !== "string" || !/^[A-Za-z0-9_-]{43}$/.test(token)) {
+    throw new HttpError(400, "token is missing or malformed");
+  }
+  return token;
+}
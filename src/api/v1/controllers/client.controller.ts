@@ -0,0 +1,275 @@
+import type { Request, Response, NextFunction } from "express";
+import type {
+  IClientController,
+  IClientRegistration,
+  IClientService,
+} from "../../../core/interfaces/client.interface.js";
+import type { UserType } from "../../../core/interfaces/access.interface.js";
+import type { ILogger } from "../../../core/interfaces/logger.interface.js";
+import { PERMISSIONS, USER_TYPES, type Permission } from "../../../config/index.js";
+import { HttpError, toError } from "../../../core/utilities/error.utility.js";
+import { requirePrincipal } from "../../../core/middleware/auth.middleware.js";
+
+const CLIENT_ID_PATTERN = /^cl_[a-f0-9]{16}$/;
+
+/**
+ * API client controller:
+ *    POST   /token              client credentials grant -> { access_token, token_type, expires_in, scope }
+ *    POST   /                   { name, userType?, scopes?, expiresAt? } -> the client and its secret
+ *    GET    /                   -> every client
+ *    PATCH  /:clientId          { scopes } -> the client
+ *    POST   /:clientId/rotate   -> the client and its new secret
+ *    DELETE /:clientId          -> revoke it
+ */
+export class ClientController implements IClientController {
+  private clientService: IClientService;
+  private logger: ILogger;
+
+  constructor(logger: ILogger, clientService: IClientService) {
+    this.clientService = clientService;
+    this.logger = logger;
+  }
+
+  /**
+   * Register a client; the secret is in the response and nowhere else
+   *
+   * @param req - Express Request object with the registration in req.body
+   * @param res - Express Response object for sending the client and its credentials
+   * @param next - Express NextFunction for error handling middleware chain
+   * @returns Promise that resolves when the client is sent
+   */
+  create = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    this.logger.trace(`enter ClientController.create`);
+    try {
+      const issued = await this.clientService.create(this.parseRegistration(req.body), requirePrincipal(req));
+      res.setHeader("Cache-Control", "no-store");
+      res.status(201).json({ success: true, ...issued });
+    } catch (error: unknown) {
+      this.fail(next, toError(error));
+    }
+    this.logger.trace(`exit ClientController.create`);
+  };
+
+  /**
+   * List every client, revoked ones included
+   *
+   * @param req - Express Request object
+   * @param res - Express Response object for sending the clients
+   * @param next - Express NextFunction for error handling middleware chain
+   * @returns Promise that resolves when the clients are sent
+   */
+  list = async (
+    _req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    this.logger.trace(`enter ClientController.list`);
+    try {
+      res.status(200).json({ success: true, clients: await this.clientService.list() });
+    } catch (error: unknown) {
+      this.fail(next, toError(error));
+    }
+    this.logger.trace(`exit ClientController.list`);
+  };
+
+  /**
+   * Replace a client's scopes
+   *
+   * @param req - Express Request object with the client id in req.params and { scopes } in req.body
+   * @param res - Express Response object for sending the client
+   * @param next - Express NextFunction for error handling middleware chain
+   * @returns Promise that resolves when the client is sent
+   */
+  update = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    this.logger.trace(`enter ClientController.update`);
+    try {
+      const scopes = parseScopes((req.body ?? {}).scopes);
+      if (!scopes) {
+        throw new HttpError(400, "scopes is required");
+      }
+      const client = await this.clientService.setScopes(this.requireClientId(req), scopes, requirePrincipal(req));
+      res.status(200).json({ success: true, client });
+    } catch (error: unknown) {
+      this.fail(next, toError(error));
+    }
+    this.logger.trace(`exit ClientController.update`);
+  };
+
+  /**
+   * Issue a client a new secret
+   *
+   * @param req - Express Request object with the client id in req.params
+   * @param res - Express Response object for sending the new credentials
+   * @param next - Express NextFunction for error handling middleware chain
+   * @returns Promise that resolves when the credentials are sent
+   */
+  rotate = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    this.logger.trace(`enter ClientController.rotate`);
+    try {
+      const issued = await this.clientService.rotate(this.requireClientId(req), requirePrincipal(req));
+      res.setHeader("Cache-Control", "no-store");
+      res.status(200).json({ success: true, ...issued });
+    } catch (error: unknown) {
+      this.fail(next, toError(error));
+    }
+    this.logger.trace(`exit ClientController.rotate`);
+  };
+
+  /**
+   * Revoke a client
+   *
+   * @param req - Express Request object with the client id in req.params
+   * @param res - Express Response object
+   * @param next - Express NextFunction for error handling middleware chain
+   * @returns Promise that resolves when the client is revoked
+   */
+  revoke = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    this.logger.trace(`enter ClientController.revoke`);
+    try {
+      await this.clientService.revoke(this.requireClientId(req), requirePrincipal(req));
+      res.status(204).end();
+    } catch (error: unknown) {
+      this.fail(next, toError(error));
+    }
+    this.logger.trace(`exit ClientController.revoke`);
+  };
+
+  /**
+   * OAuth 2.0 client credentials grant (RFC 6749 section 4.4).  The client authenticates
+   * with HTTP Basic or client_id/client_secret in the body, JSON or form encoded.
+   *
+   * @param req - Express Request object with grant_type and optional scope in req.body
+   * @param res - Express Response object for sending the token
+   * @param next - Express NextFunction for error handling middleware chain
+   * @returns Promise that resolves when the token is sent
+   */
+  token = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    this.logger.trace(`enter ClientController.token`);
+    try {
+      const body = (req.body ?? {}) as Record<string, unknown>;
+      if (body["grant_type"] !== "client_credentials") {
+        throw new HttpError(400, "grant_type must be client_credentials");
+      }
+      const { clientId, clientSecret } = this.parseClientAuthentication(req, body);
+      const scope = body["scope"];
+      if (scope !== undefined && typeof scope !== "string") {
+        throw new HttpError(400, "scope must be a space separated string");
+      }
+
+      const response = await this.clientService.issueToken(
+        clientId,
+        clientSecret,
+        scope === undefined ? undefined : parseScopes(scope.split(" ").filter(Boolean))
+      );
+      res.setHeader("Cache-Control", "no-store");
+      res.setHeader("Pragma", "no-cache");
+      res.status(200).json(response);
+    } catch (error: unknown) {
+      this.fail(next, toError(error));
+    }
+    this.logger.trace(`exit ClientController.token`);
+  };
+
+  /**
+   * @throws {HttpError} 401 if the request carries no client credentials
+   */
+  private parseClientAuthentication(req: Request, body: Record<string, unknown>): { clientId: string; clientSecret: string } {
+    const [scheme, encoded] = (req.get("Authorization") ?? "").split(" ");
+    if (scheme?.toLowerCase() === "basic" && encoded) {
+      const decoded = Buffer.from(encoded, "base64").toString("utf8");
+      const separator = decoded.indexOf(":");
+      if (separator > 0) {
+        return {
+          clientId: decodeURIComponent(decoded.slice(0, separator)),
+          clientSecret: decodeURIComponent(decoded.slice(separator + 1)),
+        };
+      }
+    }
+    const { client_id: clientId, client_secret: clientSecret } = body;
+    if (typeof clientId === "string" && typeof clientSecret === "string") {
+      return { clientId, clientSecret };
+    }
+    throw new HttpError(401, "Client authentication required");
+  }
+
+  /**
+   * @throws {HttpError} 400 for a missing or malformed name, role, scope or expiry
+   */
+  private parseRegistration(body: unknown): IClientRegistration {
+    const { name, userType, scopes, expiresAt } = (body ?? {}) as Record<string, unknown>;
+
+    if (typeof name !== "string" || !/^[\w .-]{1,100}$/.test(name)) {
+      throw new HttpError(400, "name must be 1-100 letters, digits, spaces, dots or dashes");
+    }
+    const registration: IClientRegistration = { name };
+
+    if (userType !== undefined) {
+      if (!USER_TYPES.includes(userType as UserType)) {
+        throw new HttpError(400, `userType must be one of ${USER_TYPES.join(", ")}`);
+      }
+      registration.userType = userType as UserType;
+    }
+    const parsedScopes = parseScopes(scopes);
+    if (parsedScopes) {
+      registration.scopes = parsedScopes;
+    }
+    if (expiresAt !== undefined) {
+      const parsed = typeof expiresAt === "string" ? new Date(expiresAt) : new Date(NaN);
+      if (Number.isNaN(parsed.getTime())) {
+        throw new HttpError(400, "expiresAt must be an ISO 8601 date");
+      }
+      registration.expiresAt = parsed;
+    }
+    return registration;
+  }
+
+  /**
+   * @throws {HttpError} 400 for a malformed client id
+   */
+  private requireClientId(req: Request): string {
+    const clientId = req.params["clientId"];
+    if (!clientId || !CLIENT_ID_PATTERN.test(clientId)) {
+      throw new HttpError(400, "Invalid client ID");
+    }
+    return clientId;
+  }
+
+  private fail(next: NextFunction, err: Error): void {
+    this.logger.error("ClientController caught an error:", err.message);
+    next(err); //push to global error handler
+  }
+}
+
+/**
+ * @returns the scopes, or undefined if none were given
+ * @throws {HttpError} 400 for anything but an array of known permissions
+ */
+function parseScopes(scopes: unknown): Permission[] | undefined {
+  if (scopes === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(scopes) || !scopes.every((scope) => PERMISSIONS.includes(scope as Permission))) {
+    throw new HttpError(400, `scopes must be a list of ${PERMISSIONS.join(", ")}`);
+  }
+  return [...new Set(scopes as Permission[])];
+}
@@ -0,0 +1,133 @@
+import type { Request, Response, NextFunction } from "express";
+import type {
+  DelegationScope,
+  IDelegationController,
+  IDelegationGrant,
+  IDelegationService,
+} from "../../../core/interfaces/delegation.interface.js";
+import type { ILogger } from "../../../core/interfaces/logger.interface.js";
+import { HttpError, toError } from "../../../core/utilities/error.utility.js";
+import { requirePrincipal } from "../../../core/middleware/auth.middleware.js";
+
+const SCOPES: readonly DelegationScope[] = ["read", "readwrite"];
+const USER_ID_PATTERN = /^[a-zA-Z0-9._-]{1,128}$/;
+
+/**
+ * Delegation controller:
+ *    POST   /         { delegateId, scope, expiresAt?, patientId? } -> the new delegation
+ *    GET    /         -> active delegations the caller has granted and received
+ *    DELETE /:id      -> revoke one
+ */
+export class DelegationController implements IDelegationController {
+  private delegationService: IDelegationService;
+  private logger: ILogger;
+
+  constructor(logger: ILogger, delegationService: IDelegationService) {
+    this.delegationService = delegationService;
+    this.logger = logger;
+  }
+
+  /**
+   * Grant a delegate access to the caller's files (or, for admins, a named patient's)
+   *
+   * @param req - Express Request object with the grant in req.body
+   * @param res - Express Response object for sending the delegation
+   * @param next - Express NextFunction for error handling middleware chain
+   * @returns Promise that resolves when the delegation is sent
+   */
+  grant = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    this.logger.trace(`enter DelegationController.grant`);
+    try {
+      const delegation = await this.delegationService.grant(this.parseGrant(req.body), requirePrincipal(req));
+      res.status(201).json({ success: true, delegation });
+    } catch (error: unknown) {
+      this.fail(next, toError(error));
+    }
+    this.logger.trace(`exit DelegationController.grant`);
+  };
+
+  /**
+   * List the caller's active delegations, both directions
+   *
+   * @param req - Express Request object
+   * @param res - Express Response object for sending the delegations
+   * @param next - Express NextFunction for error handling middleware chain
+   * @returns Promise that resolves when the delegations are sent
+   */
+  list = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    this.logger.trace(`enter DelegationController.list`);
+    try {
+      const { granted, received } = await this.delegationService.list(requirePrincipal(req));
+      res.status(200).json({ success: true, granted, received });
+    } catch (error: unknown) {
+      this.fail(next, toError(error));
+    }
+    this.logger.trace(`exit DelegationController.list`);
+  };
+
+  /**
+   * Revoke a delegation
+   *
+   * @param req - Express Request object containing the delegation id in req.params.id
+   * @param res - Express Response object
+   * @param next - Express NextFunction for error handling middleware chain
+   * @returns Promise that resolves when the delegation is revoked
+   */
+  revoke = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    this.logger.trace(`enter DelegationController.revoke`);
+    try {
+      await this.delegationService.revoke(String(req.params["id"]), requirePrincipal(req));
+      res.status(204).end();
+    } catch (error: unknown) {
+      this.fail(next, toError(error));
+    }
+    this.logger.trace(`exit DelegationController.revoke`);
+  };
+
+  /**
+   * @throws {HttpError} 400 for a missing or malformed delegate, scope, expiry or patient
+   */
+  private parseGrant(body: unknown): IDelegationGrant {
+    const { delegateId, scope, expiresAt, patientId } = (body ?? {}) as Record<string, unknown>;
+
+    if (typeof delegateId !== "string" || !USER_ID_PATTERN.test(delegateId)) {
+      throw new HttpError(400, "delegateId must be a user id");
+    }
+    if (!SCOPES.includes(scope as DelegationScope)) {
+      throw new HttpError(400, `scope must be one of ${SCOPES.join(", ")}`);
+    }
+    const grant: IDelegationGrant = { delegateId, scope: scope as DelegationScope };
+
+    if (expiresAt !== undefined) {
+      const parsed = typeof expiresAt === "string" ? new Date(expiresAt) : new Date(NaN);
+      if (Number.isNaN(parsed.getTime())) {
+        throw new HttpError(400, "expiresAt must be an ISO 8601 date");
+      }
+      grant.expiresAt = parsed;
+    }
+    if (patientId !== undefined) {
+      if (typeof patientId !== "string" || !USER_ID_PATTERN.test(patientId)) {
+        throw new HttpError(400, "patientId must be a user id");
+      }
+      grant.patientId = patientId;
+    }
+    return grant;
+  }
+
+  private fail(next: NextFunction, err: Error): void {
+    this.logger.error("DelegationController caught an error:", err.message);
+    next(err); //push to global error handler
+  }
+}
@@ -0,0 +1,155 @@
+import type { Request, Response, NextFunction } from "express";
+import type {
+  IFileCatalogController,
+  IFileCatalogService,
+  IFileQuery,
+} from "../../../core/interfaces/file-catalog.interface.js";
+import type { ILogger } from "../../../core/interfaces/logger.interface.js";
+import { HttpError, toError } from "../../../core/utilities/error.utility.js";
+import { parseLabel } from "../../../core/utilities/file-metadata.utility.js";
+import { requirePrincipal } from "../../../core/middleware/auth.middleware.js";
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * File catalog controller:
+ *    GET    /files        ?page&limit&tag&category&from&to&owner -> one page of entries
+ *    GET    /files/:id    -> one entry
+ *    DELETE /files/:id    -> remove the stored file and its entry
+ */
+export class FileCatalogController implements IFileCatalogController {
+  private catalogService: IFileCatalogService;
+  private logger: ILogger;
+
+  constructor(logger: ILogger, catalogService: IFileCatalogService) {
+    this.catalogService = catalogService;
+    this.logger = logger;
+  }
+
+  /**
+   * List catalog entries, newest first.  Patients only ever see their own files;
+   * providers and admins see everyone's, optionally narrowed with ?owner=<userId>.
+   *
+   * @param req - Express Request object with optional paging and filter query parameters
+   * @param res - Express Response object for sending the page of entries
+   * @param next - Express NextFunction for error handling middleware chain
+   * @returns Promise that resolves when the page is sent
+   */
+  listFiles = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    this.logger.trace(`enter FileCatalogController.listFiles`);
+    try {
+      const result = await this.catalogService.listFiles(this.parseQuery(req), requirePrincipal(req));
+      res.status(200).json({ success: true, ...result });
+    } catch (error: unknown) {
+      this.fail(next, toError(error));
+    }
+    this.logger.trace(`exit FileCatalogController.listFiles`);
+  };
+
+  /**
+   * Fetch one catalog entry
+   *
+   * @param req - Express Request object containing the entry id in req.params.id
+   * @param res - Express Response object for sending the entry
+   * @param next - Express NextFunction for error handling middleware chain
+   * @returns Promise that resolves when the entry is sent
+   */
+  getFile = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    this.logger.trace(`enter FileCatalogController.getFile`);
+    try {
+      const file = await this.catalogService.getFile(String(req.params["id"]), requirePrincipal(req));
+      res.status(200).json({ success: true, file });
+    } catch (error: unknown) {
+      this.fail(next, toError(error));
+    }
+    this.logger.trace(`exit FileCatalogController.getFile`);
+  };
+
+  /**
+   * Delete a stored file and its catalog entry
+   *
+   * @param req - Express Request object containing the entry id in req.params.id
+   * @param res - Express Response object
+   * @param next - Express NextFunction for error handling middleware chain
+   * @returns Promise that resolves when the file is removed
+   */
+  deleteFile = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    this.logger.trace(`enter FileCatalogController.deleteFile`);
+    try {
+      await this.catalogService.deleteFile(String(req.params["id"]), requirePrincipal(req));
+      res.status(204).end();
+    } catch (error: unknown) {
+      this.fail(next, toError(error));
+    }
+    this.logger.trace(`exit FileCatalogController.deleteFile`);
+  };
+
+  /**
+   * Turn the query string into an IFileQuery
+   * @throws {HttpError} 400 for a malformed page, limit, tag, category, date or owner
+   */
+  private parseQuery(req: Request): IFileQuery {
+    const { page, limit, tag, category, from, to, owner } = req.query;
+
+    const query: IFileQuery = {
+      page: this.parsePositiveInteger(page, "page", 1),
+      limit: Math.min(this.parsePositiveInteger(limit, "limit", DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE),
+    };
+    if (tag !== undefined) {
+      query.tag = parseLabel(tag, "tag");
+    }
+    if (category !== undefined) {
+      query.category = parseLabel(category, "category");
+    }
+    if (from !== undefined) {
+      query.from = this.parseDate(from, "from");
+    }
+    if (to !== undefined) {
+      query.to = this.parseDate(to, "to");
+    }
+    if (owner !== undefined) {
+      if (typeof owner !== "string" || !owner) {
+        throw new HttpError(400, "owner must be a user id");
+      }
+      query.ownerId = owner;
+    }
+    return query;
+  }
+
+  private parsePositiveInteger(value: unknown, name: string, fallback: number): number {
+    if (value === undefined) {
+      return fallback;
+    }
+    const parsed = Number(value);
+    if (!Number.isSafeInteger(parsed) || parsed < 1) {
+      throw new HttpError(400, `${name} must be a positive integer`);
+    }
+    return parsed;
+  }
+
+  private parseDate(value: unknown, name: string): Date {
+    const parsed = typeof value === "string" ? new Date(value) : new Date(NaN);
+    if (Number.isNaN(parsed.getTime())) {
+      throw new HttpError(400, `${name} must be an ISO 8601 date`);
+    }
+    return parsed;
+  }
+
+  private fail(next: NextFunction, err: Error): void {
+    this.logger.error("FileCatalogController caught an error:", err.message);
+    next(err); //push to global error handler
+  }
+}
@@ -0,0 +1,65 @@
+import type { Request, Response, NextFunction } from "express";
+import type { IHealthController, IHealthService } from "../../../core/interfaces/health.interface.js";
+import type { ILogger } from "../../../core/interfaces/logger.interface.js";
+import { toError } from "../../../core/utilities/error.utility.js";
+
+/**
+ * Health controller - no authentication, the callers are load balancers and orchestrators:
+ *    GET /live    -> { status: UP, timestamp }
+ *    GET /ready   -> the readiness report; 503 while a critical dependency is DOWN
+ */
+export class HealthController implements IHealthController {
+  private healthService: IHealthService;
+  private logger: ILogger;
+
+  constructor(logger: ILogger, healthService: IHealthService) {
+    this.healthService = healthService;
+    this.logger = logger;
+  }
+
+  /**
+   * The process is up; nothing else is checked, so a slow dependency never gets the
+   * container restarted
+   *
+   * @param _req - Express Request object
+   * @param res - Express Response object for sending the status
+   * @param _next - Express NextFunction, unused
+   * @returns Promise that resolves when the status is sent
+   */
+  live = async (
+    _req: Request,
+    res: Response,
+    _next: NextFunction
+  ): Promise<void> => {
+    res.status(200).json({ status: "UP", timestamp: new Date() });
+  };
+
+  /**
+   * Probe storage and access and report each one's status and latency
+   *
+   * @param _req - Express Request object
+   * @param res - Express Response object for sending the report
+   * @param next - Express NextFunction for error handling middleware chain
+   * @returns Promise that resolves when the report is sent
+   */
+  ready = async (
+    _req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    this.logger.trace(`enter HealthController.ready`);
+    try {
+      const report = await this.healthService.checkReadiness();
+      res.setHeader("Cache-Control", "no-store");
+      res.status(report.status === "READY" ? 200 : 503).json(report);
+    } catch (error: unknown) {
+      this.fail(next, toError(error));
+    }
+    this.logger.trace(`exit HealthController.ready`);
+  };
+
+  private fail(next: NextFunction, err: Error): void {
+    this.logger.error("HealthController caught an error:", err.message);
+    next(err); //push to global error handler
+  }
+}
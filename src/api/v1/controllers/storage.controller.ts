@@ -1,12 +1,21 @@
+import { pipeline } from "stream/promises";
 import type { Request, Response, NextFunction } from "express";
 import type {
   IStorageController,
+  IStorageFileMetadata,
+  IStorageRange,
   IStorageService,
 } from "../../../core/interfaces/storage.interface.js";
+import type {
+  IFileCatalogService,
+  IFileRecord,
+} from "../../../core/interfaces/file-catalog.interface.js";
 import type { ILogger } from "../../../core/interfaces/logger.interface.js";
-import { Readable } from "stream";
-import { toError } from "../../../core/utilities/error.utility.js";
-import { getServerConfig } from "../../../config/server.config.js";
+import type { IStreamedUploadFile } from "../interfaces/storage.request.interface.js";
+import { HttpError, toError } from "../../../core/utilities/error.utility.js";
+import { parseFileMetadata } from "../../../core/utilities/file-metadata.utility.js";
+import { sanitizeFilename, toStorageKey } from "../../../core/utilities/filename.utility.js";
+import { requirePrincipal } from "../../../core/middleware/auth.middleware.js";
 
 /**
  * Authentication controller handling login/logout/etc requests.  Used by the router to
@@ -14,27 +23,68 @@ import { getServerConfig } from "../../../config/server.config.js";
  */
 export class StorageController implements IStorageController {
   private storeService: IStorageService;
+  private catalogService: IFileCatalogService;
   private logger: ILogger;
 
-  constructor(logger: ILogger, storeService: IStorageService) {
+  constructor(logger: ILogger, storeService: IStorageService, catalogService: IFileCatalogService) {
     this.storeService = storeService;
+    this.catalogService = catalogService;
     this.logger = logger;
   }
 
+  /**
+     * Resolve the owner of an upload before its body is read.  Callers upload into their
+     * own namespace unless ?owner=<patientId> names a patient who has delegated
+     * read/write access to them.
+     *
+     * @param req - Express Request object with the optional owner in req.query
+     * @param res - Express Response object
+     * @param next - Express NextFunction, called once req.uploadOwnerId is set
+     * @returns Promise that resolves when the owner is resolved
+     * @throws {HttpError} If the owner is malformed (400 status) or not the caller's to upload for (403 status)
+     */
+  authorizeUpload = async (
+    req: Request,
+    _res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    this.logger.trace(`enter StorageController.authorizeUpload`);
+
+    const owner = req.query["owner"];
+    if (owner !== undefined && (typeof owner !== "string" || !/^[a-zA-Z0-9._-]{1,128}$/.test(owner))) {
+      this.fail(next, new HttpError(400, "Invalid owner"));
+      return;
+    }
+
+    try {
+      const principal = requirePrincipal(req);
+      const ownerId = owner ?? principal.userId;
+      await this.catalogService.authorizeUpload(ownerId, principal);
+      req.uploadOwnerId = ownerId;
+    } catch (error: unknown) {
+      this.fail(next, toError(error));
+      return;
+    }
+
+    this.logger.trace(`exit StorageController.authorizeUpload`);
+    next();
+  };
+
   /**
      * Handle file upload to storage system
      * 
-     * Processes multipart/form-data file upload, performs security validation,
-     * generates unique filename with timestamp prefix, and stores file using
-     * the configured storage provider (local or cloud).
+     * By the time this runs the multipart body has already been streamed to the
+     * configured storage provider by the upload middleware (type whitelist, filename
+     * sanitising, timestamp prefix and the size limit are all enforced mid-stream
+     * there).  This records the file in the catalog, with the optional description,
+     * tags and category form fields, and reports both back to the caller.  If the
+     * fields are invalid the stored file is removed again.
      * 
-     * @param req - Express Request object containing uploaded file in req.file (populated by multer middleware)
+     * @param req - Express Request object with req.file populated by the streaming upload middleware
      * @param res - Express Response object for sending upload result with file metadata
      * @param next - Express NextFunction for error handling middleware chain
      * @returns Promise that resolves when file upload processing is complete
-     * @throws {Error} If no file is uploaded (400 status)
-     * @throws {Error} If file validation fails (400 status)
-     * @throws {Error} If storage operation fails (500 status)
+     * @throws {HttpError} If no file is uploaded or the metadata fields are invalid (400 status)
      */
   uploadFileToStorage = async (
     req: Request,
@@ -44,73 +94,54 @@ export class StorageController implements IStorageController {
     this.logger.trace(`enter StorageController.uploadFileToStorage`);
 
     if (!req.file) {
-      //fast fail if no
-      const err = new Error(String("No file uploaded"));
-      next(err); //push to global error handler
-      throw res.status(400).json({ error: "No file uploaded" });
-    }
-
-    const MAX_FILE_SIZE = getServerConfig().maxFileSize as number;
-    if (req.file.size > MAX_FILE_SIZE) {
-      const err = new Error("File size exceeds maximum allowed (100MB)");
-      next(err);
-      res.status(400).json({ error: "File too large" });
+      //fast fail if no file
+      this.fail(next, new HttpError(400, "No file uploaded"));
       return;
     }
 
-    // Validate file type (whitelist)
-    const ALLOWED_MIME_TYPES = [ //may need to put this in config?
-      "image/jpeg",
-      "image/png",
-      "application/pdf",
-      "text/plain",
-    ];
-    if (!ALLOWED_MIME_TYPES.includes(req.file.mimetype)) {
-      const err = new Error("File type not allowed");
-      next(err);
-      res.status(400).json({ error: "Invalid file type" });
-      return;
-    }
-
-    // Sanitize original filename
-    const originalName = req.file.originalname.replace(/[^a-zA-Z0-9._-]/g, "_");
-    if (originalName !== req.file.originalname) {
-      this.logger.warn(
-        `Filename sanitized from ${req.file.originalname} to ${originalName}`
-      );
-    }
+    const { upload, originalname, mimetype } = req.file as IStreamedUploadFile;
 
     try {
-      const filename = `${Date.now()}-${originalName}`;
-      const fileStream = Readable.from(req.file?.buffer);
-
-      await this.storeService.uploadFileToStorage(filename, fileStream, next);
-      res.status(200);
-    } catch (error: unknown) {
-      const err = toError(error); //convert to Error object
-      this.logger.error(
-        "Exit StoreController.login caught an error:",
-        err.message
+      const metadata = parseFileMetadata(req.body);
+      const uploader = requirePrincipal(req).userId;
+      const file = await this.catalogService.registerUpload(
+        upload,
+        sanitizeFilename(originalname),
+        mimetype,
+        metadata,
+        req.uploadOwnerId ?? uploader,
+        uploader
       );
-      next(err); //push to global error handler
+      res.status(200).json({ success: true, ...upload, file });
+    } catch (error: unknown) {
+      await this.storeService.deleteFileFromStorage(upload.filename).catch(() => undefined);
+      this.fail(next, toError(error));
+      return;
     }
+
     this.logger.trace(`exit StorageController.uploadFileToStorage`);
   };
 
   /**
      * Handle file download from storage system
      * 
-     * Retrieves requested file from storage provider and streams it to the client
-     * with appropriate Content-Disposition and Content-Type headers. Filename
-     * must be provided in route parameters.
+     * Serves GET and HEAD.  The stored file is stat'ed first so the response carries
+     * Content-Length, ETag and Last-Modified; conditional requests (If-None-Match /
+     * If-Modified-Since) that still match get a 304, a single byte Range gets a 206
+     * (416 if it lies outside the file, honouring If-Range), and HEAD stops after the
+     * headers.  Otherwise the file is streamed to the client as an attachment.
      * 
-     * @param req - Express Request object containing filename in req.params.filename
+     * Files are looked up in the caller's own namespace unless an owner is given
+     * (/download/:owner/:filename); either way the catalog entry must exist and the
+     * caller must be allowed to read it.
+     * 
+     * @param req - Express Request object containing filename (and optionally owner) in req.params
      * @param res - Express Response object for streaming file download to client
      * @param next - Express NextFunction for error handling middleware chain
-     * @returns Promise that resolves when file download streaming begins
-     * @throws {Error} If no filename is provided (400 status)
-     * @throws {Error} If filename is invalid or contains path traversal (400 status)
-     * @throws {Error} If file not found or storage operation fails (500 status)
+     * @returns Promise that resolves when the file has been streamed
+     * @throws {HttpError} If no filename is provided or it is invalid (400 status)
+     * @throws {HttpError} If the caller may not read the file (403 status)
+     * @throws {HttpError} If the file is not found (404 status)
      */
   downloadFileFromStorage = async (
     req: Request,
@@ -120,23 +151,11 @@ export class StorageController implements IStorageController {
     this.logger.trace(`enter StorageController.downloadFileFromStorage`);
 
     const filename = req.params["filename"];
+    const owner = req.params["owner"];
 
     if (!filename) {
       //fast fail if no filename
-      const err = new Error(String("No file requested"));
-      this.logger.error(
-        "Exit StorageController.downloadFileFromStorage caught an error:",
-        err.message
-      );
-      next(err); //push to global error handler
-      throw res.status(400).json({ error: "No file requested" });
-    }
-
-    // Validate filename format (alphanumeric, dash, underscore, dot only)
-    if (!/^[a-zA-Z0-9_-]+\.[a-zA-Z0-9]+$/.test(filename)) {
-      const err = new Error("Invalid filename format");
-      next(err);
-      res.status(400).json({ error: "Invalid filename" });
+      this.fail(next, new HttpError(400, "No file requested"));
       return;
     }
 
@@ -147,46 +166,121 @@ export class StorageController implements IStorageController {
       filename.includes("\\")
     ) {
       this.logger.warn(`Path traversal attempt detected: ${filename}`);
-      const err = new Error("Invalid filename: path traversal detected");
-      next(err);
-      res.status(400).json({ error: "Invalid filename" });
+      this.fail(next, new HttpError(400, "Invalid filename"));
+      return;
+    }
+
+    // Validate filename format (alphanumeric, dash, underscore, dot only)
+    if (!/^[a-zA-Z0-9_-]+\.[a-zA-Z0-9]+$/.test(filename)) {
+      this.fail(next, new HttpError(400, "Invalid filename"));
       return;
     }
 
     // Validate filename length
     if (filename.length > 255) {
-      const err = new Error("Filename too long");
-      next(err);
-      res.status(400).json({ error: "Filename too long" });
+      this.fail(next, new HttpError(400, "Filename too long"));
       return;
     }
 
+    if (owner !== undefined && !/^[a-zA-Z0-9._-]{1,128}$/.test(owner)) {
+      this.fail(next, new HttpError(400, "Invalid owner"));
+      return;
+    }
+
+    let record: IFileRecord;
+    let metadata: IStorageFileMetadata;
     try {
-      const fileStream = await this.storeService.downloadFileFromStorage(
-        filename,
-        next
-      );
-      res.setHeader(
-        "Content-Disposition",
-        `attachment; filename="${filename}"`
+      const principal = requirePrincipal(req);
+      record = await this.catalogService.getFileByStorageKey(
+        toStorageKey(owner ?? principal.userId, filename),
+        principal
       );
-      res.setHeader("Content-Type", "application/octet-stream");
-      fileStream.pipe(res);
-
-      fileStream.on("error", (err) => {
-        this.logger.error("Stream error:", err);
-        res.end(); // Close connection
-        next(err);
-      });
+      metadata = await this.storeService.getFileMetadata(record.storageKey);
+    } catch (error: unknown) {
+      this.fail(next, toError(error));
+      return;
+    }
+
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    res.setHeader("Accept-Ranges", "bytes");
+    res.setHeader("Cache-Control", "private, no-cache");
+    res.setHeader("Last-Modified", metadata.lastModified.toUTCString());
+    if (metadata.etag) {
+      res.setHeader("ETag", metadata.etag);
+    }
+    res.type(record.mimeType); // validated against the whitelist at upload
+
+    // req.fresh compares If-None-Match / If-Modified-Since with the ETag / Last-Modified set above
+    if (req.fresh) {
+      res.status(304).end();
+      this.logger.trace(`exit StorageController.downloadFileFromStorage (not modified)`);
+      return;
+    }
+
+    let range: IStorageRange | undefined;
+    if (req.headers.range && this.isRangeFresh(req, metadata)) {
+      const ranges = req.range(metadata.size, { combine: true });
+      if (ranges === -1) {
+        res.setHeader("Content-Range", `bytes */${metadata.size}`);
+        this.fail(next, new HttpError(416, "Requested range not satisfiable"));
+        return;
+      }
+      // Malformed headers and multipart (several range) requests fall back to the whole file
+      if (ranges && ranges !== -2 && ranges.type === "bytes" && ranges.length === 1 && ranges[0]) {
+        range = { start: ranges[0].start, end: ranges[0].end };
+      }
+    }
+
+    if (range) {
+      res.status(206);
+      res.setHeader("Content-Range", `bytes ${range.start}-${range.end}/${metadata.size}`);
+      res.setHeader("Content-Length", String(range.end - range.start + 1));
+    } else {
+      res.status(200);
+      res.setHeader("Content-Length", String(metadata.size));
+    }
+
+    if (req.method === "HEAD") {
+      res.end();
+      this.logger.trace(`exit StorageController.downloadFileFromStorage (head)`);
+      return;
+    }
+
+    try {
+      const fileStream = await this.storeService.downloadFileFromStorage(record.storageKey, range);
+      await pipeline(fileStream, res);
     } catch (error: unknown) {
       const err = toError(error); //convert to Error object
-      this.logger.error(
-        "Exit StorageController.downloadFileFromStorage caught an error:",
-        err.message
-      );
-      next(err); //push to global error handler
+      if (res.headersSent) {
+        // Too late for an error response; pipeline has already torn the connection down
+        this.logger.error("Stream error:", err.message);
+      } else {
+        this.fail(next, err);
+      }
+      return;
     }
 
     this.logger.trace(`exit StorageController.downloadFileFromStorage`);
   };
+
+  /**
+   * If-Range makes a Range conditional: only honour the range when the validator still
+   * matches, otherwise the client gets the whole (changed) file.  Weak etags never match.
+   */
+  private isRangeFresh(req: Request, metadata: IStorageFileMetadata): boolean {
+    const ifRange = req.get("If-Range");
+    if (!ifRange) {
+      return true;
+    }
+    if (ifRange.startsWith('"') || ifRange.startsWith("W/")) {
+      return !ifRange.startsWith("W/") && ifRange === metadata.etag;
+    }
+    // HTTP dates have second precision
+    return Math.floor(metadata.lastModified.getTime() / 1000) * 1000 <= Date.parse(ifRange);
+  }
+
+  private fail(next: NextFunction, err: Error): void {
+    this.logger.error("StorageController caught an error:", err.message);
+    next(err); //push to global error handler
+  }
 }
@@ -0,0 +1,249 @@
+import type { Request, Response, NextFunction } from "express";
+import type {
+  IUploadSession,
+  IUploadSessionController,
+  IUploadSessionService,
+} from "../../../core/interfaces/upload-session.interface.js";
+import type { IFileCatalogService } from "../../../core/interfaces/file-catalog.interface.js";
+import type { ILogger } from "../../../core/interfaces/logger.interface.js";
+import { HttpError, toError } from "../../../core/utilities/error.utility.js";
+import { parseFileMetadata } from "../../../core/utilities/file-metadata.utility.js";
+import { requirePrincipal } from "../../../core/middleware/auth.middleware.js";
+
+const CHUNK_CONTENT_TYPE = "application/offset+octet-stream";
+
+/**
+ * Resumable upload controller.  Speaks a small tus-style protocol:
+ *    POST   /uploads              { filename, mimeType, size, metadata? } -> 201 + Location
+ *    HEAD   /uploads/:id          -> Upload-Offset / Upload-Length headers
+ *    PATCH  /uploads/:id          Upload-Offset header + raw chunk body -> 204 + new Upload-Offset
+ *    POST   /uploads/:id/complete -> stored file details
+ *    DELETE /uploads/:id          -> abort
+ * Sessions belong to the user who opened them; anyone else gets a 404.  Like /upload,
+ * every call takes an optional ?owner=<patientId> to upload for a patient who has
+ * delegated read/write access to the caller; the delegation is checked (and its use
+ * recorded) on each call.
+ */
+export class UploadSessionController implements IUploadSessionController {
+  private sessionService: IUploadSessionService;
+  private catalogService: IFileCatalogService;
+  private logger: ILogger;
+
+  constructor(logger: ILogger, sessionService: IUploadSessionService, catalogService: IFileCatalogService) {
+    this.sessionService = sessionService;
+    this.catalogService = catalogService;
+    this.logger = logger;
+  }
+
+  /**
+   * Open a new upload session
+   *
+   * @param req - Express Request object with filename, mimeType, size and optional metadata
+   *   ({ description, tags, category }) in the JSON body
+   * @param res - Express Response object for sending the new session
+   * @param next - Express NextFunction for error handling middleware chain
+   * @returns Promise that resolves when the session is created
+   */
+  createSession = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    this.logger.trace(`enter UploadSessionController.createSession`);
+
+    const { filename, mimeType, size, metadata } = req.body ?? {};
+
+    if (
+      !filename ||
+      typeof filename !== "string" ||
+      filename.length > 255 ||
+      !mimeType ||
+      typeof mimeType !== "string" ||
+      !Number.isSafeInteger(size) ||
+      size <= 0
+    ) {
+      this.fail(next, new HttpError(400, "filename, mimeType and a positive integer size are required"));
+      return;
+    }
+
+    try {
+      const { ownerId, uploadedBy } = await this.resolveOwner(req);
+      const session = await this.sessionService.createSession(
+        filename,
+        mimeType,
+        size,
+        parseFileMetadata(metadata),
+        ownerId,
+        uploadedBy
+      );
+      res.setHeader("Location", `${req.baseUrl}/uploads/${session.id}`);
+      res.status(201).json({ success: true, ...this.toSessionView(session) });
+    } catch (error: unknown) {
+      this.fail(next, toError(error));
+    }
+    this.logger.trace(`exit UploadSessionController.createSession`);
+  };
+
+  /**
+   * Report how much of the upload the server has, so the client knows where to resume
+   *
+   * @param req - Express Request object containing the session id in req.params.id
+   * @param res - Express Response object for sending the offset headers
+   * @param next - Express NextFunction for error handling middleware chain
+   * @returns Promise that resolves when the headers are sent
+   */
+  getSessionOffset = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    this.logger.trace(`enter UploadSessionController.getSessionOffset`);
+    try {
+      const { ownerId, uploadedBy } = await this.resolveOwner(req);
+      const session = await this.sessionService.getSession(String(req.params["id"]), ownerId, uploadedBy);
+      res.setHeader("Upload-Offset", String(session.offset));
+      res.setHeader("Upload-Length", String(session.size));
+      res.setHeader("Upload-Expires", session.expiresAt);
+      res.setHeader("Cache-Control", "no-store");
+      res.status(200).end();
+    } catch (error: unknown) {
+      this.fail(next, toError(error));
+    }
+    this.logger.trace(`exit UploadSessionController.getSessionOffset`);
+  };
+
+  /**
+   * Stream one chunk into the session at the offset given by the Upload-Offset header
+   *
+   * @param req - Express Request object with the raw chunk as its body
+   * @param res - Express Response object for sending the new offset
+   * @param next - Express NextFunction for error handling middleware chain
+   * @returns Promise that resolves when the chunk is staged
+   */
+  appendChunk = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    this.logger.trace(`enter UploadSessionController.appendChunk`);
+
+    const offset = Number(req.headers["upload-offset"]);
+    const length = Number(req.headers["content-length"]);
+
+    if (!req.is(CHUNK_CONTENT_TYPE)) {
+      this.fail(next, new HttpError(415, `Content-Type must be ${CHUNK_CONTENT_TYPE}`));
+      return;
+    }
+    if (!Number.isSafeInteger(offset) || offset < 0) {
+      this.fail(next, new HttpError(400, "Upload-Offset header is required"));
+      return;
+    }
+    if (!Number.isSafeInteger(length) || length <= 0) {
+      this.fail(next, new HttpError(411, "Content-Length header is required"));
+      return;
+    }
+
+    try {
+      const { ownerId, uploadedBy } = await this.resolveOwner(req);
+      const session = await this.sessionService.appendChunk(
+        String(req.params["id"]),
+        ownerId,
+        offset,
+        length,
+        req,
+        uploadedBy
+      );
+      res.setHeader("Upload-Offset", String(session.offset));
+      res.status(204).end();
+    } catch (error: unknown) {
+      this.fail(next, toError(error));
+    }
+    this.logger.trace(`exit UploadSessionController.appendChunk`);
+  };
+
+  /**
+   * Assemble the uploaded chunks into the final stored file
+   *
+   * @param req - Express Request object containing the session id in req.params.id
+   * @param res - Express Response object for sending the stored file and its catalog entry
+   * @param next - Express NextFunction for error handling middleware chain
+   * @returns Promise that resolves when the file is assembled
+   */
+  completeSession = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    this.logger.trace(`enter UploadSessionController.completeSession`);
+    try {
+      const { ownerId, uploadedBy } = await this.resolveOwner(req);
+      const { upload, file } = await this.sessionService.completeSession(
+        String(req.params["id"]),
+        ownerId,
+        uploadedBy
+      );
+      res.status(200).json({ success: true, ...upload, file });
+    } catch (error: unknown) {
+      this.fail(next, toError(error));
+    }
+    this.logger.trace(`exit UploadSessionController.completeSession`);
+  };
+
+  /**
+   * Abandon an upload and discard what has been received
+   *
+   * @param req - Express Request object containing the session id in req.params.id
+   * @param res - Express Response object
+   * @param next - Express NextFunction for error handling middleware chain
+   * @returns Promise that resolves when the session is removed
+   */
+  abortSession = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    this.logger.trace(`enter UploadSessionController.abortSession`);
+    try {
+      const { ownerId, uploadedBy } = await this.resolveOwner(req);
+      await this.sessionService.abortSession(String(req.params["id"]), ownerId, uploadedBy);
+      res.status(204).end();
+    } catch (error: unknown) {
+      this.fail(next, toError(error));
+    }
+    this.logger.trace(`exit UploadSessionController.abortSession`);
+  };
+
+  /**
+   * Whose upload this is: the caller's own, or with ?owner= a patient who has delegated
+   * read/write access to the caller
+   * @throws {HttpError} 400 for a malformed owner, 403 if the caller may not upload for them
+   */
+  private async resolveOwner(req: Request): Promise<{ ownerId: string; uploadedBy: string }> {
+    const owner = req.query["owner"];
+    if (owner !== undefined && (typeof owner !== "string" || !/^[a-zA-Z0-9._-]{1,128}$/.test(owner))) {
+      throw new HttpError(400, "Invalid owner");
+    }
+    const principal = requirePrincipal(req);
+    const ownerId = owner ?? principal.userId;
+    await this.catalogService.authorizeUpload(ownerId, principal);
+    return { ownerId, uploadedBy: principal.userId };
+  }
+
+  /**
+   * Client-facing view of a session (the provider upload id and part receipts stay server-side)
+   */
+  private toSessionView(session: IUploadSession) {
+    return {
+      id: session.id,
+      filename: session.filename,
+      size: session.size,
+      offset: session.offset,
+      expiresAt: session.expiresAt,
+    };
+  }
+
+  private fail(next: NextFunction, err: Error): void {
+    this.logger.error("UploadSessionController caught an error:", err.message);
+    next(err); //push to global error handler
+  }
+}
@@ -1,3 +1,5 @@
+import type { UserType } from "../../../core/interfaces/access.interface.js";
+
 
 /**
  * Login response interface
@@ -6,8 +8,34 @@
 export interface ILoginResponse {
   success: boolean;
   token: string;
+  expiresAt: string; // ISO 8601
+  refreshToken?: string; // single use - exchange at /access/refresh for a new pair
+  refreshExpiresAt?: string;
+  sessionId?: string; // server-side session, where the provider keeps one
+  recoveryCodes?: string[]; // only when this login completed MFA enrolment - shown once
+  csrfToken?: string; // send as X-CSRF-Token on state-changing requests that rely on the cookies
   userId: string;
-  userType: string;
+  userType: UserType;
+}
+/**
+ * Login response for a user who must pass MFA first: exchange the challenge and a TOTP
+ * (or recovery) code at /access/mfa/verify for the real login response
+ */
+
+export interface IMfaChallengeResponse {
+  success: boolean;
+  mfaRequired: true;
+  challengeToken: string;
+  expiresAt: string; // ISO 8601
+  enrollment?: IMfaEnrollmentResponse; // the role requires MFA and the user has none yet
+}
+/**
+ * A new TOTP secret to load into an authenticator app
+ */
+
+export interface IMfaEnrollmentResponse {
+  secret: string; // base32
+  otpauthUri: string;
 }
 /**
  * Logout response interface
@@ -16,6 +44,7 @@ export interface ILoginResponse {
 export interface ILogoutResponse {
   success: boolean;
   userId: string;
+  revokedSessions?: number;
 }
 /**
  * Authentication response interface
@@ -1,3 +1,5 @@
+import type { IStorageUploadResult } from "../../../core/interfaces/storage.interface.js";
+
 export interface IFileUploadRequest {
     file: Express.Multer.File;
     metadata?: {
@@ -6,3 +8,19 @@ export interface IFileUploadRequest {
       category?: string;
     };
   }
+
+/**
+ * req.file as populated by the streaming upload middleware: the file was written
+ * straight to the provider, so there is no buffer, only the provider's result.
+ */
+export interface IStreamedUploadFile extends Express.Multer.File {
+    upload: IStorageUploadResult;
+  }
+
+declare global {
+  namespace Express {
+    interface Request {
+      uploadOwnerId?: string; // whose namespace an upload goes to; set by StorageController.authorizeUpload
+    }
+  }
+}
@@ -1,17 +1,24 @@
-import express from 'express';
+import express, { type RequestHandler } from 'express';
 import type { ILogger } from '../../../core/interfaces/logger.interface.js';
 import type { IAccessController } from '../../../core/interfaces/access.interface.js'
 import { getErrorMessage } from "../../../core/utilities/error.utility.js"
+import { requirePermission } from '../../../core/middleware/auth.middleware.js';
 
 /**
  * Create and configure access router
  * @param logger - Logger instance
  * @param controller - Auth controller instance
+ * @param authMiddleware - Authenticates the caller on the admin routes (see createAuthMiddleware)
  * @returns Express router
  */
-export function createAccessRouter(logger: ILogger, controller: IAccessController) {
+export function createAccessRouter(
+  logger: ILogger,
+  controller: IAccessController,
+  authMiddleware: RequestHandler
+) {
   logger.trace("Enter access.routes.createAccessRouter");
   const router = express.Router();
+  const isAdmin = requirePermission(logger, 'access:admin');
 
   /**
    * Login endpoint
@@ -19,8 +26,7 @@ export function createAccessRouter(logger: ILogger, controller: IAccessControlle
   router.post('/login', async (req, res, next) => {
     logger.trace('access.routes /login route hit, forwarding to controller');
     try {
-      const response = await controller.login(req, res, next);
-      res.json(response);
+      await controller.login(req, res, next);
     } catch (err) {
       const message = getErrorMessage(err);
       logger.error(`access.routes /login error: ${message}`);
@@ -34,8 +40,7 @@ export function createAccessRouter(logger: ILogger, controller: IAccessControlle
   router.post('/logout', async (req, res, next) => {
     logger.trace('access.routes /logout route hit, forwarding to controller');
     try {
-      const response = await controller.logout(req, res, next);
-      res.json(response);
+      await controller.logout(req, res, next);
     } catch (err) {
       const message = getErrorMessage(err);
       logger.error(`access.routes /logout error: ${message}`);
@@ -49,8 +54,7 @@ export function createAccessRouter(logger: ILogger, controller: IAccessControlle
   router.post('/authorize', async (req, res, next) => {
     logger.trace('access.routes /authorize route hit, forwarding to controller');
     try {
-      const response = await controller.authenticate(req, res, next);
-      res.json(response);
+      await controller.authenticate(req, res, next);
     } catch (err) {
       const message = getErrorMessage(err);
       logger.error('access.routes /authorize error:', err);
@@ -58,5 +62,71 @@ export function createAccessRouter(logger: ILogger, controller: IAccessControlle
     }
   });
 
+  /**
+   * Refresh endpoint - trade a refresh token for a new access/refresh token pair
+   */
+  router.post('/refresh', async (req, res, next) => {
+    logger.trace('access.routes /refresh route hit, forwarding to controller');
+    try {
+      await controller.refresh(req, res, next);
+    } catch (err) {
+      const message = getErrorMessage(err);
+      logger.error(`access.routes /refresh error: ${message}`);
+      res.status(401).json({ success: false, error: `Refresh failed: ${message}` });
+    }
+  });
+
+  /**
+   * CSRF token for cookie-authenticated clients - the same one login and refresh return
+   */
+  router.get('/csrf', async (req, res, next) => {
+    logger.trace('access.routes GET /csrf route hit, forwarding to controller');
+    await controller.csrf(req, res, next);
+  });
+
+  /**
+   * MFA endpoints - finish an MFA login; enrol the signed-in caller; admin reset
+   */
+  router.post('/mfa/verify', async (req, res, next) => {
+    logger.trace('access.routes /mfa/verify route hit, forwarding to controller');
+    await controller.verifyMfa(req, res, next);
+  });
+
+  router.post('/mfa/enroll', authMiddleware, async (req, res, next) => {
+    logger.trace('access.routes /mfa/enroll route hit, forwarding to controller');
+    await controller.enrollMfa(req, res, next);
+  });
+
+  router.post('/mfa/enroll/confirm', authMiddleware, async (req, res, next) => {
+    logger.trace('access.routes /mfa/enroll/confirm route hit, forwarding to controller');
+    await controller.confirmMfa(req, res, next);
+  });
+
+  router.delete('/users/:userId/mfa', authMiddleware, isAdmin, async (req, res, next) => {
+    logger.trace('access.routes DELETE /users/:userId/mfa route hit, forwarding to controller');
+    await controller.resetMfa(req, res, next);
+  });
+
+  /**
+   * Admin session endpoints - list a user's active sessions, kill one or all of them
+   */
+  router.get('/users/:userId/sessions', authMiddleware, isAdmin, async (req, res, next) => {
+    logger.trace('access.routes GET /users/:userId/sessions route hit, forwarding to controller');
+    await controller.listSessions(req, res, next);
+  });
+
+  router.delete(['/users/:userId/sessions', '/users/:userId/sessions/:sessionId'], authMiddleware, isAdmin, async (req, res, next) => {
+    logger.trace('access.routes DELETE /users/:userId/sessions route hit, forwarding to controller');
+    await controller.revokeSessions(req, res, next);
+  });
+
+  /**
+   * Admin lockout endpoint - clear a username's failed login backoff or lockout
+   */
+  router.delete('/lockouts/:username', authMiddleware, isAdmin, async (req, res, next) => {
+    logger.trace('access.routes DELETE /lockouts/:username route hit, forwarding to controller');
+    await controller.unlockAccount(req, res, next);
+  });
+
   return router;
 }
@@ -0,0 +1,46 @@
+import express from 'express';
+import type { ILogger } from '../../../core/interfaces/logger.interface.js';
+import type { IAccountController } from '../../../core/interfaces/account.interface.js'
+
+/**
+ * Create and configure the account self-service router.  None of these routes need a
+ * login - they are how a user gets back in - so the token in the body is the credential.
+ * @param logger - Logger instance
+ * @param controller - Account controller instance
+ * @returns Express router
+ */
+export function createAccountRouter(
+  logger: ILogger,
+  controller: IAccountController
+) {
+  logger.trace("Enter account.routes.createAccountRouter");
+  const router = express.Router();
+
+  /**
+   * Password reset - ask for a link, then set a new password with its token
+   */
+  router.post('/password/forgot', async (req, res, next) => {
+    logger.trace('account.routes POST /password/forgot route hit, forwarding to controller');
+    await controller.forgotPassword(req, res, next);
+  });
+
+  router.post('/password/reset', async (req, res, next) => {
+    logger.trace('account.routes POST /password/reset route hit, forwarding to controller');
+    await controller.resetPassword(req, res, next);
+  });
+
+  /**
+   * Email verification - ask for a new link, then confirm with its token
+   */
+  router.post('/email/verify/request', async (req, res, next) => {
+    logger.trace('account.routes POST /email/verify/request route hit, forwarding to controller');
+    await controller.requestVerification(req, res, next);
+  });
+
+  router.post('/email/verify', async (req, res, next) => {
+    logger.trace('account.routes POST /email/verify route hit, forwarding to controller');
+    await controller.verifyEmail(req, res, next);
+  });
+
+  return router;
+}
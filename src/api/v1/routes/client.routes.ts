@@ -0,0 +1,59 @@
+import express, { type RequestHandler } from 'express';
+import type { ILogger } from '../../../core/interfaces/logger.interface.js';
+import type { IClientController } from '../../../core/interfaces/client.interface.js'
+import { requirePermission } from '../../../core/middleware/auth.middleware.js';
+
+/**
+ * Create and configure the API client router
+ * @param logger - Logger instance
+ * @param controller - Client controller instance
+ * @param authMiddleware - Authenticates the caller on the admin routes (see createAuthMiddleware)
+ * @returns Express router
+ */
+export function createClientRouter(
+  logger: ILogger,
+  controller: IClientController,
+  authMiddleware: RequestHandler
+) {
+  logger.trace("Enter client.routes.createClientRouter");
+  const router = express.Router();
+  const isAdmin = requirePermission(logger, 'access:admin');
+
+  /**
+   * Token endpoint - OAuth 2.0 clients usually send their request form encoded
+   */
+  router.post('/token', express.urlencoded({ extended: false }), async (req, res, next) => {
+    logger.trace('client.routes POST /token route hit, forwarding to controller');
+    await controller.token(req, res, next);
+  });
+
+  /**
+   * Admin client management - register, list, rescope, rotate and revoke
+   */
+  router.post('/', authMiddleware, isAdmin, async (req, res, next) => {
+    logger.trace('client.routes POST / route hit, forwarding to controller');
+    await controller.create(req, res, next);
+  });
+
+  router.get('/', authMiddleware, isAdmin, async (req, res, next) => {
+    logger.trace('client.routes GET / route hit, forwarding to controller');
+    await controller.list(req, res, next);
+  });
+
+  router.patch('/:clientId', authMiddleware, isAdmin, async (req, res, next) => {
+    logger.trace('client.routes PATCH /:clientId route hit, forwarding to controller');
+    await controller.update(req, res, next);
+  });
+
+  router.post('/:clientId/rotate', authMiddleware, isAdmin, async (req, res, next) => {
+    logger.trace('client.routes POST /:clientId/rotate route hit, forwarding to controller');
+    await controller.rotate(req, res, next);
+  });
+
+  router.delete('/:clientId', authMiddleware, isAdmin, async (req, res, next) => {
+    logger.trace('client.routes DELETE /:clientId route hit, forwarding to controller');
+    await controller.revoke(req, res, next);
+  });
+
+  return router;
+}
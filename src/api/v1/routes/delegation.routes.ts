@@ -0,0 +1,44 @@
+import express from 'express';
+import type { ILogger } from '../../../core/interfaces/logger.interface.js';
+import type { IDelegationController } from '../../../core/interfaces/delegation.interface.js'
+import { requirePermission } from '../../../core/middleware/auth.middleware.js';
+
+/**
+ * Create and configure the delegation router; mount it behind the auth middleware
+ * @param logger - Logger instance
+ * @param controller - Delegation controller instance
+ * @returns Express router
+ */
+export function createDelegationRouter(
+  logger: ILogger,
+  controller: IDelegationController
+) {
+  logger.trace("Enter delegation.routes.createDelegationRouter");
+  const router = express.Router();
+
+  /**
+   * Grant a caregiver access to a patient's files
+   */
+  router.post('/', requirePermission(logger, 'delegation:grant'), async (req, res, next) => {
+    logger.trace('delegation.routes POST / route hit, forwarding to controller');
+    await controller.grant(req, res, next);
+  });
+
+  /**
+   * Delegations the caller has granted and received
+   */
+  router.get('/', async (req, res, next) => {
+    logger.trace('delegation.routes GET / route hit, forwarding to controller');
+    await controller.list(req, res, next);
+  });
+
+  /**
+   * Revoke a delegation - the patient, the delegate or an admin
+   */
+  router.delete('/:id', async (req, res, next) => {
+    logger.trace('delegation.routes DELETE /:id route hit, forwarding to controller');
+    await controller.revoke(req, res, next);
+  });
+
+  return router;
+}
@@ -1,14 +1,15 @@
 import express from "express";
 import type { ILogger } from "../../../core/interfaces/logger.interface.js";
-import { getErrorMessage } from "../../../core/utilities/error.utility.js";
+import type { IHealthController } from "../../../core/interfaces/health.interface.js";
 
 
 /**
  * Create and configure health router
  * @param logger - Logger instance
+ * @param controller - Health controller instance
  * @returns Express router
  */
-export function createHealthRouter(logger: ILogger) {
+export function createHealthRouter(logger: ILogger, controller: IHealthController) {
   logger.trace("Enter health.routes.createHealthRouter");
 
   const router = express.Router();
@@ -16,23 +17,18 @@ export function createHealthRouter(logger: ILogger) {
   /**
    *  To see if the container is running. (/health/live)
    */
-  router.get("/live", (_req, res) => {
-    res.status(200).json({ status: "UP", timestamp: new Date() });
+  router.get("/live", async (req, res, next) => {
+    await controller.live(req, res, next);
   });
 
   /**
-   * Checks if running and dependencies (DB, Storage) are actually 
+   * Checks if running and dependencies (storage, access provider) are actually
    * reachable. (/health/ready)
    */
-  router.get("/ready", async (_req, res) => {
-    try {
-      //check sub-systems (storage, authorization, database, etc)
-      res.status(200).json({ status: "READY", services: { storage: "UP" } });
-    } catch (err) {
-      const message = getErrorMessage(err);
-      res.status(503).json({ status: "DOWN", error: message });
-    }
+  router.get("/ready", async (req, res, next) => {
+    logger.trace("health.routes GET /ready route hit, forwarding to controller");
+    await controller.ready(req, res, next);
   });
 
   return router;
-}
\ No newline at end of file
+}
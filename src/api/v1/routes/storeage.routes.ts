@@ -1,47 +1,115 @@
-import express from 'express';
+import express, { type RequestHandler } from 'express';
+import multer from 'multer';
 import type { ILogger } from '../../../core/interfaces/logger.interface.js';
 import type { IStorageController } from '../../../core/interfaces/storage.interface.js'
-import { getErrorMessage } from '../../../core/utilities/error.utility.js';
+import type { IUploadSessionController } from '../../../core/interfaces/upload-session.interface.js'
+import type { IFileCatalogController } from '../../../core/interfaces/file-catalog.interface.js'
+import { HttpError } from '../../../core/utilities/error.utility.js';
 import { uploadLimiter, downloadLimiter } from '../../../core/middleware/rate-limit.middleware.js';
+import { requirePermission } from '../../../core/middleware/auth.middleware.js';
 
 /**
  * Create and configure storage router
  * @param logger - Logger instance
  * @param controller - Storage controller instance
+ * @param uploadMiddleware - Multipart middleware that streams the file to storage (see createUploadMiddleware)
+ * @param sessionController - Resumable upload session controller
+ * @param catalogController - File catalog controller
  * @returns Express router
  */
-export function createStoreRouter(logger: ILogger, controller: IStorageController) {
+export function createStoreRouter(
+  logger: ILogger,
+  controller: IStorageController,
+  uploadMiddleware: RequestHandler,
+  sessionController: IUploadSessionController,
+  catalogController: IFileCatalogController
+) {
   logger.trace("Enter store.routes.createStoreRouter");
   const router = express.Router();
+  // Per-file ownership is checked further in; these gate each route on the caller's role
+  const canUpload = requirePermission(logger, 'storage:upload');
+  const canRead = requirePermission(logger, 'storage:read:own');
+  const canDelete = requirePermission(logger, 'storage:delete');
 
   /**
-   * Upload endpoint to send files to the storage system
+   * Upload endpoint to send files to the storage system.  Optional description, tags
+   * and category form fields are recorded in the file catalog; ?owner=<patientId>
+   * uploads for a patient who has delegated read/write access to the caller.
    */
-  router.post('/upload', uploadLimiter, async (req, res, next) => {
-    logger.trace('auth.routes /upload route hit, forwarding to controller');
-    try {
-      const response = await controller.uploadFileToStorage(req, res, next);
-      res.json(response);
-    } catch (err) {
-      const message = getErrorMessage(err);
-      logger.error(`store.routes /upload error: ${message}`);
-      res.status(500).json({ success: false, error: `upload failed: ${message}` });
-    }
+  router.post('/upload', uploadLimiter, canUpload, controller.authorizeUpload, uploadMiddleware, async (req, res, next) => {
+    logger.trace('store.routes /upload route hit, forwarding to controller');
+    await controller.uploadFileToStorage(req, res, next);
   });
 
   /**
-   * Download endpoint to get files from the storage system
+   * Download endpoint to get files from the storage system - from the caller's own
+   * namespace, or another owner's when the caller's role allows it.  Express routes
+   * HEAD here too; the controller streams (or, for HEAD/304, omits) the body itself.
    */
-  router.get('/download', downloadLimiter, async (req, res, next) => {
+  router.get(['/download/:filename', '/download/:owner/:filename'], downloadLimiter, canRead, async (req, res, next) => {
     logger.trace('store.routes /download route hit, forwarding to controller');
-    try {
-      const response = await controller.downloadFileFromStorage(req, res, next);
-      res.json(response);
-    } catch (err) {
-      const message = getErrorMessage(err);
-      logger.error(`store.routes /download error: ${message}`);
-      res.status(500).json({ success: false, error: `download failed: ${message}` });
+    await controller.downloadFileFromStorage(req, res, next);
+  });
+
+  /**
+   * Resumable upload sessions - create, query offset (HEAD), send chunks (PATCH),
+   * finalize and abort.  The controller sends its own (often body-less) responses.
+   * ?owner=<patientId> uploads for a patient, as on /upload.
+   */
+  router.post('/uploads', canUpload, async (req, res, next) => {
+    logger.trace('store.routes POST /uploads route hit, forwarding to controller');
+    await sessionController.createSession(req, res, next);
+  });
+
+  router.head('/uploads/:id', canUpload, async (req, res, next) => {
+    logger.trace('store.routes HEAD /uploads/:id route hit, forwarding to controller');
+    await sessionController.getSessionOffset(req, res, next);
+  });
+
+  router.patch('/uploads/:id', canUpload, async (req, res, next) => {
+    logger.trace('store.routes PATCH /uploads/:id route hit, forwarding to controller');
+    await sessionController.appendChunk(req, res, next);
+  });
+
+  router.post('/uploads/:id/complete', canUpload, async (req, res, next) => {
+    logger.trace('store.routes POST /uploads/:id/complete route hit, forwarding to controller');
+    await sessionController.completeSession(req, res, next);
+  });
+
+  router.delete('/uploads/:id', canUpload, async (req, res, next) => {
+    logger.trace('store.routes DELETE /uploads/:id route hit, forwarding to controller');
+    await sessionController.abortSession(req, res, next);
+  });
+
+  /**
+   * File catalog - list (paged, filterable), stat and delete stored files
+   */
+  router.get('/files', canRead, async (req, res, next) => {
+    logger.trace('store.routes GET /files route hit, forwarding to controller');
+    await catalogController.listFiles(req, res, next);
+  });
+
+  router.get('/files/:id', canRead, async (req, res, next) => {
+    logger.trace('store.routes GET /files/:id route hit, forwarding to controller');
+    await catalogController.getFile(req, res, next);
+  });
+
+  router.delete('/files/:id', canDelete, async (req, res, next) => {
+    logger.trace('store.routes DELETE /files/:id route hit, forwarding to controller');
+    await catalogController.deleteFile(req, res, next);
+  });
+
+  /**
+   * Multer reports malformed multipart requests (wrong field name, too many files, etc)
+   * as MulterErrors; those are client errors, not server faults
+   */
+  router.use((err: unknown, _req: express.Request, _res: express.Response, next: express.NextFunction) => {
+    if (err instanceof multer.MulterError) {
+      logger.warn(`store.routes rejected multipart request: ${err.code}`);
+      next(new HttpError(400, err.message));
+      return;
     }
+    next(err);
   });
 
   return router;
@@ -0,0 +1,94 @@
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { AccountService } from "../account.service.js";
+import { FileAccountTokenStore } from "../../../../core/stores/account-token.store.js";
+import { MemoryLoginFailureStore } from "../../../../core/stores/login-failure.store.js";
+import { FileUserStore } from "../../../../core/stores/user.store.js";
+import { LockoutService } from "../../../../core/security/lockout.service.js";
+import { hashPassword, verifyPassword } from "../../../../core/utilities/password.utility.js";
+import { mockLogger } from "../../../../test/mocks.js";
+
+const TOKEN = "reset-token";
+const NEW_PASSWORD = "An0ther-Str0ng-Passw0rd!";
+
+describe("AccountService.resetPassword", () => {
+  let dir: string;
+  let users: FileUserStore;
+  let tokens: FileAccountTokenStore;
+  let lockout: LockoutService;
+  let service: AccountService;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "account-service-"));
+    users = new FileUserStore(path.join(dir, "users.json"));
+    tokens = new FileAccountTokenStore(path.join(dir, "account-tokens.json"));
+    lockout = new LockoutService(mockLogger(), new MemoryLoginFailureStore(), {
+      maxFailures: 2,
+      lockoutSeconds: 900,
+      backoffBaseMs: 0,
+      backoffMaxMs: 0,
+      failureWindowSeconds: 900,
+    });
+    service = new AccountService(
+      mockLogger(),
+      users,
+      tokens,
+      { send: async () => {} },
+      undefined,
+      undefined,
+      undefined,
+      lockout
+    );
+
+    const now = new Date();
+    await users.save({
+      id: "user-1",
+      username: "jdoe",
+      passwordHash: await hashPassword("Old-Passw0rd-123!"),
+      userType: "patient",
+      disabled: false,
+      email: "jdoe@example.com",
+      emailVerified: true,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    });
+    await tokens.save({
+      tokenHash: crypto.createHash("sha256").update(TOKEN).digest("hex"),
+      purpose: "password-reset",
+      userId: "user-1",
+      email: "jdoe@example.com",
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + 60000).toISOString(),
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("lets only one of two concurrent resets use the token", async () => {
+    const results = await Promise.allSettled([
+      service.resetPassword(TOKEN, NEW_PASSWORD),
+      service.resetPassword(TOKEN, "S0me-Other-Passw0rd!"),
+    ]);
+
+    expect(results.filter((r) => r.status === "fulfilled")).toHaveLength(1);
+    const rejected = results.find((r) => r.status === "rejected");
+    expect((rejected as PromiseRejectedResult).reason).toMatchObject({ statusCode: 400 });
+    expect(await tokens.list()).toEqual([]);
+  });
+
+  it("lifts a lockout once the password has been reset", async () => {
+    await lockout.recordFailure("jdoe");
+    await lockout.recordFailure("jdoe");
+    await expect(lockout.assertCanAttempt("jdoe")).rejects.toMatchObject({ statusCode: 429 });
+
+    await service.resetPassword(TOKEN, NEW_PASSWORD);
+
+    await expect(lockout.assertCanAttempt("jdoe")).resolves.toBeUndefined();
+    const user = await users.get("user-1");
+    expect(await verifyPassword(NEW_PASSWORD, user!.passwordHash)).toBe(true);
+  });
+});
@@ -0,0 +1,65 @@
+import { HealthService } from "../health.service.js";
+import type { IHealthCheckResult, IHealthDependency } from "../../../../core/interfaces/health.interface.js";
+import { mockLogger } from "../../../../test/mocks.js";
+
+describe("HealthService", () => {
+  const config = { timeoutMs: 50, cacheMs: 60000 };
+
+  function dependency(name: string, critical: boolean, check: () => Promise<IHealthCheckResult>): IHealthDependency {
+    return { name, critical, check };
+  }
+
+  const up = () => Promise.resolve<IHealthCheckResult>({ status: "UP" });
+
+  it("should be DOWN only when a critical dependency is", async () => {
+    const degraded = new HealthService(mockLogger(), [
+      dependency("storage", true, up),
+      dependency("mail", false, () => Promise.resolve({ status: "DOWN", detail: "SMTP refused" })),
+    ], config);
+    const down = new HealthService(mockLogger(), [
+      dependency("storage", true, () => Promise.resolve({ status: "DOWN", detail: "Bucket could not be reached (403)" })),
+    ], config);
+
+    await expect(degraded.checkReadiness()).resolves.toMatchObject({
+      status: "READY",
+      services: { storage: { status: "UP" }, mail: { status: "DOWN", critical: false, error: "SMTP refused" } },
+    });
+    await expect(down.checkReadiness()).resolves.toMatchObject({
+      status: "DOWN",
+      services: { storage: { status: "DOWN", error: "Bucket could not be reached (403)" } },
+    });
+  });
+
+  it("should give up on a probe at the timeout and hide the error a probe throws", async () => {
+    const service = new HealthService(mockLogger(), [
+      dependency("storage", true, () => new Promise(() => undefined)),
+      dependency("access", true, () => Promise.reject(new Error("connect ECONNREFUSED idp.internal:443"))),
+    ], config);
+
+    const report = await service.checkReadiness();
+
+    expect(report.status).toBe("DOWN");
+    expect(report.services["storage"]).toMatchObject({ status: "DOWN", error: "Timed out after 50ms" });
+    expect(report.services["storage"]!.latencyMs).toBeGreaterThanOrEqual(45);
+    expect(report.services["access"]).toMatchObject({ status: "DOWN", error: "Health check failed" });
+  });
+
+  it("should share one round of probes between concurrent callers and reuse it until it expires", async () => {
+    let probes = 0;
+    const service = new HealthService(mockLogger(), [
+      dependency("storage", true, async () => {
+        probes++;
+        return { status: "UP" };
+      }),
+    ], { timeoutMs: 50, cacheMs: 30 });
+
+    const [first, second] = await Promise.all([service.checkReadiness(), service.checkReadiness()]);
+    expect(second).toBe(first);
+    await service.checkReadiness();
+    expect(probes).toBe(1);
+
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    await service.checkReadiness();
+    expect(probes).toBe(2);
+  });
+});
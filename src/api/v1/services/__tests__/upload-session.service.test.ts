@@ -0,0 +1,179 @@
+import { Readable } from "stream";
+import { UploadSessionService } from "../upload-session.service.js";
+import type { IStorage } from "../../../../core/interfaces/storage.interface.js";
+import type { IFileCatalogService, IFileRecord } from "../../../../core/interfaces/file-catalog.interface.js";
+import type { IUploadSession, IUploadSessionStore } from "../../../../core/interfaces/upload-session.interface.js";
+import { mockLogger } from "../../../../test/mocks.js";
+
+describe("UploadSessionService.completeSession", () => {
+  const originalEnv = { ...process.env };
+  let sessions: Map<string, IUploadSession>;
+  let store: IUploadSessionStore;
+  let catalog: IFileCatalogService;
+
+  beforeEach(() => {
+    process.env["INTEGRITY_CHECK"] = "SHA256";
+    sessions = new Map();
+    store = {
+      get: async (id) => sessions.get(id),
+      save: async (session) => {
+        sessions.set(session.id, session);
+      },
+      delete: async (id) => {
+        sessions.delete(id);
+      },
+      listExpired: async () => [],
+    };
+    catalog = {
+      registerUpload: async (upload) => ({ id: "file-1", size: upload.size, hash: upload.hash }) as unknown as IFileRecord,
+    } as unknown as IFileCatalogService;
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  function addSession(overrides: Partial<IUploadSession> = {}): IUploadSession {
+    const session: IUploadSession = {
+      id: "session-1",
+      ownerId: "owner-1",
+      filename: "owner-1/1-scan.png",
+      originalName: "scan.png",
+      mimeType: "image/png",
+      size: 4,
+      offset: 4,
+      providerUploadId: "upload-1",
+      parts: [{ partNumber: 1, size: 4 }],
+      metadata: {},
+      createdAt: new Date().toISOString(),
+      expiresAt: new Date(Date.now() + 60000).toISOString(),
+      ...overrides,
+    };
+    sessions.set(session.id, session);
+    return session;
+  }
+
+  function storage(overrides: Partial<IStorage>): IStorage {
+    return {
+      completeChunkedUpload: async (filename: string) => ({ filename, path: filename, size: 4, timestamp: new Date() }),
+      ...overrides,
+    } as IStorage;
+  }
+
+  it("should fail, not hang, when the read-back for hashing breaks part way", async () => {
+    addSession();
+    const broken = new Readable({ read() {} });
+    const service = new UploadSessionService(mockLogger(), storage({
+      downloadFileFromStorage: async () => {
+        setImmediate(() => {
+          broken.push(Buffer.from("ab"));
+          broken.destroy(new Error("connection reset"));
+        });
+        return broken;
+      },
+    }), store, catalog);
+
+    await expect(service.completeSession("session-1", "owner-1")).rejects.toThrow("connection reset");
+    // The session is kept so the client can try again
+    expect(sessions.has("session-1")).toBe(true);
+  });
+
+  it("should hash the assembled object when the provider did not", async () => {
+    addSession();
+    const service = new UploadSessionService(mockLogger(), storage({
+      downloadFileFromStorage: async () => Readable.from([Buffer.from("abcd")]),
+    }), store, catalog);
+
+    const stored = await service.completeSession("session-1", "owner-1");
+
+    expect(stored.upload.hash).toBe("88d4266fd4e6338d13b845fcf289579d209c897823b9217da3e161936f031589");
+    expect(sessions.has("session-1")).toBe(false);
+  });
+
+  it("should not assemble again when a completion is retried after cataloguing failed", async () => {
+    addSession();
+    let assembled = 0;
+    const service = new UploadSessionService(mockLogger(), storage({
+      completeChunkedUpload: async (filename: string) => {
+        assembled++;
+        return { filename, path: filename, size: 4, timestamp: new Date(), hash: "abc" };
+      },
+    }), store, catalog);
+    const registerUpload = catalog.registerUpload;
+    catalog.registerUpload = async () => {
+      throw new Error("catalog unavailable");
+    };
+
+    await expect(service.completeSession("session-1", "owner-1")).rejects.toThrow("catalog unavailable");
+    expect(sessions.get("session-1")?.assembled).toMatchObject({ size: 4, hash: "abc" });
+
+    catalog.registerUpload = registerUpload;
+    await expect(service.completeSession("session-1", "owner-1")).resolves.toMatchObject({ upload: { hash: "abc" }, file: { id: "file-1" } });
+    expect(assembled).toBe(1);
+    expect(sessions.has("session-1")).toBe(false);
+  });
+
+  it("should leave a session being completed to the completion when it expires", async () => {
+    addSession();
+    let assemble: () => void = () => undefined;
+    const aborted: string[] = [];
+    const service = new UploadSessionService(mockLogger(), storage({
+      completeChunkedUpload: (filename: string) =>
+        new Promise((resolve) => {
+          assemble = () => resolve({ filename, path: filename, size: 4, timestamp: new Date(), hash: "abc" });
+        }),
+      abortChunkedUpload: async (filename: string) => {
+        aborted.push(filename);
+      },
+    }), store, catalog);
+    store.listExpired = async () => [...sessions.values()];
+
+    const completing = service.completeSession("session-1", "owner-1");
+    await new Promise((resolve) => setImmediate(resolve));
+    await expect(service.purgeExpired()).resolves.toBe(0);
+    assemble();
+
+    await expect(completing).resolves.toMatchObject({ file: { id: "file-1" } });
+    expect(aborted).toEqual([]);
+  });
+
+  it("should refuse with 409 to complete twice at once, or while the last chunk is still being saved", async () => {
+    addSession({ offset: 0, parts: [] });
+    let assemble: () => void = () => undefined;
+    const service = new UploadSessionService(mockLogger(), storage({
+      uploadChunk: async (_filename, _uploadId, partNumber, stream, size) => {
+        for await (const _chunk of stream) {
+          // drain
+        }
+        return { partNumber, size };
+      },
+      completeChunkedUpload: (filename: string) =>
+        new Promise((resolve) => {
+          assemble = () => resolve({ filename, path: filename, size: 4, timestamp: new Date(), hash: "abc" });
+        }),
+    }), store, catalog);
+
+    // The chunk's offset is recorded before the session is saved
+    let saved: () => void = () => undefined;
+    const save = store.save;
+    store.save = (session) => new Promise((resolve) => {
+      saved = () => resolve(save(session));
+    });
+    const appending = service.appendChunk("session-1", "owner-1", 0, 4, Readable.from([Buffer.from("abcd")]));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await expect(service.completeSession("session-1", "owner-1")).rejects.toMatchObject({ statusCode: 409 });
+    saved();
+    await appending;
+    store.save = save;
+
+    const completing = service.completeSession("session-1", "owner-1");
+    await new Promise((resolve) => setImmediate(resolve));
+    await expect(service.completeSession("session-1", "owner-1")).rejects.toMatchObject({
+      statusCode: 409,
+      message: "Upload is already being completed",
+    });
+    await expect(service.abortSession("session-1", "owner-1")).rejects.toMatchObject({ statusCode: 409 });
+    assemble();
+    await expect(completing).resolves.toMatchObject({ file: { id: "file-1" } });
+  });
+});
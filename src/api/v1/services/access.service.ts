@@ -1,14 +1,28 @@
 import type {
   IAccess,
   IAccessService,
+  IPrincipal,
 } from "../../../core/interfaces/access.interface.js";
 import type {
   IAuthenticatonResponse,
   ILoginResponse,
-  ILogoutResponse
+  ILogoutResponse,
+  IMfaChallengeResponse,
+  IMfaEnrollmentResponse,
 } from "../interfaces/access.response.interface.js";
 import type { ILogger } from "../../../core/interfaces/logger.interface.js";
-import { toError } from "../../../core/utilities/error.utility.js";
+import type {
+  IIssuedRefreshToken,
+  IRefreshTokenService,
+} from "../../../core/interfaces/refresh-token.interface.js";
+import type {
+  ISessionService,
+  ISessionSummary,
+} from "../../../core/interfaces/session.interface.js";
+import type { ILockoutService } from "../../../core/interfaces/lockout.interface.js";
+import type { IMfaService } from "../../../core/interfaces/mfa.interface.js";
+import { HttpError, toError } from "../../../core/utilities/error.utility.js";
+import { recordLogin, type LoginStep } from "../../../core/utilities/metrics.utility.js";
 
 /**
  * Authentication service handling business logic
@@ -16,35 +30,72 @@ import { toError } from "../../../core/utilities/error.utility.js";
 export class AccessService implements IAccessService {
   access: IAccess;
   logger: ILogger;
+  refreshTokens: IRefreshTokenService | undefined;
+  sessions: ISessionService | undefined;
+  lockout: ILockoutService | undefined;
+  mfa: IMfaService | undefined;
 
   /**
    * Constructor
    * @param logger - Logger instance
    * @param access - Access instance (provider specific - use factory to discover)
+   * @param refreshTokens - Refresh token service; without it login returns an access token only
+   * @param sessions - Session service; without it logout cannot revoke anything
+   * @param lockout - Per-account backoff and lockout on failed logins
+   * @param mfa - TOTP second factor; without it a password alone logs in
    */
-  constructor(logger: ILogger, access: IAccess) {
+  constructor(
+    logger: ILogger,
+    access: IAccess,
+    refreshTokens?: IRefreshTokenService,
+    sessions?: ISessionService,
+    lockout?: ILockoutService,
+    mfa?: IMfaService
+  ) {
     this.access = access;
     this.logger = logger;
+    this.refreshTokens = refreshTokens;
+    this.sessions = sessions;
+    this.lockout = lockout;
+    this.mfa = mfa;
   }
 
   /**
-   * Process login request
+   * Process login request.  A username still backing off or locked out after failed
+   * logins is refused with 429 before the provider sees the password.  A user who must
+   * pass MFA gets a challenge to complete at verifyMfa instead of a token, and their
+   * failure count is only cleared once they have.
    * @param req - Express request object
-   * @returns Promise<ILoginResponse>
+   * @returns Promise<ILoginResponse | IMfaChallengeResponse>
    */
   login = async (
     username: string,
     password: string
-  ): Promise<ILoginResponse> => {
+  ): Promise<ILoginResponse | IMfaChallengeResponse> => {
     this.logger.trace(`enter AccessService.login with username ${username}`);
 
-    let response: ILoginResponse;
+    let response: ILoginResponse | IMfaChallengeResponse;
     try {
-      response = (await this.access.login(
-        username,
-        password
-      )) as ILoginResponse;
+      await this.lockout?.assertCanAttempt(username);
+      let principal: IPrincipal;
+      try {
+        principal = await this.access.verifyCredentials(username, password);
+      } catch (error: unknown) {
+        if (error instanceof HttpError && error.statusCode === 401) {
+          await this.lockout?.recordFailure(username);
+        }
+        throw error;
+      }
+      if (this.mfa && (await this.mfa.isRequired(principal))) {
+        response = await this.mfa.createChallenge(principal, username);
+        recordLogin("password", "mfa_challenge");
+      } else {
+        await this.lockout?.recordSuccess(username);
+        response = await this.completeLogin(principal);
+        recordLogin("password", "success");
+      }
     } catch (error: unknown) {
+      recordLoginFailure("password", error);
       const err = toError(error); //convert to Error object
       this.logger.error(
         "Exit AccessService.login caught an error:",
@@ -58,16 +109,99 @@ export class AccessService implements IAccessService {
   };
 
   /**
-   * Process logout request
+   * Second step of an MFA login: exchange the challenge and a TOTP or recovery code for
+   * the tokens.  Wrong codes count against the username's lockout like wrong passwords.
+   * @param challengeToken - from the login response
+   * @param code
+   * @returns Promise<ILoginResponse>, with the recovery codes if this login completed enrolment
+   */
+  async verifyMfa(challengeToken: string, code: string): Promise<ILoginResponse> {
+    this.logger.trace(`enter AccessService.verifyMfa`);
+
+    const mfa = this.requireMfa();
+    let response: ILoginResponse;
+    try {
+      const { username } = await mfa.getChallenge(challengeToken);
+      await this.lockout?.assertCanAttempt(username);
+      let verified: Awaited<ReturnType<IMfaService["verifyChallenge"]>>;
+      try {
+        verified = await mfa.verifyChallenge(challengeToken, code);
+      } catch (error: unknown) {
+        if (error instanceof HttpError && error.statusCode === 401) {
+          await this.lockout?.recordFailure(username);
+        }
+        throw error;
+      }
+      await this.lockout?.recordSuccess(username);
+      response = await this.completeLogin(verified.principal);
+      if (verified.recoveryCodes) {
+        response = { ...response, recoveryCodes: verified.recoveryCodes };
+      }
+      recordLogin("mfa", "success");
+    } catch (error: unknown) {
+      recordLoginFailure("mfa", error);
+      const err = toError(error); //convert to Error object
+      this.logger.warn(`AccessService.verifyMfa rejected a code: ${err.message}`);
+      throw err;
+    }
+
+    this.logger.trace(`exit AccessService.verifyMfa for ${response.userId}`);
+    return response;
+  }
+
+  /**
+   * Start MFA enrolment for a signed-in user
+   * @param principal
+   * @returns Promise<IMfaEnrollmentResponse>
+   */
+  async enrollMfa(principal: IPrincipal): Promise<IMfaEnrollmentResponse> {
+    this.logger.trace(`enter AccessService.enrollMfa for ${principal.userId}`);
+    return this.requireMfa().beginEnrollment(principal);
+  }
+
+  /**
+   * Finish MFA enrolment with the first code from the authenticator app
+   * @param principal
+   * @param code
+   * @returns the recovery codes
+   */
+  async confirmMfa(principal: IPrincipal, code: string): Promise<string[]> {
+    this.logger.trace(`enter AccessService.confirmMfa for ${principal.userId}`);
+    return this.requireMfa().confirmEnrollment(principal, code);
+  }
+
+  /**
+   * Remove a user's MFA enrolment; if their role requires MFA they enrol again at next login
    * @param userId
+   * @returns whether they were enrolled
+   */
+  async resetMfa(userId: string): Promise<boolean> {
+    this.logger.trace(`enter AccessService.resetMfa for ${userId}`);
+    return this.requireMfa().reset(userId);
+  }
+
+  /**
+   * Process logout request - the session to end is the one the token belongs to
+   * @param token - the caller's access token
+   * @param everywhere - end every session the user has, not just this one
    * @returns Promise<ILogoutResponse>
    */
-  async logout(userId: string): Promise<ILogoutResponse> {
-    this.logger.trace(`enter AccessService.logout with userId ${userId}`);
+  async logout(token: string, everywhere: boolean): Promise<ILogoutResponse> {
+    this.logger.trace(`enter AccessService.logout${everywhere ? " everywhere" : ""}`);
 
     let response: ILogoutResponse;
     try {
-      response = (await this.access.logout(userId)) as ILogoutResponse;
+      const principal = await this.access.verifyToken(token);
+      let revokedSessions = 0;
+      if (everywhere) {
+        revokedSessions = (await this.sessions?.revokeAll(principal.userId)) ?? 0;
+      } else if (principal.sessionId && (await this.sessions?.revokeSession(principal.sessionId))) {
+        revokedSessions = 1;
+      }
+      response = {
+        ...((await this.access.logout(principal.userId)) as ILogoutResponse),
+        revokedSessions,
+      };
     } catch (error: unknown) {
       const err = toError(error); //convert to Error object
       this.logger.error(
@@ -110,4 +244,151 @@ export class AccessService implements IAccessService {
     this.logger.trace("exit AccessService.authenticate");
     return response;
   }
+
+  /**
+   * Resolve the caller behind a request token
+   * @param token
+   * @returns Promise<IPrincipal>
+   */
+  async verifyToken(token: string): Promise<IPrincipal> {
+    this.logger.trace(`enter AccessService.verifyToken`);
+
+    let principal: IPrincipal;
+    try {
+      principal = await this.access.verifyToken(token);
+    } catch (error: unknown) {
+      const err = toError(error); //convert to Error object
+      this.logger.warn(`AccessService.verifyToken rejected a token: ${err.message}`);
+      throw err;
+    }
+
+    this.logger.trace(`exit AccessService.verifyToken for ${principal.userId}`);
+    return principal;
+  }
+
+  /**
+   * Exchange a refresh token for a new access token and its replacement refresh token
+   * @param refreshToken
+   * @returns Promise<ILoginResponse>
+   */
+  async refresh(refreshToken: string): Promise<ILoginResponse> {
+    this.logger.trace(`enter AccessService.refresh`);
+
+    if (!this.refreshTokens) {
+      throw new HttpError(400, "Refresh tokens are not enabled");
+    }
+
+    let response: ILoginResponse;
+    try {
+      const { principal, refreshToken: next } = await this.refreshTokens.rotate(refreshToken);
+      try {
+        response = withRefreshToken(await this.access.reissue(principal), next);
+        await this.sessions?.extend(next.familyId, next.expiresAt);
+      } catch (error: unknown) {
+        // The account may no longer sign in - don't leave it a working refresh token
+        await this.refreshTokens.revokeFamily(next.familyId);
+        throw error;
+      }
+    } catch (error: unknown) {
+      const err = toError(error); //convert to Error object
+      this.logger.warn(`AccessService.refresh rejected a refresh token: ${err.message}`);
+      throw err;
+    }
+
+    this.logger.trace(`exit AccessService.refresh for ${response.userId}`);
+    return response;
+  }
+
+  /**
+   * A user's active sessions
+   * @param userId
+   * @returns Promise<ISessionSummary[]>
+   */
+  async listSessions(userId: string): Promise<ISessionSummary[]> {
+    this.logger.trace(`enter AccessService.listSessions for ${userId}`);
+    return this.requireSessions().listActive(userId);
+  }
+
+  /**
+   * Revoke one of a user's sessions, or all of them
+   * @param userId
+   * @param sessionId - omit to revoke every session
+   * @returns how many sessions were revoked
+   * @throws {HttpError} 404 if the user has no such active session
+   */
+  async revokeSessions(userId: string, sessionId?: string): Promise<number> {
+    this.logger.trace(`enter AccessService.revokeSessions for ${userId}`);
+
+    const sessions = this.requireSessions();
+    if (sessionId === undefined) {
+      return sessions.revokeAll(userId);
+    }
+
+    const active = await sessions.listActive(userId);
+    if (!active.some((session) => session.sessionId === sessionId)) {
+      throw new HttpError(404, "Session not found");
+    }
+    return (await sessions.revokeSession(sessionId)) ? 1 : 0;
+  }
+
+  /**
+   * Clear a username's lockout and failed login count
+   * @param username
+   * @returns whether it was being throttled
+   */
+  async unlockAccount(username: string): Promise<boolean> {
+    this.logger.trace(`enter AccessService.unlockAccount for ${username}`);
+
+    if (!this.lockout) {
+      throw new HttpError(400, "Account lockout is not enabled");
+    }
+    return this.lockout.unlock(username);
+  }
+
+  /**
+   * Issue the tokens for a principal that has passed every login check
+   */
+  private async completeLogin(principal: IPrincipal): Promise<ILoginResponse> {
+    let response = await this.access.reissue(principal);
+    if (this.refreshTokens) {
+      const refreshToken = await this.refreshTokens.issue(response);
+      await this.sessions?.extend(refreshToken.familyId, refreshToken.expiresAt);
+      response = withRefreshToken(response, refreshToken);
+    }
+    return response;
+  }
+
+  private requireMfa(): IMfaService {
+    if (!this.mfa) {
+      throw new HttpError(400, "Multi-factor authentication is not enabled");
+    }
+    return this.mfa;
+  }
+
+  private requireSessions(): ISessionService {
+    if (!this.sessions) {
+      throw new HttpError(400, "Server-side sessions are not enabled");
+    }
+    return this.sessions;
+  }
+}
+
+function withRefreshToken(response: ILoginResponse, refreshToken: IIssuedRefreshToken): ILoginResponse {
+  return {
+    ...response,
+    refreshToken: refreshToken.token,
+    refreshExpiresAt: refreshToken.expiresAt.toISOString(),
+  };
+}
+
+/**
+ * Count a refused login: 429 from the lockout is throttled, a wrong password or code a
+ * failure; anything else (a provider outage) is not the caller's doing and is not counted
+ */
+function recordLoginFailure(step: LoginStep, error: unknown): void {
+  if (error instanceof HttpError && error.statusCode === 429) {
+    recordLogin(step, "throttled");
+  } else if (error instanceof HttpError && [400, 401, 403].includes(error.statusCode)) {
+    recordLogin(step, "failure");
+  }
 }
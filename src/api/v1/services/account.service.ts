@@ -0,0 +1,260 @@
+import crypto from "crypto";
+import type {
+  AccountTokenPurpose,
+  IAccountPolicy,
+  IAccountService,
+  IAccountToken,
+  IAccountTokenStore,
+} from "../../../core/interfaces/account.interface.js";
+import type { ILockoutService } from "../../../core/interfaces/lockout.interface.js";
+import type { ILogger } from "../../../core/interfaces/logger.interface.js";
+import type { IEmailMessage, INotifier } from "../../../core/interfaces/notifier.interface.js";
+import type { ISessionService } from "../../../core/interfaces/session.interface.js";
+import type { IUserRecord, IUserStore } from "../../../core/interfaces/user.interface.js";
+import { accessConfig } from "../../../config/index.js";
+import { HttpError, toError } from "../../../core/utilities/error.utility.js";
+import {
+  checkPasswordStrength,
+  hashPassword,
+  type IPasswordPolicy,
+} from "../../../core/utilities/password.utility.js";
+
+/**
+ * Self-service password reset and email verification for LOCAL accounts.  Each request
+ * mails the user a link with a random token; only the token's hash is stored, it expires
+ * after the policy's TTL, is consumed on first use, and a new request replaces any the
+ * user already had.  The request endpoints do their lookup and mailing in the
+ * background and always answer the same way, so neither the response nor its timing
+ * says whether an account exists.
+ */
+export class AccountService implements IAccountService {
+  private logger: ILogger;
+  private users: IUserStore;
+  private tokens: IAccountTokenStore;
+  private notifier: INotifier;
+  private passwordPolicy: IPasswordPolicy;
+  private policy: IAccountPolicy;
+  private sessions: ISessionService | undefined;
+  private lockout: ILockoutService | undefined;
+
+  /**
+   * @param logger - Logger instance
+   * @param users - The LOCAL provider's user store
+   * @param tokens - Where outstanding tokens are kept
+   * @param notifier - Delivers the emails
+   * @param passwordPolicy - What a new password must meet
+   * @param policy - Token lifetimes and link base URL
+   * @param sessions - Session service, so a password reset signs the user out everywhere
+   * @param lockout - Login throttling, so a password reset lifts a lockout
+   */
+  constructor(
+    logger: ILogger,
+    users: IUserStore,
+    tokens: IAccountTokenStore,
+    notifier: INotifier,
+    passwordPolicy: IPasswordPolicy = accessConfig.passwordPolicy,
+    policy: IAccountPolicy = accessConfig.account,
+    sessions?: ISessionService,
+    lockout?: ILockoutService
+  ) {
+    this.logger = logger;
+    this.users = users;
+    this.tokens = tokens;
+    this.notifier = notifier;
+    this.passwordPolicy = passwordPolicy;
+    this.policy = policy;
+    this.sessions = sessions;
+    this.lockout = lockout;
+  }
+
+  async requestPasswordReset(identifier: string): Promise<void> {
+    this.inBackground("requestPasswordReset", async () => {
+      const user = await this.findUser(identifier);
+      if (!user?.email || user.disabled) {
+        this.logger.info(`AccountService: no reset sent for ${identifier}: ${!user ? "unknown account" : user.disabled ? "account disabled" : "no email address"}`);
+        return;
+      }
+      const token = await this.issue(user, user.email, "password-reset", this.policy.resetTtlSeconds);
+      await this.notifier.send(this.resetMessage(user, user.email, token));
+      this.logger.info(`AccountService: password reset sent for ${user.id}`);
+    });
+  }
+
+  async resetPassword(token: string, password: string): Promise<void> {
+    const record = await this.peek(token, "password-reset");
+    const user = await this.users.get(record.userId);
+    if (!user || user.disabled) {
+      await this.tokens.delete(record.tokenHash);
+      throw new HttpError(400, "Reset link is invalid or has expired");
+    }
+
+    const problems = checkPasswordStrength(password, this.passwordPolicy, user.username);
+    if (problems.length > 0) {
+      // The token is left alone so the user can try another password
+      throw new HttpError(400, "Password does not meet the password policy", { problems });
+    }
+
+    await this.consume(record);
+    await this.users.save({
+      ...user,
+      passwordHash: await hashPassword(password),
+      // The link reached the address on file, which proves it as well as a verification link would
+      emailVerified: user.emailVerified || record.email === user.email,
+      updatedAt: new Date().toISOString(),
+    });
+    const revoked = (await this.sessions?.revokeAll(user.id)) ?? 0;
+    // The failures were against the old password
+    await this.lockout?.unlock(user.username);
+    this.logger.info(`AccountService: password reset for ${user.id}; ${revoked} sessions revoked`);
+  }
+
+  async requestVerification(identifier: string): Promise<void> {
+    this.inBackground("requestVerification", async () => {
+      const user = await this.findUser(identifier);
+      if (!user?.email || user.emailVerified !== false || user.disabled) {
+        return;
+      }
+      await this.sendVerification(user);
+    });
+  }
+
+  async sendVerification(user: IUserRecord): Promise<void> {
+    if (!user.email) {
+      throw new Error(`User ${user.id} has no email address to verify`);
+    }
+    const token = await this.issue(user, user.email, "email-verification", this.policy.verificationTtlSeconds);
+    await this.notifier.send(this.verificationMessage(user, user.email, token));
+    this.logger.info(`AccountService: verification sent for ${user.id}`);
+  }
+
+  async verifyEmail(token: string): Promise<void> {
+    const record = await this.peek(token, "email-verification");
+    await this.consume(record);
+
+    const user = await this.users.get(record.userId);
+    // A link for an address the account no longer has proves nothing
+    if (!user || user.email !== record.email) {
+      throw new HttpError(400, "Verification link is invalid or has expired");
+    }
+    if (!user.emailVerified) {
+      await this.users.save({ ...user, emailVerified: true, updatedAt: new Date().toISOString() });
+    }
+    this.logger.info(`AccountService: email verified for ${user.id}`);
+  }
+
+  /**
+   * Store a new token for the user, replacing any they had for the same purpose
+   * @returns the token, in the clear - it only ever goes into the email
+   */
+  private async issue(
+    user: IUserRecord,
+    email: string,
+    purpose: AccountTokenPurpose,
+    ttlSeconds: number
+  ): Promise<string> {
+    const now = Date.now();
+    for (const existing of await this.tokens.list()) {
+      if (existing.expiresAt <= new Date(now).toISOString() || (existing.userId === user.id && existing.purpose === purpose)) {
+        await this.tokens.delete(existing.tokenHash);
+      }
+    }
+
+    const token = crypto.randomBytes(32).toString("base64url");
+    await this.tokens.save({
+      tokenHash: hash(token),
+      purpose,
+      userId: user.id,
+      email,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + ttlSeconds * 1000).toISOString(),
+    });
+    return token;
+  }
+
+  /**
+   * Look a token up without consuming it
+   * @throws {HttpError} 400 for an unknown, expired or wrong-purpose token
+   */
+  private async peek(token: string, purpose: AccountTokenPurpose): Promise<IAccountToken> {
+    const record = await this.tokens.get(hash(token));
+    if (!record || record.purpose !== purpose || new Date(record.expiresAt) <= new Date()) {
+      if (record && record.purpose === purpose) {
+        await this.tokens.delete(record.tokenHash);
+      }
+      throw new HttpError(400, `${purpose === "password-reset" ? "Reset" : "Verification"} link is invalid or has expired`);
+    }
+    return record;
+  }
+
+  /**
+   * Use a token up.  Two requests may both have peeked at it; only the first gets it.
+   * @throws {HttpError} 400 if another request consumed it first
+   */
+  private async consume(record: IAccountToken): Promise<void> {
+    if (!(await this.tokens.take(record.tokenHash))) {
+      throw new HttpError(400, `${record.purpose === "password-reset" ? "Reset" : "Verification"} link is invalid or has expired`);
+    }
+  }
+
+  private async findUser(identifier: string): Promise<IUserRecord | undefined> {
+    return identifier.includes("@")
+      ? this.users.findByEmail(identifier)
+      : this.users.findByUsername(identifier);
+  }
+
+  /**
+   * Run a request's work after the response has gone, so its duration tells the caller
+   * nothing; failures are logged, never reported
+   */
+  private inBackground(operation: string, work: () => Promise<void>): void {
+    setImmediate(() => {
+      work().catch((error: unknown) => {
+        this.logger.error(`AccountService.${operation} failed:`, toError(error).message);
+      });
+    });
+  }
+
+  private resetMessage(user: IUserRecord, email: string, token: string): IEmailMessage {
+    const minutes = Math.round(this.policy.resetTtlSeconds / 60);
+    return {
+      to: email,
+      subject: "Reset your password",
+      text: [
+        `Hello ${user.username},`,
+        "",
+        "Someone asked to reset the password for your account. To choose a new one, open:",
+        "",
+        this.link("reset-password", token),
+        "",
+        `The link works once and expires in ${minutes} minutes. If you did not ask for it, ignore this email; your password has not changed.`,
+      ].join("\n"),
+    };
+  }
+
+  private verificationMessage(user: IUserRecord, email: string, token: string): IEmailMessage {
+    const hours = Math.round(this.policy.verificationTtlSeconds / 3600);
+    return {
+      to: email,
+      subject: "Confirm your email address",
+      text: [
+        `Hello ${user.username},`,
+        "",
+        "Please confirm this is your email address by opening:",
+        "",
+        this.link("verify-email", token),
+        "",
+        `The link works once and expires in ${hours} hours. You cannot log in until the address is confirmed.`,
+      ].join("\n"),
+    };
+  }
+
+  private link(page: string, token: string): string {
+    const url = new URL(page, this.policy.publicUrl.endsWith("/") ? this.policy.publicUrl : `${this.policy.publicUrl}/`);
+    url.searchParams.set("token", token);
+    return url.toString();
+  }
+}
+
+function hash(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex");
+}
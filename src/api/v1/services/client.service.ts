@@ -0,0 +1,230 @@
+import crypto from "crypto";
+import { decodeJwt } from "jose";
+import type {
+  IClientRecord,
+  IClientRegistration,
+  IClientService,
+  IClientStore,
+  IClientSummary,
+  IClientTokenResponse,
+  IIssuedClientCredentials,
+} from "../../../core/interfaces/client.interface.js";
+import type { IPrincipal, UserType } from "../../../core/interfaces/access.interface.js";
+import type { ILogger } from "../../../core/interfaces/logger.interface.js";
+import type { ITokenService } from "../../../core/interfaces/token.interface.js";
+import { accessConfig, getRbacPolicy, type Permission } from "../../../config/index.js";
+import { HttpError } from "../../../core/utilities/error.utility.js";
+
+const CLIENT_ID_PATTERN = /^cl_[a-f0-9]{16}$/;
+
+/**
+ * API clients for service-to-service callers.  An admin registers a client with a role
+ * (service by default) and scopes within it, and gets a secret back once; only its hash
+ * is kept.  The client then calls with `Authorization: ApiKey <clientId>.<secret>`, or
+ * trades the pair for a short-lived bearer token.  Both resolve to a principal carrying
+ * the client's role and scopes, so route guards treat it like any user.
+ */
+export class ClientService implements IClientService {
+  private logger: ILogger;
+  private store: IClientStore;
+  private tokenService: ITokenService;
+
+  /**
+   * @param logger - Logger instance
+   * @param store - Where clients are kept
+   * @param tokenService - Signs and verifies the client credentials tokens
+   */
+  constructor(logger: ILogger, store: IClientStore, tokenService: ITokenService) {
+    this.logger = logger;
+    this.store = store;
+    this.tokenService = tokenService;
+  }
+
+  async create(registration: IClientRegistration, principal: IPrincipal): Promise<IIssuedClientCredentials> {
+    const userType = registration.userType ?? "service";
+    const scopes = registration.scopes ?? [...getRbacPolicy()[userType]];
+    assertScopesGranted(userType, scopes);
+
+    const now = new Date();
+    if (registration.expiresAt && registration.expiresAt <= now) {
+      throw new HttpError(400, "expiresAt must be in the future");
+    }
+
+    const clientSecret = newSecret();
+    const client: IClientRecord = {
+      clientId: `cl_${crypto.randomBytes(8).toString("hex")}`,
+      name: registration.name,
+      userType,
+      scopes,
+      secretHash: hash(clientSecret),
+      createdBy: principal.userId,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      expiresAt: registration.expiresAt?.toISOString(),
+    };
+    await this.store.save(client);
+
+    this.logger.info(`Client ${client.clientId} (${client.name}) registered as ${userType} with ${scopes.join(" ")} by ${principal.userId}`);
+    return credentials(client, clientSecret);
+  }
+
+  async list(): Promise<IClientSummary[]> {
+    return (await this.store.list()).map(summarise);
+  }
+
+  async setScopes(clientId: string, scopes: Permission[], principal: IPrincipal): Promise<IClientSummary> {
+    const client = await this.requireClient(clientId);
+    assertScopesGranted(client.userType, scopes);
+
+    const updated: IClientRecord = { ...client, scopes, updatedAt: new Date().toISOString() };
+    await this.store.save(updated);
+    this.logger.info(`Client ${clientId} scopes set to ${scopes.join(" ")} by ${principal.userId}`);
+    return summarise(updated);
+  }
+
+  async rotate(clientId: string, principal: IPrincipal): Promise<IIssuedClientCredentials> {
+    const client = await this.requireClient(clientId);
+    const now = Date.now();
+
+    const clientSecret = newSecret();
+    const rotated: IClientRecord = {
+      ...client,
+      secretHash: hash(clientSecret),
+      previousSecretHash: client.secretHash,
+      previousSecretExpiresAt: new Date(now + accessConfig.clients.rotationGraceSeconds * 1000).toISOString(),
+      updatedAt: new Date(now).toISOString(),
+    };
+    await this.store.save(rotated);
+
+    this.logger.info(`Client ${clientId} secret rotated by ${principal.userId}; the old one works until ${rotated.previousSecretExpiresAt}`);
+    return credentials(rotated, clientSecret);
+  }
+
+  async revoke(clientId: string, principal: IPrincipal): Promise<void> {
+    const client = await this.requireClient(clientId);
+    const now = new Date().toISOString();
+    await this.store.save({ ...client, revokedAt: now, updatedAt: now });
+    this.logger.info(`Client ${clientId} (${client.name}) revoked by ${principal.userId}`);
+  }
+
+  async verifyApiKey(apiKey: string): Promise<IPrincipal> {
+    const [clientId, secret] = apiKey.split(".");
+    const client = await this.authenticate(clientId ?? "", secret ?? "");
+    return { userId: client.clientId, userType: client.userType, clientId: client.clientId, scopes: client.scopes };
+  }
+
+  async issueToken(clientId: string, clientSecret: string, scopes?: Permission[]): Promise<IClientTokenResponse> {
+    const client = await this.authenticate(clientId, clientSecret);
+    const granted = scopes ?? client.scopes;
+    const missing = granted.filter((scope) => !client.scopes.includes(scope));
+    if (missing.length > 0) {
+      throw new HttpError(400, `Client may not request ${missing.join(" ")}`, { missingScopes: missing });
+    }
+
+    const issued = await this.tokenService.issue({
+      userId: client.clientId,
+      userType: client.userType,
+      clientId: client.clientId,
+      scopes: granted,
+    });
+    this.logger.info(`Client ${clientId} was issued a token for ${granted.join(" ")}`);
+    return {
+      access_token: issued.token,
+      token_type: "Bearer",
+      expires_in: Math.round((issued.expiresAt.getTime() - Date.now()) / 1000),
+      scope: granted.join(" "),
+    };
+  }
+
+  isClientToken(token: string): boolean {
+    try {
+      return typeof decodeJwt(token)["cid"] === "string";
+    } catch {
+      return false; // not a JWT at all - the access provider will say so
+    }
+  }
+
+  async verifyToken(token: string): Promise<IPrincipal> {
+    const claims = await this.tokenService.verify(token);
+    const client = claims.clientId ? await this.store.get(claims.clientId) : undefined;
+    if (!client || !isActive(client, Date.now())) {
+      this.logger.warn(`ClientService rejected a token for ${claims.clientId ?? claims.userId}: not an active client`);
+      throw new HttpError(401, "Invalid token");
+    }
+
+    // Scope changes since the token was issued take effect at once
+    return {
+      userId: client.clientId,
+      userType: client.userType,
+      sessionId: claims.sessionId,
+      clientId: client.clientId,
+      scopes: (claims.scopes ?? client.scopes).filter((scope) => client.scopes.includes(scope)),
+    };
+  }
+
+  /**
+   * Check a client id and secret - the current one, or the previous one inside its grace period
+   * @throws {HttpError} 401 with the same message for every failure
+   */
+  private async authenticate(clientId: string, secret: string): Promise<IClientRecord> {
+    const now = Date.now();
+    const client = CLIENT_ID_PATTERN.test(clientId) ? await this.store.get(clientId) : undefined;
+    const presented = hash(secret);
+    const matches =
+      client !== undefined &&
+      (safeEqual(presented, client.secretHash) ||
+        (client.previousSecretHash !== undefined &&
+          new Date(client.previousSecretExpiresAt ?? 0).getTime() > now &&
+          safeEqual(presented, client.previousSecretHash)));
+
+    if (!client || !matches || !isActive(client, now)) {
+      this.logger.warn(`ClientService rejected credentials for ${clientId}: ${!client ? "unknown client" : !matches ? "wrong secret" : "revoked or expired"}`);
+      throw new HttpError(401, "Invalid client credentials");
+    }
+    return client;
+  }
+
+  private async requireClient(clientId: string): Promise<IClientRecord> {
+    const client = await this.store.get(clientId);
+    if (!client || client.revokedAt) {
+      throw new HttpError(404, "Client not found");
+    }
+    return client;
+  }
+}
+
+/**
+ * @throws {HttpError} 400 naming the scopes the role does not grant
+ */
+function assertScopesGranted(userType: UserType, scopes: Permission[]): void {
+  const allowed = getRbacPolicy()[userType];
+  const denied = scopes.filter((scope) => !allowed.includes(scope));
+  if (denied.length > 0) {
+    throw new HttpError(400, `Role ${userType} does not grant ${denied.join(" ")}`);
+  }
+}
+
+function isActive(client: IClientRecord, now: number): boolean {
+  return !client.revokedAt && (!client.expiresAt || new Date(client.expiresAt).getTime() > now);
+}
+
+function credentials(client: IClientRecord, clientSecret: string): IIssuedClientCredentials {
+  return { client: summarise(client), clientSecret, apiKey: `${client.clientId}.${clientSecret}` };
+}
+
+function summarise(client: IClientRecord): IClientSummary {
+  const { secretHash: _secretHash, previousSecretHash: _previousSecretHash, ...summary } = client;
+  return summary;
+}
+
+function newSecret(): string {
+  return crypto.randomBytes(32).toString("base64url");
+}
+
+function hash(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex");
+}
+
+function safeEqual(a: string, b: string): boolean {
+  return a.length === b.length && crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+}
@@ -0,0 +1,128 @@
+import crypto from "crypto";
+import type {
+  DelegatedAction,
+  IDelegatedAccessLog,
+  IDelegation,
+  IDelegationGrant,
+  IDelegationService,
+  IDelegationStore,
+} from "../../../core/interfaces/delegation.interface.js";
+import type { IPrincipal } from "../../../core/interfaces/access.interface.js";
+import type { ILogger } from "../../../core/interfaces/logger.interface.js";
+import { accessConfig } from "../../../config/index.js";
+import { hasPermission } from "../../../core/security/rbac.policy.js";
+import { HttpError } from "../../../core/utilities/error.utility.js";
+
+/**
+ * Delegated access to a patient's files.  A patient (or an admin for them) grants a
+ * caregiver read or read/write access until a set time; granting again replaces the
+ * earlier grant.  Every access made through a delegation goes to the access log with
+ * both the delegate and the patient.
+ */
+export class DelegationService implements IDelegationService {
+  private logger: ILogger;
+  private store: IDelegationStore;
+  private accessLog: IDelegatedAccessLog;
+
+  /**
+   * @param logger - Logger instance
+   * @param store - Where delegations are kept
+   * @param accessLog - Where delegated accesses are recorded
+   */
+  constructor(logger: ILogger, store: IDelegationStore, accessLog: IDelegatedAccessLog) {
+    this.logger = logger;
+    this.store = store;
+    this.accessLog = accessLog;
+  }
+
+  async grant(grant: IDelegationGrant, principal: IPrincipal): Promise<IDelegation> {
+    this.logger.trace(`enter DelegationService.grant() by ${principal.userId}`);
+
+    const patientId = grant.patientId ?? principal.userId;
+    if (patientId !== principal.userId && !hasPermission(principal, "access:admin")) {
+      throw new HttpError(403, "Only the patient or an admin may delegate access to these files");
+    }
+    if (grant.delegateId === patientId) {
+      throw new HttpError(400, "A patient cannot delegate to themselves");
+    }
+
+    const now = new Date();
+    const { defaultTtlSeconds, maxTtlSeconds } = accessConfig.delegation;
+    const expiresAt = grant.expiresAt ?? new Date(now.getTime() + defaultTtlSeconds * 1000);
+    if (expiresAt <= now || expiresAt.getTime() > now.getTime() + maxTtlSeconds * 1000) {
+      throw new HttpError(400, `expiresAt must be in the future and at most ${maxTtlSeconds} seconds away`);
+    }
+
+    for (const earlier of await this.activeFor(patientId, grant.delegateId)) {
+      await this.store.save({ ...earlier, revokedAt: now.toISOString() });
+    }
+    const delegation: IDelegation = {
+      id: crypto.randomUUID(),
+      patientId,
+      delegateId: grant.delegateId,
+      scope: grant.scope,
+      grantedBy: principal.userId,
+      createdAt: now.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+    };
+    await this.store.save(delegation);
+
+    this.logger.info(`Delegation ${delegation.id}: ${patientId} granted ${grant.delegateId} ${grant.scope} access until ${delegation.expiresAt} (by ${principal.userId})`);
+    return delegation;
+  }
+
+  async list(principal: IPrincipal): Promise<{ granted: IDelegation[]; received: IDelegation[] }> {
+    const now = Date.now();
+    return {
+      granted: (await this.store.listByPatient(principal.userId)).filter((delegation) => isActive(delegation, now)),
+      received: (await this.store.listByDelegate(principal.userId)).filter((delegation) => isActive(delegation, now)),
+    };
+  }
+
+  async revoke(id: string, principal: IPrincipal): Promise<void> {
+    const delegation = await this.store.get(id);
+    const party = delegation && (principal.userId === delegation.patientId || principal.userId === delegation.delegateId);
+    if (!delegation || !isActive(delegation, Date.now()) || !(party || hasPermission(principal, "access:admin"))) {
+      throw new HttpError(404, "Delegation not found");
+    }
+
+    await this.store.save({ ...delegation, revokedAt: new Date().toISOString() });
+    this.logger.info(`Delegation ${id} from ${delegation.patientId} to ${delegation.delegateId} revoked by ${principal.userId}`);
+  }
+
+  async authorize(
+    principal: IPrincipal,
+    patientId: string,
+    action: DelegatedAction,
+    resource: string
+  ): Promise<IDelegation | undefined> {
+    const delegation = (await this.activeFor(patientId, principal.userId)).find(
+      (candidate) => action === "read" || candidate.scope === "readwrite"
+    );
+    if (!delegation) {
+      return undefined;
+    }
+
+    await this.accessLog.record({
+      at: new Date().toISOString(),
+      actorId: principal.userId,
+      subjectId: patientId,
+      delegationId: delegation.id,
+      action,
+      resource,
+    });
+    this.logger.info(`Delegated ${action} of ${resource}: ${principal.userId} for ${patientId} (delegation ${delegation.id})`);
+    return delegation;
+  }
+
+  private async activeFor(patientId: string, delegateId: string): Promise<IDelegation[]> {
+    const now = Date.now();
+    return (await this.store.listByDelegate(delegateId)).filter(
+      (delegation) => delegation.patientId === patientId && isActive(delegation, now)
+    );
+  }
+}
+
+function isActive(delegation: IDelegation, now: number): boolean {
+  return !delegation.revokedAt && new Date(delegation.expiresAt).getTime() > now;
+}
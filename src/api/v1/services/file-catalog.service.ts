@@ -0,0 +1,169 @@
+import crypto from "crypto";
+import type {
+  IStorage,
+  IStorageUploadResult,
+} from "../../../core/interfaces/storage.interface.js";
+import type {
+  IFileCatalogService,
+  IFileCatalogStore,
+  IFileDescriptiveMetadata,
+  IFileQuery,
+  IFileQueryResult,
+  IFileRecord,
+} from "../../../core/interfaces/file-catalog.interface.js";
+import type { IPrincipal } from "../../../core/interfaces/access.interface.js";
+import type { IDelegationService } from "../../../core/interfaces/delegation.interface.js";
+import type { ILogger } from "../../../core/interfaces/logger.interface.js";
+import { HttpError, toError } from "../../../core/utilities/error.utility.js";
+import {
+  canAccessFile,
+  canListAllFiles,
+  type FileAction,
+} from "../../../core/security/file-access.policy.js";
+
+/**
+ * Keeps a catalog entry (owner, names, type, size, hash, descriptive metadata) for
+ * every stored file so clients can find their files without knowing the storage key.
+ * The entry's owner is what every read and delete is authorised against; a caller
+ * whose role does not allow a read can still make it through a delegation from the owner.
+ */
+export class FileCatalogService implements IFileCatalogService {
+  storage: IStorage;
+  store: IFileCatalogStore;
+  logger: ILogger;
+  delegations: IDelegationService | undefined;
+
+  /**
+   * Constructor
+   * @param logger - Logger instance
+   * @param storage - Storage instance (provider specific - use factory to discover)
+   * @param store - Where catalog entries are persisted
+   * @param delegations - Delegated access, when enabled
+   */
+  constructor(logger: ILogger, storage: IStorage, store: IFileCatalogStore, delegations?: IDelegationService) {
+    this.logger = logger;
+    this.storage = storage;
+    this.store = store;
+    this.delegations = delegations;
+  }
+
+  async registerUpload(
+    upload: IStorageUploadResult,
+    originalName: string,
+    mimeType: string,
+    metadata: IFileDescriptiveMetadata,
+    ownerId: string,
+    uploadedBy?: string
+  ): Promise<IFileRecord> {
+    this.logger.trace(`enter FileCatalogService.registerUpload(${upload.filename})`);
+
+    const now = new Date().toISOString();
+    const record: IFileRecord = {
+      id: crypto.randomUUID(),
+      ownerId,
+      ...(uploadedBy !== undefined && uploadedBy !== ownerId && { uploadedBy }),
+      originalName,
+      storageKey: upload.filename,
+      mimeType,
+      size: upload.size,
+      hash: upload.hash,
+      metadata,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    try {
+      await this.store.save(record);
+    } catch (error: unknown) {
+      const err = toError(error);
+      this.logger.error("FileCatalogService.registerUpload caught an error:", err.message);
+      throw err;
+    }
+
+    this.logger.trace(`exit FileCatalogService.registerUpload(${record.id})`);
+    return record;
+  }
+
+  async listFiles(query: IFileQuery, principal: IPrincipal): Promise<IFileQueryResult> {
+    if (canListAllFiles(principal)) {
+      return this.store.list(query);
+    }
+    const { ownerId } = query;
+    const delegated =
+      ownerId !== undefined &&
+      ownerId !== principal.userId &&
+      (await this.delegations?.authorize(principal, ownerId, "read", "files")) !== undefined;
+    return this.store.list(delegated ? query : { ...query, ownerId: principal.userId });
+  }
+
+  async authorizeUpload(ownerId: string, principal: IPrincipal): Promise<void> {
+    if (ownerId === principal.userId) {
+      return;
+    }
+    if (!(await this.delegations?.authorize(principal, ownerId, "write", "upload"))) {
+      this.logger.warn(`${principal.userId} (${principal.userType}) denied upload for ${ownerId}`);
+      throw new HttpError(403, "Access denied");
+    }
+  }
+
+  async getFile(id: string, principal: IPrincipal): Promise<IFileRecord> {
+    return this.authorize(await this.store.get(id), principal, "read", "File not found");
+  }
+
+  async getFileByStorageKey(storageKey: string, principal: IPrincipal): Promise<IFileRecord> {
+    return this.authorize(
+      await this.store.findByStorageKey(storageKey),
+      principal,
+      "read",
+      `File not found or not readable: ${storageKey}`
+    );
+  }
+
+  async deleteFile(id: string, principal: IPrincipal): Promise<void> {
+    this.logger.trace(`enter FileCatalogService.deleteFile(${id})`);
+
+    const record = await this.authorize(await this.store.get(id), principal, "delete", "File not found");
+    try {
+      if (await this.storage.exists(record.storageKey)) {
+        await this.storage.delete(record.storageKey);
+      } else {
+        this.logger.warn(`Catalog entry ${id} had no stored file (${record.storageKey})`);
+      }
+      await this.store.delete(id);
+    } catch (error: unknown) {
+      const err = toError(error);
+      this.logger.error("FileCatalogService.deleteFile caught an error:", err.message);
+      throw err;
+    }
+
+    this.logger.info(`File ${id} owned by ${record.ownerId} deleted by ${principal.userId}`);
+    this.logger.trace(`exit FileCatalogService.deleteFile(${id})`);
+  }
+
+  /**
+   * @returns the record if it exists and the caller may perform action on it
+   * @throws {HttpError} 404 if there is no record, 403 if access is denied
+   */
+  private async authorize(
+    record: IFileRecord | undefined,
+    principal: IPrincipal,
+    action: FileAction,
+    notFoundMessage: string
+  ): Promise<IFileRecord> {
+    if (!record) {
+      throw new HttpError(404, notFoundMessage);
+    }
+    if (canAccessFile(principal, record.ownerId, action)) {
+      return record;
+    }
+    // Delegates may read, never delete
+    const delegated =
+      action === "read" &&
+      (await this.delegations?.authorize(principal, record.ownerId, "read", `file:${record.id}`)) !== undefined;
+    if (!delegated) {
+      this.logger.warn(`${principal.userId} (${principal.userType}) denied ${action} of file ${record.id}`);
+      throw new HttpError(403, "Access denied");
+    }
+    return record;
+  }
+}
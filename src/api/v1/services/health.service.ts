@@ -0,0 +1,107 @@
+import type {
+  IDependencyHealth,
+  IHealthCheckResult,
+  IHealthDependency,
+  IHealthService,
+  IReadinessReport,
+} from "../../../core/interfaces/health.interface.js";
+import type { ILogger } from "../../../core/interfaces/logger.interface.js";
+import { getHealthConfig, type HealthConfig } from "../../../config/index.js";
+
+const TIMED_OUT = Symbol("timed out");
+
+/**
+ * Readiness checks.  Every dependency is probed at once, each with its own timeout, and
+ * the report is kept for a few seconds: load balancers and orchestrators poll often, and
+ * every poll should not turn into a round trip to the storage account and the identity
+ * provider.  Callers arriving while a round of probes is running wait for it rather than
+ * starting another.
+ */
+export class HealthService implements IHealthService {
+  private logger: ILogger;
+  private dependencies: IHealthDependency[];
+  private config: HealthConfig;
+  private cached: { report: IReadinessReport; expiresAt: number } | undefined;
+  private inFlight: Promise<IReadinessReport> | undefined;
+
+  /**
+   * @param logger - Logger instance
+   * @param dependencies - What to probe, and which of them the API cannot do without
+   * @param config - Probe timeout and how long a report is reused (see getHealthConfig)
+   */
+  constructor(logger: ILogger, dependencies: IHealthDependency[], config: HealthConfig = getHealthConfig()) {
+    this.logger = logger;
+    this.dependencies = dependencies;
+    this.config = config;
+  }
+
+  checkReadiness(): Promise<IReadinessReport> {
+    if (this.cached && Date.now() < this.cached.expiresAt) {
+      return Promise.resolve(this.cached.report);
+    }
+    this.inFlight ??= this.probeAll().finally(() => {
+      this.inFlight = undefined;
+    });
+    return this.inFlight;
+  }
+
+  private async probeAll(): Promise<IReadinessReport> {
+    const results = await Promise.all(this.dependencies.map((dependency) => this.probe(dependency)));
+
+    const services: Record<string, IDependencyHealth> = {};
+    this.dependencies.forEach((dependency, index) => {
+      services[dependency.name] = results[index]!;
+    });
+    const down = this.dependencies.filter((dependency) => services[dependency.name]?.status === "DOWN");
+    if (down.length > 0) {
+      this.logger.warn(`Readiness check: ${down.map((dependency) => dependency.name).join(", ")} DOWN`);
+    }
+
+    const report: IReadinessReport = {
+      status: down.some((dependency) => dependency.critical) ? "DOWN" : "READY",
+      checkedAt: new Date().toISOString(),
+      services,
+    };
+    this.cached = { report, expiresAt: Date.now() + this.config.cacheMs };
+    return report;
+  }
+
+  /**
+   * Run one probe against the timeout.  A probe that rejects or runs out of time is
+   * DOWN; one still running when the timeout fires is left to finish on its own.
+   * @param dependency
+   */
+  private async probe(dependency: IHealthDependency): Promise<IDependencyHealth> {
+    const startedAt = process.hrtime.bigint();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<typeof TIMED_OUT>((resolve) => {
+      timer = setTimeout(() => resolve(TIMED_OUT), this.config.timeoutMs);
+      timer.unref();
+    });
+
+    let result: IHealthCheckResult | typeof TIMED_OUT;
+    try {
+      result = await Promise.race([dependency.check(), timeout]);
+    } catch (error: unknown) {
+      this.logger.error(`Readiness probe for ${dependency.name} failed:`, error);
+      // The provider's own error can name hosts and accounts; that stays in the log
+      result = { status: "DOWN", detail: "Health check failed" };
+    } finally {
+      clearTimeout(timer);
+    }
+    if (result === TIMED_OUT) {
+      this.logger.error(`Readiness probe for ${dependency.name} timed out after ${this.config.timeoutMs}ms`);
+      result = { status: "DOWN", detail: `Timed out after ${this.config.timeoutMs}ms` };
+    }
+
+    const health: IDependencyHealth = {
+      status: result.status,
+      critical: dependency.critical,
+      latencyMs: Math.round(Number(process.hrtime.bigint() - startedAt) / 1e6),
+    };
+    if (result.detail) {
+      health[result.status === "DOWN" ? "error" : "detail"] = result.detail;
+    }
+    return health;
+  }
+}
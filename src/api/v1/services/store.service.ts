@@ -1,7 +1,8 @@
-import type { NextFunction } from 'express';
 import { Readable } from "stream";
 import type {
   IStorage,
+  IStorageFileMetadata,
+  IStorageRange,
   IStorageService,
   IStorageUploadResult,
 } from "../../../core/interfaces/storage.interface.js";
@@ -36,31 +37,23 @@ export class StorageService implements IStorageService {
      * Upload file to storage provider
      * 
      * Delegates file storage operation to the configured storage provider
-     * (LocalStorage or AzureStorage) and returns metadata about the uploaded file.
+     * (LocalStorage or a cloud provider) and returns metadata about the uploaded file.
      * 
-     * @param filename - Target filename for storage (should include timestamp prefix from controller)
+     * @param filename - Target filename for storage (should include timestamp prefix from the upload middleware)
      * @param filestream - Readable stream containing file data to upload
-     * @param next - Express NextFunction for error handling (architectural issue - should be removed)
      * @returns Promise resolving to upload result containing filename, path, size, timestamp, and optional hash
      * @throws {Error} If storage provider operation fails
      */
-  async uploadFileToStorage(filename: string, filestream: Readable, next: NextFunction ): Promise<IStorageUploadResult> {
+  async uploadFileToStorage(filename: string, filestream: Readable): Promise<IStorageUploadResult> {
     this.logger.trace(`enter StorageService.uploadFileToStorage(${filename})`);
-    
-    //set up a dummy 
-    let storageUploadResult: IStorageUploadResult = {
-      filename:filename,
-      path:this.uploadDir, 
-      size:0,
-      timestamp:new Date(),
-    }
 
+    let storageUploadResult: IStorageUploadResult;
     try {
       storageUploadResult = (await this.storage.uploadFileToStorage(filename, filestream)) as IStorageUploadResult;
     } catch (error:unknown) {
       const err = toError(error); //convert to Error object
       this.logger.error('StoreService.uploadFileToStorage caught an error:', err.message);
-      next(err);  //push to global error handler
+      throw err;
     }
 
     this.logger.trace(`exit StorageService.uploadFileToStorage(${filename})`);
@@ -74,23 +67,70 @@ export class StorageService implements IStorageService {
      * Readable stream for piping to the HTTP response.
      * 
      * @param filename - Name of file to retrieve from storage
-     * @param next - Express NextFunction for error handling (architectural issue - should be removed)
+     * @param range - Optional inclusive byte range (HTTP Range requests)
      * @returns Promise resolving to Readable stream containing file data
      * @throws {Error} If file not found or storage provider operation fails
      */
-  async downloadFileFromStorage(filename: string, next: NextFunction): Promise<Readable> {
+  async downloadFileFromStorage(filename: string, range?: IStorageRange): Promise<Readable> {
     this.logger.trace(`enter StorageService.downloadFileFromStorage(${filename})`);
 
-    let stream: Readable = new Readable();
+    let stream: Readable;
     try {
-      stream = (await this.storage.downloadFileFromStorage(filename)) as Readable;
+      stream = (await this.storage.downloadFileFromStorage(filename, range)) as Readable;
     } catch (error:unknown) {
       const err = toError(error); //convert to Error object
       this.logger.error('StoreService.downloadFileToStorage caught an error:', err.message);
-      next(err);  //push to global error handler
+      throw err;
     }
 
     this.logger.trace(`exit StorageService.downloadFileFromStorage()`);
     return stream;
   }
-}
\ No newline at end of file
+
+  /**
+     * Look up size, modification time and etag of a stored file
+     * 
+     * Used to answer HEAD, conditional and Range requests before (or instead of)
+     * streaming the file.
+     * 
+     * @param filename - Name of file in storage
+     * @returns Promise resolving to the file metadata
+     * @throws {Error} If file not found or storage provider operation fails
+     */
+  async getFileMetadata(filename: string): Promise<IStorageFileMetadata> {
+    this.logger.trace(`enter StorageService.getFileMetadata(${filename})`);
+
+    let metadata: IStorageFileMetadata;
+    try {
+      metadata = await this.storage.getFileMetadata(filename);
+    } catch (error:unknown) {
+      const err = toError(error); //convert to Error object
+      this.logger.error('StoreService.getFileMetadata caught an error:', err.message);
+      throw err;
+    }
+
+    this.logger.trace(`exit StorageService.getFileMetadata(${filename})`);
+    return metadata;
+  }
+
+  /**
+     * Remove a file from the storage provider
+     * 
+     * @param filename - Name of file in storage
+     * @returns Promise that resolves once the file is gone (already missing is fine)
+     * @throws {Error} If the storage provider operation fails
+     */
+  async deleteFileFromStorage(filename: string): Promise<void> {
+    this.logger.trace(`enter StorageService.deleteFileFromStorage(${filename})`);
+
+    try {
+      await this.storage.delete(filename);
+    } catch (error:unknown) {
+      const err = toError(error); //convert to Error object
+      this.logger.error('StoreService.deleteFileFromStorage caught an error:', err.message);
+      throw err;
+    }
+
+    this.logger.trace(`exit StorageService.deleteFileFromStorage(${filename})`);
+  }
+}
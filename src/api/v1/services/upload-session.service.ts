@@ -0,0 +1,308 @@
+import crypto from "crypto";
+import { Writable, type Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { IStorage, IStorageUploadResult } from "../../../core/interfaces/storage.interface.js";
+import type {
+  IFileCatalogService,
+  IFileDescriptiveMetadata,
+  IStoredFile,
+} from "../../../core/interfaces/file-catalog.interface.js";
+import type {
+  IUploadSession,
+  IUploadSessionService,
+  IUploadSessionStore,
+} from "../../../core/interfaces/upload-session.interface.js";
+import type { ILogger } from "../../../core/interfaces/logger.interface.js";
+import { getServerConfig, uploadConfig } from "../../../config/index.js";
+import { IntegrityMode } from "../../../config/integrity.types.js";
+import { IntegrityStreamFactory } from "../../../core/factories/integrity.factory.js";
+import { StorageFactory } from "../../../core/factories/storage.factory.js";
+import { recordIntegrityFailure } from "../../../core/utilities/metrics.utility.js";
+import { HttpError, toError } from "../../../core/utilities/error.utility.js";
+import { SizeLimitStream } from "../../../core/utilities/stream.utility.js";
+import {
+  sanitizeFilename,
+  toStorageFilename,
+  toStorageKey,
+} from "../../../core/utilities/filename.utility.js";
+import { startPeriodic } from "../../../core/utilities/timer.utility.js";
+
+/**
+ * Resumable (tus-style) upload sessions: the client declares the total size, sends
+ * the file as a sequence of chunks at increasing offsets (resuming from the last
+ * acknowledged offset after a dropped connection), then finalizes.  Each chunk is
+ * staged by the provider as one part; finalizing assembles the parts.
+ */
+export class UploadSessionService implements IUploadSessionService {
+  storage: IStorage;
+  store: IUploadSessionStore;
+  catalogService: IFileCatalogService;
+  logger: ILogger;
+  private activeChunks = new Set<string>(); // sessions with a chunk in flight
+  private completing = new Set<string>(); // sessions being assembled and hashed
+
+  /**
+   * Constructor
+   * @param logger - Logger instance
+   * @param storage - Storage instance (provider specific - use factory to discover)
+   * @param store - Where sessions are persisted
+   * @param catalogService - Catalog completed uploads are recorded in
+   */
+  constructor(
+    logger: ILogger,
+    storage: IStorage,
+    store: IUploadSessionStore,
+    catalogService: IFileCatalogService
+  ) {
+    this.logger = logger;
+    this.storage = storage;
+    this.store = store;
+    this.catalogService = catalogService;
+  }
+
+  async createSession(
+    originalName: string,
+    mimeType: string,
+    size: number,
+    metadata: IFileDescriptiveMetadata,
+    ownerId: string,
+    uploadedBy: string = ownerId
+  ): Promise<IUploadSession> {
+    this.logger.trace(`enter UploadSessionService.createSession(${originalName})`);
+
+    if (!uploadConfig.allowedMimeTypes.includes(mimeType)) {
+      throw new HttpError(400, "Invalid file type");
+    }
+    const maxFileSize = getServerConfig().maxFileSize;
+    if (size > maxFileSize) {
+      throw new HttpError(413, `File size exceeds maximum allowed (${maxFileSize} bytes)`);
+    }
+
+    const sanitizedName = sanitizeFilename(originalName);
+    if (sanitizedName !== originalName) {
+      this.logger.warn(`Filename sanitized from ${originalName} to ${sanitizedName}`);
+    }
+    const filename = toStorageKey(ownerId, toStorageFilename(sanitizedName));
+    const now = new Date();
+
+    const session: IUploadSession = {
+      id: crypto.randomUUID(),
+      ownerId,
+      ...(uploadedBy !== ownerId && { uploadedBy }),
+      filename,
+      originalName: sanitizedName,
+      mimeType,
+      size,
+      offset: 0,
+      providerUploadId: await this.storage.beginChunkedUpload(filename),
+      parts: [],
+      metadata,
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + uploadConfig.session.ttlMs).toISOString(),
+    };
+    await this.store.save(session);
+
+    this.logger.trace(`exit UploadSessionService.createSession(${session.id})`);
+    return session;
+  }
+
+  async getSession(id: string, ownerId: string, uploadedBy: string = ownerId): Promise<IUploadSession> {
+    const session = await this.store.get(id);
+    if (
+      !session ||
+      session.ownerId !== ownerId ||
+      (session.uploadedBy ?? session.ownerId) !== uploadedBy ||
+      new Date(session.expiresAt).getTime() < Date.now()
+    ) {
+      throw new HttpError(404, "Upload session not found");
+    }
+    return session;
+  }
+
+  async appendChunk(
+    id: string,
+    ownerId: string,
+    offset: number,
+    length: number,
+    stream: Readable,
+    uploadedBy: string = ownerId
+  ): Promise<IUploadSession> {
+    this.logger.trace(`enter UploadSessionService.appendChunk(${id}) at ${offset}`);
+
+    const session = await this.getSession(id, ownerId, uploadedBy);
+
+    if (this.completing.has(id)) {
+      throw new HttpError(409, "Upload is being completed");
+    }
+    if (offset !== session.offset) {
+      throw new HttpError(409, `Offset mismatch: upload is at ${session.offset}`);
+    }
+    if (length <= 0 || offset + length > session.size) {
+      throw new HttpError(400, "Chunk length does not fit the declared upload size");
+    }
+    if (length > uploadConfig.session.maxChunkSize) {
+      throw new HttpError(413, `Chunk exceeds maximum allowed (${uploadConfig.session.maxChunkSize} bytes)`);
+    }
+    const isLastChunk = offset + length === session.size;
+    if (!isLastChunk && length < uploadConfig.session.minChunkSize) {
+      throw new HttpError(400, `Only the final chunk may be smaller than ${uploadConfig.session.minChunkSize} bytes`);
+    }
+    if (this.activeChunks.has(id)) {
+      throw new HttpError(409, "Another chunk for this upload is in progress");
+    }
+
+    this.activeChunks.add(id);
+    try {
+      const limiter = new SizeLimitStream(length);
+      stream.on("error", (err) => limiter.destroy(err));
+      stream.pipe(limiter);
+
+      const partNumber = session.parts.length + 1;
+      const part = await this.storage.uploadChunk(
+        session.filename,
+        session.providerUploadId,
+        partNumber,
+        limiter,
+        length
+      );
+      if (limiter.received !== length) {
+        recordIntegrityFailure(StorageFactory.getProviderName(), "chunk_truncated");
+        throw new HttpError(400, `Chunk ended after ${limiter.received} of ${length} bytes`);
+      }
+
+      session.parts.push({ ...part, size: length });
+      session.offset += length;
+      await this.store.save(session);
+    } catch (error: unknown) {
+      const err = toError(error);
+      this.logger.error("UploadSessionService.appendChunk caught an error:", err.message);
+      throw err;
+    } finally {
+      this.activeChunks.delete(id);
+    }
+
+    this.logger.trace(`exit UploadSessionService.appendChunk(${id}) now at ${session.offset}`);
+    return session;
+  }
+
+  async completeSession(id: string, ownerId: string, uploadedBy: string = ownerId): Promise<IStoredFile> {
+    this.logger.trace(`enter UploadSessionService.completeSession(${id})`);
+
+    const session = await this.getSession(id, ownerId, uploadedBy);
+    if (session.offset !== session.size) {
+      throw new HttpError(409, `Upload incomplete: ${session.offset} of ${session.size} bytes received`);
+    }
+    if (this.activeChunks.has(id)) {
+      throw new HttpError(409, "A chunk for this upload is still in progress");
+    }
+    if (this.completing.has(id)) {
+      throw new HttpError(409, "Upload is already being completed");
+    }
+
+    this.completing.add(id);
+    let stored: IStoredFile;
+    try {
+      // Once the provider has assembled the parts there is no going back: a retry after a
+      // later failure picks up from the assembled object
+      if (!session.assembled) {
+        const assembled = await this.storage.completeChunkedUpload(
+          session.filename,
+          session.providerUploadId,
+          session.parts
+        );
+        session.assembled = { ...assembled, timestamp: assembled.timestamp.toISOString() };
+        await this.store.save(session);
+      }
+      const result: IStorageUploadResult = { ...session.assembled, timestamp: new Date(session.assembled.timestamp) };
+
+      // Providers that assemble server-side can't hash as they go; read the object back once
+      if (!result.hash && getServerConfig().integrityMode === IntegrityMode.SHA256) {
+        const { stream: monitorStream, getResult } = IntegrityStreamFactory.create(IntegrityMode.SHA256);
+        // pipeline rejects if the download fails part way, where pipe() would leave getResult waiting
+        await pipeline(await this.storage.downloadFileFromStorage(session.filename), monitorStream, discard());
+        result.hash = (await getResult()).hash;
+      }
+
+      const file = await this.catalogService.registerUpload(
+        result,
+        session.originalName,
+        session.mimeType,
+        session.metadata,
+        session.ownerId,
+        session.uploadedBy
+      );
+      stored = { upload: result, file };
+      await this.store.delete(id);
+    } finally {
+      this.completing.delete(id);
+    }
+
+    this.logger.trace(`exit UploadSessionService.completeSession(${id})`);
+    return stored;
+  }
+
+  async abortSession(id: string, ownerId: string, uploadedBy: string = ownerId): Promise<void> {
+    this.logger.trace(`enter UploadSessionService.abortSession(${id})`);
+
+    const session = await this.getSession(id, ownerId, uploadedBy);
+    if (this.completing.has(id)) {
+      throw new HttpError(409, "Upload is being completed");
+    }
+    await this.discardUpload(session);
+    await this.store.delete(id);
+
+    this.logger.trace(`exit UploadSessionService.abortSession(${id})`);
+  }
+
+  async purgeExpired(): Promise<number> {
+    // A session that expires while it is being completed is left to the completion
+    const expired = (await this.store.listExpired(new Date())).filter((session) => !this.completing.has(session.id));
+
+    for (const session of expired) {
+      try {
+        await this.discardUpload(session);
+      } catch (error: unknown) {
+        // Keep going; the provider's own lifecycle rules are the backstop for staged parts
+        this.logger.warn(`Unable to abort expired upload ${session.id}: ${toError(error).message}`);
+      }
+      await this.store.delete(session.id);
+    }
+
+    if (expired.length > 0) {
+      this.logger.info(`UploadSessionService purged ${expired.length} expired upload session(s)`);
+    }
+    return expired.length;
+  }
+
+  /**
+   * Drop what the provider holds for a session: its staged parts, or the object they
+   * were assembled into if cataloguing it never succeeded
+   */
+  private async discardUpload(session: IUploadSession): Promise<void> {
+    if (session.assembled) {
+      await this.storage.delete(session.filename);
+    } else {
+      await this.storage.abortChunkedUpload(session.filename, session.providerUploadId, session.parts);
+    }
+  }
+
+  /**
+   * Periodically purge expired sessions
+   * @param intervalMs
+   * @returns the timer, so callers can stop it
+   */
+  startGarbageCollector(intervalMs: number = uploadConfig.session.gcIntervalMs): NodeJS.Timeout {
+    return startPeriodic(this.logger, "UploadSessionService.purgeExpired", () => this.purgeExpired(), intervalMs);
+  }
+}
+
+/**
+ * A sink that drops what it is given, for reading a stream through only to measure it
+ */
+function discard(): Writable {
+  return new Writable({
+    write(_chunk, _encoding, callback) {
+      callback();
+    },
+  });
+}
@@ -10,19 +10,59 @@ import express, {
   type NextFunction
 } from "express";
 import cors from "cors";
+import cookieParser from "cookie-parser";
 import helmet from 'helmet';
-import { corsConfig } from "./config/index.js";
+import path from "path";
+import { accessConfig, corsConfig, getMetricsConfig, getTokenConfig, uploadConfig } from "./config/index.js";
 import { getServerConfig } from "./config/index.js";
 import { LoggerFactory } from "./core/factories/logger.factory.js";
 import { AccessFactory } from "./core/factories/access.factory.js";
+import { TokenService } from "./core/security/token.service.js";
+import { RefreshTokenService } from "./core/security/refresh-token.service.js";
+import { SessionService } from "./core/security/session.service.js";
+import { EmailLockoutNotifier } from "./core/security/lockout-notifier.js";
+import { LockoutService } from "./core/security/lockout.service.js";
+import { MfaService } from "./core/security/mfa.service.js";
+import { FileMfaStore } from "./core/stores/mfa.store.js";
+import { FileRefreshTokenStore } from "./core/stores/refresh-token.store.js";
+import { FileRevocationStore, FileSessionStore } from "./core/stores/session.store.js";
 import { AccessService } from "./api/v1/services/access.service.js";
 import { AccessController } from "./api/v1/controllers/access.controller.js";
 import { createAccessRouter } from "./api/v1/routes/access.routes.js";
 import { createHealthRouter } from "./api/v1/routes/health.routes.js";
+import { HealthService } from "./api/v1/services/health.service.js";
+import { HealthController } from "./api/v1/controllers/health.controller.js";
 import { StorageController } from "./api/v1/controllers/storage.controller.js";
 import { createStoreRouter } from "./api/v1/routes/storeage.routes.js";
 import { StorageFactory } from "./core/factories/storage.factory.js";
 import { StorageService } from "./api/v1/services/store.service.js";
+import { HttpError } from "./core/utilities/error.utility.js";
+import { createUploadMiddleware } from "./core/middleware/upload.middleware.js";
+import { createAuthMiddleware } from "./core/middleware/auth.middleware.js";
+import { createCsrfMiddleware } from "./core/middleware/csrf.middleware.js";
+import { createRequestContextMiddleware } from "./core/middleware/request-context.middleware.js";
+import { createHttpMetricsMiddleware, createMetricsHandler } from "./core/middleware/metrics.middleware.js";
+import { createTracingMiddleware } from "./core/middleware/tracing.middleware.js";
+import { startTracing, traceLayer } from "./core/utilities/tracing.utility.js";
+import { FileUploadSessionStore } from "./core/stores/upload-session.store.js";
+import { UploadSessionService } from "./api/v1/services/upload-session.service.js";
+import { UploadSessionController } from "./api/v1/controllers/upload-session.controller.js";
+import { FileCatalogStore } from "./core/stores/file-catalog.store.js";
+import { FileCatalogService } from "./api/v1/services/file-catalog.service.js";
+import { FileCatalogController } from "./api/v1/controllers/file-catalog.controller.js";
+import { FileDelegatedAccessLog, FileDelegationStore } from "./core/stores/delegation.store.js";
+import { DelegationService } from "./api/v1/services/delegation.service.js";
+import { DelegationController } from "./api/v1/controllers/delegation.controller.js";
+import { createDelegationRouter } from "./api/v1/routes/delegation.routes.js";
+import { FileClientStore } from "./core/stores/client.store.js";
+import { ClientService } from "./api/v1/services/client.service.js";
+import { ClientController } from "./api/v1/controllers/client.controller.js";
+import { createClientRouter } from "./api/v1/routes/client.routes.js";
+import { NotifierFactory } from "./core/factories/notifier.factory.js";
+import { FileAccountTokenStore } from "./core/stores/account-token.store.js";
+import { AccountService } from "./api/v1/services/account.service.js";
+import { AccountController } from "./api/v1/controllers/account.controller.js";
+import { createAccountRouter } from "./api/v1/routes/account.routes.js";
 
 const logger = LoggerFactory.getLoggerProvider();
 
@@ -82,39 +122,162 @@ logger.trace("API: Initializing application...");
       },
     }));
 
+    // OpenTelemetry server span, continuing the caller's traceparent; off unless TRACING_EXPORTER is set
+    const tracing = startTracing();
+    if (tracing) {
+      app.use(createTracingMiddleware());
+    }
+
+    // Request id and trace context; everything after this logs with them
+    app.use(createRequestContextMiddleware(logger));
+
+    // Request counts and durations for /metrics
+    const metricsConfig = getMetricsConfig();
+    if (metricsConfig.enabled) {
+      app.use(createHttpMetricsMiddleware(metricsConfig));
+    }
+
     //comms configuration
     app.use(cors(corsConfig));
     app.use(express.json());
+    app.use(cookieParser());
     // Set trust proxy based on deployment environment (security critical for rate limiting)
     app.set("trust proxy", config.trustProxy);
 
-    //set up logging 
+    //set up logging - method and path only; bodies carry passwords, tokens and PHI
     app.use((req, _res, next) => {
-      logger.trace(
-        `\nIncoming ${req.method} request to ${
-          req.path
-        } with body ${JSON.stringify(req.body)}`
-      );
+      logger.trace(`Incoming ${req.method} request to ${req.path}`);
       next();
     });
 
     // Apply stricter rate limiting to endpoints
     app.use('/api/v1/access/login', accessLimiter);
+    app.use('/api/v1/clients/token', accessLimiter);
+    app.use('/api/v1/account/password', accessLimiter);
+    app.use('/api/v1/account/email', accessLimiter);
     app.use('/api/v1/storage/upload', uploadLimiter);
     app.use('/api/v1/storage/download', downloadLimiter);
 
     // Apply general API rate limiting to all API routes
     app.use('/api/v1', apiLimiter);
 
+    // Cookie-authenticated requests must echo the CSRF cookie in X-CSRF-Token; bearer and API key callers are exempt
+    app.use('/api/v1', createCsrfMiddleware(logger));
 
-    // Using dependancy injection - add any future provider chains here (database, analytics, etc)
-    const access = AccessFactory.getAccessProvider(logger);
-    const accessService = new AccessService(logger, access);
-    const accessController = new AccessController(logger, accessService);
+
+    // Using dependancy injection - add any future provider chains here (database, analytics, etc).
+    // traceLayer gives controllers, services and providers spans while tracing is on
+    const refreshTokenStore = new FileRefreshTokenStore(
+      accessConfig.refresh.storePath ||
+        path.join(config.localStoragePath, 'sessions', 'refresh-tokens.json')
+    );
+    const refreshTokenService = new RefreshTokenService(logger, refreshTokenStore);
+    refreshTokenService.startGarbageCollector();
+    const sessionService = new SessionService(
+      logger,
+      new FileSessionStore(
+        accessConfig.sessions.storePath ||
+          path.join(config.localStoragePath, 'sessions', 'sessions.json')
+      ),
+      new FileRevocationStore(
+        accessConfig.sessions.revocationStorePath ||
+          path.join(config.localStoragePath, 'sessions', 'revoked-tokens.json')
+      ),
+      refreshTokenService
+    );
+    refreshTokenService.setReuseHandler(sessionService);
+    sessionService.startGarbageCollector();
+    const tokenService = new TokenService(logger, getTokenConfig(), sessionService);
+    const access = traceLayer(AccessFactory.getAccessProvider(logger, tokenService), "provider");
+    const notifier = NotifierFactory.getNotifier(logger);
+    const lockoutService = new LockoutService(
+      logger,
+      AccessFactory.getLoginFailureStore(logger),
+      accessConfig.lockout,
+      new EmailLockoutNotifier(logger, AccessFactory.getUserStore(), notifier)
+    );
+    lockoutService.startGarbageCollector();
+    const mfaService = new MfaService(
+      logger,
+      new FileMfaStore(
+        accessConfig.mfa.storePath ||
+          path.join(config.localStoragePath, 'users', 'mfa.json')
+      )
+    );
+    const accessService = traceLayer(new AccessService(
+      logger,
+      access,
+      refreshTokenService,
+      sessionService,
+      lockoutService,
+      mfaService
+    ), "service");
+    const accessController = traceLayer(new AccessController(logger, accessService), "controller");
+    const clientService = traceLayer(new ClientService(
+      logger,
+      new FileClientStore(
+        accessConfig.clients.storePath ||
+          path.join(config.localStoragePath, 'users', 'clients.json')
+      ),
+      tokenService
+    ), "service");
+    const clientController = traceLayer(new ClientController(logger, clientService), "controller");
+    const accountService = traceLayer(new AccountService(
+      logger,
+      AccessFactory.getUserStore(),
+      new FileAccountTokenStore(
+        accessConfig.account.tokenStorePath ||
+          path.join(config.localStoragePath, 'users', 'account-tokens.json')
+      ),
+      notifier,
+      accessConfig.passwordPolicy,
+      accessConfig.account,
+      sessionService,
+      lockoutService
+    ), "service");
+    const accountController = traceLayer(new AccountController(logger, accountService), "controller");
 
     const storage = StorageFactory.getStorageProvider(logger);
-    const storageService = new StorageService(logger, storage);
-    const storageController = new StorageController(logger, storageService);
+    const storageService = traceLayer(new StorageService(logger, storage), "service");
+
+    const fileCatalogStore = new FileCatalogStore(
+      uploadConfig.catalog.storePath ||
+        path.join(config.localStoragePath, 'catalog', 'files.json')
+    );
+    const delegationService = traceLayer(new DelegationService(
+      logger,
+      new FileDelegationStore(
+        accessConfig.delegation.storePath ||
+          path.join(config.localStoragePath, 'delegations', 'delegations.json')
+      ),
+      new FileDelegatedAccessLog(
+        accessConfig.delegation.auditLogPath ||
+          path.join(config.localStoragePath, 'delegations', 'delegated-access.jsonl')
+      )
+    ), "service");
+    const delegationController = traceLayer(new DelegationController(logger, delegationService), "controller");
+    const fileCatalogService = traceLayer(new FileCatalogService(logger, storage, fileCatalogStore, delegationService), "service");
+    const fileCatalogController = traceLayer(new FileCatalogController(logger, fileCatalogService), "controller");
+    const storageController = traceLayer(new StorageController(logger, storageService, fileCatalogService), "controller");
+
+    const uploadSessionStore = new FileUploadSessionStore(
+      uploadConfig.session.storePath ||
+        path.join(config.localStoragePath, 'sessions', 'upload-sessions.json')
+    );
+    const uploadSessionService = traceLayer(
+      new UploadSessionService(logger, storage, uploadSessionStore, fileCatalogService),
+      "service"
+    );
+    const uploadSessionController = traceLayer(new UploadSessionController(logger, uploadSessionService, fileCatalogService), "controller");
+    uploadSessionService.startGarbageCollector();
+
+    // Both are critical: without storage nothing can be uploaded or downloaded, without
+    // access nobody can sign in or be authenticated
+    const healthService = new HealthService(logger, [
+      { name: "storage", critical: true, check: () => storage.healthCheck() },
+      { name: "access", critical: true, check: () => access.healthCheck() },
+    ]);
+    const healthController = new HealthController(logger, healthService);
 
     // Root endpoint
     app.get("/", (req, res) => {
@@ -122,19 +285,47 @@ logger.trace("API: Initializing application...");
       res.send("Hello from Soleo API!");
     });
 
+    // Prometheus metrics - here unless METRICS_PORT gives them a listener of their own
+    if (metricsConfig.enabled && metricsConfig.port === undefined) {
+      logger.info(`App: Mounting ${metricsConfig.path}...`);
+      app.get(metricsConfig.path, createMetricsHandler(logger, metricsConfig));
+    }
+
     // Health routes - note: these do not use /api/v1 prefix
     logger.info("App: Mounting /health routes...");
-    const healthRoutes = createHealthRouter(logger);
+    const healthRoutes = createHealthRouter(logger, healthController);
     app.use("/health", healthRoutes);
 
     // API v1 access routes
     logger.info("App: Mounting /api/v1/access routes...");
-    const accessRoutes = createAccessRouter(logger, accessController);
+    const authMiddleware = createAuthMiddleware(logger, accessService, clientService);
+    const accessRoutes = createAccessRouter(logger, accessController, authMiddleware);
     app.use("/api/v1/access", accessRoutes);
 
-    // API v1 storage routes
-    const storageRoutes = createStoreRouter(logger, storageController);
-    app.use("/api/v1/storage", storageRoutes);
+    // API v1 account routes - password reset and email verification for LOCAL accounts
+    if (config.accessProvider.toUpperCase() === 'LOCAL') {
+      logger.info("App: Mounting /api/v1/account routes...");
+      app.use("/api/v1/account", createAccountRouter(logger, accountController));
+    }
+
+    // API v1 storage routes - every storage request must come from an authenticated caller
+    const uploadMiddleware = createUploadMiddleware(logger, storageService);
+    const storageRoutes = createStoreRouter(
+      logger,
+      storageController,
+      uploadMiddleware,
+      uploadSessionController,
+      fileCatalogController
+    );
+    app.use("/api/v1/storage", authMiddleware, storageRoutes);
+
+    // API v1 client routes - API keys and client credentials for service-to-service callers
+    logger.info("App: Mounting /api/v1/clients routes...");
+    app.use("/api/v1/clients", createClientRouter(logger, clientController, authMiddleware));
+
+    // API v1 delegation routes - patients sharing their files with caregivers
+    logger.info("App: Mounting /api/v1/delegations routes...");
+    app.use("/api/v1/delegations", authMiddleware, createDelegationRouter(logger, delegationController));
 
     // fallback error handler if no route
     app.use((req, res) => {
@@ -158,6 +349,12 @@ logger.trace("API: Initializing application...");
         name: err.name
       });
 
+      // Errors raised with an explicit status carry a client-safe message
+      if (err instanceof HttpError) {
+        res.status(err.statusCode).json({ ...err.details, success: false, error: err.message });
+        return;
+      }
+
       // Send generic error to client (don't expose internal details)
       res.status(500).json({
         success: false,
@@ -168,4 +365,25 @@ logger.trace("API: Initializing application...");
     });
 
     return app;
-  }
\ No newline at end of file
+  }
+
+/**
+ * Create the app for the metrics listener (METRICS_PORT), which serves nothing else
+ * @returns Configured Express app
+ */
+export function createMetricsApp() {
+  const app = express();
+  const metricsConfig = getMetricsConfig();
+
+  app.disable("x-powered-by");
+  app.get(metricsConfig.path, createMetricsHandler(logger, metricsConfig));
+  app.use((_req, res) => {
+    res.status(404).json({ success: false, error: 'Route not found' });
+  });
+  app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
+    const status = err instanceof HttpError ? err.statusCode : 500;
+    res.status(status).json({ success: false, error: status === 500 ? 'An internal server error occurred' : err.message });
+  });
+
+  return app;
+}
@@ -0,0 +1,208 @@
+/**
+ * Manage the accounts of the LOCAL access provider.
+ *
+ *   npm run users -- add <username> [--type patient|caregiver|clinician|admin|service] [--email <address>]
+ *   npm run users -- passwd <username>
+ *   npm run users -- disable|enable|remove <username>
+ *   npm run users -- list
+ *   npm run users -- bootstrap-admin
+ *
+ * Passwords are read from the terminal (or the first line of stdin when piped), never
+ * from the command line, and must meet the password policy (PASSWORD_MIN_LENGTH,
+ * PASSWORD_MIN_CLASSES).  An account added with --email cannot log in until its owner
+ * follows the verification link mailed to it by the configured notifier.  bootstrap-admin creates an admin from ADMIN_USERNAME and
+ * ADMIN_PASSWORD unless one already exists, so it is safe to run on every deploy.
+ * The store is USER_STORE_PATH, or <LOCAL_STORAGE_PATH>/users/users.json.
+ */
+import crypto from "crypto";
+import readline from "readline";
+import { parseArgs } from "util";
+import type { UserType } from "../core/interfaces/access.interface.js";
+import type { IUserRecord, IUserStore } from "../core/interfaces/user.interface.js";
+import path from "path";
+import { accessConfig, getServerConfig, USER_TYPES } from "../config/index.js";
+import { AccessFactory } from "../core/factories/access.factory.js";
+import { LoggerFactory } from "../core/factories/logger.factory.js";
+import { NotifierFactory } from "../core/factories/notifier.factory.js";
+import { FileAccountTokenStore } from "../core/stores/account-token.store.js";
+import { AccountService } from "../api/v1/services/account.service.js";
+import { checkPasswordStrength, hashPassword } from "../core/utilities/password.utility.js";
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: { type: { type: "string", default: "patient" }, email: { type: "string" } },
+  });
+  const [command, username] = positionals;
+  const store = AccessFactory.getUserStore();
+
+  switch (command) {
+    case "add": {
+      const email = values.email === undefined ? undefined : toEmail(values.email);
+      const user = await addUser(store, required(username), toUserType(values.type), await readPassword(), email);
+      if (email) {
+        await accountService(store).sendVerification(user);
+        console.log(`Added ${username}; a verification link was sent to ${email}`);
+      } else {
+        console.log(`Added ${username}`);
+      }
+      break;
+    }
+    case "passwd": {
+      const user = await existingUser(store, username);
+      await store.save({ ...user, passwordHash: await hashPassword(checkPassword(await readPassword(), user.username)), updatedAt: now() });
+      console.log(`Password changed for ${user.username}`);
+      break;
+    }
+    case "disable":
+    case "enable": {
+      const user = await existingUser(store, username);
+      await store.save({ ...user, disabled: command === "disable", updatedAt: now() });
+      console.log(`${command === "disable" ? "Disabled" : "Enabled"} ${user.username}`);
+      break;
+    }
+    case "remove": {
+      const user = await existingUser(store, username);
+      await store.delete(user.id);
+      console.log(`Removed ${user.username}`);
+      break;
+    }
+    case "list":
+      for (const user of await store.list()) {
+        const email = user.email ? `${user.email}${user.emailVerified === false ? " (unverified)" : ""}` : "";
+        console.log(`${user.id}  ${user.username.padEnd(24)} ${user.userType.padEnd(9)} ${(user.disabled ? "disabled" : "").padEnd(8)} ${email}`);
+      }
+      break;
+    case "bootstrap-admin":
+      await bootstrapAdmin(store);
+      break;
+    default:
+      throw new Error("usage: users add|passwd|disable|enable|remove <username> [--type <userType>] [--email <address>] | list | bootstrap-admin");
+  }
+}
+
+async function addUser(
+  store: IUserStore,
+  username: string,
+  userType: UserType,
+  password: string,
+  email?: string
+): Promise<IUserRecord> {
+  if (!/^[a-zA-Z0-9_-]{3,50}$/.test(username)) {
+    throw new Error("Username must be 3-50 letters, digits, _ or -");
+  }
+  if (await store.findByUsername(username)) {
+    throw new Error(`User ${username} already exists`);
+  }
+  if (email && (await store.findByEmail(email))) {
+    throw new Error(`Another user already has the email ${email}`);
+  }
+
+  const user: IUserRecord = {
+    id: crypto.randomUUID(),
+    username: username.toLowerCase(),
+    passwordHash: await hashPassword(checkPassword(password, username)),
+    userType,
+    disabled: false,
+    ...(email ? { email, emailVerified: false } : {}),
+    createdAt: now(),
+    updatedAt: now(),
+  };
+  await store.save(user);
+  return user;
+}
+
+async function bootstrapAdmin(store: IUserStore): Promise<void> {
+  if ((await store.list()).some((user) => user.userType === "admin" && !user.disabled)) {
+    console.log("An admin account already exists; nothing to do");
+    return;
+  }
+  const username = process.env["ADMIN_USERNAME"];
+  const password = process.env["ADMIN_PASSWORD"];
+  if (!username || !password) {
+    throw new Error("Set ADMIN_USERNAME and ADMIN_PASSWORD to bootstrap an admin");
+  }
+  await addUser(store, username, "admin", password);
+  console.log(`Created admin ${username}`);
+}
+
+async function existingUser(store: IUserStore, username: string | undefined): Promise<IUserRecord> {
+  const user = await store.findByUsername(required(username));
+  if (!user) {
+    throw new Error(`No such user ${username}`);
+  }
+  return user;
+}
+
+function required(username: string | undefined): string {
+  if (!username) {
+    throw new Error("A username is required");
+  }
+  return username;
+}
+
+function toUserType(value: string | undefined): UserType {
+  if (!USER_TYPES.includes(value as UserType)) {
+    throw new Error(`--type must be one of ${USER_TYPES.join(", ")}`);
+  }
+  return value as UserType;
+}
+
+function toEmail(value: string): string {
+  const email = value.trim().toLowerCase();
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) || email.length > 254) {
+    throw new Error("--email must be an email address");
+  }
+  return email;
+}
+
+function checkPassword(password: string, username: string): string {
+  const problems = checkPasswordStrength(password, accessConfig.passwordPolicy, username);
+  if (problems.length > 0) {
+    throw new Error(problems.join("\n"));
+  }
+  return password;
+}
+
+function accountService(store: IUserStore): AccountService {
+  const logger = LoggerFactory.getLoggerProvider();
+  return new AccountService(
+    logger,
+    store,
+    new FileAccountTokenStore(
+      accessConfig.account.tokenStorePath ||
+        path.join(getServerConfig().localStoragePath, "users", "account-tokens.json")
+    ),
+    NotifierFactory.getNotifier(logger)
+  );
+}
+
+async function readPassword(): Promise<string> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout, terminal: process.stdin.isTTY });
+  try {
+    if (process.stdin.isTTY) {
+      process.stdout.write("Password: ");
+      // Keep the typed password off the screen
+      (rl as unknown as { _writeToOutput: (s: string) => void })._writeToOutput = () => undefined;
+    }
+    const password = await new Promise<string>((resolve) => {
+      rl.once("line", resolve);
+      rl.once("close", () => resolve(""));
+    });
+    if (process.stdin.isTTY) {
+      process.stdout.write("\n");
+    }
+    return password;
+  } finally {
+    rl.close();
+  }
+}
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+main().catch((error: unknown) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
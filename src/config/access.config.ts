@@ -0,0 +1,148 @@
+import type { UserType } from '../core/interfaces/access.interface.js';
+import { USER_TYPES } from './rbac.config.js';
+
+/**
+ * Access provider configuration (ACCESS_PROVIDER selects the provider itself)
+ */
+export const accessConfig = {
+    local: {
+      // Defaults to <LOCAL_STORAGE_PATH>/users/users.json
+      userStorePath: process.env['USER_STORE_PATH'],
+    },
+    mock: {
+      // The mock AZURE provider accepts any password; PRODUCTION refuses it without this
+      allowInProduction: process.env['ALLOW_MOCK_ACCESS'] === 'true',
+    },
+    passwordPolicy: {
+      minLength: parseInt(process.env['PASSWORD_MIN_LENGTH'] || '12'),
+      maxLength: 128,
+      // of lower case, upper case, digits and symbols
+      minCharacterClasses: parseInt(process.env['PASSWORD_MIN_CLASSES'] || '3'),
+    },
+    account: {
+      resetTtlSeconds: parseInt(process.env['PASSWORD_RESET_TTL'] || '3600'),  // 1 hour
+      verificationTtlSeconds: parseInt(process.env['EMAIL_VERIFICATION_TTL'] || '172800'),  // 2 days
+      // Where the links in account emails point; the client app handles the token
+      publicUrl: process.env['APP_PUBLIC_URL'] || 'http://localhost:3000',
+      // Defaults to <LOCAL_STORAGE_PATH>/users/account-tokens.json
+      tokenStorePath: process.env['ACCOUNT_TOKEN_STORE_PATH'],
+    },
+    refresh: {
+      ttlSeconds: parseInt(process.env['REFRESH_TOKEN_TTL'] || '1209600'),  // 14 days, renewed on each rotation
+      gcIntervalMs: parseInt(process.env['REFRESH_TOKEN_GC_INTERVAL'] || '3600000'),  // 1 hour
+      // Defaults to <LOCAL_STORAGE_PATH>/sessions/refresh-tokens.json
+      storePath: process.env['REFRESH_TOKEN_STORE_PATH'],
+    },
+    sessions: {
+      gcIntervalMs: parseInt(process.env['SESSION_GC_INTERVAL'] || '900000'),  // 15 min
+      // Default to <LOCAL_STORAGE_PATH>/sessions/sessions.json and .../revoked-tokens.json
+      storePath: process.env['SESSION_STORE_PATH'],
+      revocationStorePath: process.env['REVOCATION_STORE_PATH'],
+    },
+    lockout: {
+      maxFailures: parseInt(process.env['LOGIN_LOCKOUT_THRESHOLD'] || '5'),
+      lockoutSeconds: parseInt(process.env['LOGIN_LOCKOUT_DURATION'] || '900'),  // 15 min
+      backoffBaseMs: parseInt(process.env['LOGIN_BACKOFF_BASE'] || '1000'),
+      backoffMaxMs: parseInt(process.env['LOGIN_BACKOFF_MAX'] || '30000'),
+      failureWindowSeconds: parseInt(process.env['LOGIN_FAILURE_WINDOW'] || '900'),  // 15 min
+      gcIntervalMs: parseInt(process.env['LOGIN_FAILURE_GC_INTERVAL'] || '600000'),  // 10 min
+      // MEMORY, or FILE at LOGIN_FAILURE_STORE_PATH (default <LOCAL_STORAGE_PATH>/sessions/login-failures.json)
+      store: process.env['LOGIN_FAILURE_STORE'] || 'MEMORY',
+      storePath: process.env['LOGIN_FAILURE_STORE_PATH'],
+    },
+    mfa: {
+      issuer: process.env['MFA_ISSUER'] || 'Soleo',  // shown in authenticator apps
+      requiredRoles: splitList(process.env['MFA_REQUIRED_ROLES'] ?? 'clinician,provider,admin').map(toUserType),
+      challengeTtlSeconds: parseInt(process.env['MFA_CHALLENGE_TTL'] || '300'),  // 5 min
+      maxAttempts: parseInt(process.env['MFA_MAX_ATTEMPTS'] || '5'),  // wrong codes per challenge
+      recoveryCodes: parseInt(process.env['MFA_RECOVERY_CODES'] || '10'),
+      // Defaults to <LOCAL_STORAGE_PATH>/users/mfa.json
+      storePath: process.env['MFA_STORE_PATH'],
+    },
+    clients: {
+      // How long a rotated-out secret keeps working, so callers can switch over
+      rotationGraceSeconds: parseInt(process.env['CLIENT_SECRET_ROTATION_GRACE'] || '86400'),  // 1 day
+      // Defaults to <LOCAL_STORAGE_PATH>/users/clients.json
+      storePath: process.env['CLIENT_STORE_PATH'],
+    },
+    delegation: {
+      defaultTtlSeconds: parseInt(process.env['DELEGATION_DEFAULT_TTL'] || '2592000'),  // 30 days
+      maxTtlSeconds: parseInt(process.env['DELEGATION_MAX_TTL'] || '31536000'),  // 1 year
+      // Default to <LOCAL_STORAGE_PATH>/delegations/delegations.json and .../delegated-access.jsonl
+      storePath: process.env['DELEGATION_STORE_PATH'],
+      auditLogPath: process.env['DELEGATION_AUDIT_LOG_PATH'],
+    },
+  };
+
+/**
+ * OpenID Connect provider configuration (ACCESS_PROVIDER=OIDC), e.g. Microsoft Entra ID:
+ * OIDC_DISCOVERY_URL=https://login.microsoftonline.com/<tenant>/v2.0/.well-known/openid-configuration
+ */
+export interface OidcConfig {
+  discoveryUrl: string;
+  issuer?: string | undefined; // overrides the discovered issuer, e.g. Entra v1 access tokens
+  audiences: string[]; // client id for ID tokens, API app id URI for access tokens
+  tenantId?: string | undefined; // checked against the tid claim when set
+  algorithms: string[];
+  userIdClaim: string; // oid is stable per Entra user across apps; sub elsewhere
+  rolesClaim: string;
+  roleMap: Record<string, UserType>; // app role (or group) -> userType
+  defaultUserType: UserType;
+  clockToleranceSeconds: number;
+  jwksCacheMaxAgeMs: number; // keys are refetched sooner when an unknown kid shows up...
+  jwksCooldownMs: number; // ...but no more often than this
+  httpTimeoutMs: number;
+}
+
+/**
+ * Get the OIDC configuration from environment variables
+ * @returns OIDC configuration object
+ * @throws {Error} If the discovery URL or audience is missing, or the role map is malformed
+ */
+export function getOidcConfig(): OidcConfig {
+  const discoveryUrl = process.env['OIDC_DISCOVERY_URL'];
+  const audiences = splitList(process.env['OIDC_AUDIENCE']);
+  if (!discoveryUrl || audiences.length === 0) {
+    throw new Error('ACCESS_PROVIDER=OIDC needs OIDC_DISCOVERY_URL and OIDC_AUDIENCE');
+  }
+
+  return {
+    discoveryUrl,
+    issuer: process.env['OIDC_ISSUER'],
+    audiences,
+    tenantId: process.env['OIDC_TENANT_ID'],
+    algorithms: splitList(process.env['OIDC_ALGORITHMS'] || 'RS256'),
+    userIdClaim: process.env['OIDC_USER_ID_CLAIM'] || 'sub',
+    rolesClaim: process.env['OIDC_ROLES_CLAIM'] || 'roles',
+    roleMap: parseRoleMap(process.env['OIDC_ROLE_MAP'] || ''),
+    defaultUserType: toUserType(process.env['OIDC_DEFAULT_USER_TYPE'] || 'patient'),
+    clockToleranceSeconds: parseInt(process.env['OIDC_CLOCK_SKEW'] || '60'),
+    jwksCacheMaxAgeMs: parseInt(process.env['OIDC_JWKS_CACHE_MAX_AGE'] || '600000'),  // 10 min
+    jwksCooldownMs: parseInt(process.env['OIDC_JWKS_COOLDOWN'] || '30000'),
+    httpTimeoutMs: parseInt(process.env['OIDC_HTTP_TIMEOUT'] || '5000'),
+  };
+}
+
+// "Admin=admin,Clinician=provider"
+function parseRoleMap(value: string): Record<string, UserType> {
+  const map: Record<string, UserType> = {};
+  for (const entry of splitList(value)) {
+    const [role, userType] = entry.split('=').map((part) => part.trim());
+    if (!role || !userType) {
+      throw new Error(`OIDC_ROLE_MAP entry "${entry}" is not role=userType`);
+    }
+    map[role] = toUserType(userType);
+  }
+  return map;
+}
+
+function toUserType(value: string): UserType {
+  if (!USER_TYPES.includes(value as UserType)) {
+    throw new Error(`Unknown user type ${value}; use one of ${USER_TYPES.join(', ')}`);
+  }
+  return value as UserType;
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value || '').split(',').map((item) => item.trim()).filter(Boolean);
+}
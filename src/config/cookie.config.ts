@@ -0,0 +1,44 @@
+/**
+ * SameSite values the token cookies may use
+ */
+export type CookieSameSite = 'strict' | 'lax' | 'none';
+
+const SAME_SITE_VALUES: readonly CookieSameSite[] = ['strict', 'lax', 'none'];
+
+/**
+ * Attributes for the cookies login sets (auth_token, refresh_token and the CSRF token)
+ */
+export interface CookieConfig {
+  secure: boolean; // only sent over HTTPS
+  sameSite: CookieSameSite;
+  maxAgeSeconds: number; // cookies expire with their token, or after this, whichever is sooner
+  csrfCookieName: string; // __Host- prefixed when secure, so a sibling subdomain cannot plant one
+}
+
+/**
+ * Get the cookie configuration.  PRODUCTION defaults to Secure, SameSite=Strict cookies
+ * that last at most a working day; other deployments to SameSite=Lax cookies that work
+ * over plain HTTP on localhost.  COOKIE_SECURE, COOKIE_SAME_SITE and COOKIE_MAX_AGE override.
+ * @returns Cookie configuration object
+ * @throws {Error} If COOKIE_SAME_SITE is unknown, or none without Secure
+ */
+export function getCookieConfig(): CookieConfig {
+  const production = (process.env['DEPLOYMENT'] || 'TEST') === 'PRODUCTION';
+
+  const secure = process.env['COOKIE_SECURE'] ? process.env['COOKIE_SECURE'] === 'true' : production;
+  const sameSite = (process.env['COOKIE_SAME_SITE'] || (production ? 'strict' : 'lax')).toLowerCase() as CookieSameSite;
+  if (!SAME_SITE_VALUES.includes(sameSite)) {
+    throw new Error(`Unsupported COOKIE_SAME_SITE ${sameSite}; use one of ${SAME_SITE_VALUES.join(', ')}`);
+  }
+  // Browsers drop SameSite=None cookies that are not Secure
+  if (sameSite === 'none' && !secure) {
+    throw new Error('COOKIE_SAME_SITE=none needs COOKIE_SECURE=true');
+  }
+
+  return {
+    secure,
+    sameSite,
+    maxAgeSeconds: parseInt(process.env['COOKIE_MAX_AGE'] || (production ? '28800' : '1209600')), // 8 hours, or 14 days
+    csrfCookieName: secure ? '__Host-csrf_token' : 'csrf_token',
+  };
+}
@@ -7,7 +7,14 @@ export const corsConfig: CorsOptions = {
   origin: process.env['CORS_ALLOWED_ORIGINS']
     ? process.env['CORS_ALLOWED_ORIGINS'].split(',')
     : ['http://localhost:5173'],
-  methods: 'GET, POST',
+  methods: 'GET, HEAD, POST, PATCH, DELETE',
+  // Resumable uploads report progress and the session URL in headers; ranged
+  // downloads need the range and validator headers visible to the client; X-Request-Id
+  // and traceparent let a client quote the request when reporting a problem
+  exposedHeaders: [
+    'X-Request-Id', 'traceparent', 'Location', 'Upload-Offset', 'Upload-Length', 'Upload-Expires',
+    'Accept-Ranges', 'Content-Range', 'Content-Length', 'ETag', 'Last-Modified',
+  ],
   credentials: true,
   optionsSuccessStatus: 204,
 };
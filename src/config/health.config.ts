@@ -0,0 +1,26 @@
+/**
+ * How the readiness probes run
+ */
+export interface HealthConfig {
+  timeoutMs: number; // a probe taking longer counts as DOWN
+  cacheMs: number; // a report is reused for this long, so frequent polling does not hammer the dependencies
+}
+
+/**
+ * Get the readiness check configuration
+ * @returns Health configuration object
+ * @throws {Error} If HEALTH_CHECK_TIMEOUT_MS or HEALTH_CHECK_CACHE_MS is not a whole number of milliseconds
+ */
+export function getHealthConfig(): HealthConfig {
+  const timeoutMs = Number(process.env['HEALTH_CHECK_TIMEOUT_MS'] || '2000');
+  const cacheMs = Number(process.env['HEALTH_CHECK_CACHE_MS'] || '5000');
+
+  if (!Number.isInteger(timeoutMs) || timeoutMs <= 0) {
+    throw new Error(`Unsupported HEALTH_CHECK_TIMEOUT_MS ${process.env['HEALTH_CHECK_TIMEOUT_MS']}`);
+  }
+  if (!Number.isInteger(cacheMs) || cacheMs < 0) {
+    throw new Error(`Unsupported HEALTH_CHECK_CACHE_MS ${process.env['HEALTH_CHECK_CACHE_MS']}`);
+  }
+
+  return { timeoutMs, cacheMs };
+}
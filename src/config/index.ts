@@ -1,5 +1,33 @@
-export { getCloudStorageConfig } from './store.config.js';
+export {
+  getCloudStorageConfig,
+  type AzureStorageConfig,
+  type S3StorageConfig,
+  type GcsStorageConfig,
+  type CloudStorageProvider
+} from './store.config.js';
 export { corsConfig } from './cors.config.js';
-export { myCustomLevels, type CustomLevels } from './log.config.js';
+export {
+  myCustomLevels,
+  redactionConfig,
+  getLogFormat,
+  type CustomLevels,
+  type RedactionConfig,
+  type LogFormat
+} from './log.config.js';
 export { getServerConfig, type ServerConfig } from './server.config.js';
 export { rateLimitConfig} from './rate-limit.config.js';
+export { uploadConfig } from './upload.config.js';
+export { getCookieConfig, type CookieConfig, type CookieSameSite } from './cookie.config.js';
+export { getTokenConfig, type TokenConfig, type TokenAlgorithm } from './token.config.js';
+export { accessConfig, getOidcConfig, type OidcConfig } from './access.config.js';
+export { getMetricsConfig, type MetricsConfig } from './metrics.config.js';
+export { getHealthConfig, type HealthConfig } from './health.config.js';
+export { getTracingConfig, type TracingConfig, type TracingExporter } from './tracing.config.js';
+export { getNotifierConfig, type NotifierConfig, type NotifierProvider } from './notifier.config.js';
+export {
+  getRbacPolicy,
+  USER_TYPES,
+  PERMISSIONS,
+  type Permission,
+  type RbacPolicy
+} from './rbac.config.js';
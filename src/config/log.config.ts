@@ -21,3 +21,61 @@ export const myCustomLevels = {
 };
 
 export type CustomLevels = typeof myCustomLevels['levels'];
+
+/**
+ * How log lines are written: json (one object per line, for log search and correlation)
+ * or text (coloured, for reading in a terminal)
+ */
+export type LogFormat = 'json' | 'text';
+
+/**
+ * Get the log line format from LOG_FORMAT; json by default in PRODUCTION, text elsewhere
+ * @returns the format
+ * @throws {Error} If LOG_FORMAT is unknown
+ */
+export function getLogFormat(): LogFormat {
+  const format = (process.env['LOG_FORMAT'] ||
+    ((process.env['DEPLOYMENT'] || 'TEST') === 'PRODUCTION' ? 'json' : 'text')).toLowerCase();
+  if (format !== 'json' && format !== 'text') {
+    throw new Error(`Unsupported LOG_FORMAT ${format}; use json or text`);
+  }
+  return format;
+}
+
+/**
+ * What the loggers mask before anything reaches a transport.  Keys match meta object
+ * properties case-insensitively, ignoring '_' and '-', wherever the fragment appears in
+ * the name (so "token" covers accessToken and refresh_token).  Patterns are applied to
+ * the message and to every string in the meta; each match is replaced by the pattern's
+ * replacement.  LOG_REDACT_KEYS adds comma-separated key fragments.
+ */
+export const redactionConfig = {
+  mask: '[REDACTED]',
+  keys: [
+    'password', 'passwd', 'secret', 'token', 'authorization', 'cookie', 'apikey',
+    'accountkey', 'connectionstring', 'credential', 'privatekey', 'recoverycode',
+    'ssn', 'socialsecurity', 'mrn', 'medicalrecord', 'dateofbirth', 'dob',
+    ...(process.env['LOG_REDACT_KEYS'] || '').split(',').map((key) => key.trim()).filter(Boolean),
+  ],
+  patterns: [
+    // Authorization header values (long enough not to eat words like "Basic authentication")
+    { pattern: /\b(Bearer|ApiKey|Basic)\s+[A-Za-z0-9._~+/=-]{20,}/gi, replacement: '$1 [REDACTED]' },
+    // JWTs wherever they turn up
+    { pattern: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g, replacement: '[REDACTED]' },
+    // Connection strings (Azure AccountKey / SAS, database passwords)
+    { pattern: /\b(AccountKey|SharedAccessSignature|SharedAccessKey|Password|Pwd)=[^;\s]+/gi, replacement: '$1=[REDACTED]' },
+    // Secrets in URL query strings (SAS signatures, tokens in links)
+    { pattern: /([?&](?:sig|token|code|password|secret|access_token|refresh_token|client_secret)=)[^&\s"']+/gi, replacement: '$1[REDACTED]' },
+    // "key": "value" pairs in serialised JSON whose key is sensitive
+    {
+      pattern: /"([^"]*(?:password|passwd|secret|token|authorization|apikey|accountkey|ssn|mrn)[^"]*)"\s*:\s*"(?:[^"\\]|\\.)*"/gi,
+      replacement: '"$1":"[REDACTED]"',
+    },
+    // US social security numbers
+    { pattern: /\b\d{3}-\d{2}-\d{4}\b/g, replacement: '[REDACTED]' },
+    // Medical record numbers, when labelled as such
+    { pattern: /\b(MRN|medical record(?: number)?)(\s*[:#=]?\s*)[A-Z0-9-]{4,}/gi, replacement: '$1$2[REDACTED]' },
+  ],
+};
+
+export type RedactionConfig = typeof redactionConfig;
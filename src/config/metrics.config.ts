@@ -0,0 +1,37 @@
+/**
+ * Where and to whom the Prometheus metrics are served
+ */
+export interface MetricsConfig {
+  enabled: boolean;
+  path: string; // e.g. /metrics
+  token?: string | undefined; // scrapers must send Authorization: Bearer <token>
+  port?: number | undefined; // serve on this port only, not alongside the public API
+}
+
+/**
+ * Get the metrics configuration.  The endpoint is protected apart from the API's own
+ * users: METRICS_TOKEN makes it demand a static bearer token, and METRICS_PORT moves it
+ * to a listener of its own that can be kept off the public network.  PRODUCTION needs at
+ * least one of them; METRICS_ENABLED=false turns metrics off altogether.
+ * @returns Metrics configuration object
+ * @throws {Error} If METRICS_PORT is not a port, or PRODUCTION would expose the metrics
+ */
+export function getMetricsConfig(): MetricsConfig {
+  const enabled = process.env['METRICS_ENABLED'] !== 'false';
+  const token = process.env['METRICS_TOKEN'] || undefined;
+  const port = process.env['METRICS_PORT'] ? Number(process.env['METRICS_PORT']) : undefined;
+
+  if (port !== undefined && (!Number.isInteger(port) || port <= 0 || port > 65535)) {
+    throw new Error(`Unsupported METRICS_PORT ${process.env['METRICS_PORT']}`);
+  }
+  if (enabled && !token && port === undefined && (process.env['DEPLOYMENT'] || 'TEST') === 'PRODUCTION') {
+    throw new Error('METRICS_TOKEN or METRICS_PORT must be set in PRODUCTION (or METRICS_ENABLED=false)');
+  }
+
+  return {
+    enabled,
+    path: process.env['METRICS_PATH'] || '/metrics',
+    token,
+    port,
+  };
+}
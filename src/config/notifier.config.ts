@@ -0,0 +1,52 @@
+/**
+ * Notifier providers: SMTP sends real email; FILE writes each message to an outbox
+ * directory and CONSOLE logs it, for development and tests
+ */
+export type NotifierProvider = 'SMTP' | 'FILE' | 'CONSOLE';
+
+const NOTIFIER_PROVIDERS: readonly NotifierProvider[] = ['SMTP', 'FILE', 'CONSOLE'];
+
+/**
+ * Outgoing email configuration
+ */
+export interface NotifierConfig {
+  provider: NotifierProvider;
+  from: string;
+  outboxPath?: string | undefined; // FILE - defaults to <LOCAL_STORAGE_PATH>/outbox
+  smtp: {
+    host: string;
+    port: number;
+    secure: boolean; // TLS from the start (465); otherwise STARTTLS when the server offers it
+    user?: string | undefined;
+    password?: string | undefined;
+  };
+}
+
+/**
+ * Get the notifier configuration from environment variables
+ * @returns Notifier configuration object
+ * @throws {Error} If the provider is unknown, or SMTP is chosen without a host
+ */
+export function getNotifierConfig(): NotifierConfig {
+  const provider = (process.env['NOTIFIER_PROVIDER'] || 'FILE').toUpperCase() as NotifierProvider;
+  if (!NOTIFIER_PROVIDERS.includes(provider)) {
+    throw new Error(`Unsupported NOTIFIER_PROVIDER ${provider}; use one of ${NOTIFIER_PROVIDERS.join(', ')}`);
+  }
+
+  const config: NotifierConfig = {
+    provider,
+    from: process.env['NOTIFIER_FROM'] || 'Soleo <no-reply@localhost>',
+    outboxPath: process.env['NOTIFIER_OUTBOX_PATH'],
+    smtp: {
+      host: process.env['SMTP_HOST'] || '',
+      port: parseInt(process.env['SMTP_PORT'] || '587'),
+      secure: process.env['SMTP_SECURE'] === 'true',
+      user: process.env['SMTP_USER'],
+      password: process.env['SMTP_PASSWORD'],
+    },
+  };
+  if (provider === 'SMTP' && !config.smtp.host) {
+    throw new Error('NOTIFIER_PROVIDER=SMTP needs SMTP_HOST');
+  }
+  return config;
+}
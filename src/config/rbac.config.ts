@@ -0,0 +1,77 @@
+import fs from 'fs';
+import type { UserType } from '../core/interfaces/access.interface.js';
+
+/**
+ * Every user type the API knows; each is a role in the RBAC policy
+ */
+export const USER_TYPES: readonly UserType[] = ['patient', 'caregiver', 'clinician', 'provider', 'admin', 'service'];
+
+/**
+ * What a role may do.  ":own" permissions cover the caller's own files, ":any" every
+ * user's; storage:delete is own files only.  delegation:grant lets a patient share their
+ * files with a caregiver (see delegation.service).
+ */
+export const PERMISSIONS = [
+  'storage:upload',
+  'storage:read:own',
+  'storage:read:any',
+  'storage:delete',
+  'storage:delete:any',
+  'delegation:grant',
+  'access:admin',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export type RbacPolicy = Record<UserType, readonly Permission[]>;
+
+/**
+ * Built-in policy, used unless RBAC_POLICY_PATH names a JSON file of the same shape
+ * ({ "patient": ["storage:upload", ...], ... }, every role listed)
+ */
+const DEFAULT_POLICY: RbacPolicy = {
+  patient: ['storage:upload', 'storage:read:own', 'storage:delete', 'delegation:grant'],
+  caregiver: ['storage:upload', 'storage:read:own', 'storage:delete'],
+  clinician: ['storage:upload', 'storage:read:own', 'storage:read:any', 'storage:delete'],
+  provider: ['storage:upload', 'storage:read:own', 'storage:read:any', 'storage:delete'], // older name for clinician
+  admin: [...PERMISSIONS],
+  service: ['storage:upload', 'storage:read:own', 'storage:read:any'],
+};
+
+let policy: RbacPolicy | undefined;
+
+/**
+ * Get the RBAC policy; read once, then cached
+ * @returns role -> permissions
+ * @throws {Error} If the policy file is unreadable, omits a role or names an unknown permission
+ */
+export function getRbacPolicy(): RbacPolicy {
+  policy ??= loadPolicy(process.env['RBAC_POLICY_PATH']);
+  return policy;
+}
+
+function loadPolicy(policyPath: string | undefined): RbacPolicy {
+  if (!policyPath) {
+    return DEFAULT_POLICY;
+  }
+
+  const parsed: unknown = JSON.parse(fs.readFileSync(policyPath, 'utf8'));
+  if (typeof parsed !== 'object' || parsed === null) {
+    throw new Error(`RBAC policy ${policyPath} is not a JSON object`);
+  }
+  const roles = parsed as Record<string, unknown>;
+  const loaded = {} as Record<UserType, Permission[]>;
+  for (const role of USER_TYPES) {
+    const permissions = roles[role];
+    if (!Array.isArray(permissions)) {
+      throw new Error(`RBAC policy ${policyPath} has no permission list for role ${role}`);
+    }
+    for (const permission of permissions) {
+      if (!PERMISSIONS.includes(permission as Permission)) {
+        throw new Error(`RBAC policy ${policyPath} gives ${role} unknown permission ${String(permission)}`);
+      }
+    }
+    loaded[role] = permissions as Permission[];
+  }
+  return loaded;
+}
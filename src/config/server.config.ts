@@ -17,7 +17,7 @@ export interface ServerConfig {
   localStoragePath: string;
   storageProvider: string;
   integrityMode: IntegrityMode;
-  maxFileSize: Number;
+  maxFileSize: number;
   accessProvider: string;
   deployment: string;
   trustProxy: boolean | number | string;
@@ -33,7 +33,7 @@ export function getServerConfig(): ServerConfig {
   const LOCAL_STORAGE_PATH = process.env['LOCAL_STORAGE_PATH'] || os.tmpdir();
   const STORAGE_PROVIDER = process.env['STORAGE_PROVIDER'] || 'LOCAL'
   const INTEGRITY_MODE = (process.env['INTEGRITY_CHECK'] || 'SIZE') as IntegrityMode;
-  const MAX_FILE_SIZE = (process.env['MAX_FILE_SIZE'] || 104857600) as number; //100MB
+  const MAX_FILE_SIZE = Number(process.env['MAX_FILE_SIZE']) || 104857600; //100MB
   const ACCESS_PROVIDER = process.env['ACCESS_PROVIDER'] || 'AZURE';
   const DEPLOYMENT = process.env['DEPLOYMENT'] || 'TEST';
 
@@ -1,21 +1,97 @@
-export interface CloudStorageConfig {
+/**
+ * Azure Blob Storage configuration (STORAGE_PROVIDER=AZURE)
+ */
+export interface AzureStorageConfig {
     accountName: string;
     accountKey: string;
     containerName: string;
     connectionString: string;
   }
 
-  export function getCloudStorageConfig(): CloudStorageConfig {
+  /**
+   * S3-compatible storage configuration (STORAGE_PROVIDER=S3).  Leave endpoint unset for
+   * AWS; point it at MinIO (or any S3-compatible server) for development and CI.
+   */
+  export interface S3StorageConfig {
+    region: string;
+    bucket: string;
+    endpoint?: string | undefined;
+    forcePathStyle: boolean;
+    accessKeyId?: string | undefined;
+    secretAccessKey?: string | undefined;
+  }
+
+  /**
+   * Google Cloud Storage configuration (STORAGE_PROVIDER=GCS).  Set apiEndpoint to test
+   * against the fake-gcs-server emulator.
+   */
+  export interface GcsStorageConfig {
+    projectId?: string | undefined;
+    bucket: string;
+    apiEndpoint?: string | undefined;
+    keyFilename?: string | undefined;
+  }
+
+  /**
+   * Maps each cloud provider name to its typed configuration
+   */
+  export interface CloudStorageConfigMap {
+    AZURE: AzureStorageConfig;
+    S3: S3StorageConfig;
+    GCS: GcsStorageConfig;
+  }
+
+  export type CloudStorageProvider = keyof CloudStorageConfigMap;
+
+  /**
+   * Well-known development account baked into the Azurite emulator
+   * (https://learn.microsoft.com/azure/storage/common/storage-use-azurite)
+   */
+  const AZURITE_ACCOUNT_NAME = 'devstoreaccount1';
+
+  /**
+   * Get the configuration for a specific cloud storage provider
+   * @param provider - provider name, e.g. 'AZURE', 'S3' or 'GCS'
+   * @returns the provider's typed configuration
+   * @throws {Error} If required settings for the provider are missing
+   */
+  export function getCloudStorageConfig<P extends CloudStorageProvider>(provider: P): CloudStorageConfigMap[P] {
+    switch (provider) {
+      case 'AZURE':
+        return getAzureStorageConfig() as CloudStorageConfigMap[P];
+      case 'S3':
+        return getS3StorageConfig() as CloudStorageConfigMap[P];
+      case 'GCS':
+        return getGcsStorageConfig() as CloudStorageConfigMap[P];
+      default:
+        throw new Error(`Unknown cloud storage provider: ${String(provider)}`);
+    }
+  }
+
+  function getAzureStorageConfig(): AzureStorageConfig {
     const accountName = process.env['STORAGE_ACCOUNT_NAME'];
     const accountKey = process.env['STORAGE_ACCOUNT_KEY'];
     const containerName = process.env['STORAGE_CONTAINER_NAME'] || 'uploads';
+    const explicitConnectionString = process.env['STORAGE_CONNECTION_STRING'];
+    const blobEndpoint = process.env['STORAGE_BLOB_ENDPOINT']; // e.g. http://127.0.0.1:10000/devstoreaccount1 for Azurite
+
+    // A full connection string wins (this is how Azurite's "UseDevelopmentStorage=true" is passed in)
+    if (explicitConnectionString) {
+      return {
+        accountName: accountName || parseConnectionStringValue(explicitConnectionString, 'AccountName') || AZURITE_ACCOUNT_NAME,
+        accountKey: accountKey || parseConnectionStringValue(explicitConnectionString, 'AccountKey') || '',
+        containerName,
+        connectionString: explicitConnectionString
+      };
+    }
 
     if (!accountName || !accountKey) {
       throw new Error('Storage credentials not configured');
     }
 
-    //TODO may need to make this more generic to support S3, Azure, GC
-    const connectionString = `DefaultEndpointsProtocol=https;AccountName=${accountName};AccountKey=${accountKey};EndpointSuffix=core.windows.net`;
+    const connectionString = blobEndpoint
+      ? `DefaultEndpointsProtocol=${blobEndpoint.startsWith('https') ? 'https' : 'http'};AccountName=${accountName};AccountKey=${accountKey};BlobEndpoint=${blobEndpoint};`
+      : `DefaultEndpointsProtocol=https;AccountName=${accountName};AccountKey=${accountKey};EndpointSuffix=core.windows.net`;
 
     return {
       accountName,
@@ -23,4 +99,57 @@ export interface CloudStorageConfig {
       containerName,
       connectionString
     };
-  }
\ No newline at end of file
+  }
+
+  function getS3StorageConfig(): S3StorageConfig {
+    const bucket = process.env['AWS_S3_BUCKET'];
+    const endpoint = process.env['AWS_S3_ENDPOINT']; // e.g. http://127.0.0.1:9000 for MinIO
+    const accessKeyId = process.env['AWS_ACCESS_KEY_ID'];
+    const secretAccessKey = process.env['AWS_SECRET_ACCESS_KEY'];
+
+    if (!bucket) {
+      throw new Error('S3 bucket not configured');
+    }
+
+    // Partial static credentials are a misconfiguration; none at all falls back to the SDK chain (IAM role, profile, etc)
+    if (Boolean(accessKeyId) !== Boolean(secretAccessKey)) {
+      throw new Error('S3 credentials not configured: set both AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY');
+    }
+
+    return {
+      region: process.env['AWS_REGION'] || 'us-east-1',
+      bucket,
+      endpoint,
+      // MinIO and most S3-compatible servers don't support virtual-hosted bucket names
+      forcePathStyle: process.env['AWS_S3_FORCE_PATH_STYLE']
+        ? process.env['AWS_S3_FORCE_PATH_STYLE'] === 'true'
+        : Boolean(endpoint),
+      accessKeyId,
+      secretAccessKey
+    };
+  }
+
+  function getGcsStorageConfig(): GcsStorageConfig {
+    const bucket = process.env['GCP_BUCKET_NAME'];
+
+    if (!bucket) {
+      throw new Error('GCS bucket not configured');
+    }
+
+    return {
+      projectId: process.env['GCP_PROJECT_ID'],
+      bucket,
+      apiEndpoint: process.env['GCP_STORAGE_API_ENDPOINT'], // e.g. http://127.0.0.1:4443 for fake-gcs-server
+      keyFilename: process.env['GCP_CREDENTIALS_PATH'] // unset uses Application Default Credentials
+    };
+  }
+
+  /**
+   * Pull a single key out of an Azure style "Key=Value;Key=Value" connection string
+   */
+  function parseConnectionStringValue(connectionString: string, key: string): string | undefined {
+    const match = connectionString
+      .split(';')
+      .find((part) => part.toLowerCase().startsWith(`${key.toLowerCase()}=`));
+    return match ? match.substring(key.length + 1) : undefined;
+  }
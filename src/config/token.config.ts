@@ -0,0 +1,89 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Signing algorithms the token service supports.  HS256 signs with a shared secret;
+ * RS256 and ES256 (P-256) sign with a private key so other services can verify with
+ * the public key alone.
+ */
+export type TokenAlgorithm = 'HS256' | 'RS256' | 'ES256';
+
+const TOKEN_ALGORITHMS: readonly TokenAlgorithm[] = ['HS256', 'RS256', 'ES256'];
+const MIN_SECRET_LENGTH = 32;
+
+/**
+ * Access token (JWT) configuration
+ */
+export interface TokenConfig {
+  algorithm: TokenAlgorithm;
+  secret?: string | undefined; // HS256
+  privateKey?: string | undefined; // PEM, RS256/ES256 - omit to verify only
+  publicKey?: string | undefined; // PEM, RS256/ES256 - derived from the private key if omitted
+  issuer: string;
+  audience: string;
+  ttlSeconds: number;
+  clockToleranceSeconds: number; // allowed skew when checking exp/iat/nbf
+}
+
+// Development fallback when JWT_SECRET is unset: one per process, so tokens die with it
+let ephemeralSecret: string | undefined;
+
+/**
+ * Get the access token configuration from environment variables
+ * @returns Token configuration object
+ * @throws {Error} If the algorithm is unknown or its keys are missing or too weak
+ */
+export function getTokenConfig(): TokenConfig {
+  const algorithm = (process.env['JWT_ALGORITHM'] || 'HS256').toUpperCase() as TokenAlgorithm;
+  if (!TOKEN_ALGORITHMS.includes(algorithm)) {
+    throw new Error(`Unsupported JWT_ALGORITHM ${algorithm}; use one of ${TOKEN_ALGORITHMS.join(', ')}`);
+  }
+
+  const config: TokenConfig = {
+    algorithm,
+    issuer: process.env['JWT_ISSUER'] || 'soleo-spike-api',
+    audience: process.env['JWT_AUDIENCE'] || 'soleo-spike-api',
+    ttlSeconds: parseInt(process.env['JWT_TTL'] || '900'), // 15 min
+    clockToleranceSeconds: parseInt(process.env['JWT_CLOCK_SKEW'] || '30'),
+  };
+
+  if (algorithm === 'HS256') {
+    config.secret = getSecret();
+  } else {
+    config.privateKey = readKey('JWT_PRIVATE_KEY_PATH');
+    config.publicKey = readKey('JWT_PUBLIC_KEY_PATH');
+    if (!config.privateKey && !config.publicKey) {
+      throw new Error(`${algorithm} needs JWT_PRIVATE_KEY_PATH and/or JWT_PUBLIC_KEY_PATH`);
+    }
+  }
+
+  return config;
+}
+
+function getSecret(): string {
+  const secret = process.env['JWT_SECRET'];
+  if (secret) {
+    if (secret.length < MIN_SECRET_LENGTH) {
+      throw new Error(`JWT_SECRET must be at least ${MIN_SECRET_LENGTH} characters`);
+    }
+    return secret;
+  }
+  if ((process.env['DEPLOYMENT'] || 'TEST') === 'PRODUCTION') {
+    throw new Error('JWT_SECRET not configured');
+  }
+  ephemeralSecret ??= crypto.randomBytes(32).toString('hex');
+  return ephemeralSecret;
+}
+
+function readKey(variable: string): string | undefined {
+  const keyPath = process.env[variable];
+  if (!keyPath) {
+    return undefined;
+  }
+  try {
+    return fs.readFileSync(path.resolve(keyPath), 'utf8');
+  } catch (error) {
+    throw new Error(`Failed to read ${variable} at ${path.resolve(keyPath)}: ${error}`);
+  }
+}
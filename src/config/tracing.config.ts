@@ -0,0 +1,41 @@
+/**
+ * Where finished spans go: none turns tracing off, otlp sends them to a collector,
+ * console prints them, memory keeps them for tests to inspect
+ */
+export type TracingExporter = 'none' | 'otlp' | 'console' | 'memory';
+
+const EXPORTERS: readonly TracingExporter[] = ['none', 'otlp', 'console', 'memory'];
+
+/**
+ * OpenTelemetry tracing configuration
+ */
+export interface TracingConfig {
+  exporter: TracingExporter;
+  serviceName: string;
+  otlpEndpoint?: string | undefined; // e.g. http://collector:4318/v1/traces; the exporter's default otherwise
+  sampleRatio: number; // share of new traces recorded; callers' sampling decisions are kept
+}
+
+/**
+ * Get the tracing configuration.  Tracing is off unless TRACING_EXPORTER is set.  The
+ * OTLP endpoint also follows the standard OTEL_EXPORTER_OTLP_TRACES_ENDPOINT.
+ * @returns Tracing configuration object
+ * @throws {Error} If TRACING_EXPORTER is unknown or TRACING_SAMPLE_RATIO is not in [0, 1]
+ */
+export function getTracingConfig(): TracingConfig {
+  const exporter = (process.env['TRACING_EXPORTER'] || 'none').toLowerCase() as TracingExporter;
+  if (!EXPORTERS.includes(exporter)) {
+    throw new Error(`Unsupported TRACING_EXPORTER ${exporter}; use one of ${EXPORTERS.join(', ')}`);
+  }
+  const sampleRatio = Number(process.env['TRACING_SAMPLE_RATIO'] || '1');
+  if (!(sampleRatio >= 0 && sampleRatio <= 1)) {
+    throw new Error(`TRACING_SAMPLE_RATIO must be between 0 and 1, not ${process.env['TRACING_SAMPLE_RATIO']}`);
+  }
+
+  return {
+    exporter,
+    serviceName: process.env['OTEL_SERVICE_NAME'] || 'soleo-api',
+    otlpEndpoint: process.env['OTEL_EXPORTER_OTLP_TRACES_ENDPOINT'] || undefined,
+    sampleRatio,
+  };
+}
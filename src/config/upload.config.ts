@@ -0,0 +1,22 @@
+/**
+ * Upload configuration shared by the single-request and resumable (session) upload paths
+ */
+export const uploadConfig = {
+    // Validate file type (whitelist)
+    allowedMimeTypes: process.env['ALLOWED_MIME_TYPES']
+      ? process.env['ALLOWED_MIME_TYPES'].split(',').map((type) => type.trim())
+      : ['image/jpeg', 'image/png', 'application/pdf', 'text/plain'],
+    session: {
+      // Every chunk but the last must be at least this big (5MB is the S3 multipart minimum)
+      minChunkSize: parseInt(process.env['UPLOAD_CHUNK_MIN_SIZE'] || '5242880'),
+      maxChunkSize: parseInt(process.env['UPLOAD_CHUNK_MAX_SIZE'] || '16777216'),  // 16MB
+      ttlMs: parseInt(process.env['UPLOAD_SESSION_TTL'] || '86400000'),  // 24 hours
+      gcIntervalMs: parseInt(process.env['UPLOAD_SESSION_GC_INTERVAL'] || '900000'),  // 15 min
+      // Defaults to <LOCAL_STORAGE_PATH>/sessions/upload-sessions.json
+      storePath: process.env['UPLOAD_SESSION_STORE_PATH'],
+    },
+    catalog: {
+      // Defaults to <LOCAL_STORAGE_PATH>/catalog/files.json
+      storePath: process.env['FILE_CATALOG_STORE_PATH'],
+    },
+  };
@@ -1,27 +1,95 @@
+import path from 'path';
 import type { IAccess } from '../interfaces/access.interface.js';
 import type { ILogger } from '../interfaces/logger.interface.js';
+import type { ITokenService } from '../interfaces/token.interface.js';
+import type { ILoginFailureStore } from '../interfaces/lockout.interface.js';
+import type { IUserStore } from '../interfaces/user.interface.js';
 import { AzureAccess } from '../middleware/access/azure-access.js';
-import { getServerConfig } from "../../config/index.js";
+import { LocalAccess } from '../middleware/access/local-access.js';
+import { OidcAccess } from '../middleware/access/oidc-access.js';
+import { FileUserStore } from '../stores/user.store.js';
+import { FileLoginFailureStore, MemoryLoginFailureStore } from '../stores/login-failure.store.js';
+import { accessConfig, getOidcConfig, getServerConfig } from "../../config/index.js";
 
 /**
  * Factory for creating authenticator instances
  */
 export class AccessFactory {
+  // One store per file: each holds the file in memory, so two on the same file would drift apart
+  private static userStores = new Map<string, IUserStore>();
+
   /**
    * Get authenticator instance based on AUTH_TYPE environment variable
    * @param logger - Logger instance
+   * @param tokenService - Signs and verifies the tokens the provider hands out
    * @returns Authenticator instance
    */
-  static getAccessProvider(logger: ILogger): IAccess {
+  static getAccessProvider(logger: ILogger, tokenService: ITokenService): IAccess {
    
-    const provider = getServerConfig().accessProvider;
+    const config = getServerConfig();
+
+    switch (config.accessProvider.toUpperCase()) {
+      case 'LOCAL':
+        logger.info("Using local user store access");
+        return new LocalAccess(logger, tokenService, AccessFactory.getUserStore());
+
+      case 'OIDC':
+      case 'ENTRA':
+        logger.info("Using OpenID Connect access");
+        return new OidcAccess(logger, getOidcConfig());
 
-    switch (provider) {
       case 'AZURE':
-        return new AzureAccess(logger);
+      default:
+        if (config.deployment === 'PRODUCTION' && !accessConfig.mock.allowInProduction) {
+          throw new Error(
+            `ACCESS_PROVIDER ${config.accessProvider} is a mock that accepts any password; ` +
+              'use LOCAL or OIDC in PRODUCTION (or set ALLOW_MOCK_ACCESS=true)'
+          );
+        }
+        logger.warn("Using the mock Azure access provider: any password is accepted and every login is a patient");
+        return new AzureAccess(logger, tokenService);
+    }
+  }
+
+  /**
+   * The LOCAL provider's user store, shared by everything in the process that reads or
+   * changes accounts
+   */
+  static getUserStore(): IUserStore {
+    const storePath = AccessFactory.getUserStorePath();
+    let store = AccessFactory.userStores.get(storePath);
+    if (!store) {
+      store = new FileUserStore(storePath);
+      AccessFactory.userStores.set(storePath, store);
+    }
+    return store;
+  }
+
+  /**
+   * Where the LOCAL provider keeps its accounts: USER_STORE_PATH, or
+   * <LOCAL_STORAGE_PATH>/users/users.json
+   */
+  static getUserStorePath(): string {
+    return accessConfig.local.userStorePath ||
+      path.join(getServerConfig().localStoragePath, 'users', 'users.json');
+  }
+
+  /**
+   * Where failed logins are counted, by LOGIN_FAILURE_STORE: MEMORY (default) or FILE
+   * @param logger - Logger instance
+   */
+  static getLoginFailureStore(logger: ILogger): ILoginFailureStore {
+    switch (accessConfig.lockout.store.toUpperCase()) {
+      case 'FILE':
+        logger.info("Using file-backed login failure store");
+        return new FileLoginFailureStore(
+          accessConfig.lockout.storePath ||
+            path.join(getServerConfig().localStoragePath, 'sessions', 'login-failures.json')
+        );
 
+      case 'MEMORY':
       default:
-        return new AzureAccess(logger);
+        return new MemoryLoginFailureStore();
     }
   }
 }
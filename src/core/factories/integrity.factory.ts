@@ -1,4 +1,4 @@
-import { PassThrough } from 'stream';
+import { Transform } from 'stream';
 import crypto from 'crypto';
 import { IntegrityMode, type IntegrityMetadata } from '../../config/integrity.types.js';
 
@@ -7,14 +7,16 @@ import { IntegrityMode, type IntegrityMetadata } from '../../config/integrity.ty
  * Either size or hash
  */
 export class IntegrityStreamFactory {
-    
+
     /**
-     * 
+     * Builds a pass-through transform that measures (and optionally hashes) the bytes
+     * flowing through it.  A Transform is used rather than a 'data' listener so the stream
+     * is not switched into flowing mode before the consumer (disk, SDK uploader) attaches.
+     *
      * @param mode if no mode passed, use file size check
-     * @returns 
+     * @returns
      */
     static create(mode: IntegrityMode = IntegrityMode.SIZE) {
-        const passThrough = new PassThrough();
         let size = 0;
         let hasher: crypto.Hash | null = null;
 
@@ -22,10 +24,13 @@ export class IntegrityStreamFactory {
             hasher = crypto.createHash('sha256');
         }
 
-        passThrough.on('data', (chunk) => {
-            size += chunk.length;
-            if (hasher) {
-                hasher.update(chunk);
+        const passThrough = new Transform({
+            transform(chunk: Buffer, _encoding, callback) {
+                size += chunk.length;
+                if (hasher) {
+                    hasher.update(chunk);
+                }
+                callback(null, chunk);
             }
         });
 
@@ -43,4 +48,4 @@ export class IntegrityStreamFactory {
             getResult: () => resultPromise
         };
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,38 @@
+import path from 'path';
+import type { INotifier } from '../interfaces/notifier.interface.js';
+import type { ILogger } from '../interfaces/logger.interface.js';
+import { SmtpNotifier } from '../middleware/notifier/smtp-notifier.js';
+import { ConsoleNotifier, FileOutboxNotifier } from '../middleware/notifier/outbox-notifier.js';
+import { getNotifierConfig, getServerConfig } from '../../config/index.js';
+
+/**
+ * Factory for creating notifier instances
+ */
+export class NotifierFactory {
+  /**
+   * Get the notifier selected by NOTIFIER_PROVIDER: SMTP, FILE (default) or CONSOLE
+   * @param logger - Logger instance
+   * @returns Notifier instance
+   */
+  static getNotifier(logger: ILogger): INotifier {
+    const config = getNotifierConfig();
+
+    switch (config.provider) {
+      case 'SMTP':
+        logger.info(`Using SMTP notifier via ${config.smtp.host}:${config.smtp.port}`);
+        return new SmtpNotifier(logger, config);
+
+      case 'CONSOLE':
+        logger.warn('Using console notifier - account emails are written to the log');
+        return new ConsoleNotifier(logger);
+
+      case 'FILE':
+      default:
+        return new FileOutboxNotifier(
+          logger,
+          config.outboxPath || path.join(getServerConfig().localStoragePath, 'outbox'),
+          config.from
+        );
+    }
+  }
+}
@@ -1,24 +1,58 @@
 import type { IStorage } from "../interfaces/storage.interface.js";
 import { LocalStorage } from "../middleware/storage/local-storage.js";
 import { AzureStorage } from "../middleware/storage/azure-storage.js";
+import { S3Storage } from "../middleware/storage/s3-storage.js";
+import { GcsStorage } from "../middleware/storage/gcs-storage.js";
+import { InstrumentedStorage } from "../middleware/storage/instrumented-storage.js";
 import type { ILogger } from "../interfaces/logger.interface.js";
 import { getServerConfig } from "../../config/index.js";
 
+export type StorageProviderName = "local" | "azure" | "s3" | "gcs";
+
 export class StorageFactory {
+  /**
+   * The configured provider, wrapped so its calls and transfers show up in the metrics
+   * @param logger
+   */
   static getStorageProvider(logger: ILogger): IStorage {
     logger.trace(`enter StorageFactory.getStorageProvider()`);
-    const provider = getServerConfig().storageProvider;
+    const provider = StorageFactory.getProviderName();
 
-    switch (provider.toUpperCase()) {
-      case "AZURE":
+    switch (provider) {
+      case "azure":
         logger.info("Using Azure Storage");
-        return new AzureStorage(logger);
-      case "LOCAL":
+        return new InstrumentedStorage(provider, new AzureStorage(logger));
+      case "s3":
+        logger.info("Using S3 Storage");
+        return new InstrumentedStorage(provider, new S3Storage(logger));
+      case "gcs":
+        logger.info("Using Google Cloud Storage");
+        return new InstrumentedStorage(provider, new GcsStorage(logger));
+      case "local":
       default:
         logger.info("Using Local Storage");
-        return new LocalStorage(logger);
+        return new InstrumentedStorage(provider, new LocalStorage(logger));
     }
 
     logger.trace(`exit StorageFactory.getStorageProvider()`);
   }
+
+  /**
+   * STORAGE_PROVIDER with its aliases resolved, as used in metric labels
+   */
+  static getProviderName(): StorageProviderName {
+    switch (getServerConfig().storageProvider.toUpperCase()) {
+      case "AZURE":
+        return "azure";
+      case "S3":
+      case "AWS":
+        return "s3";
+      case "GCS":
+      case "GOOGLE":
+        return "gcs";
+      case "LOCAL":
+      default:
+        return "local";
+    }
+  }
 }
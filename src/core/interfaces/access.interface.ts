@@ -11,7 +11,37 @@ import type {
   ILoginResponse,
   ILogoutResponse,
   IAuthenticatonResponse,
+  IMfaChallengeResponse,
+  IMfaEnrollmentResponse,
 } from "../../api/v1/interfaces/access.response.interface.js";
+import type { ISessionSummary } from "./session.interface.js";
+import type { IHealthCheckResult } from "./health.interface.js";
+import type { Permission } from "../../config/index.js";
+
+/**
+ * Kinds of user the API distinguishes; each is a role in the RBAC policy (see rbac.config),
+ * which decides what a caller may see and do.  "provider" is the older name for clinician.
+ */
+export type UserType = "patient" | "caregiver" | "clinician" | "provider" | "admin" | "service";
+
+/**
+ * The authenticated caller, resolved from the request's token by the auth middleware
+ */
+export interface IPrincipal {
+  userId: string;
+  userType: UserType;
+  sessionId?: string | undefined; // server-side session the token belongs to, where the provider keeps one
+  clientId?: string | undefined; // set when the caller is an API client rather than a user
+  scopes?: Permission[] | undefined; // narrows what the role allows; API clients always have them
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      principal?: IPrincipal; // set by the auth middleware
+    }
+  }
+}
 
 /**
  * Authentication Controller interface - provides traffic control between router and service
@@ -40,6 +70,78 @@ export interface IAccessController {
    * @param next
    */
   authenticate(req: Request, res: Response, next: NextFunction): Promise<void>;
+
+  /**
+   *
+   * @param req
+   * @param res
+   * @param next
+   */
+  refresh(req: Request, res: Response, next: NextFunction): Promise<void>;
+
+  /**
+   * The caller's CSRF token, for cookie-authenticated clients that lost it
+   * @param req
+   * @param res
+   * @param next
+   */
+  csrf(req: Request, res: Response, next: NextFunction): Promise<void>;
+
+  /**
+   * Admin - list a user's active sessions
+   * @param req
+   * @param res
+   * @param next
+   */
+  listSessions(req: Request, res: Response, next: NextFunction): Promise<void>;
+
+  /**
+   * Admin - kill one of a user's sessions, or all of them
+   * @param req
+   * @param res
+   * @param next
+   */
+  revokeSessions(req: Request, res: Response, next: NextFunction): Promise<void>;
+
+  /**
+   * Admin - clear a username's login lockout
+   * @param req
+   * @param res
+   * @param next
+   */
+  unlockAccount(req: Request, res: Response, next: NextFunction): Promise<void>;
+
+  /**
+   * Second login step - trade an MFA challenge and code for the tokens
+   * @param req
+   * @param res
+   * @param next
+   */
+  verifyMfa(req: Request, res: Response, next: NextFunction): Promise<void>;
+
+  /**
+   * Start MFA enrolment for the signed-in caller
+   * @param req
+   * @param res
+   * @param next
+   */
+  enrollMfa(req: Request, res: Response, next: NextFunction): Promise<void>;
+
+  /**
+   * Confirm the caller's MFA enrolment with a first code
+   * @param req
+   * @param res
+   * @param next
+   */
+  confirmMfa(req: Request, res: Response, next: NextFunction): Promise<void>;
+
+  /**
+   * Admin - remove a user's MFA enrolment
+   * @param req
+   * @param res
+   * @param next
+   */
+  resetMfa(req: Request, res: Response, next: NextFunction): Promise<void>;
 }
 
 /**
@@ -51,14 +153,44 @@ export interface IAccessService {
    *
    * @param username
    * @param password
+   * @returns the tokens, or an MFA challenge to complete with verifyMfa
    */
-  login(username: string, password: string): Promise<ILoginResponse>;
+  login(username: string, password: string): Promise<ILoginResponse | IMfaChallengeResponse>;
+
+  /**
+   *
+   * @param challengeToken
+   * @param code - TOTP or recovery code
+   */
+  verifyMfa(challengeToken: string, code: string): Promise<ILoginResponse>;
+
+  /**
+   *
+   * @param principal
+   */
+  enrollMfa(principal: IPrincipal): Promise<IMfaEnrollmentResponse>;
+
+  /**
+   *
+   * @param principal
+   * @param code
+   * @returns the recovery codes
+   */
+  confirmMfa(principal: IPrincipal, code: string): Promise<string[]>;
 
   /**
    *
    * @param userId
+   * @returns whether the user was enrolled
    */
-  logout(userId: string): Promise<ILogoutResponse>;
+  resetMfa(userId: string): Promise<boolean>;
+
+  /**
+   * End the session the token belongs to, or every session of its user
+   * @param token - the caller's access token
+   * @param everywhere
+   */
+  logout(token: string, everywhere: boolean): Promise<ILogoutResponse>;
 
   /**
    *
@@ -66,6 +198,39 @@ export interface IAccessService {
    * @param userId
    */
   authenticate(token: string, userId: string): Promise<IAuthenticatonResponse>;
+
+  /**
+   *
+   * @param token
+   */
+  verifyToken(token: string): Promise<IPrincipal>;
+
+  /**
+   *
+   * @param refreshToken
+   */
+  refresh(refreshToken: string): Promise<ILoginResponse>;
+
+  /**
+   *
+   * @param userId
+   */
+  listSessions(userId: string): Promise<ISessionSummary[]>;
+
+  /**
+   *
+   * @param userId
+   * @param sessionId - omit to revoke every session the user has
+   * @returns how many sessions were revoked
+   */
+  revokeSessions(userId: string, sessionId?: string): Promise<number>;
+
+  /**
+   *
+   * @param username
+   * @returns whether the username was locked out or backing off
+   */
+  unlockAccount(username: string): Promise<boolean>;
 }
 
 /**
@@ -79,6 +244,15 @@ export interface IAccess {
    */
   login(username: string, password: string): Promise<ILoginResponse>;
 
+  /**
+   * Check a username and password without issuing a token, so a second factor can be
+   * asked for first (see reissue)
+   * @param username - User's username
+   * @param password - User's password
+   * @throws {HttpError} 401 if they are not accepted, 400 if the provider has no password login
+   */
+  verifyCredentials(username: string, password: string): Promise<IPrincipal>;
+
   /**
    * Logout user
    * @param userId - User's ID
@@ -91,4 +265,25 @@ export interface IAccess {
    * @param userId - User's ID
    */
   authenticate(token: string, userId: string): Promise<IAuthenticatonResponse>;
+
+  /**
+   * Resolve the caller a token was issued to
+   * @param token - bearer token or auth_token cookie value
+   * @throws {HttpError} 401 if the token is unknown, malformed or expired
+   */
+  verifyToken(token: string): Promise<IPrincipal>;
+
+  /**
+   * Issue a new access token for a principal whose refresh token (or second factor) was accepted
+   * @param principal - who the refresh token was issued to
+   * @throws {HttpError} 401 if the account may no longer sign in, 400 if the provider does not issue tokens
+   */
+  reissue(principal: IPrincipal): Promise<ILoginResponse>;
+
+  /**
+   * Check the provider can authenticate anyone: its user store can be read and written,
+   * or the identity provider's discovery document and signing keys can be fetched
+   * @returns UP, or DOWN with the reason; rejects if the probe itself fails
+   */
+  healthCheck(): Promise<IHealthCheckResult>;
 }
@@ -0,0 +1,128 @@
+/**
+ * Contains the interfaces for self-service account flows on the local user store:
+ *    Single-use account tokens and their store
+ *    Controller
+ *    Service
+ * Password reset and email verification both mail the user a link carrying a random,
+ * time-limited token; only its hash is stored, and it is consumed on first use.
+ */
+import type { NextFunction, Request, Response } from "express";
+import type { IUserRecord } from "./user.interface.js";
+
+/**
+ * What an account token may be used for
+ */
+export type AccountTokenPurpose = "password-reset" | "email-verification";
+
+/**
+ * An outstanding account token
+ */
+export interface IAccountToken {
+  tokenHash: string; // sha256 of the token sent to the user
+  purpose: AccountTokenPurpose;
+  userId: string;
+  email: string; // the address it was sent to - verification only counts for that address
+  createdAt: string; // ISO timestamps so the record round-trips through JSON
+  expiresAt: string;
+}
+
+/**
+ * Token lifetimes and where the links in account emails point
+ */
+export interface IAccountPolicy {
+  resetTtlSeconds: number;
+  verificationTtlSeconds: number;
+  publicUrl: string; // the client app, which reads the token from the link and posts it back
+}
+
+/**
+ * Persists account tokens; implemented per backing store
+ */
+export interface IAccountTokenStore {
+  get(tokenHash: string): Promise<IAccountToken | undefined>;
+  save(token: IAccountToken): Promise<void>;
+  delete(tokenHash: string): Promise<void>;
+  list(): Promise<IAccountToken[]>;
+  /**
+   * Remove a token and hand it back in one step, so only one caller can ever have it
+   * @returns undefined if it was not there (or someone else took it first)
+   */
+  take(tokenHash: string): Promise<IAccountToken | undefined>;
+}
+
+/**
+ * Account controller interface - the unauthenticated self-service endpoints
+ */
+export interface IAccountController {
+  /**
+   * Ask for a password reset link
+   * @param req
+   * @param res
+   * @param next
+   */
+  forgotPassword(req: Request, res: Response, next: NextFunction): Promise<void>;
+
+  /**
+   * Set a new password with a reset token
+   * @param req
+   * @param res
+   * @param next
+   */
+  resetPassword(req: Request, res: Response, next: NextFunction): Promise<void>;
+
+  /**
+   * Ask for a new verification link
+   * @param req
+   * @param res
+   * @param next
+   */
+  requestVerification(req: Request, res: Response, next: NextFunction): Promise<void>;
+
+  /**
+   * Confirm an email address with a verification token
+   * @param req
+   * @param res
+   * @param next
+   */
+  verifyEmail(req: Request, res: Response, next: NextFunction): Promise<void>;
+}
+
+/**
+ * Account service interface
+ */
+export interface IAccountService {
+  /**
+   * Mail a reset link if the username or email belongs to an enabled account with an
+   * email address.  Resolves the same way whether or not it does, so callers learn
+   * nothing about which accounts exist.
+   * @param identifier - username or email
+   */
+  requestPasswordReset(identifier: string): Promise<void>;
+
+  /**
+   * @param token - from the reset link
+   * @param password - the new password
+   * @throws {HttpError} 400 for an unknown, used or expired token, or a password the
+   *   policy rejects (details.problems lists why)
+   */
+  resetPassword(token: string, password: string): Promise<void>;
+
+  /**
+   * Mail a new verification link to an account whose email is not verified yet; resolves
+   * the same way whatever the account's state
+   * @param identifier - username or email
+   */
+  requestVerification(identifier: string): Promise<void>;
+
+  /**
+   * Mail a verification link for a new account (used when accounts are created)
+   * @param user - must have an email
+   */
+  sendVerification(user: IUserRecord): Promise<void>;
+
+  /**
+   * @param token - from the verification link
+   * @throws {HttpError} 400 for an unknown, used or expired token
+   */
+  verifyEmail(token: string): Promise<void>;
+}
@@ -0,0 +1,194 @@
+/**
+ * Contains the interfaces for API clients - backend jobs and partner integrations that
+ * cannot log in interactively:
+ *    Client records and store
+ *    Controller
+ *    Service
+ * A client authenticates with `Authorization: ApiKey <key>`, or trades its id and secret
+ * for a bearer token (OAuth 2.0 client credentials).  Either way it becomes a principal
+ * whose role and scopes go through the same RBAC checks as a user's.
+ */
+import type { NextFunction, Request, Response } from "express";
+import type { IPrincipal, UserType } from "./access.interface.js";
+import type { Permission } from "../../config/index.js";
+
+/**
+ * A registered API client
+ */
+export interface IClientRecord {
+  clientId: string;
+  name: string;
+  userType: UserType; // the role its calls are authorised as
+  scopes: Permission[]; // the part of that role it may use
+  secretHash: string; // sha256 of the secret - it is random, so no need for a slow hash
+  previousSecretHash?: string | undefined; // still accepted until previousSecretExpiresAt, so callers can switch over
+  previousSecretExpiresAt?: string | undefined;
+  createdBy: string; // the admin who registered it
+  createdAt: string; // ISO timestamps so the record round-trips through JSON
+  updatedAt: string;
+  expiresAt?: string | undefined;
+  revokedAt?: string | undefined;
+}
+
+/**
+ * A client as admins see it - never its secret hashes
+ */
+export type IClientSummary = Omit<IClientRecord, "secretHash" | "previousSecretHash">;
+
+/**
+ * Persists clients; implemented per backing store
+ */
+export interface IClientStore {
+  get(clientId: string): Promise<IClientRecord | undefined>;
+  save(client: IClientRecord): Promise<void>;
+  list(): Promise<IClientRecord[]>;
+}
+
+/**
+ * What an admin asks for when registering a client
+ */
+export interface IClientRegistration {
+  name: string;
+  userType?: UserType; // defaults to service
+  scopes?: Permission[]; // defaults to everything the role allows
+  expiresAt?: Date;
+}
+
+/**
+ * A new or rotated secret - shown once, only the hash is kept
+ */
+export interface IIssuedClientCredentials {
+  client: IClientSummary;
+  clientSecret: string;
+  apiKey: string; // <clientId>.<clientSecret>, for the ApiKey scheme
+}
+
+/**
+ * Token endpoint response (RFC 6749 section 5.1)
+ */
+export interface IClientTokenResponse {
+  access_token: string;
+  token_type: "Bearer";
+  expires_in: number; // seconds
+  scope: string; // space separated
+}
+
+/**
+ * Client controller interface - admin client management and the token endpoint
+ */
+export interface IClientController {
+  /**
+   * Admin - register a client
+   * @param req
+   * @param res
+   * @param next
+   */
+  create(req: Request, res: Response, next: NextFunction): Promise<void>;
+
+  /**
+   * Admin - list clients
+   * @param req
+   * @param res
+   * @param next
+   */
+  list(req: Request, res: Response, next: NextFunction): Promise<void>;
+
+  /**
+   * Admin - change a client's scopes
+   * @param req
+   * @param res
+   * @param next
+   */
+  update(req: Request, res: Response, next: NextFunction): Promise<void>;
+
+  /**
+   * Admin - issue a client a new secret
+   * @param req
+   * @param res
+   * @param next
+   */
+  rotate(req: Request, res: Response, next: NextFunction): Promise<void>;
+
+  /**
+   * Admin - revoke a client
+   * @param req
+   * @param res
+   * @param next
+   */
+  revoke(req: Request, res: Response, next: NextFunction): Promise<void>;
+
+  /**
+   * Client credentials grant - trade a client id and secret for a bearer token
+   * @param req
+   * @param res
+   * @param next
+   */
+  token(req: Request, res: Response, next: NextFunction): Promise<void>;
+}
+
+/**
+ * Client service interface - client management and client authentication
+ */
+export interface IClientService {
+  /**
+   * @param registration
+   * @param principal - the admin registering it
+   * @throws {HttpError} 400 if a scope is unknown or not granted to the role
+   */
+  create(registration: IClientRegistration, principal: IPrincipal): Promise<IIssuedClientCredentials>;
+
+  list(): Promise<IClientSummary[]>;
+
+  /**
+   * @param clientId
+   * @param scopes
+   * @param principal - the admin
+   * @throws {HttpError} 404 for an unknown or revoked client, 400 for a bad scope
+   */
+  setScopes(clientId: string, scopes: Permission[], principal: IPrincipal): Promise<IClientSummary>;
+
+  /**
+   * Issue a new secret; the old one keeps working for the rotation grace period
+   * @param clientId
+   * @param principal - the admin
+   * @throws {HttpError} 404 for an unknown or revoked client
+   */
+  rotate(clientId: string, principal: IPrincipal): Promise<IIssuedClientCredentials>;
+
+  /**
+   * Revoke a client; its keys and tokens stop working at once
+   * @param clientId
+   * @param principal - the admin
+   * @throws {HttpError} 404 for an unknown or already revoked client
+   */
+  revoke(clientId: string, principal: IPrincipal): Promise<void>;
+
+  /**
+   * Resolve an `Authorization: ApiKey` credential
+   * @param apiKey
+   * @throws {HttpError} 401 for an unknown, wrong, revoked or expired key
+   */
+  verifyApiKey(apiKey: string): Promise<IPrincipal>;
+
+  /**
+   * Client credentials grant
+   * @param clientId
+   * @param clientSecret
+   * @param scopes - narrower scopes for this token; omit for all of the client's
+   * @throws {HttpError} 401 for bad credentials, 400 for scopes the client does not have
+   */
+  issueToken(clientId: string, clientSecret: string, scopes?: Permission[]): Promise<IClientTokenResponse>;
+
+  /**
+   * Whether a bearer token was issued by issueToken (and so must be verified here, not
+   * by the access provider).  Only routes the token; verifyToken does the checking.
+   * @param token
+   */
+  isClientToken(token: string): boolean;
+
+  /**
+   * @param token - from issueToken
+   * @throws {HttpError} 401 if the token is invalid or its client revoked or expired
+   */
+  verifyToken(token: string): Promise<IPrincipal>;
+}
@@ -0,0 +1,126 @@
+/**
+ * Contains the interfaces for delegated (caregiver / proxy) access to a patient's files:
+ *    Delegation records and store
+ *    Delegated access audit log
+ *    Controller
+ *    Service
+ * A patient grants another user time-limited access to their files; storage checks
+ * fall back to an active delegation when the caller's role alone does not allow access.
+ */
+import type { NextFunction, Request, Response } from "express";
+import type { IPrincipal } from "./access.interface.js";
+
+/**
+ * read - list, stat and download the patient's files
+ * readwrite - also upload into the patient's namespace; deleting stays with the patient
+ */
+export type DelegationScope = "read" | "readwrite";
+
+/**
+ * What a delegate did with the access; "write" is an upload
+ */
+export type DelegatedAction = "read" | "write";
+
+/**
+ * A grant of access from a patient to a delegate
+ */
+export interface IDelegation {
+  id: string;
+  patientId: string; // whose files
+  delegateId: string; // who may act on them
+  scope: DelegationScope;
+  grantedBy: string; // the patient, or the admin who granted on their behalf
+  createdAt: string; // ISO timestamps so the record round-trips through JSON
+  expiresAt: string;
+  revokedAt?: string | undefined;
+}
+
+/**
+ * Persists delegations; implemented per backing store
+ */
+export interface IDelegationStore {
+  get(id: string): Promise<IDelegation | undefined>;
+  save(delegation: IDelegation): Promise<void>;
+  listByPatient(patientId: string): Promise<IDelegation[]>;
+  listByDelegate(delegateId: string): Promise<IDelegation[]>;
+}
+
+/**
+ * One use of a delegation, recorded with both the actor and the subject
+ */
+export interface IDelegatedAccessEntry {
+  at: string;
+  actorId: string; // the delegate
+  subjectId: string; // the patient whose files were touched
+  delegationId: string;
+  action: DelegatedAction;
+  resource: string; // e.g. file:<id>, files, upload
+}
+
+/**
+ * Append-only record of delegated access
+ */
+export interface IDelegatedAccessLog {
+  record(entry: IDelegatedAccessEntry): Promise<void>;
+}
+
+/**
+ * What to grant; the caller is the patient unless an admin names one
+ */
+export interface IDelegationGrant {
+  patientId?: string | undefined;
+  delegateId: string;
+  scope: DelegationScope;
+  expiresAt?: Date | undefined; // defaults to the configured lifetime
+}
+
+/**
+ * Connects the delegation routes with the delegation service
+ */
+export interface IDelegationController {
+  grant(req: Request, res: Response, next: NextFunction): Promise<void>;
+  list(req: Request, res: Response, next: NextFunction): Promise<void>;
+  revoke(req: Request, res: Response, next: NextFunction): Promise<void>;
+}
+
+/**
+ * Grants, lists and revokes delegations, and answers whether one covers an access
+ */
+export interface IDelegationService {
+  /**
+   * @param grant
+   * @param principal - the caller
+   * @throws {HttpError} 400 for a bad delegate, scope or expiry, 403 if the caller may not grant for the patient
+   */
+  grant(grant: IDelegationGrant, principal: IPrincipal): Promise<IDelegation>;
+
+  /**
+   * Active delegations the caller has granted and been granted
+   * @param principal
+   */
+  list(principal: IPrincipal): Promise<{ granted: IDelegation[]; received: IDelegation[] }>;
+
+  /**
+   * Revoke a delegation; the patient, the delegate and admins may
+   * @param id
+   * @param principal
+   * @throws {HttpError} 404 if there is no such active delegation visible to the caller
+   */
+  revoke(id: string, principal: IPrincipal): Promise<void>;
+
+  /**
+   * Find an active delegation letting the caller act on the patient's files, and
+   * record the access if there is one
+   * @param principal - the would-be delegate
+   * @param patientId
+   * @param action
+   * @param resource - what is being accessed, for the audit log
+   * @returns the delegation used, or undefined if none covers the access
+   */
+  authorize(
+    principal: IPrincipal,
+    patientId: string,
+    action: DelegatedAction,
+    resource: string
+  ): Promise<IDelegation | undefined>;
+}
@@ -0,0 +1,150 @@
+/**
+ * Contains all the interfaces for the file metadata catalog chain:
+ *    Controller
+ *    Service
+ *    Catalog store
+ * The interfaces allow dependancy injection for testing using mocks, etc.
+ */
+import type { NextFunction, Request, Response } from "express";
+import type { IStorageUploadResult } from "./storage.interface.js";
+import type { IPrincipal } from "./access.interface.js";
+import type { IFileUploadRequest } from "../../api/v1/interfaces/storage.request.interface.js";
+
+/**
+ * Client supplied descriptive fields (description, tags, category)
+ */
+export type IFileDescriptiveMetadata = NonNullable<IFileUploadRequest["metadata"]>;
+
+/**
+ * Catalog entry for one stored file
+ */
+export interface IFileRecord {
+  id: string;
+  ownerId: string; // user id of the patient the file belongs to
+  uploadedBy?: string | undefined; // set when a delegate uploaded it for the owner
+  originalName: string; // sanitised name the client uploaded
+  storageKey: string; // name the provider stores the file under (<owner>/<timestamp>-<name>)
+  mimeType: string;
+  size: number;
+  hash?: string | undefined;
+  metadata: IFileDescriptiveMetadata;
+  createdAt: string; // ISO timestamps so the record round-trips through JSON
+  updatedAt: string;
+}
+
+/**
+ * A stored file as reported back to the uploader: the provider's result plus the
+ * catalog entry created for it
+ */
+export interface IStoredFile {
+  upload: IStorageUploadResult;
+  file: IFileRecord;
+}
+
+/**
+ * Filters and paging for listing the catalog; every filter is optional
+ */
+export interface IFileQuery {
+  ownerId?: string | undefined;
+  tag?: string | undefined;
+  category?: string | undefined;
+  from?: Date | undefined; // createdAt >= from
+  to?: Date | undefined; // createdAt <= to
+  page: number; // 1-based
+  limit: number;
+}
+
+export interface IFileQueryResult {
+  items: IFileRecord[];
+  total: number; // matches across all pages
+  page: number;
+  limit: number;
+}
+
+/**
+ * Persists catalog entries; implemented per backing store
+ */
+export interface IFileCatalogStore {
+  get(id: string): Promise<IFileRecord | undefined>;
+  findByStorageKey(storageKey: string): Promise<IFileRecord | undefined>;
+  save(record: IFileRecord): Promise<void>;
+  delete(id: string): Promise<void>;
+  /**
+   * Matching records, newest first
+   * @param query
+   */
+  list(query: IFileQuery): Promise<IFileQueryResult>;
+}
+
+/**
+ * Connects the catalog routes with the catalog service
+ */
+export interface IFileCatalogController {
+  listFiles(req: Request, res: Response, next: NextFunction): Promise<void>;
+  getFile(req: Request, res: Response, next: NextFunction): Promise<void>;
+  deleteFile(req: Request, res: Response, next: NextFunction): Promise<void>;
+}
+
+/**
+ * Catalog bookkeeping on top of the storage provider.  Reads and deletes are checked
+ * against the caller (see file-access.policy), then against delegations (reads only).
+ */
+export interface IFileCatalogService {
+  /**
+   * Record a file the provider has just stored
+   * @param upload - provider result
+   * @param originalName
+   * @param mimeType
+   * @param metadata - descriptive fields, already validated
+   * @param ownerId - user id of the owner
+   * @param uploadedBy - user id of the uploader, when not the owner
+   */
+  registerUpload(
+    upload: IStorageUploadResult,
+    originalName: string,
+    mimeType: string,
+    metadata: IFileDescriptiveMetadata,
+    ownerId: string,
+    uploadedBy?: string
+  ): Promise<IFileRecord>;
+
+  /**
+   * Callers who may not list other users' files only ever see their own, or those of a
+   * patient (?owner=) who has delegated access to them
+   * @param query
+   * @param principal
+   */
+  listFiles(query: IFileQuery, principal: IPrincipal): Promise<IFileQueryResult>;
+
+  /**
+   * Check the caller may upload into ownerId's namespace: their own, or a patient's
+   * who has delegated read/write access to them
+   * @param ownerId
+   * @param principal
+   * @throws {HttpError} 403 if the caller may not upload for ownerId
+   */
+  authorizeUpload(ownerId: string, principal: IPrincipal): Promise<void>;
+
+  /**
+   * @param id
+   * @param principal
+   * @throws {HttpError} 404 if there is no such entry, 403 if the caller may not read it
+   */
+  getFile(id: string, principal: IPrincipal): Promise<IFileRecord>;
+
+  /**
+   * Look up the entry for a storage key before serving its content
+   * @param storageKey
+   * @param principal
+   * @throws {HttpError} 404 if there is no such entry, 403 if the caller may not read it
+   */
+  getFileByStorageKey(storageKey: string, principal: IPrincipal): Promise<IFileRecord>;
+
+  /**
+   * Remove the stored file and its catalog entry
+   * @param id
+   * @param principal
+   * @throws {HttpError} 404 if there is no such entry, 403 if the caller may not delete it
+   */
+  deleteFile(id: string, principal: IPrincipal): Promise<void>;
+}
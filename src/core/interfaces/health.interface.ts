@@ -0,0 +1,84 @@
+/**
+ * Contains the interfaces for the readiness checks:
+ *    The probe every storage and access provider implements
+ *    Dependency report
+ *    Controller
+ *    Service
+ * /health/live only says the process is up; /health/ready probes what a request would
+ * need and is what a load balancer or orchestrator should route on.
+ */
+import type { NextFunction, Request, Response } from "express";
+
+export type HealthStatus = "UP" | "DOWN";
+
+/**
+ * What a provider's healthCheck found
+ */
+export interface IHealthCheckResult {
+  status: HealthStatus;
+  detail?: string | undefined; // short and safe to show anyone: no secrets, keys or connection strings
+}
+
+/**
+ * Something the API cannot serve requests without (or can, in a degraded way)
+ */
+export interface IHealthDependency {
+  name: string; // key in the report, e.g. storage
+  critical: boolean; // whether the API is unready while it is down
+  /**
+   * Probe the dependency.  Rejecting counts as DOWN.
+   */
+  check(): Promise<IHealthCheckResult>;
+}
+
+/**
+ * One dependency's line in the readiness report
+ */
+export interface IDependencyHealth {
+  status: HealthStatus;
+  critical: boolean;
+  latencyMs: number; // how long the probe took, or the timeout if it gave up
+  detail?: string | undefined;
+  error?: string | undefined; // why it is DOWN
+}
+
+/**
+ * The readiness report served on /health/ready
+ */
+export interface IReadinessReport {
+  status: "READY" | "DOWN"; // DOWN when any critical dependency is
+  checkedAt: string; // ISO timestamp of the probes, which may be a few seconds old (cached)
+  services: Record<string, IDependencyHealth>;
+}
+
+/**
+ * Health controller - only manages the HTTP request/response for the health routes
+ */
+export interface IHealthController {
+  /**
+   * The process is up and serving requests
+   * @param req - Express Request object
+   * @param res - Express Response object
+   * @param next - Express NextFunction for error handling middleware chain
+   */
+  live(req: Request, res: Response, next: NextFunction): Promise<void>;
+
+  /**
+   * Probe the dependencies; 503 while a critical one is down
+   * @param req - Express Request object
+   * @param res - Express Response object
+   * @param next - Express NextFunction for error handling middleware chain
+   */
+  ready(req: Request, res: Response, next: NextFunction): Promise<void>;
+}
+
+/**
+ * Health service - runs the dependency probes
+ */
+export interface IHealthService {
+  /**
+   * Probe every dependency, each with a timeout, reusing a recent report when there is one
+   * @returns the readiness report
+   */
+  checkReadiness(): Promise<IReadinessReport>;
+}
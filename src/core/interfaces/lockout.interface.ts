@@ -0,0 +1,78 @@
+/**
+ * Contains the interfaces for per-account login throttling:
+ *    Failure records and their store
+ *    Lockout notifications
+ *    Lockout service
+ * Failures are counted per username as submitted (lower-cased), whether or not the
+ * account exists, so throttling reveals nothing about which usernames are real.
+ */
+
+/**
+ * Recent failed logins for one username
+ */
+export interface ILoginFailureRecord {
+  username: string; // lower-cased
+  failures: number; // consecutive, within the failure window
+  firstFailureAt: string; // ISO timestamps so the record round-trips through JSON
+  lastFailureAt: string;
+  lockedUntil?: string | undefined;
+}
+
+/**
+ * Persists failure records; in memory for a single instance, file-backed to survive restarts
+ */
+export interface ILoginFailureStore {
+  get(username: string): Promise<ILoginFailureRecord | undefined>;
+  save(record: ILoginFailureRecord): Promise<void>;
+  delete(username: string): Promise<void>;
+  list(): Promise<ILoginFailureRecord[]>;
+}
+
+/**
+ * Told when an account is locked, e.g. to alert the user or the security team
+ */
+export interface ILockoutNotifier {
+  accountLocked(record: ILoginFailureRecord): Promise<void>;
+}
+
+/**
+ * Throttling settings (see accessConfig.lockout)
+ */
+export interface ILockoutPolicy {
+  maxFailures: number; // consecutive failures that lock the account
+  lockoutSeconds: number;
+  backoffBaseMs: number; // wait after the first failure; doubles with each one after
+  backoffMaxMs: number;
+  failureWindowSeconds: number; // failures older than this are forgotten
+}
+
+/**
+ * Wraps password logins with per-account backoff and lockout
+ */
+export interface ILockoutService {
+  /**
+   * Refuse the attempt if the username is locked or still backing off
+   * @param username
+   * @throws {HttpError} 429 with details.retryAfter (seconds)
+   */
+  assertCanAttempt(username: string): Promise<void>;
+
+  /**
+   * Count a failed login; locks the account once the threshold is reached
+   * @param username
+   */
+  recordFailure(username: string): Promise<void>;
+
+  /**
+   * Forget the failures of a username that has just logged in
+   * @param username
+   */
+  recordSuccess(username: string): Promise<void>;
+
+  /**
+   * Admin - clear a lockout and the failures behind it
+   * @param username
+   * @returns whether there was anything to clear
+   */
+  unlock(username: string): Promise<boolean>;
+}
@@ -0,0 +1,129 @@
+/**
+ * Contains the interfaces for TOTP multi-factor authentication:
+ *    Enrolment records and their store
+ *    MFA service
+ * Enrolled users (and every user whose role requires MFA) get a challenge from login
+ * instead of a token, and exchange it with a code from their authenticator app.
+ */
+import type { IPrincipal, UserType } from "./access.interface.js";
+import type {
+  IMfaChallengeResponse,
+  IMfaEnrollmentResponse,
+} from "../../api/v1/interfaces/access.response.interface.js";
+
+/**
+ * A user's TOTP enrolment
+ */
+export interface IMfaRecord {
+  userId: string;
+  secret: string; // base32; needed in the clear to compute codes, so keep the store private
+  enabled: boolean; // false until the first code confirms the app was set up
+  recoveryCodeHashes: string[]; // sha256 of each unused recovery code
+  lastUsedStep?: number | undefined; // a code is accepted once, never replayed
+  createdAt: string; // ISO timestamps so the record round-trips through JSON
+  updatedAt: string;
+}
+
+/**
+ * Persists enrolments; implemented per backing store
+ */
+export interface IMfaStore {
+  get(userId: string): Promise<IMfaRecord | undefined>;
+  save(record: IMfaRecord): Promise<void>;
+  delete(userId: string): Promise<void>;
+  /**
+   * Record a TOTP step as used, unless it (or a later one) already was.  The check and
+   * the update are one step, so a code replayed concurrently is accepted only once.
+   * @param userId
+   * @param step
+   * @returns false if the step was already used or there is no enrolment
+   */
+  useStep(userId: string, step: number): Promise<boolean>;
+  /**
+   * Remove a recovery code, in one step like useStep
+   * @param userId
+   * @param codeHash
+   * @returns how many codes are left, or undefined if the code was not there
+   */
+  takeRecoveryCode(userId: string, codeHash: string): Promise<number | undefined>;
+}
+
+/**
+ * Who must use MFA and how challenges behave (see accessConfig.mfa)
+ */
+export interface IMfaPolicy {
+  issuer: string; // shown in the authenticator app
+  requiredRoles: UserType[];
+  challengeTtlSeconds: number;
+  maxAttempts: number; // wrong codes before a challenge is dropped
+  recoveryCodes: number; // how many are issued on enrolment
+}
+
+/**
+ * A login waiting for its second factor
+ */
+export interface IMfaChallenge {
+  principal: IPrincipal;
+  username: string; // as submitted, for the lockout counter
+  expiresAt: number; // ms since the epoch
+  attempts: number;
+  pendingSecret?: string | undefined; // forced enrolment: saved once a code proves it
+}
+
+/**
+ * TOTP enrolment and verification
+ */
+export interface IMfaService {
+  /**
+   * Whether a login by principal must pass MFA: it is enrolled, or its role requires it
+   * @param principal
+   */
+  isRequired(principal: IPrincipal): Promise<boolean>;
+
+  /**
+   * Start the second step of a login; a user whose role requires MFA but who has not
+   * enrolled gets a new secret to set up with the challenge
+   * @param principal - whose password was accepted
+   * @param username - as submitted
+   */
+  createChallenge(principal: IPrincipal, username: string): Promise<IMfaChallengeResponse>;
+
+  /**
+   * @param challengeToken
+   * @throws {HttpError} 401 if the challenge is unknown, expired or used up
+   */
+  getChallenge(challengeToken: string): Promise<IMfaChallenge>;
+
+  /**
+   * Check a TOTP or recovery code against a challenge.  The challenge is used up on
+   * success, and after too many wrong codes.
+   * @param challengeToken
+   * @param code - six digit TOTP code, or a recovery code
+   * @returns who logged in, and their recovery codes if this completed enrolment
+   * @throws {HttpError} 401 for a wrong code or a dead challenge
+   */
+  verifyChallenge(challengeToken: string, code: string): Promise<{ principal: IPrincipal; recoveryCodes?: string[] }>;
+
+  /**
+   * Self-service enrolment for a signed-in user; replaces any unconfirmed one
+   * @param principal
+   * @throws {HttpError} 409 if the user is already enrolled
+   */
+  beginEnrollment(principal: IPrincipal): Promise<IMfaEnrollmentResponse>;
+
+  /**
+   * Turn on MFA with the first code from the app
+   * @param principal
+   * @param code
+   * @returns the recovery codes - shown once
+   * @throws {HttpError} 400 if there is no enrolment to confirm, 401 for a wrong code
+   */
+  confirmEnrollment(principal: IPrincipal, code: string): Promise<string[]>;
+
+  /**
+   * Admin - remove a user's enrolment, e.g. after a lost phone
+   * @param userId
+   * @returns whether there was one
+   */
+  reset(userId: string): Promise<boolean>;
+}
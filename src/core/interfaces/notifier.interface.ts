@@ -0,0 +1,25 @@
+/**
+ * Contains the interfaces for outgoing notifications (account emails).  Implemented per
+ * provider - SMTP, or a file or console outbox for development - so services never
+ * depend on how a message is delivered.
+ */
+
+/**
+ * A plain text email
+ */
+export interface IEmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Delivers messages; implemented for each provider
+ */
+export interface INotifier {
+  /**
+   * @param message
+   * @throws {Error} If the message could not be handed over for delivery
+   */
+  send(message: IEmailMessage): Promise<void>;
+}
@@ -0,0 +1,91 @@
+/**
+ * Contains the interfaces for long-lived refresh tokens:
+ *    Refresh token record
+ *    Refresh token store
+ *    Refresh token service
+ *    Reuse handler
+ * Refresh tokens are opaque; only their SHA-256 hash is ever stored.
+ */
+import type { IPrincipal, UserType } from "./access.interface.js";
+
+/**
+ * One refresh token.  Every token minted by rotation joins its predecessor's family,
+ * so a replayed (already rotated) token can take the whole chain down with it.
+ */
+export interface IRefreshTokenRecord {
+  id: string; // SHA-256 of the token, hex
+  familyId: string; // shared by every token descended from one login
+  userId: string;
+  userType: UserType;
+  createdAt: string; // ISO timestamps so the record round-trips through JSON
+  expiresAt: string;
+  replacedBy?: string | undefined; // id of the token this one was rotated into
+  revokedAt?: string | undefined;
+}
+
+/**
+ * Persists refresh token records; implemented per backing store
+ */
+export interface IRefreshTokenStore {
+  get(id: string): Promise<IRefreshTokenRecord | undefined>;
+  save(record: IRefreshTokenRecord): Promise<void>;
+  delete(id: string): Promise<void>;
+  listFamily(familyId: string): Promise<IRefreshTokenRecord[]>;
+  /**
+   * Record a token's successor, unless it already has one or has been revoked.  The check
+   * and the update are one step, so of two concurrent rotations only one can succeed.
+   * @param id
+   * @param replacedBy
+   * @returns false if the token was missing, already replaced or revoked
+   */
+  markReplaced(id: string, replacedBy: string): Promise<boolean>;
+  /**
+   * Records whose expiresAt is before the given time
+   * @param now
+   */
+  listExpired(now: Date): Promise<IRefreshTokenRecord[]>;
+}
+
+/**
+ * A freshly minted refresh token - the only time the raw token is available
+ */
+export interface IIssuedRefreshToken {
+  token: string;
+  familyId: string;
+  expiresAt: Date;
+}
+
+/**
+ * Mints, rotates and revokes refresh tokens
+ */
+export interface IRefreshTokenService {
+  /**
+   * Start a new token family for a principal that just logged in
+   * @param principal
+   * @param familyId - defaults to the principal's session id, else a new id
+   */
+  issue(principal: IPrincipal, familyId?: string): Promise<IIssuedRefreshToken>;
+
+  /**
+   * Exchange a refresh token for its successor.  Presenting a token that was already
+   * rotated revokes its whole family.
+   * @param token
+   * @returns the principal the token was issued to, and the replacement token
+   * @throws {HttpError} 401 if the token is unknown, expired, revoked or reused
+   */
+  rotate(token: string): Promise<{ principal: IPrincipal; refreshToken: IIssuedRefreshToken }>;
+
+  /**
+   * Revoke every token in a family
+   * @param familyId
+   */
+  revokeFamily(familyId: string): Promise<void>;
+}
+
+/**
+ * Told when a replayed token takes its family down, so the session's access tokens
+ * can go with it
+ */
+export interface IRefreshTokenReuseHandler {
+  familyReused(familyId: string): Promise<void>;
+}
@@ -0,0 +1,31 @@
+/**
+ * Contains the interfaces for per-request context - what every log line written while
+ * handling a request is tagged with.  The context travels with the request's async
+ * work (AsyncLocalStorage), so nothing has to pass it down the call chain.
+ */
+import type { Request } from "express";
+
+/**
+ * The request being handled
+ */
+export interface IRequestContext {
+  requestId: string; // X-Request-Id as sent by the caller, or generated
+  traceId: string; // W3C trace id - from an incoming traceparent, or generated
+  parentSpanId?: string | undefined; // the caller's span, from its traceparent
+  spanId: string; // this request's span, for outgoing traceparent headers
+  traceFlags: string; // W3C trace flags, 01 = sampled
+  startedAt: bigint; // process.hrtime.bigint() when the request arrived
+  req: Request; // read lazily, so the user and route are known once auth and routing have run
+}
+
+/**
+ * The request fields a log line carries
+ */
+export interface IRequestLogFields {
+  requestId: string;
+  traceId: string;
+  method: string;
+  route: string; // the matched route pattern (/api/v1/storage/files/:id) where there is one
+  userId?: string | undefined; // once the caller is authenticated
+  latencyMs: number; // since the request arrived
+}
@@ -0,0 +1,110 @@
+/**
+ * Contains the interfaces for server-side sessions and token revocation:
+ *    Session and revocation records
+ *    Session store and revocation list
+ *    Session service
+ * A session is one login: every access token issued for it (at login and on each
+ * refresh) carries its id as the sid claim, and its refresh tokens share its id as
+ * their family.  Killing a session revokes all of them.
+ */
+import type { UserType } from "./access.interface.js";
+
+/**
+ * An access token issued within a session, kept until it expires so the session can
+ * put it on the revocation list
+ */
+export interface ISessionToken {
+  jti: string;
+  expiresAt: string;
+}
+
+/**
+ * One login and everything issued from it
+ */
+export interface ISession {
+  id: string;
+  userId: string;
+  userType: UserType;
+  createdAt: string; // ISO timestamps so the record round-trips through JSON
+  lastActiveAt: string; // last time a token was issued for it
+  expiresAt: string; // when its last access or refresh token runs out
+  revokedAt?: string | undefined;
+  tokens: ISessionToken[]; // unexpired access tokens
+}
+
+/**
+ * An entry on the revocation list; dropped once the token would have expired anyway
+ */
+export interface IRevokedToken {
+  jti: string;
+  sessionId: string;
+  userId: string;
+  revokedAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Persists sessions; implemented per backing store
+ */
+export interface ISessionStore {
+  get(id: string): Promise<ISession | undefined>;
+  save(session: ISession): Promise<void>;
+  delete(id: string): Promise<void>;
+  listByUser(userId: string): Promise<ISession[]>;
+  listExpired(now: Date): Promise<ISession[]>;
+}
+
+/**
+ * Revoked access tokens keyed on jti; checked on every request, so lookups must be cheap
+ */
+export interface IRevocationStore {
+  get(jti: string): Promise<IRevokedToken | undefined>;
+  save(entry: IRevokedToken): Promise<void>;
+  delete(jti: string): Promise<void>;
+  listExpired(now: Date): Promise<IRevokedToken[]>;
+}
+
+/**
+ * A session as shown to an administrator
+ */
+export interface ISessionSummary {
+  sessionId: string;
+  userId: string;
+  userType: UserType;
+  createdAt: string;
+  lastActiveAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Lists and kills sessions
+ */
+export interface ISessionService {
+  /**
+   * Keep a session alive at least until the given time (e.g. its refresh token's expiry)
+   * @param sessionId
+   * @param until
+   */
+  extend(sessionId: string, until: Date): Promise<void>;
+
+  /**
+   * A user's live sessions, most recently active first
+   * @param userId
+   */
+  listActive(userId: string): Promise<ISessionSummary[]>;
+
+  /**
+   * Revoke one session: its access tokens go on the revocation list and its refresh
+   * tokens stop working
+   * @param sessionId
+   * @returns false if there was no such live session
+   */
+  revokeSession(sessionId: string): Promise<boolean>;
+
+  /**
+   * Revoke every session a user has ("log out everywhere")
+   * @param userId
+   * @returns how many sessions were revoked
+   */
+  revokeAll(userId: string): Promise<number>;
+}
@@ -9,6 +9,7 @@
  */
 import type { NextFunction, Request, Response } from "express";
 import { Readable } from "stream";
+import type { IHealthCheckResult } from "./health.interface.js";
 
 export interface IStorageUploadResult {
   filename: string;
@@ -16,6 +17,36 @@ export interface IStorageUploadResult {
   size: number;
   timestamp: Date;
   hash?: string | undefined; // Optional
+  md5?: string | undefined; // base64, reported by providers that compute it server-side (GCS)
+  crc32c?: string | undefined; // base64, reported by providers that compute it server-side (GCS)
+}
+
+/**
+ * One chunk of a chunked (resumable) upload as staged by the provider
+ */
+export interface IStoragePart {
+  partNumber: number; // 1-based, in upload order
+  size: number;
+  etag?: string | undefined; // provider receipt needed to assemble the part (S3)
+}
+
+/**
+ * What a provider knows about a stored object without reading it
+ */
+export interface IStorageFileMetadata {
+  filename: string;
+  size: number;
+  lastModified: Date;
+  etag?: string | undefined; // quoted entity tag, strong or weak (W/"...")
+  contentType?: string | undefined; // only when the provider recorded one
+}
+
+/**
+ * Inclusive byte range, as in an HTTP Range header
+ */
+export interface IStorageRange {
+  start: number;
+  end: number;
 }
 
 /**
@@ -23,6 +54,20 @@ export interface IStorageUploadResult {
  * Connects the storage router with the storage service
  */
 export interface IStorageController {
+  /**
+   * Decide whose namespace an upload goes to (?owner=, a patient who delegated read/write
+   * access, or the caller) before the body is streamed to storage
+   *
+   * @param req
+   * @param res
+   * @param next
+   */
+  authorizeUpload(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void>;
+
   /**
    * Send a file to the storage endpoint
    *
@@ -56,19 +101,31 @@ export interface IStorageController {
 export interface IStorageService {
   /**
    * Send a file to the storage endpoint
-   * TODO: same as controller
    *
    * @param filename
    * @param stream
    */
-  uploadFileToStorage(filename: string, stream: Readable, next: NextFunction): Promise<IStorageUploadResult>;
+  uploadFileToStorage(filename: string, stream: Readable): Promise<IStorageUploadResult>;
 
   /**
-   * Get a file from the storage point
+   * Get a file (or one byte range of it) from the storage point
    * @param filename
+   * @param range - optional inclusive byte range
    * @returns Promise<Readable>
    */
-  downloadFileFromStorage(filename: string, next: NextFunction): Promise<Readable>;
+  downloadFileFromStorage(filename: string, range?: IStorageRange): Promise<Readable>;
+
+  /**
+   * Size, modification time and etag of a stored file
+   * @param filename
+   */
+  getFileMetadata(filename: string): Promise<IStorageFileMetadata>;
+
+  /**
+   * Remove a stored file (no-op if it is already gone)
+   * @param filename
+   */
+  deleteFileFromStorage(filename: string): Promise<void>;
 }
 
 /**
@@ -84,9 +141,71 @@ export interface IStorage {
   uploadFileToStorage(filename: string, stream: Readable): Promise<IStorageUploadResult>;
 
   /**
-   * Get a file from the storage point
+   * Get a file (or one byte range of it) from the storage point
    * @param filename
+   * @param range - optional inclusive byte range, already validated against the size
    * @returns Promise<Readable>
    */
-  downloadFileFromStorage(filename: string): Promise<Readable>;
+  downloadFileFromStorage(filename: string, range?: IStorageRange): Promise<Readable>;
+
+  /**
+   * Stat a stored file without reading it
+   * @param filename
+   * @throws {HttpError} 404 if the file does not exist
+   */
+  getFileMetadata(filename: string): Promise<IStorageFileMetadata>;
+
+  /**
+   * Remove a stored file.  Removing a file that is already gone is not an error.
+   * @param filename
+   */
+  delete(filename: string): Promise<void>;
+
+  /**
+   * @param filename
+   * @returns whether a file is stored under filename
+   */
+  exists(filename: string): Promise<boolean>;
+
+  /**
+   * Start a chunked upload (local temp parts, Azure staged blocks, S3 multipart, GCS
+   * part objects)
+   * @param filename - final object name
+   * @returns provider specific upload id
+   */
+  beginChunkedUpload(filename: string): Promise<string>;
+
+  /**
+   * Stage one chunk; nothing is visible under filename until completeChunkedUpload
+   * @param filename
+   * @param uploadId - from beginChunkedUpload
+   * @param partNumber - 1-based, chunks are assembled in partNumber order
+   * @param stream - chunk bytes
+   * @param size - exact chunk length (required up front by Azure and S3)
+   */
+  uploadChunk(filename: string, uploadId: string, partNumber: number, stream: Readable, size: number): Promise<IStoragePart>;
+
+  /**
+   * Assemble the staged parts into the final object
+   * @param filename
+   * @param uploadId
+   * @param parts - every staged part, in order
+   * @returns upload result; hash is only set if the provider computed it while assembling
+   */
+  completeChunkedUpload(filename: string, uploadId: string, parts: IStoragePart[]): Promise<IStorageUploadResult>;
+
+  /**
+   * Discard a chunked upload and its staged parts
+   * @param filename
+   * @param uploadId
+   * @param parts
+   */
+  abortChunkedUpload(filename: string, uploadId: string, parts: IStoragePart[]): Promise<void>;
+
+  /**
+   * Check the storage can be used: the local directory can be written and read back,
+   * the container or bucket can be reached
+   * @returns UP, or DOWN with the reason; rejects if the probe itself fails
+   */
+  healthCheck(): Promise<IHealthCheckResult>;
 }
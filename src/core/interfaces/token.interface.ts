@@ -0,0 +1,62 @@
+/**
+ * Contains the interfaces for issuing and verifying access tokens.  Kept apart from the
+ * access chain so route guards can verify tokens without an access provider.
+ */
+import type { IPrincipal } from "./access.interface.js";
+
+/**
+ * A freshly signed access token
+ */
+export interface IIssuedToken {
+  token: string;
+  jti: string; // unique token id
+  sessionId: string; // sid claim
+  expiresAt: Date;
+}
+
+/**
+ * What a verified token says about its bearer
+ */
+export interface ITokenClaims extends IPrincipal {
+  jti: string;
+  sessionId: string;
+  issuedAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Signs and verifies access tokens
+ */
+export interface ITokenService {
+  /**
+   * Sign a token for the principal
+   * @param principal
+   * @param sessionId - session the token belongs to; omit to start a new one (login)
+   * @throws {Error} If no signing key is configured (verify-only deployments)
+   */
+  issue(principal: IPrincipal, sessionId?: string): Promise<IIssuedToken>;
+
+  /**
+   * Check signature, issuer, audience, lifetime and revocation, and read the principal
+   * back out
+   * @param token
+   * @throws {HttpError} 401 if the token is expired, revoked, tampered with or not meant for us
+   */
+  verify(token: string): Promise<ITokenClaims>;
+}
+
+/**
+ * Told about every token the token service issues, and asked about every token it
+ * verifies - the hook server-side sessions and the revocation list hang off
+ */
+export interface ITokenRegistry {
+  /**
+   * @param claims - the token just signed
+   */
+  registerToken(claims: ITokenClaims): Promise<void>;
+
+  /**
+   * @param jti
+   */
+  isRevoked(jti: string): Promise<boolean>;
+}
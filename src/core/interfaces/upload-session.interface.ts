@@ -0,0 +1,141 @@
+/**
+ * Contains all the interfaces for the resumable (chunked) upload session chain:
+ *    Controller
+ *    Service
+ *    Session store
+ * The interfaces allow dependancy injection for testing using mocks, etc.
+ */
+import type { NextFunction, Request, Response } from "express";
+import type { Readable } from "stream";
+import type { IStoragePart, IStorageUploadResult } from "./storage.interface.js";
+import type {
+  IFileDescriptiveMetadata,
+  IStoredFile,
+} from "./file-catalog.interface.js";
+
+/**
+ * A resumable upload in progress.  Persisted so a client can carry on after an API
+ * restart; offset is always the sum of the staged part sizes.
+ */
+export interface IUploadSession {
+  id: string;
+  ownerId: string; // whose files the upload goes to
+  uploadedBy?: string | undefined; // the delegate who opened it for the owner; only the opener may use it
+  filename: string; // storage key (owner namespace, timestamp prefixed, sanitised)
+  originalName: string;
+  mimeType: string;
+  size: number; // total declared length
+  offset: number; // bytes received so far
+  providerUploadId: string;
+  parts: IStoragePart[];
+  metadata: IFileDescriptiveMetadata; // catalogued when the upload completes
+  assembled?: IAssembledUpload | undefined; // set once the provider has assembled the parts
+  createdAt: string; // ISO timestamps so the record round-trips through JSON
+  expiresAt: string;
+}
+
+/**
+ * What the provider reported on assembling a session's parts, kept so a completion that
+ * failed afterwards (e.g. cataloguing) is retried without assembling again
+ */
+export interface IAssembledUpload extends Omit<IStorageUploadResult, "timestamp"> {
+  timestamp: string; // ISO, so it round-trips through JSON
+}
+
+/**
+ * Persists upload sessions; implemented per backing store
+ */
+export interface IUploadSessionStore {
+  get(id: string): Promise<IUploadSession | undefined>;
+  save(session: IUploadSession): Promise<void>;
+  delete(id: string): Promise<void>;
+  /**
+   * Sessions whose expiresAt is before the given time
+   * @param now
+   */
+  listExpired(now: Date): Promise<IUploadSession[]>;
+}
+
+/**
+ * Connects the upload session routes with the upload session service
+ */
+export interface IUploadSessionController {
+  createSession(req: Request, res: Response, next: NextFunction): Promise<void>;
+  getSessionOffset(req: Request, res: Response, next: NextFunction): Promise<void>;
+  appendChunk(req: Request, res: Response, next: NextFunction): Promise<void>;
+  completeSession(req: Request, res: Response, next: NextFunction): Promise<void>;
+  abortSession(req: Request, res: Response, next: NextFunction): Promise<void>;
+}
+
+/**
+ * Session bookkeeping on top of the provider's chunked upload operations.  Every
+ * call is made by uploadedBy (defaulting to the owner) on behalf of ownerId; a session
+ * opened by anyone else is reported as not found.
+ */
+export interface IUploadSessionService {
+  /**
+   * Open a session for a file of a known total size
+   * @param originalName
+   * @param mimeType
+   * @param size
+   * @param metadata - descriptive fields recorded in the catalog on completion
+   * @param ownerId
+   * @param uploadedBy - a delegate uploading for the owner, already authorised
+   */
+  createSession(
+    originalName: string,
+    mimeType: string,
+    size: number,
+    metadata: IFileDescriptiveMetadata,
+    ownerId: string,
+    uploadedBy?: string
+  ): Promise<IUploadSession>;
+
+  /**
+   * @param id
+   * @param ownerId
+   * @param uploadedBy
+   * @throws {HttpError} 404 if the session does not exist, has expired or belongs to someone else
+   */
+  getSession(id: string, ownerId: string, uploadedBy?: string): Promise<IUploadSession>;
+
+  /**
+   * Stage the next chunk; offset must equal the session's current offset
+   * @param id
+   * @param ownerId
+   * @param offset - where the client believes the chunk starts
+   * @param length - chunk length (from Content-Length)
+   * @param stream - chunk bytes
+   * @param uploadedBy
+   */
+  appendChunk(
+    id: string,
+    ownerId: string,
+    offset: number,
+    length: number,
+    stream: Readable,
+    uploadedBy?: string
+  ): Promise<IUploadSession>;
+
+  /**
+   * Assemble the staged parts into the final object, catalog it and close the session
+   * @param id
+   * @param ownerId
+   * @param uploadedBy
+   */
+  completeSession(id: string, ownerId: string, uploadedBy?: string): Promise<IStoredFile>;
+
+  /**
+   * Discard the session and any staged parts (or, once assembled, the object)
+   * @param id
+   * @param ownerId
+   * @param uploadedBy
+   */
+  abortSession(id: string, ownerId: string, uploadedBy?: string): Promise<void>;
+
+  /**
+   * Abort every expired session
+   * @returns number of sessions removed
+   */
+  purgeExpired(): Promise<number>;
+}
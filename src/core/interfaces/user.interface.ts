@@ -0,0 +1,35 @@
+/**
+ * Contains the interfaces for locally managed user accounts:
+ *    User record
+ *    User store
+ * Used by the LOCAL access provider and the user admin command.
+ */
+import type { UserType } from "./access.interface.js";
+
+/**
+ * A local user account.  The password is only ever held as an scrypt hash.
+ */
+export interface IUserRecord {
+  id: string;
+  username: string; // lower-cased, unique
+  passwordHash: string; // see hashPassword
+  userType: UserType;
+  disabled: boolean; // disabled accounts cannot log in and their tokens stop working
+  email?: string | undefined; // lower-cased; where password reset and verification links go
+  emailVerified?: boolean | undefined; // false until the owner follows the verification link, and cannot log in till then
+  createdAt: string; // ISO timestamps so the record round-trips through JSON
+  updatedAt: string;
+}
+
+/**
+ * Persists user accounts; implemented per backing store
+ */
+export interface IUserStore {
+  get(id: string): Promise<IUserRecord | undefined>;
+  findByUsername(username: string): Promise<IUserRecord | undefined>;
+  findByEmail(email: string): Promise<IUserRecord | undefined>;
+  list(): Promise<IUserRecord[]>;
+  save(user: IUserRecord): Promise<void>;
+  delete(id: string): Promise<void>;
+  healthCheck(): Promise<void>; // rejects if the accounts cannot be read or saved
+}
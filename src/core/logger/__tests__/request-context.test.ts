@@ -0,0 +1,100 @@
+import { Writable } from "stream";
+import express from "express";
+import request from "supertest";
+import winston from "winston";
+import { Redactor } from "../redactor.js";
+import { WinstonLogger } from "../winston-logger.js";
+import { createRequestContextMiddleware } from "../../middleware/request-context.middleware.js";
+import { getTraceparent } from "../../utilities/request-context.utility.js";
+
+type Entry = Record<string, unknown> & { formatted: string };
+
+/**
+ * A winston transport that keeps the JSON lines it is given, parsed back
+ */
+function capturingTransport(entries: Entry[]) {
+  const stream = new Writable({
+    objectMode: true,
+    write(info: Record<string | symbol, unknown>, _encoding, callback) {
+      const formatted = String(info[Symbol.for("message")]);
+      entries.push({ ...JSON.parse(formatted), formatted });
+      callback();
+    },
+  });
+  return new winston.transports.Stream({ stream });
+}
+
+describe("request context logging", () => {
+  const entries: Entry[] = [];
+  const logger = new WinstonLogger(new Redactor(), [capturingTransport(entries)], "json");
+  const app = express();
+  app.use(createRequestContextMiddleware(logger));
+  app.use(express.json());
+  app.post("/api/v1/items/:id", async (req, res) => {
+    req.principal = { userId: "user-7", userType: "patient" };
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    logger.info("Saving item", { id: req.params["id"] });
+    res.json({ traceparent: getTraceparent() });
+  });
+
+  beforeEach(() => {
+    entries.length = 0;
+  });
+
+  it("should tag every line of a request with its id, route, user and latency", async () => {
+    const response = await request(app).post("/api/v1/items/42?draft=1").send({ name: "x" });
+
+    expect(response.status).toBe(200);
+    const requestId = response.headers["x-request-id"];
+    expect(requestId).toMatch(/^[0-9a-f-]{36}$/);
+
+    const saving = entries.find((entry) => entry["message"] === "Saving item")!;
+    expect(saving).toMatchObject({
+      level: "info",
+      requestId,
+      method: "POST",
+      route: "/api/v1/items/:id",
+      userId: "user-7",
+      meta: { id: "42" },
+    });
+    expect(saving["latencyMs"]).toBeGreaterThanOrEqual(4);
+    expect(saving["timestamp"]).toEqual(expect.any(String));
+
+    const finished = entries.find((entry) => entry["message"] === "POST /api/v1/items/42 200")!;
+    expect(finished).toMatchObject({ requestId, userId: "user-7", meta: { status: 200 } });
+  });
+
+  it("should keep the caller's request id and continue their trace", async () => {
+    const traceId = "4bf92f3577b34da6a3ce929d0e0e4736";
+    const response = await request(app)
+      .post("/api/v1/items/1")
+      .set("X-Request-Id", "client-req.123")
+      .set("traceparent", `00-${traceId}-00f067aa0ba902b7-01`)
+      .send({});
+
+    expect(response.headers["x-request-id"]).toBe("client-req.123");
+    expect(response.body.traceparent).toMatch(new RegExp(`^00-${traceId}-[0-9a-f]{16}-01$`));
+    expect(response.body.traceparent).not.toContain("00f067aa0ba902b7");
+    expect(response.headers["traceparent"]).toBe(response.body.traceparent);
+    expect(entries.every((entry) => entry["requestId"] === "client-req.123" && entry["traceId"] === traceId)).toBe(true);
+  });
+
+  it("should replace malformed request ids and trace headers", async () => {
+    const response = await request(app)
+      .post("/api/v1/items/1")
+      .set("X-Request-Id", "bad id\twith spaces")
+      .set("traceparent", `00-${"0".repeat(32)}-00f067aa0ba902b7-01`)
+      .send({});
+
+    expect(response.headers["x-request-id"]).not.toBe("bad id\twith spaces");
+    expect(response.body.traceparent).not.toContain("0".repeat(32));
+  });
+
+  it("should log without context outside a request", () => {
+    logger.info("Starting up");
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).not.toHaveProperty("requestId");
+    expect(entries[0]).not.toHaveProperty("meta");
+  });
+});
@@ -1,16 +1,32 @@
 import type { ILogger } from '../interfaces/logger.interface.js';
+import { getLogFormat, type LogFormat } from '../../config/log.config.js';
+import { getRequestLogFields } from '../utilities/request-context.utility.js';
+import { Redactor } from './redactor.js';
 
 /**
- * Console-based logger implementation
+ * Console-based logger implementation.  Messages and arguments are redacted before they
+ * reach the console, and the request context is appended while a request is handled.
  */
 export class ConsoleLogger implements ILogger {
+  private redactor: Redactor;
+  private format: LogFormat;
+
+  /**
+   * @param redactor - Masks secrets and PHI; defaults to redactionConfig
+   * @param format - json or text; LOG_FORMAT by default
+   */
+  constructor(redactor: Redactor = new Redactor(), format: LogFormat = getLogFormat()) {
+    this.redactor = redactor;
+    this.format = format;
+  }
+
   /**
    * Default logger trace behavior is overly verbose
    * @param message - Log message
    * @param args - Additional arguments
    */
   trace(message: string, ...args: any[]): void {
-    console.trace(message, ...args);
+    console.trace(...this.line('trace', message, args));
   }
 
   /**
@@ -19,7 +35,7 @@ export class ConsoleLogger implements ILogger {
    * @param args - Additional arguments
    */
   debug(message: string, ...args: any[]): void {
-    console.debug(message, ...args);
+    console.debug(...this.line('debug', message, args));
   }
 
   /**
@@ -28,7 +44,7 @@ export class ConsoleLogger implements ILogger {
    * @param args - Additional arguments
    */
   info(message: string, ...args: any[]): void {
-    console.info(message, ...args);
+    console.info(...this.line('info', message, args));
   }
 
   /**
@@ -37,7 +53,7 @@ export class ConsoleLogger implements ILogger {
    * @param args - Additional arguments
    */
   warn(message: string, ...args: any[]): void {
-    console.warn(message, ...args);
+    console.warn(...this.line('warn', message, args));
   }
 
   /**
@@ -46,17 +62,35 @@ export class ConsoleLogger implements ILogger {
    * @param args - Additional arguments
    */
   error(message: string, ...args: any[]): void {
-    console.error(message, ...args);
+    console.error(...this.line('error', message, args));
   }
 
   /**
-   * Default logger does not recognize fatal, use error instead
+   * Default logger does not recognize fatal: the line is logged as an error, then thrown
    * @param message - Log message
    * @param args - Additional arguments
    */
   fatal(message: string, ...args: any[]): never {
-    throw new Error(
-      `Fatal is not supported by the default (console) logger.\n${message}\n${args}`
-    );
+    console.error(...this.line('fatal', message, args));
+    throw new Error(`Fatal is not supported by the default (console) logger.\n${this.redactor.message(message)}`);
+  }
+
+  /**
+   * The console arguments for one line: a single JSON string, or the message followed by
+   * the arguments and the request context
+   */
+  private line(level: string, message: string, args: unknown[]): unknown[] {
+    const context = getRequestLogFields();
+    const redacted = this.redactor.meta(args);
+    if (this.format === 'json') {
+      return [JSON.stringify({
+        level,
+        message: this.redactor.message(message),
+        timestamp: new Date().toISOString(),
+        ...context,
+        ...(redacted.length === 0 ? {} : { meta: redacted.length === 1 ? redacted[0] : redacted }),
+      })];
+    }
+    return [this.redactor.message(message), ...redacted, ...(context ? [context] : [])];
   }
 }
@@ -1,30 +1,45 @@
 import type { ILogger } from '../interfaces/logger.interface.js';
+import { Redactor } from './redactor.js';
 
 /**
- * Mock logger implementation for unit testing
+ * Mock logger implementation for unit testing.  It writes to the console like any other
+ * transport, so it redacts like one.
  */
 export class MockLogger implements ILogger {
+  private redactor: Redactor;
+
+  /**
+   * @param redactor - Masks secrets and PHI; defaults to redactionConfig
+   */
+  constructor(redactor: Redactor = new Redactor()) {
+    this.redactor = redactor;
+  }
+
   trace(message: string, ...meta: any[]): void {
-    console.log(`\nmessage ${message}\nmeta${meta}`);
+    this.log(message, meta);
   }
 
   debug(message: string, ...meta: any[]): void {
-    console.log(`\nmessage ${message}\nmeta${meta}`);
+    this.log(message, meta);
   }
 
   info(message: string, ...meta: any[]): void {
-    console.log(`\nmessage ${message}\nmeta${meta}`);
+    this.log(message, meta);
   }
 
   warn(message: string, ...meta: any[]): void {
-    console.log(`\nmessage ${message}\nmeta${meta}`);
+    this.log(message, meta);
   }
 
   error(message: string, ...meta: any[]): void {
-    console.log(`\nmessage ${message}\nmeta${meta}`);
+    this.log(message, meta);
   }
 
   fatal(message: string, ...meta: any[]): void {
-    console.log(`\nmessage ${message}\nmeta${meta}`);
+    this.log(message, meta);
+  }
+
+  private log(message: string, meta: unknown[]): void {
+    console.log(`\nmessage ${this.redactor.message(message)}\nmeta`, ...this.redactor.meta(meta));
   }
 }
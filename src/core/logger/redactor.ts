@@ -0,0 +1,103 @@
+import { redactionConfig, type RedactionConfig } from '../../config/log.config.js';
+
+// Deeper than any meta we log; stops runaway recursion on odd objects
+const MAX_DEPTH = 8;
+
+/**
+ * Masks secrets and PHI in log messages and meta before a logger hands them to its
+ * transport.  Object properties whose names match a sensitive key are masked whatever
+ * their value; every string - the message, and any string nested in the meta - has the
+ * sensitive patterns replaced.  The caller's objects are never modified.
+ */
+export class Redactor {
+  private mask: string;
+  private keys: string[];
+  private patterns: RedactionConfig['patterns'];
+
+  /**
+   * @param config - sensitive keys and patterns; see redactionConfig
+   */
+  constructor(config: RedactionConfig = redactionConfig) {
+    this.mask = config.mask;
+    this.keys = config.keys.map(normaliseKey);
+    this.patterns = config.patterns;
+  }
+
+  /**
+   * @param message - log message
+   * @returns the message with sensitive patterns masked
+   */
+  message(message: string): string {
+    return this.redactString(String(message));
+  }
+
+  /**
+   * @param meta - the extra arguments of a log call
+   * @returns copies with sensitive keys and patterns masked
+   */
+  meta(meta: unknown[]): unknown[] {
+    return meta.map((value) => this.redact(value, 0, new WeakSet()));
+  }
+
+  /**
+   * @param key - an object property name
+   * @returns whether its value must be masked
+   */
+  isSensitiveKey(key: string): boolean {
+    const normalised = normaliseKey(key);
+    return this.keys.some((sensitive) => normalised.includes(sensitive));
+  }
+
+  private redact(value: unknown, depth: number, seen: WeakSet<object>): unknown {
+    if (typeof value === 'string') {
+      return this.redactString(value);
+    }
+    if (value === null || typeof value !== 'object') {
+      return value;
+    }
+    if (seen.has(value) || depth >= MAX_DEPTH) {
+      return '[Truncated]';
+    }
+    seen.add(value);
+
+    if (value instanceof Error) {
+      // Errors do not enumerate their message or stack, so copy them out explicitly
+      const copy: Record<string, unknown> = { name: value.name, message: this.redactString(value.message) };
+      if (value.stack) {
+        copy['stack'] = this.redactString(value.stack);
+      }
+      return Object.assign(copy, this.redactObject(value, depth, seen));
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redact(item, depth + 1, seen));
+    }
+    if (value instanceof Date) {
+      return value;
+    }
+    if (Buffer.isBuffer(value)) {
+      return `[Buffer ${value.length} bytes]`;
+    }
+    return this.redactObject(value, depth, seen);
+  }
+
+  private redactObject(value: object, depth: number, seen: WeakSet<object>): Record<string, unknown> {
+    const copy: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      copy[key] = this.isSensitiveKey(key) && item !== undefined && item !== null
+        ? this.mask
+        : this.redact(item, depth + 1, seen);
+    }
+    return copy;
+  }
+
+  private redactString(value: string): string {
+    return this.patterns.reduce(
+      (redacted, { pattern, replacement }) => redacted.replace(pattern, replacement),
+      value
+    );
+  }
+}
+
+function normaliseKey(key: string): string {
+  return key.toLowerCase().replace(/[-_\s]/g, '');
+}
@@ -1,51 +1,92 @@
 import winston from 'winston';
 import type { ILogger } from '../interfaces/logger.interface.js';
-import { myCustomLevels, type CustomLevels } from '../../config/log.config.js';
+import { getLogFormat, myCustomLevels, type CustomLevels, type LogFormat } from '../../config/log.config.js';
+import { getRequestLogFields } from '../utilities/request-context.utility.js';
+import { Redactor } from './redactor.js';
 
 type CustomWinstonLogger = winston.Logger &
   Record<keyof CustomLevels, winston.LeveledLogMethod>;
 
 /**
- * Winston-based logger implementation with custom log levels
+ * Build the line format: one JSON object per line, or coloured text with the request id
+ * and any meta appended
+ * @param format
+ */
+function createFormat(format: LogFormat): winston.Logform.Format {
+  if (format === 'json') {
+    return winston.format.combine(winston.format.timestamp(), winston.format.json());
+  }
+  return winston.format.combine(
+    winston.format.colorize({ colors: myCustomLevels.colors }),
+    winston.format.timestamp(),
+    winston.format.printf(({ level, message, timestamp, requestId, meta }) =>
+      `${timestamp} [${level}]${requestId ? ` [${String(requestId)}]` : ''}: ${message}` +
+      (meta ? ` ${JSON.stringify(meta)}` : '')
+    )
+  );
+}
+
+/**
+ * Winston-based logger implementation with custom log levels.  Every message and its
+ * meta go through the redactor before winston sees them, so no transport ever receives
+ * a secret.  Lines written while a request is handled carry its request id, trace id,
+ * route, user and latency.
  */
 export class WinstonLogger implements ILogger {
   private logger: CustomWinstonLogger;
+  private redactor: Redactor;
 
-  constructor() {
+  /**
+   * @param redactor - Masks secrets and PHI; defaults to redactionConfig
+   * @param transports - Where log lines go; the console by default
+   * @param format - json or text; LOG_FORMAT by default
+   */
+  constructor(
+    redactor: Redactor = new Redactor(),
+    transports: winston.transport[] = [new winston.transports.Console()],
+    format: LogFormat = getLogFormat()
+  ) {
+    this.redactor = redactor;
     this.logger = winston.createLogger({
       levels: myCustomLevels.levels,
-      format: winston.format.combine(
-        winston.format.colorize({ colors: myCustomLevels.colors }),
-        winston.format.timestamp(),
-        winston.format.printf(
-          ({ level, message, timestamp }) => `${timestamp} [${level}]: ${message}`
-        )
-      ),
-      transports: [new winston.transports.Console()],
+      format: createFormat(format),
+      transports,
     }) as CustomWinstonLogger;
   }
 
   trace(message: string, ...meta: any[]): void {
-    this.logger.trace(message, ...meta);
+    this.write('trace', message, meta);
   }
 
   debug(message: string, ...meta: any[]): void {
-    this.logger.debug(message, ...meta);
+    this.write('debug', message, meta);
   }
 
   info(message: string, ...meta: any[]): void {
-    this.logger.info(message, ...meta);
+    this.write('info', message, meta);
   }
 
   warn(message: string, ...meta: any[]): void {
-    this.logger.warn(message, ...meta);
+    this.write('warn', message, meta);
   }
 
   error(message: string, ...meta: any[]): void {
-    this.logger.error(message, ...meta);
+    this.write('error', message, meta);
   }
 
   fatal(message: string, ...meta: any[]): void {
-    this.logger.fatal(message, ...meta);
+    this.write('fatal', message, meta);
+  }
+
+  /**
+   * Redact, tag with the request context and hand to winston.  Meta goes under its own
+   * key so it can never overwrite the level, message or context fields.
+   */
+  private write(level: keyof CustomLevels, message: string, meta: any[]): void {
+    const redacted = this.redactor.meta(meta);
+    this.logger.log(level, this.redactor.message(message), {
+      ...getRequestLogFields(),
+      ...(redacted.length === 0 ? {} : { meta: redacted.length === 1 ? redacted[0] : redacted }),
+    });
   }
 }
@@ -0,0 +1,101 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { LocalAccess } from "../local-access.js";
+import { FileUserStore } from "../../../stores/user.store.js";
+import { TokenService } from "../../../security/token.service.js";
+import { hashPassword, verifyPassword } from "../../../utilities/password.utility.js";
+import { mockLogger } from "../../../../test/mocks.js";
+import type { IUserRecord } from "../../../interfaces/user.interface.js";
+
+describe("LocalAccess", () => {
+  let dir: string;
+  let store: FileUserStore;
+  let access: LocalAccess;
+  let user: IUserRecord;
+
+  beforeAll(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "local-access-"));
+    store = new FileUserStore(path.join(dir, "users.json"));
+    const tokenService = new TokenService(mockLogger(), {
+      algorithm: "HS256",
+      secret: "s".repeat(32),
+      issuer: "test",
+      audience: "test",
+      ttlSeconds: 900,
+      clockToleranceSeconds: 30,
+    });
+    access = new LocalAccess(mockLogger(), tokenService, store);
+
+    user = {
+      id: "0b7c1e9e-1111-4c3f-9a55-5b7a3f0f6d21",
+      username: "jsmith",
+      passwordHash: await hashPassword("CorrectHorse9"),
+      userType: "provider",
+      disabled: false,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+    await store.save(user);
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("password hashing", () => {
+    it("should salt every hash and verify only the right password", async () => {
+      const first = await hashPassword("CorrectHorse9");
+
+      expect(first).toMatch(/^scrypt\$131072\$8\$1\$/);
+      expect(await hashPassword("CorrectHorse9")).not.toBe(first);
+      await expect(verifyPassword("CorrectHorse9", first)).resolves.toBe(true);
+      await expect(verifyPassword("correcthorse9", first)).resolves.toBe(false);
+      await expect(verifyPassword("CorrectHorse9", "md5$abc")).resolves.toBe(false);
+    });
+  });
+
+  it("should log in with the right password, case-insensitively by username", async () => {
+    const response = await access.login("JSmith", "CorrectHorse9");
+
+    expect(response).toMatchObject({ success: true, userId: user.id, userType: "provider" });
+    await expect(access.verifyToken(response.token)).resolves.toEqual({ userId: user.id, userType: "provider", sessionId: response.sessionId });
+  });
+
+  it("should give the same 401 for a wrong password and an unknown user", async () => {
+    await expect(access.login("jsmith", "WrongHorse9")).rejects.toMatchObject({ statusCode: 401, message: "Invalid username or password" });
+    await expect(access.login("nobody", "CorrectHorse9")).rejects.toMatchObject({ statusCode: 401, message: "Invalid username or password" });
+  });
+
+  it("should refuse disabled accounts and the tokens they already hold", async () => {
+    const { token } = await access.login("jsmith", "CorrectHorse9");
+    await store.save({ ...user, disabled: true });
+
+    await expect(access.login("jsmith", "CorrectHorse9")).rejects.toMatchObject({ statusCode: 401 });
+    await expect(access.verifyToken(token)).rejects.toMatchObject({ statusCode: 401 });
+
+    await store.save(user);
+  });
+
+  it("should refuse an unverified email with 403, but only after the password matches", async () => {
+    await store.save({ ...user, email: "jsmith@example.org", emailVerified: false });
+
+    await expect(access.login("jsmith", "WrongHorse9")).rejects.toMatchObject({ statusCode: 401 });
+    await expect(access.login("jsmith", "CorrectHorse9")).rejects.toMatchObject({ statusCode: 403 });
+
+    await store.save(user);
+  });
+
+  it("should reject authenticate for another user's id", async () => {
+    const { token } = await access.login("jsmith", "CorrectHorse9");
+
+    await expect(access.authenticate(token, user.id)).resolves.toEqual({ success: true, userId: user.id });
+    await expect(access.authenticate(token, "someone-else")).rejects.toMatchObject({ statusCode: 401 });
+  });
+
+  it("should persist accounts across store instances", async () => {
+    const reopened = new FileUserStore(path.join(dir, "users.json"));
+
+    await expect(reopened.findByUsername("JSMITH")).resolves.toMatchObject({ id: user.id });
+  });
+});
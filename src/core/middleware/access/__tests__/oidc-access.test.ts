@@ -0,0 +1,120 @@
+import { OidcAccess } from "../oidc-access.js";
+import { MockOidcServer } from "../../../../test/oidc-server.js";
+import { mockLogger } from "../../../../test/mocks.js";
+import type { OidcConfig } from "../../../../config/index.js";
+import type { IRequestContext } from "../../../interfaces/request-context.interface.js";
+import { runWithRequestContext } from "../../../utilities/request-context.utility.js";
+
+const TENANT = "7f3c2a10-0000-4000-8000-000000000001";
+
+describe("OidcAccess", () => {
+  const idp = new MockOidcServer();
+  let config: OidcConfig;
+
+  beforeAll(async () => {
+    await idp.start();
+    config = {
+      discoveryUrl: idp.discoveryUrl,
+      audiences: ["api://soleo"],
+      tenantId: TENANT,
+      algorithms: ["RS256"],
+      userIdClaim: "oid",
+      rolesClaim: "roles",
+      roleMap: { "Soleo.Admin": "admin", "Soleo.Clinician": "provider" },
+      defaultUserType: "patient",
+      clockToleranceSeconds: 30,
+      jwksCacheMaxAgeMs: 600000,
+      jwksCooldownMs: 0,
+      httpTimeoutMs: 2000,
+    };
+  });
+
+  afterAll(async () => {
+    await idp.stop();
+  });
+
+  function claims(overrides: Record<string, unknown> = {}) {
+    return { aud: "api://soleo", tid: TENANT, oid: "user-oid-1", sub: "pairwise-sub", ...overrides };
+  }
+
+  it("should map the user id claim and the strongest app role onto the principal", async () => {
+    const access = new OidcAccess(mockLogger(), config);
+
+    const clinician = await idp.sign(claims({ roles: ["Soleo.Clinician", "Unmapped"] }));
+    const admin = await idp.sign(claims({ roles: ["Soleo.Clinician", "Soleo.Admin"] }));
+    const plain = await idp.sign(claims());
+
+    await expect(access.verifyToken(clinician)).resolves.toEqual({ userId: "user-oid-1", userType: "provider" });
+    await expect(access.verifyToken(admin)).resolves.toEqual({ userId: "user-oid-1", userType: "admin" });
+    await expect(access.verifyToken(plain)).resolves.toEqual({ userId: "user-oid-1", userType: "patient" });
+  });
+
+  it("should reject the wrong audience, issuer or tenant and expired tokens", async () => {
+    const access = new OidcAccess(mockLogger(), config);
+
+    await expect(access.verifyToken(await idp.sign(claims({ aud: "api://other" })))).rejects.toMatchObject({ statusCode: 401 });
+    await expect(access.verifyToken(await idp.sign(claims({ iss: "https://evil.example" })))).rejects.toMatchObject({ statusCode: 401 });
+    await expect(access.verifyToken(await idp.sign(claims({ tid: "another-tenant" })))).rejects.toMatchObject({ statusCode: 401 });
+    await expect(access.verifyToken(await idp.sign(claims(), { expiresIn: "-5m" }))).rejects.toMatchObject({ statusCode: 401, message: "Token expired" });
+    await expect(access.verifyToken(await idp.sign(claims({ oid: undefined })))).rejects.toMatchObject({ statusCode: 401 });
+  });
+
+  it("should reject a token signed by a key the issuer does not publish", async () => {
+    const access = new OidcAccess(mockLogger(), config);
+    const stranger = new MockOidcServer();
+    await stranger.start();
+    const token = await stranger.sign(claims({ iss: idp.issuer }));
+    await stranger.stop();
+
+    await expect(access.verifyToken(token)).rejects.toMatchObject({ statusCode: 401 });
+  });
+
+  it("should cache the signing keys and refetch them when the issuer rotates", async () => {
+    const access = new OidcAccess(mockLogger(), config);
+    const before = idp.jwksRequests;
+
+    await access.verifyToken(await idp.sign(claims()));
+    await access.verifyToken(await idp.sign(claims()));
+    expect(idp.jwksRequests - before).toBe(1);
+
+    await idp.rotateKey();
+    await expect(access.verifyToken(await idp.sign(claims()))).resolves.toMatchObject({ userId: "user-oid-1" });
+    expect(idp.jwksRequests - before).toBe(2);
+  });
+
+  it("should pass the request's trace on when fetching discovery and signing keys", async () => {
+    const access = new OidcAccess(mockLogger(), config);
+    const context = {
+      requestId: "req-1",
+      traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+      spanId: "00f067aa0ba902b7",
+      traceFlags: "01",
+      startedAt: process.hrtime.bigint(),
+      req: {},
+    } as IRequestContext;
+    idp.traceparents.length = 0;
+
+    const token = await idp.sign(claims());
+    await runWithRequestContext(context, () => access.verifyToken(token));
+
+    expect(idp.traceparents).toEqual([
+      "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01",
+      "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01",
+    ]);
+  });
+
+  it("should report the issuer healthy while its discovery document and signing keys can be fetched", async () => {
+    const access = new OidcAccess(mockLogger(), config);
+    const unreachable = new OidcAccess(mockLogger(), { ...config, discoveryUrl: "http://127.0.0.1:9/.well-known/openid-configuration" });
+
+    await expect(access.healthCheck()).resolves.toEqual({ status: "UP", detail: expect.stringMatching(/^\d+ signing keys$/) });
+    await expect(unreachable.healthCheck()).resolves.toEqual({ status: "DOWN", detail: "Discovery document could not be fetched" });
+  });
+
+  it("should refuse password logins and report an unreachable issuer as 503", async () => {
+    const access = new OidcAccess(mockLogger(), { ...config, discoveryUrl: "http://127.0.0.1:9/.well-known/openid-configuration" });
+
+    await expect(access.login("someone", "Password123")).rejects.toMatchObject({ statusCode: 400 });
+    await expect(access.verifyToken(await idp.sign(claims()))).rejects.toMatchObject({ statusCode: 503 });
+  });
+});
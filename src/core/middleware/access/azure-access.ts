@@ -1,5 +1,7 @@
+import crypto from 'crypto';
 import type {
   IAccess,
+  IPrincipal,
 } from '../../interfaces/access.interface.js';
 import type {
   IAuthenticatonResponse,
@@ -7,15 +9,25 @@ import type {
   ILogoutResponse
 } from "../../../api/v1/interfaces/access.response.interface.js";
 import type { ILogger } from '../../interfaces/logger.interface.js';
+import type { IHealthCheckResult } from '../../interfaces/health.interface.js';
+import type { ITokenService } from '../../interfaces/token.interface.js';
+import { HttpError } from '../../utilities/error.utility.js';
 
 /**
  * Azure-based authentication provider
+ *
+ * Still a mock: any password is accepted and the user id is derived from the username,
+ * so every login is a patient - no username gets a stronger role.  Tokens are real signed
+ * JWTs from the token service.  AccessFactory refuses it in PRODUCTION unless
+ * ALLOW_MOCK_ACCESS=true.
  */
 export class AzureAccess implements IAccess {
   private logger: ILogger;
+  private tokenService: ITokenService;
 
-  constructor(_logger: ILogger) {
+  constructor(_logger: ILogger, _tokenService: ITokenService) {
     this.logger = _logger;
+    this.tokenService = _tokenService;
   }
 
   /**
@@ -24,20 +36,45 @@ export class AzureAccess implements IAccess {
    * @param _password - User's password (unused in mock)
    * @returns Promise<ILoginResponse>
    */
-  login(username: string, _password: string): Promise<ILoginResponse> {
+  async login(username: string, _password: string): Promise<ILoginResponse> {
     this.logger.trace(
       `enter AzureAuthenticator.login() for ${username}`
     ); 
 
-    const response: ILoginResponse = {
-      success: true,
-      token: 'mock-jwt-token',
-      userId: '12345',
+    const response = await this.reissue(await this.verifyCredentials(username, _password));
+    this.logger.trace(`exit AzureAuthenticator.login`);
+
+    return response;
+  }
+
+  /**
+   * Check a username and password without issuing a token
+   * @param username - User's username
+   * @param _password - User's password (unused in mock)
+   * @returns Promise<IPrincipal>
+   */
+  async verifyCredentials(username: string, _password: string): Promise<IPrincipal> {
+    return {
+      userId: crypto.createHash('sha256').update(username).digest('hex').slice(0, 16),
       userType: 'patient',
     };
-    this.logger.trace(`exit AzureAuthenticator.login`);
+  }
 
-    return Promise.resolve(response);
+  /**
+   * Issue a new access token for a principal whose refresh token was accepted
+   * @param principal - who the refresh token was issued to
+   * @returns Promise<ILoginResponse>
+   */
+  async reissue(principal: IPrincipal): Promise<ILoginResponse> {
+    const issued = await this.tokenService.issue(principal, principal.sessionId);
+    return {
+      success: true,
+      token: issued.token,
+      expiresAt: issued.expiresAt.toISOString(),
+      sessionId: issued.sessionId,
+      userId: principal.userId,
+      userType: principal.userType,
+    };
   }
 
   /**
@@ -50,7 +87,7 @@ export class AzureAccess implements IAccess {
 
     const response: ILogoutResponse = {
       success: true,
-      userId: '12345',
+      userId,
     };
 
     this.logger.trace(`exit AzureAuthenticator.logout`);
@@ -59,20 +96,49 @@ export class AzureAccess implements IAccess {
 
   /**
    * Verify authentication token
-   * @param _token - Authentication token (unused in mock)
-   * @param userId - User's ID
+   * @param token - Authentication token
+   * @param userId - User's ID; 'unknown' to check the token alone
    * @returns Promise<IAuthResponse>
+   * @throws {HttpError} 401 if the token is invalid or was issued to someone else
    */
-  authenticate(_token: string, userId: string): Promise<IAuthenticatonResponse> {
+  async authenticate(token: string, userId: string): Promise<IAuthenticatonResponse> {
     this.logger.trace(
       `enter AzureAuthenticator.authenticate() for ${userId}`);
 
+    const claims = await this.tokenService.verify(token);
+    if (userId !== 'unknown' && userId !== claims.userId) {
+      this.logger.warn(`Token ${claims.jti} presented for user ${userId} belongs to ${claims.userId}`);
+      throw new HttpError(401, 'Token does not belong to this user');
+    }
+
     const response: IAuthenticatonResponse = {
       success: true,
-      userId: '12345',
+      userId: claims.userId,
     };
 
     this.logger.trace(`exit AzureAuthenticator.authenticate`);
-    return Promise.resolve(response);
+    return response;
+  }
+
+  /**
+   * Resolve the caller a token was issued to
+   * @param token - Token returned by login
+   * @returns Promise<IPrincipal>
+   */
+  async verifyToken(token: string): Promise<IPrincipal> {
+    this.logger.trace(`enter AzureAuthenticator.verifyToken()`);
+
+    const { userId, userType, sessionId } = await this.tokenService.verify(token);
+
+    this.logger.trace(`exit AzureAuthenticator.verifyToken for ${userId}`);
+    return { userId, userType, sessionId };
+  }
+
+  /**
+   * Nothing to reach while this is a mock
+   * @returns UP always
+   */
+  async healthCheck(): Promise<IHealthCheckResult> {
+    return { status: 'UP', detail: 'Mock provider; no directory to reach' };
   }
 }
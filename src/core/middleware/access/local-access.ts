@@ -0,0 +1,175 @@
+import type {
+  IAccess,
+  IPrincipal,
+} from '../../interfaces/access.interface.js';
+import type {
+  IAuthenticatonResponse,
+  ILoginResponse,
+  ILogoutResponse
+} from "../../../api/v1/interfaces/access.response.interface.js";
+import type { ILogger } from '../../interfaces/logger.interface.js';
+import type { IHealthCheckResult } from '../../interfaces/health.interface.js';
+import type { ITokenService } from '../../interfaces/token.interface.js';
+import type { IUserRecord, IUserStore } from '../../interfaces/user.interface.js';
+import { HttpError } from '../../utilities/error.utility.js';
+import { hashPassword, verifyPassword } from '../../utilities/password.utility.js';
+
+/**
+ * Local authentication provider backed by a user store of scrypt-hashed passwords.
+ * For development, testing and on-prem deployments without a directory service;
+ * accounts are managed with the `users` command (src/cli/users.ts).
+ */
+export class LocalAccess implements IAccess {
+  private logger: ILogger;
+  private tokenService: ITokenService;
+  private userStore: IUserStore;
+  // Checked against when the username is unknown so both failures take as long
+  private dummyHash: Promise<string> | undefined;
+
+  constructor(_logger: ILogger, _tokenService: ITokenService, _userStore: IUserStore) {
+    this.logger = _logger;
+    this.tokenService = _tokenService;
+    this.userStore = _userStore;
+  }
+
+  /**
+   * Log in user with username and password
+   * @param username - User's username
+   * @param password - User's password
+   * @returns Promise<ILoginResponse>
+   * @throws {HttpError} 401 for an unknown user, a wrong password or a disabled account,
+   *   403 if the account's email address is not verified yet
+   */
+  async login(username: string, password: string): Promise<ILoginResponse> {
+    this.logger.trace(`enter LocalAccess.login() for ${username}`);
+
+    const response = await this.issueFor(await this.checkPassword(username, password));
+    this.logger.trace(`exit LocalAccess.login for ${response.userId}`);
+    return response;
+  }
+
+  /**
+   * Check a username and password without issuing a token
+   * @param username - User's username
+   * @param password - User's password
+   * @returns Promise<IPrincipal>
+   * @throws {HttpError} 401 for an unknown user, a wrong password or a disabled account,
+   *   403 if the account's email address is not verified yet
+   */
+  async verifyCredentials(username: string, password: string): Promise<IPrincipal> {
+    const user = await this.checkPassword(username, password);
+    return { userId: user.id, userType: user.userType };
+  }
+
+  /**
+   * Issue a new access token for a principal whose refresh token was accepted.  The
+   * account is read again, so a disabled user cannot refresh and a changed user type
+   * is picked up.
+   * @param principal - who the refresh token was issued to
+   * @returns Promise<ILoginResponse>
+   */
+  async reissue(principal: IPrincipal): Promise<ILoginResponse> {
+    return this.issueFor(await this.activeUser(principal.userId), principal.sessionId);
+  }
+
+  /**
+   * Logout user
+   * @param userId - User's ID
+   * @returns Promise<ILogoutResponse>
+   */
+  async logout(userId: string): Promise<ILogoutResponse> {
+    this.logger.trace(`enter LocalAccess.logout() for ${userId}`);
+    return { success: true, userId };
+  }
+
+  /**
+   * Verify authentication token
+   * @param token - Authentication token
+   * @param userId - User's ID; 'unknown' to check the token alone
+   * @returns Promise<IAuthResponse>
+   * @throws {HttpError} 401 if the token is invalid, its account disabled, or it was issued to someone else
+   */
+  async authenticate(token: string, userId: string): Promise<IAuthenticatonResponse> {
+    this.logger.trace(`enter LocalAccess.authenticate() for ${userId}`);
+
+    const principal = await this.verifyToken(token);
+    if (userId !== 'unknown' && userId !== principal.userId) {
+      throw new HttpError(401, 'Token does not belong to this user');
+    }
+
+    this.logger.trace(`exit LocalAccess.authenticate`);
+    return { success: true, userId: principal.userId };
+  }
+
+  /**
+   * Resolve the caller a token was issued to.  The account is looked up again so
+   * disabling or deleting a user cuts off tokens already issued, and a changed user
+   * type takes effect immediately.
+   * @param token - Token returned by login
+   * @returns Promise<IPrincipal>
+   */
+  async verifyToken(token: string): Promise<IPrincipal> {
+    this.logger.trace(`enter LocalAccess.verifyToken()`);
+
+    const claims = await this.tokenService.verify(token);
+    const user = await this.activeUser(claims.userId);
+
+    this.logger.trace(`exit LocalAccess.verifyToken for ${user.id}`);
+    return { userId: user.id, userType: user.userType, sessionId: claims.sessionId };
+  }
+
+  /**
+   * Check the user store can be read and written
+   * @returns DOWN with the filesystem error code
+   */
+  async healthCheck(): Promise<IHealthCheckResult> {
+    try {
+      await this.userStore.healthCheck();
+      return { status: 'UP' };
+    } catch (error: unknown) {
+      this.logger.error('LocalAccess health probe failed:', error);
+      const code = (error as NodeJS.ErrnoException).code ?? 'unknown error';
+      return { status: 'DOWN', detail: `User store could not be read or written (${code})` };
+    }
+  }
+
+  private async checkPassword(username: string, password: string): Promise<IUserRecord> {
+    const user = await this.userStore.findByUsername(username);
+    this.dummyHash ??= hashPassword('not-a-real-password');
+    const matches = await verifyPassword(password, user?.passwordHash ?? await this.dummyHash);
+
+    // Same answer for every failure so callers cannot probe for usernames
+    if (!user || !matches || user.disabled) {
+      this.logger.warn(`LocalAccess.login failed for ${username}: ${!user ? 'unknown user' : !matches ? 'wrong password' : 'account disabled'}`);
+      throw new HttpError(401, 'Invalid username or password');
+    }
+    // Only said once the password matched, so it reveals nothing to someone guessing
+    if (user.emailVerified === false) {
+      this.logger.warn(`LocalAccess.login refused for ${username}: email not verified`);
+      throw new HttpError(403, 'Email address not verified; follow the link sent to it, or ask for a new one');
+    }
+    return user;
+  }
+
+  private async issueFor(user: IUserRecord, sessionId?: string): Promise<ILoginResponse> {
+    const principal: IPrincipal = { userId: user.id, userType: user.userType, sessionId };
+    const issued = await this.tokenService.issue(principal, principal.sessionId);
+    return {
+      success: true,
+      token: issued.token,
+      expiresAt: issued.expiresAt.toISOString(),
+      sessionId: issued.sessionId,
+      userId: principal.userId,
+      userType: principal.userType,
+    };
+  }
+
+  private async activeUser(userId: string): Promise<IUserRecord> {
+    const user = await this.userStore.get(userId);
+    if (!user || user.disabled) {
+      this.logger.warn(`LocalAccess rejected a token for ${user ? 'disabled' : 'unknown'} user ${userId}`);
+      throw new HttpError(401, 'Invalid token');
+    }
+    return user;
+  }
+}
@@ -0,0 +1,236 @@
+import { createRemoteJWKSet, customFetch, errors, jwtVerify, type JWTPayload } from 'jose';
+import type {
+  IAccess,
+  IPrincipal,
+  UserType,
+} from '../../interfaces/access.interface.js';
+import type {
+  IAuthenticatonResponse,
+  ILoginResponse,
+  ILogoutResponse
+} from "../../../api/v1/interfaces/access.response.interface.js";
+import type { ILogger } from '../../interfaces/logger.interface.js';
+import type { IHealthCheckResult } from '../../interfaces/health.interface.js';
+import type { OidcConfig } from '../../../config/index.js';
+import { getTraceHeaders } from '../../utilities/request-context.utility.js';
+import { HttpError } from '../../utilities/error.utility.js';
+
+// Most privileged first: a caller holding several mapped roles gets the strongest
+const USER_TYPE_RANK: readonly UserType[] = ['admin', 'clinician', 'provider', 'service', 'caregiver', 'patient'];
+
+interface IOidcProvider {
+  issuer: string;
+  jwks: ReturnType<typeof createRemoteJWKSet>;
+}
+
+/**
+ * OpenID Connect authentication provider (Microsoft Entra ID or any OIDC issuer).
+ * Users sign in with the identity provider and present its ID or access token; this
+ * provider only validates them - signature against the issuer's JWKS, then issuer,
+ * audience, lifetime and tenant - and maps claims and app roles onto the principal.
+ * Signing keys are cached and refetched when a token names a kid we have not seen.
+ */
+export class OidcAccess implements IAccess {
+  private logger: ILogger;
+  private config: OidcConfig;
+  private discovery: Promise<IOidcProvider> | undefined;
+
+  /**
+   * @param logger - Logger instance
+   * @param config - OIDC configuration (see getOidcConfig)
+   */
+  constructor(_logger: ILogger, _config: OidcConfig) {
+    this.logger = _logger;
+    this.config = _config;
+  }
+
+  /**
+   * Password login is the identity provider's job
+   * @throws {HttpError} 400 always
+   */
+  async login(username: string, _password: string): Promise<ILoginResponse> {
+    this.logger.warn(`OidcAccess.login refused a password login for ${username}`);
+    throw new HttpError(400, 'Password login is not supported; sign in with the identity provider');
+  }
+
+  /**
+   * Password login is the identity provider's job, and so is its second factor
+   * @throws {HttpError} 400 always
+   */
+  async verifyCredentials(username: string, _password: string): Promise<IPrincipal> {
+    this.logger.warn(`OidcAccess.verifyCredentials refused a password login for ${username}`);
+    throw new HttpError(400, 'Password login is not supported; sign in with the identity provider');
+  }
+
+  /**
+   * Access tokens come from the identity provider, and so do their refreshes
+   * @throws {HttpError} 400 always
+   */
+  async reissue(principal: IPrincipal): Promise<ILoginResponse> {
+    this.logger.warn(`OidcAccess.reissue refused a refresh for ${principal.userId}`);
+    throw new HttpError(400, 'Refresh tokens are not supported; refresh with the identity provider');
+  }
+
+  /**
+   * Logout user - the session itself lives with the identity provider
+   * @param userId - User's ID
+   * @returns Promise<ILogoutResponse>
+   */
+  async logout(userId: string): Promise<ILogoutResponse> {
+    this.logger.trace(`enter OidcAccess.logout() for ${userId}`);
+    return { success: true, userId };
+  }
+
+  /**
+   * Verify authentication token
+   * @param token - ID or access token from the identity provider
+   * @param userId - User's ID; 'unknown' to check the token alone
+   * @returns Promise<IAuthResponse>
+   * @throws {HttpError} 401 if the token is invalid or was issued to someone else
+   */
+  async authenticate(token: string, userId: string): Promise<IAuthenticatonResponse> {
+    this.logger.trace(`enter OidcAccess.authenticate() for ${userId}`);
+
+    const principal = await this.verifyToken(token);
+    if (userId !== 'unknown' && userId !== principal.userId) {
+      throw new HttpError(401, 'Token does not belong to this user');
+    }
+
+    this.logger.trace(`exit OidcAccess.authenticate`);
+    return { success: true, userId: principal.userId };
+  }
+
+  /**
+   * Resolve the caller a token was issued to
+   * @param token - ID or access token from the identity provider
+   * @returns Promise<IPrincipal>
+   * @throws {HttpError} 401 if the token fails validation, 503 if the issuer cannot be reached
+   */
+  async verifyToken(token: string): Promise<IPrincipal> {
+    this.logger.trace(`enter OidcAccess.verifyToken()`);
+
+    const { issuer, jwks } = await this.getProvider();
+    let payload: JWTPayload;
+    try {
+      ({ payload } = await jwtVerify(token, jwks, {
+        issuer,
+        audience: this.config.audiences,
+        algorithms: this.config.algorithms,
+        clockTolerance: this.config.clockToleranceSeconds,
+        requiredClaims: ['exp'],
+      }));
+    } catch (error: unknown) {
+      if (error instanceof errors.JWTExpired) {
+        throw new HttpError(401, 'Token expired');
+      }
+      if (error instanceof errors.JWKSTimeout) {
+        this.logger.error(`OidcAccess timed out fetching signing keys for ${issuer}`);
+        throw new HttpError(503, 'Identity provider unavailable');
+      }
+      if (error instanceof errors.JOSEError) {
+        this.logger.warn(`OidcAccess rejected a token: ${error.code} ${error.message}`);
+        throw new HttpError(401, 'Invalid token');
+      }
+      throw error;
+    }
+
+    if (this.config.tenantId && payload['tid'] !== this.config.tenantId) {
+      this.logger.warn(`OidcAccess rejected a token from tenant ${String(payload['tid'])}`);
+      throw new HttpError(401, 'Invalid token');
+    }
+
+    const userId = payload[this.config.userIdClaim];
+    if (typeof userId !== 'string' || !userId) {
+      this.logger.warn(`OidcAccess rejected a token without a ${this.config.userIdClaim} claim`);
+      throw new HttpError(401, 'Invalid token');
+    }
+
+    const principal: IPrincipal = { userId, userType: this.toUserType(payload[this.config.rolesClaim]) };
+    this.logger.trace(`exit OidcAccess.verifyToken for ${userId}`);
+    return principal;
+  }
+
+  /**
+   * Check the discovery document and the issuer's signing keys can be fetched.  Keys
+   * still within their cache age are not refetched, so frequent polling stays cheap.
+   * @returns DOWN if either cannot be fetched
+   */
+  async healthCheck(): Promise<IHealthCheckResult> {
+    let provider: IOidcProvider;
+    try {
+      provider = await this.getProvider();
+    } catch {
+      return { status: 'DOWN', detail: 'Discovery document could not be fetched' };
+    }
+    try {
+      if (!provider.jwks.fresh) {
+        await provider.jwks.reload();
+      }
+    } catch (error: unknown) {
+      this.logger.error(`OidcAccess could not fetch signing keys for ${provider.issuer}:`, error);
+      return { status: 'DOWN', detail: 'Signing keys could not be fetched' };
+    }
+    return { status: 'UP', detail: `${provider.jwks.jwks()?.keys.length ?? 0} signing keys` };
+  }
+
+  private toUserType(roles: unknown): UserType {
+    const granted = new Set(
+      (Array.isArray(roles) ? roles : [roles])
+        .filter((role): role is string => typeof role === 'string')
+        .map((role) => this.config.roleMap[role])
+    );
+    return USER_TYPE_RANK.find((userType) => granted.has(userType)) ?? this.config.defaultUserType;
+  }
+
+  /**
+   * Read the discovery document once; a failed fetch is retried on the next request
+   */
+  private getProvider(): Promise<IOidcProvider> {
+    this.discovery ??= this.discover().catch((error: unknown) => {
+      this.discovery = undefined;
+      this.logger.error(`OidcAccess discovery failed for ${this.config.discoveryUrl}:`, error);
+      throw new HttpError(503, 'Identity provider unavailable');
+    });
+    return this.discovery;
+  }
+
+  private async discover(): Promise<IOidcProvider> {
+    const response = await fetch(this.config.discoveryUrl, {
+      headers: getTraceHeaders(),
+      signal: AbortSignal.timeout(this.config.httpTimeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`discovery returned ${response.status}`);
+    }
+    const document = (await response.json()) as { issuer?: string; jwks_uri?: string };
+    if (!document.issuer || !document.jwks_uri) {
+      throw new Error('discovery document has no issuer or jwks_uri');
+    }
+
+    // Entra's multi-tenant endpoints publish a templated issuer
+    let issuer = this.config.issuer ?? document.issuer;
+    if (issuer.includes('{tenantid}')) {
+      if (!this.config.tenantId) {
+        throw new Error(`issuer ${issuer} is templated; set OIDC_TENANT_ID`);
+      }
+      issuer = issuer.replace('{tenantid}', this.config.tenantId);
+    }
+
+    this.logger.info(`OidcAccess using issuer ${issuer}`);
+    return {
+      issuer,
+      jwks: createRemoteJWKSet(new URL(document.jwks_uri), {
+        cacheMaxAge: this.config.jwksCacheMaxAgeMs,
+        cooldownDuration: this.config.jwksCooldownMs,
+        timeoutDuration: this.config.httpTimeoutMs,
+        // Keys are refetched while verifying a request's token; carry its trace along
+        [customFetch]: (url, options) => {
+          for (const [name, value] of Object.entries(getTraceHeaders())) {
+            options.headers.set(name, value);
+          }
+          return fetch(url, options);
+        },
+      }),
+    };
+  }
+}
@@ -0,0 +1,119 @@
+import type { Request, RequestHandler } from "express";
+import type { Permission } from "../../config/index.js";
+import type { IAccessService, IPrincipal } from "../interfaces/access.interface.js";
+import type { IClientService } from "../interfaces/client.interface.js";
+import type { ILogger } from "../interfaces/logger.interface.js";
+import { hasPermission } from "../security/rbac.policy.js";
+import { HttpError } from "../utilities/error.utility.js";
+
+export const AUTH_COOKIE_NAME = "auth_token";
+export const REFRESH_COOKIE_NAME = "refresh_token";
+
+/**
+ * Pull the caller's token from `Authorization: Bearer <token>`, falling back to the
+ * auth_token cookie set by login (cookie-parser must run first)
+ * @param req
+ * @returns the token, or undefined if the request carries none
+ */
+export function getRequestToken(req: Request): string | undefined {
+  const authorization = req.get("Authorization");
+  if (authorization) {
+    const [scheme, token] = authorization.split(" ");
+    return scheme?.toLowerCase() === "bearer" && token ? token : undefined;
+  }
+  const cookie: unknown = req.cookies?.[AUTH_COOKIE_NAME];
+  return typeof cookie === "string" && cookie ? cookie : undefined;
+}
+
+/**
+ * The principal the auth middleware attached to the request
+ * @param req
+ * @throws {HttpError} 401 if the request was not authenticated
+ */
+export function requirePrincipal(req: Request): IPrincipal {
+  if (!req.principal) {
+    throw new HttpError(401, "Authentication required");
+  }
+  return req.principal;
+}
+
+/**
+ * Pull an API key from `Authorization: ApiKey <key>`
+ * @param req
+ * @returns the key, or undefined if the request carries none
+ */
+export function getRequestApiKey(req: Request): string | undefined {
+  const [scheme, key] = (req.get("Authorization") ?? "").split(" ");
+  return scheme?.toLowerCase() === "apikey" && key ? key : undefined;
+}
+
+/**
+ * Create middleware that authenticates every request it guards: the token is resolved
+ * to the calling user by the access provider and attached as req.principal.  Requests
+ * without a valid token are rejected with 401.  With a client service, API keys and
+ * client credentials tokens are accepted too, and resolve to the client.
+ * @param logger - Logger instance
+ * @param accessService - Access service used to verify tokens
+ * @param clients - Client service used to verify API keys and client tokens
+ * @returns Express middleware
+ */
+export function createAuthMiddleware(
+  logger: ILogger,
+  accessService: IAccessService,
+  clients?: IClientService
+): RequestHandler {
+  return async (req, res, next) => {
+    const apiKey = clients ? getRequestApiKey(req) : undefined;
+    const token = getRequestToken(req);
+    if (!apiKey && !token) {
+      logger.warn(`Unauthenticated ${req.method} request to ${req.originalUrl}`);
+      res.setHeader("WWW-Authenticate", "Bearer");
+      next(new HttpError(401, "Authentication required"));
+      return;
+    }
+
+    try {
+      if (clients && apiKey) {
+        req.principal = await clients.verifyApiKey(apiKey);
+      } else if (clients && token && clients.isClientToken(token)) {
+        req.principal = await clients.verifyToken(token);
+      } else if (token) {
+        req.principal = await accessService.verifyToken(token);
+      }
+      next();
+    } catch (error: unknown) {
+      // Rejected tokens arrive as HttpError 401; anything else is a provider fault (500)
+      if (error instanceof HttpError && error.statusCode === 401) {
+        res.setHeader("WWW-Authenticate", 'Bearer error="invalid_token"');
+      }
+      next(error);
+    }
+  };
+}
+
+/**
+ * Create middleware that lets a request through only if the caller's role grants the
+ * permission under the RBAC policy; anyone else gets a 403 naming the missing permission.
+ * Must run after the auth middleware.
+ * @param logger - Logger instance
+ * @param permission - the permission the route needs
+ * @returns Express middleware
+ */
+export function requirePermission(
+  logger: ILogger,
+  permission: Permission
+): RequestHandler {
+  return (req, _res, next) => {
+    const principal = req.principal;
+    if (!principal) {
+      next(new HttpError(401, "Authentication required"));
+      return;
+    }
+    if (!hasPermission(principal, permission)) {
+      logger.warn(`${principal.userId} (${principal.userType}) lacks ${permission} for ${req.method} ${req.originalUrl}`);
+      next(new HttpError(403, `Missing permission ${permission}`, { missingPermission: permission }));
+      return;
+    }
+    next();
+  };
+}
@@ -0,0 +1,91 @@
+import crypto from "crypto";
+import type { Request, RequestHandler, Response } from "express";
+import type { ILogger } from "../interfaces/logger.interface.js";
+import { getCookieConfig, type CookieConfig } from "../../config/index.js";
+import { HttpError } from "../utilities/error.utility.js";
+import { AUTH_COOKIE_NAME, REFRESH_COOKIE_NAME } from "./auth.middleware.js";
+
+export const CSRF_HEADER_NAME = "X-CSRF-Token";
+
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+/**
+ * The CSRF token the request's cookie carries
+ * @param req
+ * @param config - cookie configuration, for the cookie's name
+ * @returns the token, or undefined if there is none
+ */
+export function getCsrfToken(req: Request, config: CookieConfig = getCookieConfig()): string | undefined {
+  const cookie: unknown = req.cookies?.[config.csrfCookieName];
+  return typeof cookie === "string" && cookie ? cookie : undefined;
+}
+
+/**
+ * Set the CSRF cookie alongside the token cookies.  It is readable by the page (not
+ * httpOnly) so the client can echo it in the X-CSRF-Token header; a cross-site attacker
+ * can make the browser send the cookie but cannot read it to copy into the header.
+ * @param res
+ * @param expires - when the cookie goes; match the longest-lived token cookie
+ * @param token - keep this token rather than issue a new one
+ * @param config - cookie attributes
+ * @returns the token
+ */
+export function setCsrfCookie(
+  res: Response,
+  expires: Date,
+  token: string = crypto.randomBytes(32).toString("base64url"),
+  config: CookieConfig = getCookieConfig()
+): string {
+  res.cookie(config.csrfCookieName, token, {
+    httpOnly: false,
+    secure: config.secure,
+    sameSite: config.sameSite,
+    path: "/",
+    expires,
+  });
+  return token;
+}
+
+/**
+ * @param res
+ * @param config - cookie attributes; a __Host- cookie is only cleared by a Secure Set-Cookie
+ */
+export function clearCsrfCookie(res: Response, config: CookieConfig = getCookieConfig()): void {
+  res.clearCookie(config.csrfCookieName, { secure: config.secure, sameSite: config.sameSite, path: "/" });
+}
+
+/**
+ * Create middleware that defends cookie-authenticated requests against cross-site
+ * request forgery with the double-submit pattern: any state-changing request that
+ * carries the auth_token or refresh_token cookie must also send the CSRF cookie's value
+ * in the X-CSRF-Token header.  Requests that authenticate with an Authorization header
+ * (bearer tokens, API keys) are exempt - browsers never add that header on their own -
+ * as are requests with no token cookies, which have no ambient credentials to abuse.
+ * @param logger - Logger instance
+ * @param config - cookie configuration, for the CSRF cookie's name
+ * @returns Express middleware
+ */
+export function createCsrfMiddleware(
+  logger: ILogger,
+  config: CookieConfig = getCookieConfig()
+): RequestHandler {
+  return (req, _res, next) => {
+    if (SAFE_METHODS.includes(req.method) || req.get("Authorization")) {
+      next();
+      return;
+    }
+    if (!req.cookies?.[AUTH_COOKIE_NAME] && !req.cookies?.[REFRESH_COOKIE_NAME]) {
+      next();
+      return;
+    }
+
+    const cookie = Buffer.from(getCsrfToken(req, config) ?? "");
+    const header = Buffer.from(req.get(CSRF_HEADER_NAME) ?? "");
+    if (cookie.length === 0 || cookie.length !== header.length || !crypto.timingSafeEqual(cookie, header)) {
+      logger.warn(`Refused a ${req.method} request to ${req.originalUrl} with a token cookie but ${header.length ? "a wrong" : "no"} ${CSRF_HEADER_NAME}`);
+      next(new HttpError(403, "CSRF token missing or invalid"));
+      return;
+    }
+    next();
+  };
+}
@@ -0,0 +1,76 @@
+import crypto from "crypto";
+import type { RequestHandler } from "express";
+import type { ILogger } from "../interfaces/logger.interface.js";
+import { getMetricsConfig, type MetricsConfig } from "../../config/index.js";
+import { HttpError, toError } from "../utilities/error.utility.js";
+import { metricsRegistry, recordHttpRequest } from "../utilities/metrics.utility.js";
+import { getRoutePattern } from "../utilities/request-context.utility.js";
+
+/**
+ * Create middleware that counts and times every request by method, route pattern and
+ * status.  Requests no route matched are labelled "unmatched" so scanners probing random
+ * URLs cannot blow up the number of series.  Scrapes of the metrics endpoint itself are
+ * not counted.  A request is recorded once, when the response finishes or, if the
+ * client went away first, when the connection closes.  Mount it after the request context middleware, which keeps track of the
+ * route pattern.
+ * @param config - metrics configuration, for the endpoint's path
+ * @returns Express middleware
+ */
+export function createHttpMetricsMiddleware(config: MetricsConfig = getMetricsConfig()): RequestHandler {
+  return (req, res, next) => {
+    if (req.path === config.path) {
+      next();
+      return;
+    }
+    const startedAt = process.hrtime.bigint();
+    let recorded = false;
+    const record = (): void => {
+      if (recorded) {
+        return;
+      }
+      recorded = true;
+      const seconds = Number(process.hrtime.bigint() - startedAt) / 1e9;
+      recordHttpRequest(req.method, getRoutePattern(req) ?? "unmatched", res.statusCode, seconds);
+    };
+    res.once("finish", record);
+    res.once("close", record);
+    next();
+  };
+}
+
+/**
+ * Create the handler that serves the metrics in Prometheus text format.  With a
+ * METRICS_TOKEN configured the scraper must present it as a bearer token; anything else
+ * is a 401, whatever API credentials it carries.
+ * @param logger - Logger instance
+ * @param config - metrics configuration
+ * @returns Express handler
+ */
+export function createMetricsHandler(logger: ILogger, config: MetricsConfig = getMetricsConfig()): RequestHandler {
+  const expected = config.token ? crypto.createHash("sha256").update(config.token).digest() : undefined;
+
+  return async (req, res, next) => {
+    logger.trace("enter metrics handler");
+
+    if (expected) {
+      const presented = /^Bearer (.+)$/.exec(req.get("Authorization") ?? "")?.[1] ?? "";
+      // Compare digests so the comparison takes the same time whatever the length
+      const digest = crypto.createHash("sha256").update(presented).digest();
+      if (!crypto.timingSafeEqual(digest, expected)) {
+        logger.warn("Metrics scrape refused: missing or wrong token");
+        next(new HttpError(401, "Metrics token missing or invalid"));
+        return;
+      }
+    }
+
+    try {
+      const body = await metricsRegistry.metrics();
+      res.setHeader("Content-Type", metricsRegistry.contentType);
+      res.send(body);
+    } catch (error: unknown) {
+      const err = toError(error);
+      logger.error("Metrics collection failed:", err.message);
+      next(err);
+    }
+  };
+}
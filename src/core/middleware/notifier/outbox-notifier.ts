@@ -0,0 +1,55 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { IEmailMessage, INotifier } from '../../interfaces/notifier.interface.js';
+import type { ILogger } from '../../interfaces/logger.interface.js';
+
+/**
+ * Writes each message to its own JSON file in an outbox directory instead of sending it,
+ * for local development and tests.  Messages carry live reset and verification links,
+ * so the files are written 0600.
+ */
+export class FileOutboxNotifier implements INotifier {
+  private logger: ILogger;
+  private outboxPath: string;
+  private from: string;
+
+  /**
+   * @param logger - Logger instance
+   * @param outboxPath - directory the messages are written to; created on first use
+   * @param from - sender address recorded on each message
+   */
+  constructor(logger: ILogger, outboxPath: string, from: string) {
+    this.logger = logger;
+    this.outboxPath = outboxPath;
+    this.from = from;
+  }
+
+  async send(message: IEmailMessage): Promise<void> {
+    const sentAt = new Date().toISOString();
+    // Sortable names so the newest message is last
+    const file = path.join(this.outboxPath, `${sentAt.replace(/[:.]/g, '-')}-${crypto.randomUUID()}.json`);
+    await fs.promises.mkdir(this.outboxPath, { recursive: true });
+    await fs.promises.writeFile(file, JSON.stringify({ from: this.from, sentAt, ...message }, null, 2), { mode: 0o600 });
+    this.logger.info(`FileOutboxNotifier wrote "${message.subject}" to ${file}`);
+  }
+}
+
+/**
+ * Logs each message instead of sending it - development only, as the logs then hold
+ * live reset and verification links
+ */
+export class ConsoleNotifier implements INotifier {
+  private logger: ILogger;
+
+  /**
+   * @param logger - Logger instance
+   */
+  constructor(logger: ILogger) {
+    this.logger = logger;
+  }
+
+  async send(message: IEmailMessage): Promise<void> {
+    this.logger.info(`ConsoleNotifier - to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
@@ -0,0 +1,35 @@
+import nodemailer, { type Transporter } from 'nodemailer';
+import type { IEmailMessage, INotifier } from '../../interfaces/notifier.interface.js';
+import type { ILogger } from '../../interfaces/logger.interface.js';
+import type { NotifierConfig } from '../../../config/index.js';
+
+/**
+ * Sends email through an SMTP relay (SMTP_HOST etc).  STARTTLS is required unless the
+ * connection is TLS from the start, so credentials never cross the wire in the clear.
+ */
+export class SmtpNotifier implements INotifier {
+  private logger: ILogger;
+  private from: string;
+  private transport: Transporter;
+
+  /**
+   * @param logger - Logger instance
+   * @param config - Notifier configuration (see getNotifierConfig)
+   */
+  constructor(logger: ILogger, config: NotifierConfig) {
+    this.logger = logger;
+    this.from = config.from;
+    this.transport = nodemailer.createTransport({
+      host: config.smtp.host,
+      port: config.smtp.port,
+      secure: config.smtp.secure,
+      requireTLS: !config.smtp.secure,
+      ...(config.smtp.user ? { auth: { user: config.smtp.user, pass: config.smtp.password ?? '' } } : {}),
+    });
+  }
+
+  async send(message: IEmailMessage): Promise<void> {
+    const info = await this.transport.sendMail({ from: this.from, to: message.to, subject: message.subject, text: message.text });
+    this.logger.info(`SmtpNotifier sent "${message.subject}" as ${info.messageId}`);
+  }
+}
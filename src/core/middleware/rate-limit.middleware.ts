@@ -1,5 +1,17 @@
-import rateLimit from "express-rate-limit";
+import rateLimit, { type RateLimitExceededEventHandler } from "express-rate-limit";
 import { rateLimitConfig } from "../../config/index.js";
+import { recordRateLimitRejection } from "../utilities/metrics.utility.js";
+
+/**
+ * The default 429 response, counted in rate_limit_rejections_total
+ * @param limiter - label for the metric
+ */
+function rejectAndCount(limiter: string): RateLimitExceededEventHandler {
+  return (_req, res, _next, options) => {
+    recordRateLimitRejection(limiter);
+    res.status(options.statusCode).send(options.message);
+  };
+}
 
 /**
  * Strict rate limiting for authentication endpoints
@@ -8,6 +20,7 @@ import { rateLimitConfig } from "../../config/index.js";
 export const accessLimiter = rateLimit({
   windowMs: rateLimitConfig.access.windowMs,
   max: rateLimitConfig.access.max,
+  handler: rejectAndCount("access"),
   message: {
     success: false,
     error: "Too many authentication attempts, please try again later",
@@ -25,6 +38,7 @@ export const accessLimiter = rateLimit({
 export const apiLimiter = rateLimit({
   windowMs: rateLimitConfig.api.windowMs,
   max: rateLimitConfig.api.max,
+  handler: rejectAndCount("api"),
   message: {
     success: false,
     error: "Too many requests from this IP, please try again later",
@@ -40,6 +54,7 @@ export const apiLimiter = rateLimit({
 export const uploadLimiter = rateLimit({
   windowMs: rateLimitConfig.upload.windowMs,
   max: rateLimitConfig.upload.max,
+  handler: rejectAndCount("upload"),
   message: {
     success: false,
     error: "Upload limit exceeded, please try again later",
@@ -55,6 +70,7 @@ export const uploadLimiter = rateLimit({
 export const downloadLimiter = rateLimit({
  windowMs: rateLimitConfig.download.windowMs,
   max: rateLimitConfig.download.max,
+  handler: rejectAndCount("download"),
   message: {
     success: false,
     error: "Download limit exceeded, please try again later",
@@ -0,0 +1,35 @@
+import { AsyncResource } from "async_hooks";
+import type { RequestHandler } from "express";
+import type { ILogger } from "../interfaces/logger.interface.js";
+import { createRequestContext, getTraceparent, runWithRequestContext } from "../utilities/request-context.utility.js";
+
+/**
+ * Create middleware that gives each request its context: a request id (the caller's
+ * X-Request-Id, or a new one) and a W3C trace id (continued from the caller's
+ * traceparent, or new).  The rest of the request runs inside the context, so every log
+ * line written while handling it - in controllers, services or storage providers - is
+ * tagged with the request id, user, route and latency.  The request id is echoed in
+ * the X-Request-Id response header and the trace in traceparent, and one line is logged
+ * as each response finishes.
+ * Must be mounted before anything that logs.
+ * @param logger - Logger instance
+ * @returns Express middleware
+ */
+export function createRequestContextMiddleware(logger: ILogger): RequestHandler {
+  return (req, res, next) => {
+    const context = createRequestContext(req);
+    res.setHeader("X-Request-Id", context.requestId);
+
+    runWithRequestContext(context, () => {
+      res.setHeader("traceparent", getTraceparent()!);
+      // Bound so the line is tagged even if the response ends outside the request's async chain
+      res.on("finish", AsyncResource.bind(() => {
+        logger.info(`${req.method} ${req.originalUrl.split("?")[0]} ${res.statusCode}`, {
+          status: res.statusCode,
+          contentLength: res.getHeader("Content-Length"),
+        });
+      }));
+      next();
+    });
+  };
+}
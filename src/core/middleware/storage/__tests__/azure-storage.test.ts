@@ -0,0 +1,157 @@
+import { jest } from '@jest/globals';
+import { Readable } from 'stream';
+import { RestError, type ContainerClient } from '@azure/storage-blob';
+import { AzureStorage } from '../azure-storage.js';
+import { mockLogger } from '../../../../test/mocks.js';
+
+/**
+ * Minimal stand-in for the SDK container client; uploadStream drains the stream the
+ * same way the real block uploader does.
+ */
+function mockContainerClient(blobs: Map<string, Buffer>) {
+  return {
+    url: 'http://127.0.0.1:10000/devstoreaccount1/uploads',
+    createIfNotExists: jest.fn(async () => ({ succeeded: true })),
+    getBlockBlobClient: jest.fn((name: string) => ({
+      url: `http://127.0.0.1:10000/devstoreaccount1/uploads/${name}`,
+      uploadStream: jest.fn(async (stream: Readable) => {
+        const chunks: Buffer[] = [];
+        for await (const chunk of stream) {
+          chunks.push(chunk as Buffer);
+        }
+        blobs.set(name, Buffer.concat(chunks));
+        return {};
+      }),
+      download: jest.fn(async (offset = 0, count?: number) => {
+        const data = blobs.get(name);
+        if (!data) {
+          throw new RestError('The specified blob does not exist.', { statusCode: 404 });
+        }
+        return { readableStreamBody: Readable.from(data.subarray(offset, count ? offset + count : undefined)) };
+      }),
+      exists: jest.fn(async () => blobs.has(name)),
+      deleteIfExists: jest.fn(async () => ({ succeeded: blobs.delete(name) })),
+      getProperties: jest.fn(async () => {
+        const data = blobs.get(name);
+        if (!data) {
+          throw new RestError('The specified blob does not exist.', { statusCode: 404 });
+        }
+        return { contentLength: data.length, lastModified: new Date('2025-01-01T00:00:00Z'), etag: '"0x8DC"' };
+      }),
+    })),
+  };
+}
+
+async function readAll(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString();
+}
+
+describe('AzureStorage', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    process.env['STORAGE_CONNECTION_STRING'] = 'UseDevelopmentStorage=true';
+    process.env['INTEGRITY_CHECK'] = 'SHA256';
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('should never log the account key or connection string', () => {
+    process.env['STORAGE_CONNECTION_STRING'] =
+      'DefaultEndpointsProtocol=http;AccountName=acct;AccountKey=super-secret-key;BlobEndpoint=http://127.0.0.1:10000/acct;';
+    const logger = mockLogger();
+    new AzureStorage(logger, mockContainerClient(new Map()) as unknown as ContainerClient);
+
+    const logged = JSON.stringify(logger.info.mock.calls);
+    expect(logged).not.toContain('super-secret-key');
+    expect(logged).not.toContain('AccountKey');
+  });
+
+  it('should stream an upload as a block blob and report size and hash', async () => {
+    const blobs = new Map<string, Buffer>();
+    const client = mockContainerClient(blobs);
+    const storage = new AzureStorage(mockLogger(), client as unknown as ContainerClient);
+
+    const result = await storage.uploadFileToStorage('123-report.pdf', Readable.from([Buffer.from('hello azure')]));
+
+    expect(client.createIfNotExists).toHaveBeenCalledTimes(1);
+    expect(blobs.get('123-report.pdf')?.toString()).toBe('hello azure');
+    expect(result.filename).toBe('123-report.pdf');
+    expect(result.size).toBe(11);
+    expect(result.hash).toMatch(/^[a-f0-9]{64}$/);
+    expect(result.path).toContain('/uploads/123-report.pdf');
+  });
+
+  it('should stream a download back', async () => {
+    const blobs = new Map<string, Buffer>([['a.txt', Buffer.from('contents')]]);
+    const storage = new AzureStorage(mockLogger(), mockContainerClient(blobs) as unknown as ContainerClient);
+
+    const stream = await storage.downloadFileFromStorage('a.txt');
+
+    expect(await readAll(stream)).toBe('contents');
+  });
+
+  it('should download a byte range', async () => {
+    const blobs = new Map<string, Buffer>([['a.txt', Buffer.from('0123456789')]]);
+    const storage = new AzureStorage(mockLogger(), mockContainerClient(blobs) as unknown as ContainerClient);
+
+    const stream = await storage.downloadFileFromStorage('a.txt', { start: 2, end: 5 });
+
+    expect(await readAll(stream)).toBe('2345');
+  });
+
+  it('should report blob size, modification time and etag', async () => {
+    const blobs = new Map<string, Buffer>([['a.txt', Buffer.from('contents')]]);
+    const storage = new AzureStorage(mockLogger(), mockContainerClient(blobs) as unknown as ContainerClient);
+
+    const metadata = await storage.getFileMetadata('a.txt');
+
+    expect(metadata).toMatchObject({ filename: 'a.txt', size: 8, etag: '"0x8DC"' });
+    expect(metadata.lastModified.toISOString()).toBe('2025-01-01T00:00:00.000Z');
+    await expect(storage.getFileMetadata('missing.txt')).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('should delete a blob and report whether it exists', async () => {
+    const blobs = new Map<string, Buffer>([['a.txt', Buffer.from('contents')]]);
+    const storage = new AzureStorage(mockLogger(), mockContainerClient(blobs) as unknown as ContainerClient);
+
+    expect(await storage.exists('a.txt')).toBe(true);
+    await storage.delete('a.txt');
+    await storage.delete('a.txt');
+    expect(await storage.exists('a.txt')).toBe(false);
+  });
+
+  it('should report a missing blob as not found', async () => {
+    const storage = new AzureStorage(mockLogger(), mockContainerClient(new Map()) as unknown as ContainerClient);
+
+    await expect(storage.downloadFileFromStorage('missing.txt')).rejects.toThrow('File not found or not readable: missing.txt');
+  });
+});
+
+/**
+ * Runs against a real Azurite emulator when one is available, e.g.
+ *   docker run -p 10000:10000 mcr.microsoft.com/azure-storage/azurite azurite-blob --blobHost 0.0.0.0
+ *   AZURITE_CONNECTION_STRING=UseDevelopmentStorage=true npm test
+ */
+const describeIfAzurite = process.env['AZURITE_CONNECTION_STRING'] ? describe : describe.skip;
+
+describeIfAzurite('AzureStorage against Azurite', () => {
+  it('should round-trip a file', async () => {
+    process.env['STORAGE_CONNECTION_STRING'] = process.env['AZURITE_CONNECTION_STRING'];
+    process.env['STORAGE_CONTAINER_NAME'] = 'soleo-test';
+    const storage = new AzureStorage(mockLogger());
+    const filename = `${Date.now()}-azurite.txt`;
+
+    const result = await storage.uploadFileToStorage(filename, Readable.from([Buffer.from('emulated')]));
+    const stream = await storage.downloadFileFromStorage(filename);
+
+    expect(result.size).toBe(8);
+    expect(await readAll(stream)).toBe('emulated');
+  });
+});
@@ -0,0 +1,168 @@
+import { jest } from '@jest/globals';
+import crypto from 'crypto';
+import { Readable, Writable } from 'stream';
+import { ApiError, type Bucket } from '@google-cloud/storage';
+import { GcsStorage } from '../gcs-storage.js';
+import { mockLogger } from '../../../../test/mocks.js';
+
+/**
+ * Minimal stand-in for a GCS bucket handle; the write stream fills in md5Hash the way
+ * the real client does once the upload completes.
+ */
+function mockBucket(objects: Map<string, Buffer>, exists = true) {
+  const bucket = {
+    name: 'uploads',
+    exists: jest.fn(async () => [exists]),
+    create: jest.fn(async () => [bucket]),
+    file: jest.fn((name: string) => {
+      const file: { metadata: Record<string, string>; [key: string]: unknown } = {
+        metadata: {},
+        exists: jest.fn(async () => [objects.has(name)]),
+        delete: jest.fn(async () => {
+          objects.delete(name);
+          return [{}];
+        }),
+        createReadStream: jest.fn((options: { start?: number; end?: number } = {}) => {
+          const data = objects.get(name) ?? Buffer.alloc(0);
+          return Readable.from(data.subarray(options.start ?? 0, options.end === undefined ? undefined : options.end + 1));
+        }),
+        getMetadata: jest.fn(async () => {
+          const data = objects.get(name);
+          if (!data) {
+            throw new ApiError({ code: 404, message: 'No such object' });
+          }
+          return [{ size: String(data.length), updated: '2025-01-01T00:00:00.000Z', etag: 'CJbq', contentType: 'text/plain' }];
+        }),
+        createWriteStream: jest.fn(() => {
+          const chunks: Buffer[] = [];
+          return new Writable({
+            write(chunk: Buffer, _encoding, callback) {
+              chunks.push(chunk);
+              callback();
+            },
+            final(callback) {
+              const data = Buffer.concat(chunks);
+              objects.set(name, data);
+              file.metadata = {
+                md5Hash: crypto.createHash('md5').update(data).digest('base64'),
+                crc32c: 'AAAAAA==',
+              };
+              callback();
+            },
+          });
+        }),
+      };
+      return file;
+    }),
+  };
+  return bucket;
+}
+
+async function readAll(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString();
+}
+
+describe('GcsStorage', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    process.env['GCP_BUCKET_NAME'] = 'uploads';
+    process.env['INTEGRITY_CHECK'] = 'SHA256';
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('should upload the object and report size, hash, md5 and crc32c', async () => {
+    const objects = new Map<string, Buffer>();
+    const storage = new GcsStorage(mockLogger(), mockBucket(objects) as unknown as Bucket);
+
+    const result = await storage.uploadFileToStorage('123-lab.pdf', Readable.from([Buffer.from('hello gcs')]));
+
+    expect(objects.get('123-lab.pdf')?.toString()).toBe('hello gcs');
+    expect(result.path).toBe('gs://uploads/123-lab.pdf');
+    expect(result.size).toBe(9);
+    expect(result.hash).toMatch(/^[a-f0-9]{64}$/);
+    expect(result.md5).toBe(crypto.createHash('md5').update('hello gcs').digest('base64'));
+    expect(result.crc32c).toBe('AAAAAA==');
+  });
+
+  it('should create a missing bucket before the first upload', async () => {
+    const bucket = mockBucket(new Map(), false);
+    const storage = new GcsStorage(mockLogger(), bucket as unknown as Bucket);
+
+    await storage.uploadFileToStorage('a.txt', Readable.from([Buffer.from('a')]));
+    await storage.uploadFileToStorage('b.txt', Readable.from([Buffer.from('b')]));
+
+    expect(bucket.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stream a download back', async () => {
+    const objects = new Map<string, Buffer>([['a.txt', Buffer.from('contents')]]);
+    const storage = new GcsStorage(mockLogger(), mockBucket(objects) as unknown as Bucket);
+
+    expect(await readAll(await storage.downloadFileFromStorage('a.txt'))).toBe('contents');
+  });
+
+  it('should download a byte range', async () => {
+    const objects = new Map<string, Buffer>([['a.txt', Buffer.from('0123456789')]]);
+    const storage = new GcsStorage(mockLogger(), mockBucket(objects) as unknown as Bucket);
+
+    expect(await readAll(await storage.downloadFileFromStorage('a.txt', { start: 2, end: 5 }))).toBe('2345');
+  });
+
+  it('should report object size, modification time, quoted etag and type', async () => {
+    const objects = new Map<string, Buffer>([['a.txt', Buffer.from('contents')]]);
+    const storage = new GcsStorage(mockLogger(), mockBucket(objects) as unknown as Bucket);
+
+    const metadata = await storage.getFileMetadata('a.txt');
+
+    expect(metadata).toMatchObject({ filename: 'a.txt', size: 8, etag: '"CJbq"', contentType: 'text/plain' });
+    expect(metadata.lastModified.toISOString()).toBe('2025-01-01T00:00:00.000Z');
+    await expect(storage.getFileMetadata('missing.txt')).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('should delete an object and report whether it exists', async () => {
+    const objects = new Map<string, Buffer>([['a.txt', Buffer.from('contents')]]);
+    const storage = new GcsStorage(mockLogger(), mockBucket(objects) as unknown as Bucket);
+
+    expect(await storage.exists('a.txt')).toBe(true);
+    await storage.delete('a.txt');
+    expect(await storage.exists('a.txt')).toBe(false);
+  });
+
+  it('should report a missing object as not found', async () => {
+    const storage = new GcsStorage(mockLogger(), mockBucket(new Map()) as unknown as Bucket);
+
+    await expect(storage.downloadFileFromStorage('missing.txt')).rejects.toThrow('File not found or not readable: missing.txt');
+  });
+});
+
+/**
+ * Runs against a real fake-gcs-server when one is available, e.g.
+ *   docker compose up fake-gcs
+ *   FAKE_GCS_ENDPOINT=http://127.0.0.1:4443 npm test
+ */
+const describeIfFakeGcs = process.env['FAKE_GCS_ENDPOINT'] ? describe : describe.skip;
+
+describeIfFakeGcs('GcsStorage against fake-gcs-server', () => {
+  it('should round-trip a file', async () => {
+    process.env['GCP_STORAGE_API_ENDPOINT'] = process.env['FAKE_GCS_ENDPOINT'];
+    process.env['GCP_PROJECT_ID'] = 'soleo-test';
+    process.env['GCP_BUCKET_NAME'] = 'soleo-test';
+    const storage = new GcsStorage(mockLogger());
+    const filename = `${Date.now()}-fake-gcs.txt`;
+
+    const result = await storage.uploadFileToStorage(filename, Readable.from([Buffer.from('emulated')]));
+    const stream = await storage.downloadFileFromStorage(filename);
+
+    expect(result.size).toBe(8);
+    expect(result.md5).toBeDefined();
+    expect(await readAll(stream)).toBe('emulated');
+  });
+});
@@ -0,0 +1,195 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { Readable } from 'stream';
+import { S3Storage } from '../s3-storage.js';
+import { mockLogger } from '../../../../test/mocks.js';
+
+/**
+ * Tiny path-style S3 stand-in: enough of HeadBucket/CreateBucket/PutObject/GetObject
+ * (single byte ranges)/HeadObject/DeleteObject for the provider to talk to it over real HTTP with
+ * the real SDK client.
+ */
+function startFakeS3(objects: Map<string, Buffer>, buckets: Set<string>): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    const [, bucket = '', ...keyParts] = (req.url ?? '').split('?')[0]!.split('/');
+    const key = decodeURIComponent(keyParts.join('/'));
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      if (!key) {
+        if (req.method === 'PUT') {
+          buckets.add(bucket);
+        }
+        res.statusCode = buckets.has(bucket) ? 200 : 404;
+        res.end();
+        return;
+      }
+      if (req.method === 'PUT') {
+        objects.set(`${bucket}/${key}`, Buffer.concat(chunks));
+        res.setHeader('ETag', '"etag"');
+        res.end();
+        return;
+      }
+      if (req.method === 'DELETE') {
+        objects.delete(`${bucket}/${key}`);
+        res.statusCode = 204;
+        res.end();
+        return;
+      }
+      const object = objects.get(`${bucket}/${key}`);
+      if (!object) {
+        res.statusCode = 404;
+        res.setHeader('Content-Type', 'application/xml');
+        res.end(req.method === 'HEAD' ? undefined : '<?xml version="1.0" encoding="UTF-8"?><Error><Code>NoSuchKey</Code><Message>missing</Message></Error>');
+        return;
+      }
+      const range = /^bytes=(\d+)-(\d+)$/.exec(req.headers.range ?? '');
+      const body = range ? object.subarray(Number(range[1]), Number(range[2]) + 1) : object;
+      res.statusCode = range ? 206 : 200;
+      res.setHeader('Content-Length', body.length);
+      res.setHeader('ETag', '"etag"');
+      res.setHeader('Last-Modified', 'Wed, 01 Jan 2025 00:00:00 GMT');
+      res.setHeader('Content-Type', 'text/plain');
+      res.end(req.method === 'HEAD' ? undefined : body);
+    });
+  });
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+async function readAll(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString();
+}
+
+describe('S3Storage', () => {
+  const originalEnv = { ...process.env };
+  const objects = new Map<string, Buffer>();
+  const buckets = new Set<string>();
+  let server: http.Server;
+
+  beforeAll(async () => {
+    server = await startFakeS3(objects, buckets);
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    objects.clear();
+    buckets.clear();
+    process.env['AWS_S3_BUCKET'] = 'uploads';
+    process.env['AWS_S3_ENDPOINT'] = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    process.env['AWS_ACCESS_KEY_ID'] = 'test';
+    process.env['AWS_SECRET_ACCESS_KEY'] = 'test-secret';
+    process.env['INTEGRITY_CHECK'] = 'SHA256';
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('should create the bucket, upload the object and report size and hash', async () => {
+    const storage = new S3Storage(mockLogger());
+
+    const result = await storage.uploadFileToStorage('123-scan.png', Readable.from([Buffer.from('hello s3')]));
+
+    expect(buckets.has('uploads')).toBe(true);
+    expect(objects.get('uploads/123-scan.png')?.toString()).toBe('hello s3');
+    expect(result.size).toBe(8);
+    expect(result.hash).toMatch(/^[a-f0-9]{64}$/);
+  });
+
+  it('should report the bucket reachable, and one the first upload will create', async () => {
+    const storage = new S3Storage(mockLogger());
+
+    await expect(storage.healthCheck()).resolves.toEqual({
+      status: 'UP',
+      detail: 'Bucket not created yet; the first upload creates it',
+    });
+    buckets.add('uploads');
+    await expect(storage.healthCheck()).resolves.toEqual({ status: 'UP' });
+  });
+
+  it('should stream a download back', async () => {
+    buckets.add('uploads');
+    objects.set('uploads/a.txt', Buffer.from('contents'));
+    const storage = new S3Storage(mockLogger());
+
+    const stream = await storage.downloadFileFromStorage('a.txt');
+
+    expect(await readAll(stream)).toBe('contents');
+  });
+
+  it('should download a byte range', async () => {
+    buckets.add('uploads');
+    objects.set('uploads/a.txt', Buffer.from('0123456789'));
+    const storage = new S3Storage(mockLogger());
+
+    const stream = await storage.downloadFileFromStorage('a.txt', { start: 2, end: 5 });
+
+    expect(await readAll(stream)).toBe('2345');
+  });
+
+  it('should report object size, modification time, etag and type', async () => {
+    buckets.add('uploads');
+    objects.set('uploads/a.txt', Buffer.from('contents'));
+    const storage = new S3Storage(mockLogger());
+
+    const metadata = await storage.getFileMetadata('a.txt');
+
+    expect(metadata).toMatchObject({ filename: 'a.txt', size: 8, etag: '"etag"', contentType: 'text/plain' });
+    expect(metadata.lastModified.toISOString()).toBe('2025-01-01T00:00:00.000Z');
+    await expect(storage.getFileMetadata('missing.txt')).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('should delete an object and report whether it exists', async () => {
+    buckets.add('uploads');
+    objects.set('uploads/a.txt', Buffer.from('contents'));
+    const storage = new S3Storage(mockLogger());
+
+    expect(await storage.exists('a.txt')).toBe(true);
+    await storage.delete('a.txt');
+    await storage.delete('a.txt');
+    expect(await storage.exists('a.txt')).toBe(false);
+  });
+
+  it('should report a missing object as not found', async () => {
+    const storage = new S3Storage(mockLogger());
+
+    await expect(storage.downloadFileFromStorage('missing.txt')).rejects.toThrow('File not found or not readable: missing.txt');
+  });
+
+  it('should refuse a half-configured set of static credentials', () => {
+    delete process.env['AWS_SECRET_ACCESS_KEY'];
+
+    expect(() => new S3Storage(mockLogger())).toThrow('S3 credentials not configured');
+  });
+});
+
+/**
+ * Runs against a real MinIO server when one is available, e.g.
+ *   docker compose up minio
+ *   MINIO_ENDPOINT=http://127.0.0.1:9000 npm test
+ */
+const describeIfMinio = process.env['MINIO_ENDPOINT'] ? describe : describe.skip;
+
+describeIfMinio('S3Storage against MinIO', () => {
+  it('should round-trip a file', async () => {
+    process.env['AWS_S3_ENDPOINT'] = process.env['MINIO_ENDPOINT'];
+    process.env['AWS_S3_BUCKET'] = 'soleo-test';
+    process.env['AWS_ACCESS_KEY_ID'] = process.env['MINIO_ACCESS_KEY'] || 'minioadmin';
+    process.env['AWS_SECRET_ACCESS_KEY'] = process.env['MINIO_SECRET_KEY'] || 'minioadmin';
+    const storage = new S3Storage(mockLogger());
+    const filename = `${Date.now()}-minio.txt`;
+
+    const result = await storage.uploadFileToStorage(filename, Readable.from([Buffer.from('emulated')]));
+    const stream = await storage.downloadFileFromStorage(filename);
+
+    expect(result.size).toBe(8);
+    expect(await readAll(stream)).toBe('emulated');
+  });
+});
@@ -1,79 +1,298 @@
+import {
+  BlobServiceClient,
+  RestError,
+  type ContainerClient,
+} from "@azure/storage-blob";
+import crypto from "crypto";
 import type { ILogger } from "../../interfaces/logger.interface.js";
 import type {
   IStorage,
+  IStorageFileMetadata,
+  IStoragePart,
+  IStorageRange,
   IStorageUploadResult,
 } from "../../interfaces/storage.interface.js";
+import type { IHealthCheckResult } from "../../interfaces/health.interface.js";
 import type { Readable } from "stream";
 import { getCloudStorageConfig } from "../../../config/store.config.js";
+import { getServerConfig } from "../../../config/index.js";
+import type { IntegrityMode } from "../../../config/integrity.types.js";
+import { IntegrityStreamFactory } from "../../factories/integrity.factory.js";
+import { HttpError } from "../../utilities/error.utility.js";
+
+const UPLOAD_BUFFER_SIZE = 4 * 1024 * 1024; // 4MB per staged block
+const UPLOAD_MAX_CONCURRENCY = 5; // at most ~20MB of an upload held in memory at once
 
 /**
- * Azure Specific implementation
+ * Azure Specific implementation.  Works against a real storage account or the
+ * Azurite emulator - point STORAGE_CONNECTION_STRING (or STORAGE_BLOB_ENDPOINT)
+ * at the emulator for local testing.
  */
 export class AzureStorage implements IStorage {
   private logger: ILogger;
-  private accountName: string;
-  private accountKey: string;
   private containerName: string;
-  private connectionString: string;
+  private containerClient: ContainerClient;
+  private containerReady: Promise<void> | null = null;
 
   /**
    *
    * @param _logger
+   * @param _containerClient - optional pre-built client (used by tests to inject a mock)
    */
-  constructor(_logger: ILogger) {
+  constructor(_logger: ILogger, _containerClient?: ContainerClient) {
     this.logger = _logger;
-    this.accountName = getCloudStorageConfig().accountName;
-    this.accountKey = getCloudStorageConfig().accountKey;
-    this.containerName = getCloudStorageConfig().containerName;
-    this.connectionString = getCloudStorageConfig().connectionString;
+    const config = getCloudStorageConfig('AZURE');
+    this.containerName = config.containerName;
+    this.containerClient =
+      _containerClient ??
+      BlobServiceClient.fromConnectionString(
+        config.connectionString
+      ).getContainerClient(this.containerName);
+    // Never the key or connection string, and not the URL's query, which holds any SAS token
     this.logger.info(
-      `AzureStorage instantiated with accountName:${this.accountName} accountKey:${this.accountKey} containerName:${this.containerName} connectionString:${this.connectionString}`
+      `AzureStorage instantiated with accountName:${config.accountName} containerName:${this.containerName} url:${this.containerClient.url.split("?")[0]}`
     );
   }
 
   /**
    * Upload file to Azure Blob Storage
    *
-   * NOTE: This is currently a stub implementation that throws an error.
-   * Real implementation should use @azure/storage-blob SDK to upload
-   * the stream to Azure Blob Storage container.
+   * Streams the data as a block blob; the SDK stages blocks of UPLOAD_BUFFER_SIZE
+   * and commits the block list once the stream ends, so the whole file is never
+   * held in memory.
    *
    * @param filename - Target blob name in Azure Storage container
-   * @param _stream - Readable stream containing file data (unused in stub)
+   * @param stream - Readable stream containing file data
    * @returns Promise resolving to upload result with Azure blob metadata
-   * @throws {Error} Always throws "not implemented yet" error
-   * @example
-   * // Real implementation should look like:
-   * const blockBlobClient = containerClient.getBlockBlobClient(filename);
-   * await blockBlobClient.uploadStream(stream);
-   * return { filename, path: blockBlobClient.url, size, timestamp: new Date() };
+   * @throws {Error} If the container cannot be reached or the upload fails
    */
   async uploadFileToStorage(
     filename: string,
-    _stream: any
+    stream: Readable
   ): Promise<IStorageUploadResult> {
-    this.logger.trace(`enter AzureStorage.uploadFile(${filename})`);
-    throw new Error("AzureStorage.uploadFile not implemented yet");
+    this.logger.trace(`enter AzureStorage.uploadFileToStorage(${filename})`);
+
+    await this.ensureContainer();
+
+    const INTEGRITY_MODE = getServerConfig().integrityMode as IntegrityMode;
+    const { stream: monitorStream, getResult } =
+      IntegrityStreamFactory.create(INTEGRITY_MODE);
+    const blockBlobClient = this.containerClient.getBlockBlobClient(filename);
+
+    stream.on("error", (err) => monitorStream.destroy(err));
+    stream.pipe(monitorStream);
+
+    await blockBlobClient.uploadStream(
+      monitorStream,
+      UPLOAD_BUFFER_SIZE,
+      UPLOAD_MAX_CONCURRENCY
+    );
+
+    const metadata = await getResult();
+
+    const result: IStorageUploadResult = {
+      filename,
+      path: blockBlobClient.url,
+      size: metadata.size,
+      timestamp: new Date(),
+      hash: metadata.hash,
+    };
+
+    this.logger.trace(`exit AzureStorage.uploadFileToStorage(${filename})`);
+    return result;
+  }
+
+  /**
+   * Download file from Azure Blob Storage
+   *
+   * @param filename - Blob name to download from Azure Storage container
+   * @param range - optional inclusive byte range
+   * @returns Promise resolving to Readable stream of blob contents
+   * @throws {HttpError} 404 if the blob does not exist
+   */
+  async downloadFileFromStorage(filename: string, range?: IStorageRange): Promise<Readable> {
+    this.logger.trace(`enter AzureStorage.downloadFileFromStorage(${filename})`);
+
+    const blockBlobClient = this.containerClient.getBlockBlobClient(filename);
+
+    try {
+      const response = range
+        ? await blockBlobClient.download(range.start, range.end - range.start + 1)
+        : await blockBlobClient.download();
+      if (!response.readableStreamBody) {
+        throw new Error(`Blob returned no body: ${filename}`);
+      }
+
+      this.logger.trace(`exit AzureStorage.downloadFileFromStorage(${filename})`);
+      return response.readableStreamBody as Readable;
+    } catch (error: unknown) {
+      if (error instanceof RestError && error.statusCode === 404) {
+        throw new HttpError(404, `File not found or not readable: ${filename}`);
+      }
+      throw error;
+    }
   }
 
- /**
-     * Download file from Azure Blob Storage
-     * 
-     * NOTE: This is currently a stub implementation that throws an error.
-     * Real implementation should use @azure/storage-blob SDK to download
-     * the blob as a readable stream.
-     * 
-     * @param _filename - Blob name to download from Azure Storage container (unused in stub)
-     * @returns Promise resolving to Readable stream of blob contents
-     * @throws {Error} Always throws "not implemented yet" error
-     * @example
-     * // Real implementation should look like:
-     * const blockBlobClient = containerClient.getBlockBlobClient(filename);
-     * const downloadResponse = await blockBlobClient.download();
-     * return downloadResponse.readableStreamBody;
-     */
-  async downloadFileFromStorage(_filename: string): Promise<Readable> {
-    this.logger.trace(`enter AzureStorage.getFile(${_filename})`);
-    throw new Error("AzureStorage.getFile not implemented yet");
+  /**
+   *
+   * @param filename - Blob name
+   * @returns blob properties
+   * @throws {HttpError} 404 if the blob does not exist
+   */
+  async getFileMetadata(filename: string): Promise<IStorageFileMetadata> {
+    this.logger.trace(`enter AzureStorage.getFileMetadata(${filename})`);
+
+    try {
+      const properties = await this.containerClient.getBlockBlobClient(filename).getProperties();
+      return {
+        filename,
+        size: properties.contentLength ?? 0,
+        lastModified: properties.lastModified ?? new Date(0),
+        etag: properties.etag,
+        contentType: properties.contentType,
+      };
+    } catch (error: unknown) {
+      if (error instanceof RestError && error.statusCode === 404) {
+        throw new HttpError(404, `File not found or not readable: ${filename}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   *
+   * @param filename - Blob name
+   */
+  async delete(filename: string): Promise<void> {
+    this.logger.trace(`enter AzureStorage.delete(${filename})`);
+    await this.containerClient
+      .getBlockBlobClient(filename)
+      .deleteIfExists({ deleteSnapshots: "include" });
+  }
+
+  /**
+   *
+   * @param filename - Blob name
+   * @returns whether the blob exists
+   */
+  async exists(filename: string): Promise<boolean> {
+    this.logger.trace(`enter AzureStorage.exists(${filename})`);
+    return this.containerClient.getBlockBlobClient(filename).exists();
+  }
+
+  /**
+   * Chunked uploads stage uncommitted blocks on the target blob; the upload id only
+   * namespaces the block ids, so no call to Azure is needed to start one
+   * @param filename
+   * @returns upload id
+   */
+  async beginChunkedUpload(filename: string): Promise<string> {
+    this.logger.trace(`enter AzureStorage.beginChunkedUpload(${filename})`);
+    await this.ensureContainer();
+    return crypto.randomUUID();
+  }
+
+  /**
+   *
+   * @param filename
+   * @param uploadId
+   * @param partNumber
+   * @param stream
+   * @param size
+   */
+  async uploadChunk(
+    filename: string,
+    uploadId: string,
+    partNumber: number,
+    stream: Readable,
+    size: number
+  ): Promise<IStoragePart> {
+    this.logger.trace(`enter AzureStorage.uploadChunk(${filename}) part ${partNumber}`);
+    await this.containerClient
+      .getBlockBlobClient(filename)
+      .stageBlock(this.toBlockId(uploadId, partNumber), stream, size);
+    return { partNumber, size };
+  }
+
+  /**
+   * Commit the staged blocks, in order, as the blob's content
+   * @param filename
+   * @param uploadId
+   * @param parts
+   */
+  async completeChunkedUpload(
+    filename: string,
+    uploadId: string,
+    parts: IStoragePart[]
+  ): Promise<IStorageUploadResult> {
+    this.logger.trace(`enter AzureStorage.completeChunkedUpload(${filename})`);
+    const blockBlobClient = this.containerClient.getBlockBlobClient(filename);
+    const ordered = [...parts].sort((a, b) => a.partNumber - b.partNumber);
+
+    await blockBlobClient.commitBlockList(
+      ordered.map((part) => this.toBlockId(uploadId, part.partNumber))
+    );
+
+    return {
+      filename,
+      path: blockBlobClient.url,
+      size: ordered.reduce((total, part) => total + part.size, 0),
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * Uncommitted blocks cannot be deleted individually; Azure discards them after
+   * 7 days if the blob is never committed.
+   * @param filename
+   * @param _uploadId
+   * @param _parts
+   */
+  async abortChunkedUpload(
+    filename: string,
+    _uploadId: string,
+    _parts: IStoragePart[]
+  ): Promise<void> {
+    this.logger.trace(`enter AzureStorage.abortChunkedUpload(${filename})`);
+  }
+
+  /**
+   * Check the container can be reached with the configured credentials.  A container
+   * that does not exist yet is fine: the first upload creates it.
+   * @returns DOWN with the status Azure answered with
+   */
+  async healthCheck(): Promise<IHealthCheckResult> {
+    try {
+      const exists = await this.containerClient.exists();
+      return exists ? { status: "UP" } : { status: "UP", detail: "Container not created yet; the first upload creates it" };
+    } catch (error: unknown) {
+      this.logger.error(`AzureStorage health probe failed for container ${this.containerName}:`, error);
+      const reason = error instanceof RestError ? (error.statusCode ?? error.code) : undefined;
+      return { status: "DOWN", detail: `Container could not be reached (${reason ?? "no response"})` };
+    }
+  }
+
+  /**
+   * Block ids must be base64 and the same length for every block of a blob
+   */
+  private toBlockId(uploadId: string, partNumber: number): string {
+    return Buffer.from(`${uploadId}-${String(partNumber).padStart(6, "0")}`).toString("base64");
+  }
+
+  /**
+   * Create the container on first use.  The promise is cached so concurrent uploads
+   * only issue one create call; a failure clears it so the next call retries.
+   */
+  private ensureContainer(): Promise<void> {
+    if (!this.containerReady) {
+      this.containerReady = this.containerClient
+        .createIfNotExists()
+        .then(() => undefined)
+        .catch((error: unknown) => {
+          this.containerReady = null;
+          throw error;
+        });
+    }
+    return this.containerReady;
   }
 }
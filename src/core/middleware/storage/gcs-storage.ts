@@ -0,0 +1,331 @@
+import crypto from "crypto";
+import { ApiError, Storage, type Bucket, type StorageOptions } from "@google-cloud/storage";
+import type { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { ILogger } from "../../interfaces/logger.interface.js";
+import type {
+  IStorage,
+  IStorageFileMetadata,
+  IStoragePart,
+  IStorageRange,
+  IStorageUploadResult,
+} from "../../interfaces/storage.interface.js";
+import type { IHealthCheckResult } from "../../interfaces/health.interface.js";
+import { getCloudStorageConfig } from "../../../config/store.config.js";
+import { getServerConfig } from "../../../config/index.js";
+import type { IntegrityMode } from "../../../config/integrity.types.js";
+import { IntegrityStreamFactory } from "../../factories/integrity.factory.js";
+import { HttpError } from "../../utilities/error.utility.js";
+import { recordIntegrityFailure } from "../../utilities/metrics.utility.js";
+
+const CHUNK_PREFIX = ".chunks"; // staged parts of chunked uploads live under .chunks/<uploadId>/
+const MAX_COMPOSE_SOURCES = 32; // GCS compose limit per request
+
+/**
+ * Google Cloud Storage implementation.  Works against GCS or the fake-gcs-server
+ * emulator by setting GCP_STORAGE_API_ENDPOINT.
+ */
+export class GcsStorage implements IStorage {
+  private logger: ILogger;
+  private bucket: Bucket;
+  private bucketReady: Promise<void> | null = null;
+
+  /**
+   *
+   * @param _logger
+   * @param _bucket - optional pre-built bucket handle (used by tests to inject a mock)
+   */
+  constructor(_logger: ILogger, _bucket?: Bucket) {
+    this.logger = _logger;
+    const config = getCloudStorageConfig("GCS");
+
+    if (_bucket) {
+      this.bucket = _bucket;
+    } else {
+      const options: StorageOptions = {};
+      if (config.projectId) {
+        options.projectId = config.projectId;
+      }
+      if (config.apiEndpoint) {
+        options.apiEndpoint = config.apiEndpoint;
+      }
+      if (config.keyFilename) {
+        options.keyFilename = config.keyFilename;
+      }
+      this.bucket = new Storage(options).bucket(config.bucket);
+    }
+
+    this.logger.info(
+      `GcsStorage instantiated with bucket:${this.bucket.name} endpoint:${config.apiEndpoint ?? "GCS default"}`
+    );
+  }
+
+  /**
+   * Upload file to Google Cloud Storage
+   *
+   * Streams the data through a resumable upload session with CRC32C validation; the
+   * MD5 and CRC32C GCS computed server-side are returned alongside the local size/hash.
+   *
+   * @param filename - Target object name
+   * @param stream - Readable stream containing file data
+   * @returns Promise resolving to upload result with object metadata
+   * @throws {Error} If the bucket cannot be reached, the upload fails or validation fails
+   */
+  async uploadFileToStorage(
+    filename: string,
+    stream: Readable
+  ): Promise<IStorageUploadResult> {
+    this.logger.trace(`enter GcsStorage.uploadFileToStorage(${filename})`);
+
+    await this.ensureBucket();
+
+    const INTEGRITY_MODE = getServerConfig().integrityMode as IntegrityMode;
+    const { stream: monitorStream, getResult } =
+      IntegrityStreamFactory.create(INTEGRITY_MODE);
+    const file = this.bucket.file(filename);
+
+    await this.validated(
+      pipeline(stream, monitorStream, file.createWriteStream({ resumable: true, validation: "crc32c" }))
+    );
+
+    const metadata = await getResult();
+
+    const result: IStorageUploadResult = {
+      filename,
+      path: `gs://${this.bucket.name}/${filename}`,
+      size: metadata.size,
+      timestamp: new Date(),
+      hash: metadata.hash,
+      md5: file.metadata?.md5Hash,
+      crc32c: file.metadata?.crc32c,
+    };
+
+    this.logger.trace(`exit GcsStorage.uploadFileToStorage(${filename})`);
+    return result;
+  }
+
+  /**
+   * Download file from Google Cloud Storage
+   *
+   * @param filename - Object name to download
+   * @param range - optional inclusive byte range
+   * @returns Promise resolving to Readable stream of object contents
+   * @throws {HttpError} 404 if the object does not exist
+   */
+  async downloadFileFromStorage(filename: string, range?: IStorageRange): Promise<Readable> {
+    this.logger.trace(`enter GcsStorage.downloadFileFromStorage(${filename})`);
+
+    const file = this.bucket.file(filename);
+
+    // createReadStream only reports a missing object as a stream error, so check up front
+    const [exists] = await file.exists();
+    if (!exists) {
+      throw new HttpError(404, `File not found or not readable: ${filename}`);
+    }
+
+    this.logger.trace(`exit GcsStorage.downloadFileFromStorage(${filename})`);
+    return range
+      ? file.createReadStream({ start: range.start, end: range.end })
+      : file.createReadStream();
+  }
+
+  /**
+   *
+   * @param filename - Object name
+   * @returns object metadata; GCS etags are unquoted so they are quoted here
+   * @throws {HttpError} 404 if the object does not exist
+   */
+  async getFileMetadata(filename: string): Promise<IStorageFileMetadata> {
+    this.logger.trace(`enter GcsStorage.getFileMetadata(${filename})`);
+
+    try {
+      const [metadata] = await this.bucket.file(filename).getMetadata();
+      return {
+        filename,
+        size: Number(metadata.size ?? 0),
+        lastModified: new Date(metadata.updated ?? 0),
+        etag: metadata.etag ? `"${metadata.etag}"` : undefined,
+        contentType: metadata.contentType,
+      };
+    } catch (error: unknown) {
+      if (error instanceof ApiError && error.code === 404) {
+        throw new HttpError(404, `File not found or not readable: ${filename}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   *
+   * @param filename - Object name
+   */
+  async delete(filename: string): Promise<void> {
+    this.logger.trace(`enter GcsStorage.delete(${filename})`);
+    await this.bucket.file(filename).delete({ ignoreNotFound: true });
+  }
+
+  /**
+   *
+   * @param filename - Object name
+   * @returns whether the object exists
+   */
+  async exists(filename: string): Promise<boolean> {
+    this.logger.trace(`enter GcsStorage.exists(${filename})`);
+    const [exists] = await this.bucket.file(filename).exists();
+    return exists;
+  }
+
+  /**
+   * GCS has no multipart API in the client library, so chunked uploads stage each
+   * part as a temporary object and compose them at the end
+   * @param filename
+   * @returns upload id
+   */
+  async beginChunkedUpload(filename: string): Promise<string> {
+    this.logger.trace(`enter GcsStorage.beginChunkedUpload(${filename})`);
+    await this.ensureBucket();
+    return crypto.randomUUID();
+  }
+
+  /**
+   *
+   * @param filename
+   * @param uploadId
+   * @param partNumber
+   * @param stream
+   * @param size
+   */
+  async uploadChunk(
+    filename: string,
+    uploadId: string,
+    partNumber: number,
+    stream: Readable,
+    size: number
+  ): Promise<IStoragePart> {
+    this.logger.trace(`enter GcsStorage.uploadChunk(${filename}) part ${partNumber}`);
+    await this.validated(
+      pipeline(
+        stream,
+        this.bucket
+          .file(this.getPartName(uploadId, partNumber))
+          .createWriteStream({ resumable: false, validation: "crc32c" })
+      )
+    );
+    return { partNumber, size };
+  }
+
+  /**
+   * Compose the part objects, in order, into the final object (32 sources at a time,
+   * folding the running result back in), then delete the parts
+   * @param filename
+   * @param uploadId
+   * @param parts
+   */
+  async completeChunkedUpload(
+    filename: string,
+    uploadId: string,
+    parts: IStoragePart[]
+  ): Promise<IStorageUploadResult> {
+    this.logger.trace(`enter GcsStorage.completeChunkedUpload(${filename})`);
+    const ordered = [...parts].sort((a, b) => a.partNumber - b.partNumber);
+    const partNames = ordered.map((part) => this.getPartName(uploadId, part.partNumber));
+    const destination = this.bucket.file(filename);
+
+    let remaining = partNames;
+    let composed = false;
+    while (remaining.length > 0) {
+      const batchSize = composed ? MAX_COMPOSE_SOURCES - 1 : MAX_COMPOSE_SOURCES;
+      const sources = composed
+        ? [filename, ...remaining.slice(0, batchSize)]
+        : remaining.slice(0, batchSize);
+      await this.bucket.combine(sources, destination);
+      remaining = remaining.slice(batchSize);
+      composed = true;
+    }
+
+    await this.abortChunkedUpload(filename, uploadId, parts);
+    const [metadata] = await destination.getMetadata();
+
+    return {
+      filename,
+      path: `gs://${this.bucket.name}/${filename}`,
+      size: ordered.reduce((total, part) => total + part.size, 0),
+      timestamp: new Date(),
+      md5: metadata.md5Hash,
+      crc32c: metadata.crc32c,
+    };
+  }
+
+  /**
+   *
+   * @param filename
+   * @param uploadId
+   * @param _parts - unused, everything under the upload's prefix is removed
+   */
+  async abortChunkedUpload(
+    filename: string,
+    uploadId: string,
+    _parts: IStoragePart[]
+  ): Promise<void> {
+    this.logger.trace(`enter GcsStorage.abortChunkedUpload(${filename})`);
+    await this.bucket.deleteFiles({ prefix: `${CHUNK_PREFIX}/${uploadId}/`, force: true });
+  }
+
+  /**
+   * Check the bucket can be reached with the configured credentials.  A bucket that does
+   * not exist yet is fine: the first upload creates it.
+   * @returns DOWN with the status GCS answered with
+   */
+  async healthCheck(): Promise<IHealthCheckResult> {
+    try {
+      const [exists] = await this.bucket.exists();
+      return exists ? { status: "UP" } : { status: "UP", detail: "Bucket not created yet; the first upload creates it" };
+    } catch (error: unknown) {
+      this.logger.error(`GcsStorage health probe failed for bucket ${this.bucket.name}:`, error);
+      const reason = error instanceof ApiError ? error.code : undefined;
+      return { status: "DOWN", detail: `Bucket could not be reached (${reason ?? "no response"})` };
+    }
+  }
+
+  /**
+   * Count uploads GCS rejected because the CRC32C it computed differs from ours
+   * (FILE_NO_UPLOAD, or FILE_NO_UPLOAD_DELETE if it could not remove the object)
+   */
+  private async validated(upload: Promise<void>): Promise<void> {
+    try {
+      await upload;
+    } catch (error: unknown) {
+      const code = (error as { code?: unknown }).code;
+      if (code === "FILE_NO_UPLOAD" || code === "FILE_NO_UPLOAD_DELETE") {
+        recordIntegrityFailure("gcs", "checksum_mismatch");
+      }
+      throw error;
+    }
+  }
+
+  private getPartName(uploadId: string, partNumber: number): string {
+    return `${CHUNK_PREFIX}/${uploadId}/${String(partNumber).padStart(6, "0")}`;
+  }
+
+  /**
+   * Create the bucket on first use if it does not exist (convenient for the emulator;
+   * in GCP the bucket is normally provisioned ahead of time).
+   */
+  private ensureBucket(): Promise<void> {
+    if (!this.bucketReady) {
+      this.bucketReady = this.bucket
+        .exists()
+        .then(async ([exists]) => {
+          if (!exists) {
+            this.logger.info(`GcsStorage creating bucket ${this.bucket.name}`);
+            await this.bucket.create();
+          }
+        })
+        .catch((error: unknown) => {
+          this.bucketReady = null;
+          throw error;
+        });
+    }
+    return this.bucketReady;
+  }
+}
@@ -0,0 +1,158 @@
+import { Transform, pipeline, type Readable } from "stream";
+import type { Span } from "@opentelemetry/api";
+import type {
+  IStorage,
+  IStorageFileMetadata,
+  IStoragePart,
+  IStorageRange,
+  IStorageUploadResult,
+} from "../../interfaces/storage.interface.js";
+import type { IHealthCheckResult } from "../../interfaces/health.interface.js";
+import { getServerConfig } from "../../../config/index.js";
+import {
+  recordStorageBytes,
+  recordStorageOperation,
+  type OperationOutcome,
+  type StorageDirection,
+} from "../../utilities/metrics.utility.js";
+import { endSpan, isTracingEnabled, runInSpan, startSpan } from "../../utilities/tracing.utility.js";
+
+/**
+ * Wraps a storage provider to record, per provider, how long each call takes, whether
+ * it failed, and how many bytes went up and came back down - as metrics, and as a span
+ * per call (storage.<operation>) carrying the provider, the byte count and the integrity
+ * mode.  Filenames are left out of both: they can name a patient.  Downloads are timed
+ * and counted as the stream is read, so the figures cover the transfer and not just the
+ * provider handing back a stream.
+ */
+export class InstrumentedStorage implements IStorage {
+  private provider: string;
+  private storage: IStorage;
+  private integrityMode = getServerConfig().integrityMode;
+
+  /**
+   * @param provider - label for the metrics: local, azure, s3 or gcs
+   * @param storage - the provider to measure
+   */
+  constructor(provider: string, storage: IStorage) {
+    this.provider = provider;
+    this.storage = storage;
+  }
+
+  uploadFileToStorage(filename: string, stream: Readable): Promise<IStorageUploadResult> {
+    return this.measure("upload", () => this.storage.uploadFileToStorage(filename, stream), (result) => result.size);
+  }
+
+  async downloadFileFromStorage(filename: string, range?: IStorageRange): Promise<Readable> {
+    const startedAt = process.hrtime.bigint();
+    const span = this.startSpan("download", range ? { "storage.range.start": range.start, "storage.range.end": range.end } : {});
+    let source: Readable;
+    try {
+      source = await runInSpan(span, () => this.storage.downloadFileFromStorage(filename, range));
+    } catch (error: unknown) {
+      this.finish("download", startedAt, span, error);
+      throw error;
+    }
+
+    let bytes = 0;
+    const counter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        bytes += chunk.length;
+        callback(null, chunk);
+      },
+    });
+    // pipeline forwards errors and destroys the source if the reader gives up
+    return pipeline(source, counter, (error) => {
+      this.finish("download", startedAt, span, error ?? undefined, bytes);
+    });
+  }
+
+  getFileMetadata(filename: string): Promise<IStorageFileMetadata> {
+    return this.measure("metadata", () => this.storage.getFileMetadata(filename));
+  }
+
+  delete(filename: string): Promise<void> {
+    return this.measure("delete", () => this.storage.delete(filename));
+  }
+
+  exists(filename: string): Promise<boolean> {
+    return this.measure("exists", () => this.storage.exists(filename));
+  }
+
+  beginChunkedUpload(filename: string): Promise<string> {
+    return this.measure("chunk_begin", () => this.storage.beginChunkedUpload(filename));
+  }
+
+  uploadChunk(filename: string, uploadId: string, partNumber: number, stream: Readable, size: number): Promise<IStoragePart> {
+    return this.measure(
+      "chunk_upload",
+      () => this.storage.uploadChunk(filename, uploadId, partNumber, stream, size),
+      (part) => part.size,
+      { "storage.part_number": partNumber }
+    );
+  }
+
+  completeChunkedUpload(filename: string, uploadId: string, parts: IStoragePart[]): Promise<IStorageUploadResult> {
+    // The bytes were counted as the chunks went up
+    return this.measure("chunk_complete", () => this.storage.completeChunkedUpload(filename, uploadId, parts), undefined, {
+      "storage.part_count": parts.length,
+    });
+  }
+
+  abortChunkedUpload(filename: string, uploadId: string, parts: IStoragePart[]): Promise<void> {
+    return this.measure("chunk_abort", () => this.storage.abortChunkedUpload(filename, uploadId, parts));
+  }
+
+  healthCheck(): Promise<IHealthCheckResult> {
+    return this.measure("health", () => this.storage.healthCheck());
+  }
+
+  /**
+   * Time a provider call in a span of its own
+   * @param operation
+   * @param call
+   * @param uploaded - bytes the result says were stored
+   * @param attributes - extra span attributes
+   */
+  private async measure<T>(
+    operation: string,
+    call: () => Promise<T>,
+    uploaded?: (result: T) => number,
+    attributes: Record<string, number> = {}
+  ): Promise<T> {
+    const startedAt = process.hrtime.bigint();
+    const span = this.startSpan(operation, attributes);
+    let result: T;
+    try {
+      result = await runInSpan(span, call);
+    } catch (error: unknown) {
+      this.finish(operation, startedAt, span, error);
+      throw error;
+    }
+    this.finish(operation, startedAt, span, undefined, uploaded?.(result));
+    return result;
+  }
+
+  private startSpan(operation: string, attributes: Record<string, number>): Span | undefined {
+    if (!isTracingEnabled()) {
+      return undefined;
+    }
+    return startSpan(`storage.${operation}`, {
+      ...attributes,
+      "storage.provider": this.provider,
+      "storage.operation": operation,
+      "storage.integrity_mode": this.integrityMode,
+    });
+  }
+
+  private finish(operation: string, startedAt: bigint, span: Span | undefined, error?: unknown, bytes?: number): void {
+    const outcome: OperationOutcome = error === undefined ? "success" : "error";
+    recordStorageOperation(this.provider, operation, outcome, Number(process.hrtime.bigint() - startedAt) / 1e9);
+    if (bytes !== undefined) {
+      const direction: StorageDirection = operation === "download" ? "download" : "upload";
+      recordStorageBytes(this.provider, direction, bytes);
+      span?.setAttribute("storage.bytes", bytes);
+    }
+    endSpan(span, error);
+  }
+}
@@ -1,12 +1,22 @@
 // src/services/storage/LocalStorage.ts
 import fs from "fs";
 import path from "path";
-import type { IStorage, IStorageUploadResult } from "../../interfaces/storage.interface.js";
+import crypto from "crypto";
+import type {
+  IStorage,
+  IStorageFileMetadata,
+  IStoragePart,
+  IStorageRange,
+  IStorageUploadResult,
+} from "../../interfaces/storage.interface.js";
 import type { Readable } from "stream";
+import { pipeline } from "stream/promises";
 import type { ILogger } from "../../interfaces/logger.interface.js";
+import type { IHealthCheckResult } from "../../interfaces/health.interface.js";
 import { getServerConfig } from '../../../config/index.js';
 import type { IntegrityMode } from "../../../config/integrity.types.js";
 import { IntegrityStreamFactory } from "../../factories/integrity.factory.js";
+import { HttpError } from "../../utilities/error.utility.js";
 
 
 /**
@@ -16,6 +26,7 @@ import { IntegrityStreamFactory } from "../../factories/integrity.factory.js";
 export class LocalStorage implements IStorage {
   private baseDir = getServerConfig().localStoragePath;
   private uploadDir = path.join(this.baseDir, "uploads");
+  private partsDir = path.join(this.baseDir, "parts");
   private logger: ILogger;
   
     constructor(_logger: ILogger) {
@@ -24,38 +35,31 @@ export class LocalStorage implements IStorage {
     }
 
   /**
-   *
+   * Stream a file to disk.  If the incoming stream fails part way (size limit, client
+   * abort) the partial file is removed so nothing half-written is left behind.
    * @param filename
    * @param stream
    */
-  async uploadFileToStorage(filename: string, stream: any): Promise<IStorageUploadResult> {
+  async uploadFileToStorage(filename: string, stream: Readable): Promise<IStorageUploadResult> {
     this.logger.trace(`enter LocalStorage.uploadFile for ${filename}`)
 
     const INTEGRITY_MODE = getServerConfig().integrityMode as IntegrityMode;
     const filePath = path.join(this.uploadDir, filename);
 
     const { stream: monitorStream, getResult } = IntegrityStreamFactory.create(INTEGRITY_MODE);
-    
-    stream.pipe(monitorStream);
-    const writeStream = fs.createWriteStream(path.join(this.uploadDir, filename));
-    
-    await new Promise<void>((resolve, reject) => {
-        monitorStream.pipe(writeStream); // Monitor passes data to Disk
-        writeStream.on('finish', resolve);
-        writeStream.on('error', reject);
-    });
 
-    const metadata = await getResult();
+    try {
+      // Owner namespace.  Created synchronously so the pipeline is attached before the
+      // incoming stream can fail (an early size-limit error would otherwise go unhandled)
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      // Monitor passes data to Disk
+      await pipeline(stream, monitorStream, fs.createWriteStream(filePath));
+    } catch (error: unknown) {
+      await fs.promises.rm(filePath, { force: true });
+      throw error;
+    }
 
-    /*
-    filename: string;
-  path: string;
-  size: number;
-  timestamp: Date;
-  hash?: string; // Optional
-   
-   
-    */
+    const metadata = await getResult();
 
     const result: IStorageUploadResult = {
       filename,
@@ -70,20 +74,187 @@ export class LocalStorage implements IStorage {
   }
 
   /**
-   *
+   * Stream a stored upload back, or just the requested byte range of it
    * @param filename
+   * @param range - optional inclusive byte range
    * @returns Promise<Readable>
    */
-  async downloadFileFromStorage(filename: string): Promise<Readable> {
-    const fullPath = path.join(this.baseDir, filename);
+  async downloadFileFromStorage(filename: string, range?: IStorageRange): Promise<Readable> {
+    const fullPath = path.join(this.uploadDir, filename);
 
     try {
       await fs.promises.access(fullPath, fs.constants.R_OK);
-      return fs.createReadStream(fullPath);
     } catch (error) {
-      throw new Error(`File not found or not readable: ${filename}`);
+      throw new HttpError(404, `File not found or not readable: ${filename}`);
     }
+    return fs.createReadStream(fullPath, range ? { start: range.start, end: range.end } : {});
   }
-}
 
+  /**
+   * The etag is weak, built from size and mtime the same way express.static does
+   * @param filename
+   */
+  async getFileMetadata(filename: string): Promise<IStorageFileMetadata> {
+    let stats: fs.Stats;
+    try {
+      stats = await fs.promises.stat(path.join(this.uploadDir, filename));
+    } catch (error) {
+      throw new HttpError(404, `File not found or not readable: ${filename}`);
+    }
+    if (!stats.isFile()) {
+      throw new HttpError(404, `File not found or not readable: ${filename}`);
+    }
+
+    return {
+      filename,
+      size: stats.size,
+      lastModified: stats.mtime,
+      etag: `W/"${stats.size.toString(16)}-${stats.mtime.getTime().toString(16)}"`,
+    };
+  }
 
+  /**
+   *
+   * @param filename
+   */
+  async delete(filename: string): Promise<void> {
+    this.logger.trace(`enter LocalStorage.delete for ${filename}`);
+    await fs.promises.rm(path.join(this.uploadDir, filename), { force: true });
+  }
+
+  /**
+   *
+   * @param filename
+   * @returns whether the upload is on disk
+   */
+  async exists(filename: string): Promise<boolean> {
+    try {
+      return (await fs.promises.stat(path.join(this.uploadDir, filename))).isFile();
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Chunked uploads stage each part as its own temp file under parts/<uploadId>
+   * @param filename
+   * @returns upload id
+   */
+  async beginChunkedUpload(filename: string): Promise<string> {
+    this.logger.trace(`enter LocalStorage.beginChunkedUpload for ${filename}`);
+    const uploadId = crypto.randomUUID();
+    await fs.promises.mkdir(path.join(this.partsDir, uploadId), { recursive: true });
+    return uploadId;
+  }
+
+  /**
+   *
+   * @param filename
+   * @param uploadId
+   * @param partNumber
+   * @param stream
+   * @param _size - unused, the part file is simply written until the stream ends
+   */
+  async uploadChunk(filename: string, uploadId: string, partNumber: number, stream: Readable, _size: number): Promise<IStoragePart> {
+    this.logger.trace(`enter LocalStorage.uploadChunk for ${filename} part ${partNumber}`);
+    const partPath = this.getPartPath(uploadId, partNumber);
+
+    try {
+      await pipeline(stream, fs.createWriteStream(partPath));
+    } catch (error: unknown) {
+      await fs.promises.rm(partPath, { force: true });
+      throw error;
+    }
+
+    const { size } = await fs.promises.stat(partPath);
+    return { partNumber, size };
+  }
+
+  /**
+   * Concatenate the part files, in order, into the final upload through the integrity
+   * monitor, then remove the parts
+   * @param filename
+   * @param uploadId
+   * @param parts
+   */
+  async completeChunkedUpload(filename: string, uploadId: string, parts: IStoragePart[]): Promise<IStorageUploadResult> {
+    this.logger.trace(`enter LocalStorage.completeChunkedUpload for ${filename}`);
+
+    const INTEGRITY_MODE = getServerConfig().integrityMode as IntegrityMode;
+    const filePath = path.join(this.uploadDir, filename);
+    const partPaths = [...parts]
+      .sort((a, b) => a.partNumber - b.partNumber)
+      .map((part) => this.getPartPath(uploadId, part.partNumber));
+
+    const { stream: monitorStream, getResult } = IntegrityStreamFactory.create(INTEGRITY_MODE);
+
+    try {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await pipeline(
+        async function* () {
+          for (const partPath of partPaths) {
+            yield* fs.createReadStream(partPath);
+          }
+        },
+        monitorStream,
+        fs.createWriteStream(filePath)
+      );
+    } catch (error: unknown) {
+      await fs.promises.rm(filePath, { force: true });
+      throw error;
+    }
+
+    const metadata = await getResult();
+    await fs.promises.rm(path.join(this.partsDir, uploadId), { recursive: true, force: true });
+
+    this.logger.trace(`exit LocalStorage.completeChunkedUpload for ${filename}`);
+    return {
+      filename,
+      path: filePath,
+      size: metadata.size,
+      timestamp: new Date(),
+      hash: metadata.hash
+    };
+  }
+
+  /**
+   *
+   * @param filename
+   * @param uploadId
+   * @param _parts - unused, the whole parts/<uploadId> directory is removed
+   */
+  async abortChunkedUpload(filename: string, uploadId: string, _parts: IStoragePart[]): Promise<void> {
+    this.logger.trace(`enter LocalStorage.abortChunkedUpload for ${filename}`);
+    await fs.promises.rm(path.join(this.partsDir, uploadId), { recursive: true, force: true });
+  }
+
+  /**
+   * Write a small probe file under the storage path, read it back and remove it
+   * @returns DOWN with the failing step and error code; never the path itself
+   */
+  async healthCheck(): Promise<IHealthCheckResult> {
+    const probe = crypto.randomBytes(16).toString("hex");
+    const probePath = path.join(this.baseDir, ".health", `${process.pid}-${probe}`);
+    let step = "written";
+    try {
+      await fs.promises.mkdir(path.dirname(probePath), { recursive: true });
+      await fs.promises.writeFile(probePath, probe);
+      step = "read";
+      if ((await fs.promises.readFile(probePath, "utf8")) !== probe) {
+        return { status: "DOWN", detail: "Local storage returned different contents from those written" };
+      }
+      return { status: "UP" };
+    } catch (error: unknown) {
+      const code = (error as NodeJS.ErrnoException).code ?? "unknown error";
+      this.logger.error(`LocalStorage health probe failed under ${this.baseDir}:`, error);
+      return { status: "DOWN", detail: `Local storage could not be ${step} (${code})` };
+    } finally {
+      // Nothing to remove if the directory could not be made
+      await fs.promises.rm(probePath, { force: true }).catch(() => undefined);
+    }
+  }
+
+  private getPartPath(uploadId: string, partNumber: number): string {
+    return path.join(this.partsDir, uploadId, `${partNumber}.part`);
+  }
+}
@@ -0,0 +1,358 @@
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CreateBucketCommand,
+  CreateMultipartUploadCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadBucketCommand,
+  HeadObjectCommand,
+  NoSuchKey,
+  NotFound,
+  S3Client,
+  UploadPartCommand,
+  type S3ClientConfig,
+} from "@aws-sdk/client-s3";
+import { Upload } from "@aws-sdk/lib-storage";
+import type { Readable } from "stream";
+import type { ILogger } from "../../interfaces/logger.interface.js";
+import type {
+  IStorage,
+  IStorageFileMetadata,
+  IStoragePart,
+  IStorageRange,
+  IStorageUploadResult,
+} from "../../interfaces/storage.interface.js";
+import type { IHealthCheckResult } from "../../interfaces/health.interface.js";
+import { getCloudStorageConfig } from "../../../config/store.config.js";
+import { getServerConfig } from "../../../config/index.js";
+import type { IntegrityMode } from "../../../config/integrity.types.js";
+import { IntegrityStreamFactory } from "../../factories/integrity.factory.js";
+import { HttpError } from "../../utilities/error.utility.js";
+
+const UPLOAD_PART_SIZE = 5 * 1024 * 1024; // 5MB is the S3 minimum part size
+const UPLOAD_QUEUE_SIZE = 4; // at most ~20MB of an upload held in memory at once
+
+/**
+ * S3 specific implementation.  Works against AWS or any S3-compatible server
+ * (MinIO, etc) by setting AWS_S3_ENDPOINT.
+ */
+export class S3Storage implements IStorage {
+  private logger: ILogger;
+  private bucket: string;
+  private client: S3Client;
+  private bucketReady: Promise<void> | null = null;
+
+  /**
+   *
+   * @param _logger
+   * @param _client - optional pre-built client (used by tests to inject a mock)
+   */
+  constructor(_logger: ILogger, _client?: S3Client) {
+    this.logger = _logger;
+    const config = getCloudStorageConfig("S3");
+    this.bucket = config.bucket;
+
+    if (_client) {
+      this.client = _client;
+    } else {
+      const clientConfig: S3ClientConfig = {
+        region: config.region,
+        forcePathStyle: config.forcePathStyle,
+      };
+      if (config.endpoint) {
+        clientConfig.endpoint = config.endpoint;
+      }
+      if (config.accessKeyId && config.secretAccessKey) {
+        clientConfig.credentials = {
+          accessKeyId: config.accessKeyId,
+          secretAccessKey: config.secretAccessKey,
+        };
+      }
+      this.client = new S3Client(clientConfig);
+    }
+
+    this.logger.info(
+      `S3Storage instantiated with bucket:${this.bucket} region:${config.region} endpoint:${config.endpoint ?? "AWS default"}`
+    );
+  }
+
+  /**
+   * Upload file to S3
+   *
+   * Streams the data as a multipart upload in UPLOAD_PART_SIZE parts; small files go
+   * up as a single PutObject.  On failure the multipart upload is aborted so no
+   * orphaned parts are left in the bucket.
+   *
+   * @param filename - Target object key
+   * @param stream - Readable stream containing file data
+   * @returns Promise resolving to upload result with object metadata
+   * @throws {Error} If the bucket cannot be reached or the upload fails
+   */
+  async uploadFileToStorage(
+    filename: string,
+    stream: Readable
+  ): Promise<IStorageUploadResult> {
+    this.logger.trace(`enter S3Storage.uploadFileToStorage(${filename})`);
+
+    await this.ensureBucket();
+
+    const INTEGRITY_MODE = getServerConfig().integrityMode as IntegrityMode;
+    const { stream: monitorStream, getResult } =
+      IntegrityStreamFactory.create(INTEGRITY_MODE);
+
+    stream.on("error", (err) => monitorStream.destroy(err));
+    stream.pipe(monitorStream);
+
+    const upload = new Upload({
+      client: this.client,
+      params: { Bucket: this.bucket, Key: filename, Body: monitorStream },
+      partSize: UPLOAD_PART_SIZE,
+      queueSize: UPLOAD_QUEUE_SIZE,
+      leavePartsOnError: false,
+    });
+
+    const response = await upload.done();
+    const metadata = await getResult();
+
+    const result: IStorageUploadResult = {
+      filename,
+      path: response.Location ?? `s3://${this.bucket}/${filename}`,
+      size: metadata.size,
+      timestamp: new Date(),
+      hash: metadata.hash,
+    };
+
+    this.logger.trace(`exit S3Storage.uploadFileToStorage(${filename})`);
+    return result;
+  }
+
+  /**
+   * Download file from S3
+   *
+   * @param filename - Object key to download
+   * @param range - optional inclusive byte range
+   * @returns Promise resolving to Readable stream of object contents
+   * @throws {HttpError} 404 if the object does not exist
+   */
+  async downloadFileFromStorage(filename: string, range?: IStorageRange): Promise<Readable> {
+    this.logger.trace(`enter S3Storage.downloadFileFromStorage(${filename})`);
+
+    try {
+      const response = await this.client.send(
+        new GetObjectCommand({
+          Bucket: this.bucket,
+          Key: filename,
+          Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+        })
+      );
+      if (!response.Body) {
+        throw new Error(`Object returned no body: ${filename}`);
+      }
+
+      this.logger.trace(`exit S3Storage.downloadFileFromStorage(${filename})`);
+      return response.Body as Readable;
+    } catch (error: unknown) {
+      if (error instanceof NoSuchKey || error instanceof NotFound) {
+        throw new HttpError(404, `File not found or not readable: ${filename}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   *
+   * @param filename - Object key
+   * @returns object metadata from HeadObject
+   * @throws {HttpError} 404 if the object does not exist
+   */
+  async getFileMetadata(filename: string): Promise<IStorageFileMetadata> {
+    this.logger.trace(`enter S3Storage.getFileMetadata(${filename})`);
+
+    try {
+      const response = await this.client.send(
+        new HeadObjectCommand({ Bucket: this.bucket, Key: filename })
+      );
+      return {
+        filename,
+        size: response.ContentLength ?? 0,
+        lastModified: response.LastModified ?? new Date(0),
+        etag: response.ETag,
+        contentType: response.ContentType,
+      };
+    } catch (error: unknown) {
+      if (error instanceof NoSuchKey || error instanceof NotFound) {
+        throw new HttpError(404, `File not found or not readable: ${filename}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * S3 deletes are idempotent, so a missing key needs no special handling
+   * @param filename - Object key
+   */
+  async delete(filename: string): Promise<void> {
+    this.logger.trace(`enter S3Storage.delete(${filename})`);
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: filename }));
+  }
+
+  /**
+   *
+   * @param filename - Object key
+   * @returns whether the object exists
+   */
+  async exists(filename: string): Promise<boolean> {
+    this.logger.trace(`enter S3Storage.exists(${filename})`);
+    try {
+      await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: filename }));
+      return true;
+    } catch (error: unknown) {
+      if (error instanceof NoSuchKey || error instanceof NotFound) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Chunked uploads map directly onto an S3 multipart upload
+   * @param filename
+   * @returns the S3 UploadId
+   */
+  async beginChunkedUpload(filename: string): Promise<string> {
+    this.logger.trace(`enter S3Storage.beginChunkedUpload(${filename})`);
+    await this.ensureBucket();
+
+    const response = await this.client.send(
+      new CreateMultipartUploadCommand({ Bucket: this.bucket, Key: filename })
+    );
+    if (!response.UploadId) {
+      throw new Error(`S3 did not return an UploadId for ${filename}`);
+    }
+    return response.UploadId;
+  }
+
+  /**
+   *
+   * @param filename
+   * @param uploadId
+   * @param partNumber
+   * @param stream
+   * @param size
+   */
+  async uploadChunk(
+    filename: string,
+    uploadId: string,
+    partNumber: number,
+    stream: Readable,
+    size: number
+  ): Promise<IStoragePart> {
+    this.logger.trace(`enter S3Storage.uploadChunk(${filename}) part ${partNumber}`);
+    const response = await this.client.send(
+      new UploadPartCommand({
+        Bucket: this.bucket,
+        Key: filename,
+        UploadId: uploadId,
+        PartNumber: partNumber,
+        Body: stream,
+        ContentLength: size,
+      })
+    );
+    return { partNumber, size, etag: response.ETag };
+  }
+
+  /**
+   *
+   * @param filename
+   * @param uploadId
+   * @param parts
+   */
+  async completeChunkedUpload(
+    filename: string,
+    uploadId: string,
+    parts: IStoragePart[]
+  ): Promise<IStorageUploadResult> {
+    this.logger.trace(`enter S3Storage.completeChunkedUpload(${filename})`);
+    const ordered = [...parts].sort((a, b) => a.partNumber - b.partNumber);
+
+    const response = await this.client.send(
+      new CompleteMultipartUploadCommand({
+        Bucket: this.bucket,
+        Key: filename,
+        UploadId: uploadId,
+        MultipartUpload: {
+          Parts: ordered.map((part) => ({ PartNumber: part.partNumber, ETag: part.etag })),
+        },
+      })
+    );
+
+    return {
+      filename,
+      path: response.Location ?? `s3://${this.bucket}/${filename}`,
+      size: ordered.reduce((total, part) => total + part.size, 0),
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   *
+   * @param filename
+   * @param uploadId
+   * @param _parts - unused, S3 discards every part of the upload
+   */
+  async abortChunkedUpload(
+    filename: string,
+    uploadId: string,
+    _parts: IStoragePart[]
+  ): Promise<void> {
+    this.logger.trace(`enter S3Storage.abortChunkedUpload(${filename})`);
+    await this.client.send(
+      new AbortMultipartUploadCommand({ Bucket: this.bucket, Key: filename, UploadId: uploadId })
+    );
+  }
+
+  /**
+   * Check the bucket can be reached with the configured credentials.  A bucket that does
+   * not exist yet is fine: the first upload creates it.
+   * @returns DOWN with the status S3 answered with
+   */
+  async healthCheck(): Promise<IHealthCheckResult> {
+    try {
+      await this.client.send(new HeadBucketCommand({ Bucket: this.bucket }));
+      return { status: "UP" };
+    } catch (error: unknown) {
+      if (error instanceof NotFound) {
+        return { status: "UP", detail: "Bucket not created yet; the first upload creates it" };
+      }
+      this.logger.error(`S3Storage health probe failed for bucket ${this.bucket}:`, error);
+      const reason = (error as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode;
+      return { status: "DOWN", detail: `Bucket could not be reached (${reason ?? "no response"})` };
+    }
+  }
+
+  /**
+   * Create the bucket on first use if it does not exist (convenient for MinIO; on AWS
+   * the bucket is normally provisioned ahead of time and this is just a HeadBucket).
+   */
+  private ensureBucket(): Promise<void> {
+    if (!this.bucketReady) {
+      this.bucketReady = this.client
+        .send(new HeadBucketCommand({ Bucket: this.bucket }))
+        .then(() => undefined)
+        .catch(async (error: unknown) => {
+          if (error instanceof NotFound) {
+            this.logger.info(`S3Storage creating bucket ${this.bucket}`);
+            await this.client.send(new CreateBucketCommand({ Bucket: this.bucket }));
+            return;
+          }
+          throw error;
+        })
+        .catch((error: unknown) => {
+          this.bucketReady = null;
+          throw error;
+        });
+    }
+    return this.bucketReady;
+  }
+}
@@ -0,0 +1,45 @@
+import { SpanKind, SpanStatusCode } from "@opentelemetry/api";
+import type { RequestHandler } from "express";
+import { getRoutePattern } from "../utilities/request-context.utility.js";
+import { endSpan, extractTraceContext, runInSpan, startSpan } from "../utilities/tracing.utility.js";
+
+/**
+ * Create middleware that starts the server span for each request, continuing the trace
+ * in the caller's traceparent header, and runs the rest of the request inside it so the
+ * controller, service and provider spans become its children.  The span is named after
+ * the route pattern once one has matched, and ends when the response finishes (or the
+ * client goes away).  Only mount it while tracing is on.
+ * @returns Express middleware
+ */
+export function createTracingMiddleware(): RequestHandler {
+  return (req, res, next) => {
+    const span = startSpan(
+      req.method,
+      // Not the path: download URLs carry filenames, which can name a patient
+      { "http.request.method": req.method },
+      SpanKind.SERVER,
+      extractTraceContext(req.headers)
+    );
+
+    const end = () => {
+      res.off("finish", end);
+      res.off("close", end);
+      const route = getRoutePattern(req);
+      if (route) {
+        span?.updateName(`${req.method} ${route}`);
+        span?.setAttribute("http.route", route);
+      }
+      span?.setAttribute("http.response.status_code", res.statusCode);
+      if (!res.writableFinished) {
+        span?.setStatus({ code: SpanStatusCode.ERROR, message: "Client closed the connection" });
+      } else if (res.statusCode >= 500) {
+        span?.setStatus({ code: SpanStatusCode.ERROR });
+      }
+      endSpan(span);
+    };
+    res.on("finish", end);
+    res.on("close", end);
+
+    runInSpan(span, next);
+  };
+}
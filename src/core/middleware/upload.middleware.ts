@@ -0,0 +1,121 @@
+import multer, { type StorageEngine } from "multer";
+import type { Request, RequestHandler } from "express";
+import type { ILogger } from "../interfaces/logger.interface.js";
+import type {
+  IStorageService,
+  IStorageUploadResult,
+} from "../interfaces/storage.interface.js";
+import { getServerConfig, uploadConfig } from "../../config/index.js";
+import { HttpError, toError } from "../utilities/error.utility.js";
+import { SizeLimitStream } from "../utilities/stream.utility.js";
+import { sanitizeFilename, toStorageFilename, toStorageKey } from "../utilities/filename.utility.js";
+
+/**
+ * Multer storage engine that hands the incoming multipart file stream straight to the
+ * storage service instead of buffering it in memory or on disk.  The provider sees the
+ * bytes as they arrive; if the size limit is crossed or the client disconnects the
+ * stream is failed, which makes every provider abandon the partial object.  Files are
+ * stored under the uploader's namespace (or the patient's they upload for, see
+ * StorageController.authorizeUpload), so the auth middleware must run first.
+ */
+export class StreamingStorageEngine implements StorageEngine {
+  private logger: ILogger;
+  private storeService: IStorageService;
+
+  constructor(logger: ILogger, storeService: IStorageService) {
+    this.logger = logger;
+    this.storeService = storeService;
+  }
+
+  _handleFile(
+    req: Request,
+    file: Express.Multer.File,
+    callback: (error?: unknown, info?: Partial<Express.Multer.File>) => void
+  ): void {
+    this.logger.trace(`enter StreamingStorageEngine._handleFile(${file.originalname})`);
+
+    if (!req.principal) {
+      callback(new HttpError(401, "Authentication required"));
+      return;
+    }
+
+    // Sanitize original filename
+    const originalName = sanitizeFilename(file.originalname);
+    if (originalName !== file.originalname) {
+      this.logger.warn(
+        `Filename sanitized from ${file.originalname} to ${originalName}`
+      );
+    }
+    const filename = toStorageKey(req.uploadOwnerId ?? req.principal.userId, toStorageFilename(originalName));
+
+    const limiter = new SizeLimitStream(getServerConfig().maxFileSize);
+    file.stream.on("error", (err) => limiter.destroy(err));
+    file.stream.pipe(limiter);
+
+    // Client went away mid-upload: fail the stream so the provider cleans up
+    const onClose = () => {
+      if (!req.complete) {
+        this.logger.warn(`Upload of ${filename} aborted by client`);
+        limiter.destroy(new HttpError(400, "Upload aborted by client"));
+      }
+    };
+    req.once("close", onClose);
+
+    this.storeService
+      .uploadFileToStorage(filename, limiter)
+      .then((result: IStorageUploadResult) => {
+        this.logger.trace(`exit StreamingStorageEngine._handleFile(${filename})`);
+        callback(null, {
+          filename: result.filename,
+          path: result.path,
+          size: result.size,
+          upload: result,
+        } as Partial<Express.Multer.File>);
+      })
+      .catch((error: unknown) => {
+        const err = toError(error);
+        this.logger.error(
+          `StreamingStorageEngine._handleFile failed for ${filename}:`,
+          err.message
+        );
+        callback(err);
+      })
+      .finally(() => req.removeListener("close", onClose));
+  }
+
+  _removeFile(
+    _req: Request,
+    file: Express.Multer.File,
+    callback: (error: Error | null) => void
+  ): void {
+    // Only reached for files that finished before a later part of the request failed
+    this.storeService
+      .deleteFileFromStorage(file.filename)
+      .then(() => callback(null))
+      .catch((error: unknown) => callback(toError(error)));
+  }
+}
+
+/**
+ * Create the multipart upload middleware for a single `file` field, streamed through
+ * to the storage provider.
+ * @param logger - Logger instance
+ * @param storeService - Storage service the file is streamed to
+ * @returns Express middleware populating req.file with the stored file details
+ */
+export function createUploadMiddleware(
+  logger: ILogger,
+  storeService: IStorageService
+): RequestHandler {
+  return multer({
+    storage: new StreamingStorageEngine(logger, storeService),
+    limits: { files: 1 },
+    fileFilter: (_req, file, callback) => {
+      if (!uploadConfig.allowedMimeTypes.includes(file.mimetype)) {
+        callback(new HttpError(400, "Invalid file type"));
+        return;
+      }
+      callback(null, true);
+    },
+  }).single("file");
+}
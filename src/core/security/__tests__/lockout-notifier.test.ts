@@ -0,0 +1,67 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { EmailLockoutNotifier } from "../lockout-notifier.js";
+import { LockoutService } from "../lockout.service.js";
+import { MemoryLoginFailureStore } from "../../stores/login-failure.store.js";
+import { FileUserStore } from "../../stores/user.store.js";
+import { mockLogger } from "../../../test/mocks.js";
+import type { IEmailMessage } from "../../interfaces/notifier.interface.js";
+
+describe("EmailLockoutNotifier", () => {
+  let dir: string;
+  let sent: IEmailMessage[];
+  let lockout: LockoutService;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "lockout-notifier-"));
+    const users = new FileUserStore(path.join(dir, "users.json"));
+    const now = new Date().toISOString();
+    await users.save({
+      id: "user-1",
+      username: "jsmith",
+      passwordHash: "unused",
+      userType: "patient",
+      disabled: false,
+      email: "jsmith@example.com",
+      emailVerified: true,
+      createdAt: now,
+      updatedAt: now,
+    });
+    sent = [];
+    lockout = new LockoutService(
+      mockLogger(),
+      new MemoryLoginFailureStore(),
+      { maxFailures: 2, lockoutSeconds: 600, backoffBaseMs: 0, backoffMaxMs: 0, failureWindowSeconds: 900 },
+      new EmailLockoutNotifier(mockLogger(), users, {
+        send: async (message) => {
+          sent.push(message);
+        },
+      })
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should email the account owner when the account is locked", async () => {
+    await lockout.recordFailure("JSmith");
+    expect(sent).toEqual([]);
+
+    await lockout.recordFailure("jsmith");
+
+    expect(sent).toEqual([
+      expect.objectContaining({ to: "jsmith@example.com", subject: "Your account has been locked" }),
+    ]);
+    expect(sent[0]!.text).toContain("2 failed attempts");
+  });
+
+  it("should send nothing for a username with no account", async () => {
+    await lockout.recordFailure("nobody");
+    await lockout.recordFailure("nobody");
+
+    await expect(lockout.assertCanAttempt("nobody")).rejects.toMatchObject({ statusCode: 429 });
+    expect(sent).toEqual([]);
+  });
+});
@@ -0,0 +1,96 @@
+import { jest } from "@jest/globals";
+import { LockoutService } from "../lockout.service.js";
+import { MemoryLoginFailureStore } from "../../stores/login-failure.store.js";
+import { AccessService } from "../../../api/v1/services/access.service.js";
+import { HttpError } from "../../utilities/error.utility.js";
+import { mockLogger } from "../../../test/mocks.js";
+import type { IAccess } from "../../interfaces/access.interface.js";
+import type { ILockoutNotifier, ILockoutPolicy } from "../../interfaces/lockout.interface.js";
+
+const policy: ILockoutPolicy = {
+  maxFailures: 3,
+  lockoutSeconds: 600,
+  backoffBaseMs: 1000,
+  backoffMaxMs: 4000,
+  failureWindowSeconds: 900,
+};
+
+describe("LockoutService", () => {
+  let store: MemoryLoginFailureStore;
+  let notifier: jest.Mocked<ILockoutNotifier>;
+  let lockout: LockoutService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date("2026-01-01T00:00:00Z") });
+    store = new MemoryLoginFailureStore();
+    notifier = { accountLocked: jest.fn(async () => undefined) };
+    lockout = new LockoutService(mockLogger(), store, policy, notifier);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should back off twice as long after each failure", async () => {
+    await lockout.recordFailure("JSmith");
+    await expect(lockout.assertCanAttempt("jsmith")).rejects.toMatchObject({ statusCode: 429, details: { retryAfter: 1 } });
+
+    jest.advanceTimersByTime(1000);
+    await expect(lockout.assertCanAttempt("jsmith")).resolves.toBeUndefined();
+
+    await lockout.recordFailure("jsmith");
+    jest.advanceTimersByTime(1000);
+    await expect(lockout.assertCanAttempt("jsmith")).rejects.toMatchObject({ details: { retryAfter: 1 } });
+    jest.advanceTimersByTime(1000);
+    await expect(lockout.assertCanAttempt("jsmith")).resolves.toBeUndefined();
+  });
+
+  it("should lock after the threshold, notify, and answer like a backoff", async () => {
+    for (let i = 0; i < 3; i++) {
+      await lockout.recordFailure("jsmith");
+    }
+
+    expect(notifier.accountLocked).toHaveBeenCalledWith(expect.objectContaining({ username: "jsmith", failures: 3 }));
+    jest.advanceTimersByTime(policy.backoffMaxMs);
+    await expect(lockout.assertCanAttempt("jsmith")).rejects.toMatchObject({
+      statusCode: 429,
+      message: "Too many failed login attempts; try again later",
+      details: { retryAfter: 596 },
+    });
+
+    jest.advanceTimersByTime(596 * 1000);
+    await expect(lockout.assertCanAttempt("jsmith")).resolves.toBeUndefined();
+  });
+
+  it("should forget failures on success, on admin unlock and after the window", async () => {
+    await lockout.recordFailure("a");
+    await lockout.recordSuccess("a");
+    await expect(lockout.assertCanAttempt("a")).resolves.toBeUndefined();
+
+    for (let i = 0; i < 3; i++) {
+      await lockout.recordFailure("b");
+    }
+    await expect(lockout.unlock("B")).resolves.toBe(true);
+    await expect(lockout.assertCanAttempt("b")).resolves.toBeUndefined();
+    await expect(lockout.unlock("b")).resolves.toBe(false);
+
+    await lockout.recordFailure("c");
+    jest.advanceTimersByTime(policy.failureWindowSeconds * 1000 + 1);
+    await expect(lockout.purgeExpired()).resolves.toBe(1);
+  });
+
+  describe("with AccessService", () => {
+    const access = { verifyCredentials: jest.fn<IAccess["verifyCredentials"]>() } as unknown as jest.Mocked<IAccess>;
+
+    it("should count only rejected credentials and refuse before the provider sees the password", async () => {
+      const service = new AccessService(mockLogger(), access, undefined, undefined, lockout);
+      access.verifyCredentials.mockRejectedValue(new HttpError(401, "Invalid username or password"));
+
+      await expect(service.login("nobody", "WrongHorse9")).rejects.toMatchObject({ statusCode: 401 });
+      await expect(service.login("nobody", "WrongHorse9")).rejects.toMatchObject({ statusCode: 429 });
+
+      expect(access.verifyCredentials).toHaveBeenCalledTimes(1);
+      await expect(store.get("nobody")).resolves.toMatchObject({ failures: 1 });
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { jest } from "@jest/globals";
+import { MfaService } from "../mfa.service.js";
+import { totpCode, totpStep } from "../../utilities/totp.utility.js";
+import { mockLogger } from "../../../test/mocks.js";
+import type { IPrincipal } from "../../interfaces/access.interface.js";
+import type { IMfaPolicy, IMfaRecord, IMfaStore } from "../../interfaces/mfa.interface.js";
+
+const policy: IMfaPolicy = {
+  issuer: "Soleo",
+  requiredRoles: ["admin"],
+  challengeTtlSeconds: 300,
+  maxAttempts: 3,
+  recoveryCodes: 4,
+};
+
+class MemoryMfaStore implements IMfaStore {
+  records = new Map<string, IMfaRecord>();
+  async get(userId: string) { return this.records.get(userId); }
+  async save(record: IMfaRecord) { this.records.set(record.userId, record); }
+  async delete(userId: string) { this.records.delete(userId); }
+  async useStep(userId: string, step: number) {
+    const record = this.records.get(userId);
+    if (!record || (record.lastUsedStep !== undefined && step <= record.lastUsedStep)) return false;
+    this.records.set(userId, { ...record, lastUsedStep: step });
+    return true;
+  }
+  async takeRecoveryCode(userId: string, codeHash: string) {
+    const record = this.records.get(userId);
+    if (!record?.recoveryCodeHashes.includes(codeHash)) return undefined;
+    const recoveryCodeHashes = record.recoveryCodeHashes.filter((candidate) => candidate !== codeHash);
+    this.records.set(userId, { ...record, recoveryCodeHashes });
+    return recoveryCodeHashes.length;
+  }
+}
+
+const admin: IPrincipal = { userId: "a1", userType: "admin" };
+const patient: IPrincipal = { userId: "p1", userType: "patient" };
+
+describe("MfaService", () => {
+  let store: MemoryMfaStore;
+  let mfa: MfaService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date("2026-01-01T00:00:00Z") });
+    store = new MemoryMfaStore();
+    mfa = new MfaService(mockLogger(), store, policy);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should enrol a user whose role requires MFA during their first login", async () => {
+    await expect(mfa.isRequired(admin)).resolves.toBe(true);
+    await expect(mfa.isRequired(patient)).resolves.toBe(false);
+
+    const challenge = await mfa.createChallenge(admin, "admin_jo");
+    expect(challenge.enrollment?.otpauthUri).toContain("otpauth://totp/Soleo:admin_jo");
+
+    const verified = await mfa.verifyChallenge(challenge.challengeToken, totpCode(challenge.enrollment!.secret));
+    expect(verified.principal).toEqual(admin);
+    expect(verified.recoveryCodes).toHaveLength(4);
+    expect(store.records.get("a1")).toMatchObject({ enabled: true });
+    expect(JSON.stringify(store.records.get("a1"))).not.toContain(verified.recoveryCodes![0]);
+  });
+
+  it("should refuse a replayed code and drop the challenge after too many wrong ones", async () => {
+    const secret = await enrol(patient);
+    await expect(mfa.isRequired(patient)).resolves.toBe(true);
+
+    // the enrolment confirmation used this step's code
+    const first = await mfa.createChallenge(patient, "pat");
+    expect(first.enrollment).toBeUndefined();
+    await expect(mfa.verifyChallenge(first.challengeToken, totpCode(secret))).rejects.toMatchObject({ statusCode: 401 });
+    await expect(mfa.verifyChallenge(first.challengeToken, "000000")).rejects.toMatchObject({ statusCode: 401 });
+    await expect(mfa.verifyChallenge(first.challengeToken, "111111")).rejects.toMatchObject({ statusCode: 401 });
+    await expect(mfa.getChallenge(first.challengeToken)).rejects.toMatchObject({ statusCode: 401 });
+
+    jest.advanceTimersByTime(30 * 1000);
+    const second = await mfa.createChallenge(patient, "pat");
+    await expect(mfa.verifyChallenge(second.challengeToken, totpCode(secret, totpStep()))).resolves.toEqual({ principal: patient });
+    await expect(mfa.verifyChallenge(second.challengeToken, totpCode(secret))).rejects.toMatchObject({ statusCode: 401 });
+  });
+
+  it("should accept a code replayed concurrently only once", async () => {
+    const secret = await enrol(patient);
+    jest.advanceTimersByTime(30 * 1000);
+    const first = await mfa.createChallenge(patient, "pat");
+    const second = await mfa.createChallenge(patient, "pat");
+
+    const code = totpCode(secret);
+    const results = await Promise.allSettled([
+      mfa.verifyChallenge(first.challengeToken, code),
+      mfa.verifyChallenge(second.challengeToken, code),
+    ]);
+
+    expect(results.filter((result) => result.status === "fulfilled")).toHaveLength(1);
+    expect(results.find((result) => result.status === "rejected")).toMatchObject({ reason: { statusCode: 401 } });
+  });
+
+  it("should accept each recovery code once", async () => {
+    await mfa.beginEnrollment(patient);
+    const recoveryCodes = await mfa.confirmEnrollment(patient, totpCode(store.records.get("p1")!.secret));
+
+    const first = await mfa.createChallenge(patient, "pat");
+    await expect(mfa.verifyChallenge(first.challengeToken, recoveryCodes[0]!.toUpperCase())).resolves.toEqual({ principal: patient });
+    const second = await mfa.createChallenge(patient, "pat");
+    await expect(mfa.verifyChallenge(second.challengeToken, recoveryCodes[0]!)).rejects.toMatchObject({ statusCode: 401 });
+    expect(store.records.get("p1")!.recoveryCodeHashes).toHaveLength(3);
+  });
+
+  it("should expire challenges and let an admin reset an enrolment", async () => {
+    await enrol(patient);
+    const challenge = await mfa.createChallenge(patient, "pat");
+
+    jest.advanceTimersByTime(policy.challengeTtlSeconds * 1000);
+    await expect(mfa.getChallenge(challenge.challengeToken)).rejects.toMatchObject({ statusCode: 401 });
+
+    await expect(mfa.beginEnrollment(patient)).rejects.toMatchObject({ statusCode: 409 });
+    await expect(mfa.reset("p1")).resolves.toBe(true);
+    await expect(mfa.isRequired(patient)).resolves.toBe(false);
+    await expect(mfa.reset("p1")).resolves.toBe(false);
+  });
+
+  async function enrol(principal: IPrincipal): Promise<string> {
+    const { secret } = await mfa.beginEnrollment(principal);
+    await expect(mfa.confirmEnrollment(principal, "000000")).rejects.toMatchObject({ statusCode: 401 });
+    await mfa.confirmEnrollment(principal, totpCode(secret));
+    return secret;
+  }
+});
@@ -0,0 +1,75 @@
+import { hasPermission } from "../rbac.policy.js";
+import { canAccessFile, canListAllFiles } from "../file-access.policy.js";
+import { requirePermission } from "../../middleware/auth.middleware.js";
+import { mockLogger, mockNext, mockRequest, mockResponse } from "../../../test/mocks.js";
+import type { IPrincipal, UserType } from "../../interfaces/access.interface.js";
+import type { Request, Response } from "express";
+
+const as = (userType: UserType, userId = "a1b2c3d4e5f60718"): IPrincipal => ({ userId, userType });
+
+describe("RBAC policy", () => {
+  it("should grant each role its permissions and nothing more", () => {
+    expect(hasPermission(as("patient"), "storage:upload")).toBe(true);
+    expect(hasPermission(as("patient"), "storage:read:any")).toBe(false);
+    expect(hasPermission(as("clinician"), "storage:read:any")).toBe(true);
+    expect(hasPermission(as("clinician"), "access:admin")).toBe(false);
+    expect(hasPermission(as("service"), "storage:delete")).toBe(false);
+    expect(hasPermission(as("admin"), "access:admin")).toBe(true);
+  });
+
+  it("should narrow a role to the caller's scopes, never widen it", () => {
+    const client: IPrincipal = { ...as("service"), clientId: "cl_0011223344556677", scopes: ["storage:read:own", "storage:delete"] };
+    expect(hasPermission(client, "storage:read:own")).toBe(true);
+    expect(hasPermission(client, "storage:upload")).toBe(false);
+    expect(hasPermission(client, "storage:delete")).toBe(false);
+  });
+
+  it("should treat provider as the older name for clinician", () => {
+    expect(canAccessFile(as("provider"), "someone-else", "read")).toBe(true);
+    expect(canAccessFile(as("provider"), "someone-else", "delete")).toBe(false);
+    expect(canListAllFiles(as("provider"))).toBe(true);
+  });
+
+  it("should confine patients and caregivers to their own files", () => {
+    for (const userType of ["patient", "caregiver"] as const) {
+      expect(canAccessFile(as(userType), "a1b2c3d4e5f60718", "delete")).toBe(true);
+      expect(canAccessFile(as(userType), "someone-else", "read")).toBe(false);
+      expect(canListAllFiles(as(userType))).toBe(false);
+    }
+  });
+
+  it("should let admins delete anyone's files", () => {
+    expect(canAccessFile(as("admin"), "someone-else", "delete")).toBe(true);
+  });
+
+  describe("requirePermission", () => {
+    it("should pass a caller holding the permission", () => {
+      const req = mockRequest({ principal: as("clinician") }) as Request;
+      const next = mockNext();
+
+      requirePermission(mockLogger(), "storage:read:any")(req, mockResponse() as Response, next);
+
+      expect(next).toHaveBeenCalledWith();
+    });
+
+    it("should refuse with a 403 naming the missing permission", () => {
+      const req = mockRequest({ principal: as("patient") }) as Request;
+      const next = mockNext();
+
+      requirePermission(mockLogger(), "access:admin")(req, mockResponse() as Response, next);
+
+      expect(next).toHaveBeenCalledWith(expect.objectContaining({
+        statusCode: 403,
+        details: { missingPermission: "access:admin" },
+      }));
+    });
+
+    it("should refuse an unauthenticated request with a 401", () => {
+      const next = mockNext();
+
+      requirePermission(mockLogger(), "storage:upload")(mockRequest() as Request, mockResponse() as Response, next);
+
+      expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 401 }));
+    });
+  });
+});
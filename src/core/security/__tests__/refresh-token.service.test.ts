@@ -0,0 +1,104 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { RefreshTokenService } from "../refresh-token.service.js";
+import { FileRefreshTokenStore } from "../../stores/refresh-token.store.js";
+import { mockLogger } from "../../../test/mocks.js";
+import type { IPrincipal } from "../../interfaces/access.interface.js";
+
+const principal: IPrincipal = { userId: "a1b2c3d4e5f60718", userType: "patient" };
+
+describe("RefreshTokenService", () => {
+  let dir: string;
+  let store: FileRefreshTokenStore;
+  let service: RefreshTokenService;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "refresh-tokens-"));
+    store = new FileRefreshTokenStore(path.join(dir, "refresh-tokens.json"));
+    service = new RefreshTokenService(mockLogger(), store, 3600);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should store only a hash of the token", async () => {
+    const { token } = await service.issue(principal);
+
+    expect(fs.readFileSync(path.join(dir, "refresh-tokens.json"), "utf8")).not.toContain(token);
+  });
+
+  it("should rotate a token into a new one in the same family", async () => {
+    const first = await service.issue(principal);
+    const { principal: owner, refreshToken: second } = await service.rotate(first.token);
+
+    expect(owner).toEqual({ ...principal, sessionId: first.familyId });
+    expect(second.token).not.toBe(first.token);
+    expect(second.familyId).toBe(first.familyId);
+    await expect(service.rotate(second.token)).resolves.toBeDefined();
+  });
+
+  it("should revoke the whole family when a rotated token is presented again", async () => {
+    const first = await service.issue(principal);
+    const { refreshToken: second } = await service.rotate(first.token);
+
+    await expect(service.rotate(first.token)).rejects.toMatchObject({ statusCode: 401 });
+    await expect(service.rotate(second.token)).rejects.toMatchObject({ statusCode: 401 });
+  });
+
+  it("should tell the reuse handler which family was revoked, and still reject if it fails", async () => {
+    const reused: string[] = [];
+    service.setReuseHandler({
+      familyReused: async (familyId) => {
+        reused.push(familyId);
+        throw new Error("handler down");
+      },
+    });
+    const first = await service.issue(principal);
+    await service.rotate(first.token);
+
+    await expect(service.rotate(first.token)).rejects.toMatchObject({ statusCode: 401 });
+    expect(reused).toEqual([first.familyId]);
+  });
+
+  it("should treat a token presented again while it is being rotated as reuse", async () => {
+    const reused: string[] = [];
+    service.setReuseHandler({
+      familyReused: async (familyId) => {
+        reused.push(familyId);
+      },
+    });
+    const first = await service.issue(principal);
+
+    const results = await Promise.allSettled([service.rotate(first.token), service.rotate(first.token)]);
+
+    const rejected = results.filter((result) => result.status === "rejected");
+    expect(rejected).toHaveLength(1);
+    expect((rejected[0] as PromiseRejectedResult).reason).toMatchObject({ statusCode: 401 });
+    expect(reused).toEqual([first.familyId]);
+    // The winner's successor went down with the family
+    const winner = results.find((result) => result.status === "fulfilled");
+    const { refreshToken: second } = (winner as PromiseFulfilledResult<Awaited<ReturnType<RefreshTokenService["rotate"]>>>).value;
+    await expect(service.rotate(second.token)).rejects.toMatchObject({ statusCode: 401 });
+    expect((await store.listFamily(first.familyId)).every((record) => record.revokedAt)).toBe(true);
+  });
+
+  it("should leave other families alone on reuse", async () => {
+    const stolen = await service.issue(principal);
+    const otherDevice = await service.issue(principal);
+    await service.rotate(stolen.token);
+
+    await expect(service.rotate(stolen.token)).rejects.toMatchObject({ statusCode: 401 });
+    await expect(service.rotate(otherDevice.token)).resolves.toBeDefined();
+  });
+
+  it("should reject unknown and expired tokens and purge expired records", async () => {
+    const expiring = new RefreshTokenService(mockLogger(), store, -1);
+    const { token } = await expiring.issue(principal);
+
+    await expect(service.rotate("not-a-token-we-issued-xxxxxxxx")).rejects.toMatchObject({ statusCode: 401 });
+    await expect(service.rotate(token)).rejects.toMatchObject({ statusCode: 401, message: "Refresh token expired" });
+    await expect(service.purgeExpired()).resolves.toBe(1);
+  });
+});
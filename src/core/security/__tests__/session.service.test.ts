@@ -0,0 +1,101 @@
+import { jest } from "@jest/globals";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { SessionService } from "../session.service.js";
+import { TokenService } from "../token.service.js";
+import { RefreshTokenService } from "../refresh-token.service.js";
+import { FileRevocationStore, FileSessionStore } from "../../stores/session.store.js";
+import { FileRefreshTokenStore } from "../../stores/refresh-token.store.js";
+import { mockLogger } from "../../../test/mocks.js";
+import type { IPrincipal } from "../../interfaces/access.interface.js";
+
+const principal: IPrincipal = { userId: "a1b2c3d4e5f60718", userType: "patient" };
+
+describe("SessionService", () => {
+  let dir: string;
+  let sessions: SessionService;
+  let tokens: TokenService;
+  let refreshTokens: RefreshTokenService;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "sessions-"));
+    refreshTokens = new RefreshTokenService(mockLogger(), new FileRefreshTokenStore(path.join(dir, "refresh-tokens.json")), 3600);
+    sessions = new SessionService(
+      mockLogger(),
+      new FileSessionStore(path.join(dir, "sessions.json")),
+      new FileRevocationStore(path.join(dir, "revoked-tokens.json")),
+      refreshTokens
+    );
+    refreshTokens.setReuseHandler(sessions);
+    tokens = new TokenService(
+      mockLogger(),
+      { algorithm: "HS256", secret: "s".repeat(32), issuer: "test", audience: "test", ttlSeconds: 900, clockToleranceSeconds: 30 },
+      sessions
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should record a session for every token and list it as active", async () => {
+    const issued = await tokens.issue(principal);
+
+    await expect(tokens.verify(issued.token)).resolves.toMatchObject({ userId: principal.userId, sessionId: issued.sessionId });
+    await expect(sessions.listActive(principal.userId)).resolves.toEqual([
+      expect.objectContaining({ sessionId: issued.sessionId, userType: "patient" }),
+    ]);
+  });
+
+  it("should revoke every token of a killed session, and its refresh tokens", async () => {
+    const first = await tokens.issue(principal);
+    const second = await tokens.issue(principal, first.sessionId);
+    const refresh = await refreshTokens.issue({ ...principal, sessionId: first.sessionId });
+
+    await expect(sessions.revokeSession(first.sessionId)).resolves.toBe(true);
+
+    await expect(tokens.verify(first.token)).rejects.toMatchObject({ statusCode: 401, message: "Token revoked" });
+    await expect(tokens.verify(second.token)).rejects.toMatchObject({ statusCode: 401, message: "Token revoked" });
+    await expect(refreshTokens.rotate(refresh.token)).rejects.toMatchObject({ statusCode: 401 });
+    await expect(sessions.listActive(principal.userId)).resolves.toEqual([]);
+    await expect(sessions.revokeSession(first.sessionId)).resolves.toBe(false);
+  });
+
+  it("should revoke the session's access tokens when its refresh token is reused", async () => {
+    const issued = await tokens.issue(principal);
+    const refresh = await refreshTokens.issue({ ...principal, sessionId: issued.sessionId });
+    await refreshTokens.rotate(refresh.token);
+
+    await expect(refreshTokens.rotate(refresh.token)).rejects.toMatchObject({ statusCode: 401 });
+
+    await expect(tokens.verify(issued.token)).rejects.toMatchObject({ statusCode: 401, message: "Token revoked" });
+    await expect(sessions.listActive(principal.userId)).resolves.toEqual([]);
+  });
+
+  it("should leave other sessions alone, unless revoking them all", async () => {
+    const kept = await tokens.issue(principal);
+    const killed = await tokens.issue(principal);
+    const other = await tokens.issue({ userId: "ffffffffffffffff", userType: "provider" });
+
+    await sessions.revokeSession(killed.sessionId);
+    await expect(tokens.verify(kept.token)).resolves.toBeDefined();
+
+    await expect(sessions.revokeAll(principal.userId)).resolves.toBe(1);
+    await expect(tokens.verify(kept.token)).rejects.toMatchObject({ statusCode: 401 });
+    await expect(tokens.verify(other.token)).resolves.toBeDefined();
+  });
+
+  it("should purge sessions and revocations once their tokens have expired", async () => {
+    const issued = await tokens.issue(principal);
+    await sessions.revokeSession(issued.sessionId);
+
+    jest.useFakeTimers({ now: Date.now() + 2 * 3600 * 1000, doNotFake: ["setImmediate", "nextTick", "queueMicrotask"] });
+    try {
+      await expect(sessions.purgeExpired()).resolves.toBe(2);
+      await expect(sessions.isRevoked("anything")).resolves.toBe(false);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
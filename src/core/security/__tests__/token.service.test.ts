@@ -0,0 +1,102 @@
+import crypto from "crypto";
+import { TokenService } from "../token.service.js";
+import { mockLogger } from "../../../test/mocks.js";
+import type { TokenConfig } from "../../../config/index.js";
+import type { IPrincipal } from "../../interfaces/access.interface.js";
+
+const principal: IPrincipal = { userId: "a1b2c3d4e5f60718", userType: "provider" };
+
+function hsConfig(overrides: Partial<TokenConfig> = {}): TokenConfig {
+  return {
+    algorithm: "HS256",
+    secret: "s".repeat(32),
+    issuer: "soleo-spike-api",
+    audience: "soleo-spike-api",
+    ttlSeconds: 900,
+    clockToleranceSeconds: 30,
+    ...overrides,
+  };
+}
+
+function pemPair(type: "rsa" | "ec") {
+  const { privateKey, publicKey } =
+    type === "rsa"
+      ? crypto.generateKeyPairSync("rsa", { modulusLength: 2048 })
+      : crypto.generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+  return {
+    privateKey: privateKey.export({ type: "pkcs8", format: "pem" }) as string,
+    publicKey: publicKey.export({ type: "spki", format: "pem" }) as string,
+  };
+}
+
+describe("TokenService", () => {
+  it("should issue an HS256 token that verifies back to the principal", async () => {
+    const service = new TokenService(mockLogger(), hsConfig());
+
+    const issued = await service.issue(principal);
+    const claims = await service.verify(issued.token);
+
+    expect(claims).toMatchObject({ ...principal, jti: issued.jti, expiresAt: issued.expiresAt });
+    expect(claims.expiresAt.getTime() - claims.issuedAt.getTime()).toBe(900_000);
+  });
+
+  it.each(["RS256", "ES256"] as const)("should sign %s with the private key and verify with the public key", async (algorithm) => {
+    const keys = pemPair(algorithm === "RS256" ? "rsa" : "ec");
+    const signer = new TokenService(mockLogger(), hsConfig({ algorithm, secret: undefined, privateKey: keys.privateKey }));
+    const verifier = new TokenService(mockLogger(), hsConfig({ algorithm, secret: undefined, publicKey: keys.publicKey }));
+
+    const { token } = await signer.issue(principal);
+
+    await expect(verifier.verify(token)).resolves.toMatchObject(principal);
+    await expect(verifier.issue(principal)).rejects.toThrow("signing key not configured");
+  });
+
+  it("should refuse a key that does not suit the algorithm", () => {
+    const keys = pemPair("rsa");
+    expect(() => new TokenService(mockLogger(), hsConfig({ algorithm: "ES256", privateKey: keys.privateKey }))).toThrow("wrong type");
+  });
+
+  it("should reject expired tokens beyond the clock tolerance", async () => {
+    const service = new TokenService(mockLogger(), hsConfig({ ttlSeconds: -60, clockToleranceSeconds: 30 }));
+    const { token } = await service.issue(principal);
+
+    await expect(service.verify(token)).rejects.toMatchObject({ statusCode: 401, message: "Token expired" });
+  });
+
+  it("should accept tokens expired within the clock tolerance", async () => {
+    const service = new TokenService(mockLogger(), hsConfig({ ttlSeconds: -10, clockToleranceSeconds: 30 }));
+    const { token } = await service.issue(principal);
+
+    await expect(service.verify(token)).resolves.toMatchObject(principal);
+  });
+
+  it("should reject a tampered payload", async () => {
+    const service = new TokenService(mockLogger(), hsConfig());
+    const [header, payload, signature] = (await service.issue(principal)).token.split(".");
+    const claims = JSON.parse(Buffer.from(payload!, "base64url").toString());
+    const forged = Buffer.from(JSON.stringify({ ...claims, userType: "admin" })).toString("base64url");
+
+    await expect(service.verify(`${header}.${forged}.${signature}`)).rejects.toMatchObject({ statusCode: 401, message: "Invalid token" });
+  });
+
+  it("should reject an unsigned token", async () => {
+    const service = new TokenService(mockLogger(), hsConfig());
+    const payload = (await service.issue(principal)).token.split(".")[1];
+    const header = Buffer.from(JSON.stringify({ alg: "none", typ: "JWT" })).toString("base64url");
+
+    await expect(service.verify(`${header}.${payload}.`)).rejects.toMatchObject({ statusCode: 401 });
+  });
+
+  it("should reject tokens for another audience or issuer, or signed with another secret", async () => {
+    const service = new TokenService(mockLogger(), hsConfig());
+
+    const otherAudience = await new TokenService(mockLogger(), hsConfig({ audience: "other-api" })).issue(principal);
+    const otherIssuer = await new TokenService(mockLogger(), hsConfig({ issuer: "other-issuer" })).issue(principal);
+    const otherSecret = await new TokenService(mockLogger(), hsConfig({ secret: "t".repeat(32) })).issue(principal);
+
+    await expect(service.verify(otherAudience.token)).rejects.toMatchObject({ statusCode: 401 });
+    await expect(service.verify(otherIssuer.token)).rejects.toMatchObject({ statusCode: 401 });
+    await expect(service.verify(otherSecret.token)).rejects.toMatchObject({ statusCode: 401 });
+    await expect(service.verify("not-a-jwt")).rejects.toMatchObject({ statusCode: 401 });
+  });
+});
@@ -0,0 +1,31 @@
+import type { IPrincipal } from "../interfaces/access.interface.js";
+import { hasPermission } from "./rbac.policy.js";
+
+/**
+ * Who may do what with a stored file, in terms of the RBAC policy:
+ *    read   - own files with storage:read:own, anyone's with storage:read:any
+ *    delete - own files with storage:delete, anyone's with storage:delete:any
+ */
+export type FileAction = "read" | "delete";
+
+/**
+ * @param principal - the caller
+ * @param ownerId - owner recorded in the file's catalog entry
+ * @param action
+ * @returns whether the caller may perform action on the file
+ */
+export function canAccessFile(principal: IPrincipal, ownerId: string, action: FileAction): boolean {
+  const own = principal.userId === ownerId;
+  if (action === "read") {
+    return hasPermission(principal, "storage:read:any") || (own && hasPermission(principal, "storage:read:own"));
+  }
+  return hasPermission(principal, "storage:delete:any") || (own && hasPermission(principal, "storage:delete"));
+}
+
+/**
+ * Whether the caller may list files belonging to other users
+ * @param principal
+ */
+export function canListAllFiles(principal: IPrincipal): boolean {
+  return hasPermission(principal, "storage:read:any");
+}
@@ -0,0 +1,45 @@
+import type { ILockoutNotifier, ILoginFailureRecord } from "../interfaces/lockout.interface.js";
+import type { ILogger } from "../interfaces/logger.interface.js";
+import type { INotifier } from "../interfaces/notifier.interface.js";
+import type { IUserStore } from "../interfaces/user.interface.js";
+
+/**
+ * Emails the owner of a locked account, so someone guessing their password does not go
+ * unnoticed.  Lockouts of usernames with no account, or no email address, send nothing.
+ */
+export class EmailLockoutNotifier implements ILockoutNotifier {
+  private logger: ILogger;
+  private users: IUserStore;
+  private notifier: INotifier;
+
+  /**
+   * @param logger - Logger instance
+   * @param users - Where the account's email address is looked up
+   * @param notifier - How the email is sent
+   */
+  constructor(logger: ILogger, users: IUserStore, notifier: INotifier) {
+    this.logger = logger;
+    this.users = users;
+    this.notifier = notifier;
+  }
+
+  async accountLocked(record: ILoginFailureRecord): Promise<void> {
+    const user = await this.users.findByUsername(record.username);
+    if (!user?.email || user.disabled) {
+      return;
+    }
+
+    await this.notifier.send({
+      to: user.email,
+      subject: "Your account has been locked",
+      text: [
+        `Hello ${user.username},`,
+        "",
+        `There were ${record.failures} failed attempts to log in to your account, so logins are blocked until ${record.lockedUntil}.`,
+        "",
+        "If that was not you, someone may be trying to guess your password; consider resetting it.",
+      ].join("\n"),
+    });
+    this.logger.info(`EmailLockoutNotifier told ${user.id} about a lockout`);
+  }
+}
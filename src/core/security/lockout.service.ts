@@ -0,0 +1,134 @@
+import type { ILogger } from "../interfaces/logger.interface.js";
+import type {
+  ILockoutNotifier,
+  ILockoutPolicy,
+  ILockoutService,
+  ILoginFailureRecord,
+  ILoginFailureStore,
+} from "../interfaces/lockout.interface.js";
+import { accessConfig } from "../../config/index.js";
+import { HttpError, toError } from "../utilities/error.utility.js";
+import { startPeriodic } from "../utilities/timer.utility.js";
+
+/**
+ * Per-account defence against password guessing that the IP-based rate limiter cannot
+ * give: after each failed login the username must wait before the next attempt, twice
+ * as long each time, and after maxFailures in a row it is locked for lockoutSeconds.
+ * Unknown usernames are throttled exactly like real ones, and a locked account gets
+ * the same 429 as one that is only backing off, so responses reveal nothing.
+ */
+export class LockoutService implements ILockoutService {
+  private logger: ILogger;
+  private store: ILoginFailureStore;
+  private policy: ILockoutPolicy;
+  private notifier: ILockoutNotifier | undefined;
+
+  /**
+   * @param logger - Logger instance
+   * @param store - Where failures are counted
+   * @param policy - Thresholds and delays
+   * @param notifier - Told about each lockout
+   */
+  constructor(
+    logger: ILogger,
+    store: ILoginFailureStore,
+    policy: ILockoutPolicy = accessConfig.lockout,
+    notifier?: ILockoutNotifier
+  ) {
+    this.logger = logger;
+    this.store = store;
+    this.policy = policy;
+    this.notifier = notifier;
+  }
+
+  async assertCanAttempt(username: string): Promise<void> {
+    const record = await this.store.get(username.toLowerCase());
+    if (!record) {
+      return;
+    }
+
+    const now = Date.now();
+    const until = Math.max(
+      record.lockedUntil ? new Date(record.lockedUntil).getTime() : 0,
+      this.isStale(record, now) ? 0 : new Date(record.lastFailureAt).getTime() + this.backoffMs(record.failures)
+    );
+    if (now < until) {
+      this.logger.warn(`LockoutService refused a login for ${record.username}: ${record.failures} failures`);
+      throw new HttpError(429, "Too many failed login attempts; try again later", {
+        retryAfter: Math.ceil((until - now) / 1000),
+      });
+    }
+  }
+
+  async recordFailure(username: string): Promise<void> {
+    const key = username.toLowerCase();
+    const now = new Date();
+    const existing = await this.store.get(key);
+
+    const record: ILoginFailureRecord =
+      existing && !this.isStale(existing, now.getTime())
+        ? { ...existing, failures: existing.failures + 1, lastFailureAt: now.toISOString() }
+        : { username: key, failures: 1, firstFailureAt: now.toISOString(), lastFailureAt: now.toISOString() };
+
+    const locked = record.lockedUntil !== undefined && new Date(record.lockedUntil) > now;
+    if (record.failures >= this.policy.maxFailures && !locked) {
+      record.lockedUntil = new Date(now.getTime() + this.policy.lockoutSeconds * 1000).toISOString();
+      this.logger.warn(`LockoutService locked ${key} until ${record.lockedUntil} after ${record.failures} failed logins`);
+      await this.store.save(record);
+      await this.notifier?.accountLocked(record).catch((error: unknown) => {
+        this.logger.error(`LockoutService notifier failed for ${key}:`, toError(error).message);
+      });
+      return;
+    }
+    await this.store.save(record);
+  }
+
+  async recordSuccess(username: string): Promise<void> {
+    const key = username.toLowerCase();
+    if (await this.store.get(key)) {
+      await this.store.delete(key);
+    }
+  }
+
+  async unlock(username: string): Promise<boolean> {
+    const key = username.toLowerCase();
+    if (!(await this.store.get(key))) {
+      return false;
+    }
+    await this.store.delete(key);
+    this.logger.info(`LockoutService unlocked ${key}`);
+    return true;
+  }
+
+  /**
+   * Delete records that no longer throttle anything
+   * @returns how many were deleted
+   */
+  async purgeExpired(): Promise<number> {
+    const now = Date.now();
+    const expired = (await this.store.list()).filter(
+      (record) => this.isStale(record, now) && (!record.lockedUntil || new Date(record.lockedUntil).getTime() <= now)
+    );
+    for (const record of expired) {
+      await this.store.delete(record.username);
+    }
+    return expired.length;
+  }
+
+  /**
+   * Periodically purge expired records
+   * @param intervalMs
+   * @returns the timer, so callers can stop it
+   */
+  startGarbageCollector(intervalMs: number = accessConfig.lockout.gcIntervalMs): NodeJS.Timeout {
+    return startPeriodic(this.logger, "LockoutService.purgeExpired", () => this.purgeExpired(), intervalMs);
+  }
+
+  private backoffMs(failures: number): number {
+    return Math.min(this.policy.backoffBaseMs * 2 ** (failures - 1), this.policy.backoffMaxMs);
+  }
+
+  private isStale(record: ILoginFailureRecord, now: number): boolean {
+    return new Date(record.lastFailureAt).getTime() + this.policy.failureWindowSeconds * 1000 < now;
+  }
+}
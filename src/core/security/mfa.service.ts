@@ -0,0 +1,233 @@
+import crypto from "crypto";
+import type { IPrincipal } from "../interfaces/access.interface.js";
+import type { ILogger } from "../interfaces/logger.interface.js";
+import type {
+  IMfaChallenge,
+  IMfaPolicy,
+  IMfaRecord,
+  IMfaService,
+  IMfaStore,
+} from "../interfaces/mfa.interface.js";
+import type {
+  IMfaChallengeResponse,
+  IMfaEnrollmentResponse,
+} from "../../api/v1/interfaces/access.response.interface.js";
+import { accessConfig } from "../../config/index.js";
+import { HttpError } from "../utilities/error.utility.js";
+import { generateTotpSecret, matchTotp, totpUri } from "../utilities/totp.utility.js";
+
+/**
+ * TOTP (RFC 6238) second factor.  A login whose password was accepted gets a short-lived
+ * challenge instead of a token; the challenge and a code from the user's authenticator
+ * app (or one of their one-time recovery codes) complete it.  Challenges are held in
+ * memory, keyed by their hash, and die after challengeTtlSeconds or maxAttempts wrong
+ * codes.  Each TOTP code is accepted once; recovery codes are stored hashed and burnt
+ * on use.
+ */
+export class MfaService implements IMfaService {
+  private logger: ILogger;
+  private store: IMfaStore;
+  private policy: IMfaPolicy;
+  private challenges = new Map<string, IMfaChallenge>();
+
+  /**
+   * @param logger - Logger instance
+   * @param store - Where enrolments are kept
+   * @param policy - Issuer name, which roles must use MFA, challenge limits
+   */
+  constructor(logger: ILogger, store: IMfaStore, policy: IMfaPolicy = accessConfig.mfa) {
+    this.logger = logger;
+    this.store = store;
+    this.policy = policy;
+  }
+
+  async isRequired(principal: IPrincipal): Promise<boolean> {
+    return (
+      this.policy.requiredRoles.includes(principal.userType) ||
+      (await this.store.get(principal.userId))?.enabled === true
+    );
+  }
+
+  async createChallenge(principal: IPrincipal, username: string): Promise<IMfaChallengeResponse> {
+    this.purgeExpired();
+
+    const challengeToken = crypto.randomBytes(32).toString("base64url");
+    const challenge: IMfaChallenge = {
+      principal,
+      username,
+      expiresAt: Date.now() + this.policy.challengeTtlSeconds * 1000,
+      attempts: 0,
+    };
+    const response: IMfaChallengeResponse = {
+      success: true,
+      mfaRequired: true,
+      challengeToken,
+      expiresAt: new Date(challenge.expiresAt).toISOString(),
+    };
+
+    if ((await this.store.get(principal.userId))?.enabled !== true) {
+      // The role requires MFA but the user has none yet: enrol as part of this login
+      challenge.pendingSecret = generateTotpSecret();
+      response.enrollment = this.enrollmentFor(challenge.pendingSecret, username);
+      this.logger.info(`MfaService: ${principal.userId} must enrol in MFA to log in as ${principal.userType}`);
+    }
+    this.challenges.set(hash(challengeToken), challenge);
+    return response;
+  }
+
+  async getChallenge(challengeToken: string): Promise<IMfaChallenge> {
+    const challenge = this.challenges.get(hash(challengeToken));
+    if (!challenge || challenge.expiresAt <= Date.now()) {
+      this.challenges.delete(hash(challengeToken));
+      throw new HttpError(401, "MFA challenge is invalid or has expired; log in again");
+    }
+    return challenge;
+  }
+
+  async verifyChallenge(
+    challengeToken: string,
+    code: string
+  ): Promise<{ principal: IPrincipal; recoveryCodes?: string[] }> {
+    const challenge = await this.getChallenge(challengeToken);
+    const { principal } = challenge;
+
+    if (challenge.pendingSecret) {
+      const step = matchTotp(challenge.pendingSecret, code);
+      if (step === undefined) {
+        this.failAttempt(challengeToken, challenge);
+      }
+      this.challenges.delete(hash(challengeToken));
+      const recoveryCodes = await this.enable(principal.userId, challenge.pendingSecret, step);
+      return { principal, recoveryCodes };
+    }
+
+    const record = await this.store.get(principal.userId);
+    if (!record?.enabled || !(await this.consumeCode(record, code))) {
+      this.failAttempt(challengeToken, challenge);
+    }
+    this.challenges.delete(hash(challengeToken));
+    return { principal };
+  }
+
+  async beginEnrollment(principal: IPrincipal): Promise<IMfaEnrollmentResponse> {
+    const existing = await this.store.get(principal.userId);
+    if (existing?.enabled) {
+      throw new HttpError(409, "MFA is already enabled for this account");
+    }
+
+    const now = new Date().toISOString();
+    const secret = generateTotpSecret();
+    await this.store.save({
+      userId: principal.userId,
+      secret,
+      enabled: false,
+      recoveryCodeHashes: [],
+      createdAt: now,
+      updatedAt: now,
+    });
+    return this.enrollmentFor(secret, principal.userId);
+  }
+
+  async confirmEnrollment(principal: IPrincipal, code: string): Promise<string[]> {
+    const record = await this.store.get(principal.userId);
+    if (!record || record.enabled) {
+      throw new HttpError(400, "There is no MFA enrolment to confirm");
+    }
+    const step = matchTotp(record.secret, code);
+    if (step === undefined) {
+      throw new HttpError(401, "Invalid MFA code");
+    }
+    return this.enable(principal.userId, record.secret, step);
+  }
+
+  async reset(userId: string): Promise<boolean> {
+    if (!(await this.store.get(userId))) {
+      return false;
+    }
+    await this.store.delete(userId);
+    this.logger.info(`MfaService: MFA reset for ${userId}`);
+    return true;
+  }
+
+  /**
+   * Save a confirmed enrolment with a fresh set of recovery codes
+   * @returns the recovery codes, in the clear - the only time they are
+   */
+  private async enable(userId: string, secret: string, step: number | undefined): Promise<string[]> {
+    const recoveryCodes = Array.from({ length: this.policy.recoveryCodes }, newRecoveryCode);
+    const now = new Date().toISOString();
+    const existing = await this.store.get(userId);
+    await this.store.save({
+      userId,
+      secret,
+      enabled: true,
+      recoveryCodeHashes: recoveryCodes.map((recoveryCode) => hash(normaliseRecoveryCode(recoveryCode))),
+      lastUsedStep: step,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    });
+    this.logger.info(`MfaService: MFA enabled for ${userId}`);
+    return recoveryCodes;
+  }
+
+  /**
+   * Accept a TOTP code not used before, or burn a recovery code.  The store marks either
+   * used in one step, so two requests carrying the same code cannot both get in.
+   */
+  private async consumeCode(record: IMfaRecord, code: string): Promise<boolean> {
+    const step = matchTotp(record.secret, code);
+    if (step !== undefined) {
+      if (!(await this.store.useStep(record.userId, step))) {
+        this.logger.warn(`MfaService refused a replayed TOTP code for ${record.userId}`);
+        return false;
+      }
+      return true;
+    }
+
+    const left = await this.store.takeRecoveryCode(record.userId, hash(normaliseRecoveryCode(code)));
+    if (left === undefined) {
+      return false;
+    }
+    this.logger.warn(`MfaService: ${record.userId} used a recovery code; ${left} left`);
+    return true;
+  }
+
+  /**
+   * @throws {HttpError} 401 always; the challenge is dropped once maxAttempts is reached
+   */
+  private failAttempt(challengeToken: string, challenge: IMfaChallenge): never {
+    challenge.attempts += 1;
+    if (challenge.attempts >= this.policy.maxAttempts) {
+      this.challenges.delete(hash(challengeToken));
+      this.logger.warn(`MfaService dropped a challenge for ${challenge.principal.userId} after ${challenge.attempts} wrong codes`);
+    }
+    throw new HttpError(401, "Invalid MFA code");
+  }
+
+  private enrollmentFor(secret: string, account: string): IMfaEnrollmentResponse {
+    return { secret, otpauthUri: totpUri(secret, this.policy.issuer, account) };
+  }
+
+  private purgeExpired(): void {
+    const now = Date.now();
+    for (const [key, challenge] of this.challenges) {
+      if (challenge.expiresAt <= now) {
+        this.challenges.delete(key);
+      }
+    }
+  }
+}
+
+// xxxx-xxxx-xxxx-xxxx, 64 random bits
+function newRecoveryCode(): string {
+  return crypto.randomBytes(8).toString("hex").match(/.{4}/g)!.join("-");
+}
+
+// Users retype these, so ignore case, spaces and dashes
+function normaliseRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[\s-]/g, "");
+}
+
+function hash(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex");
+}
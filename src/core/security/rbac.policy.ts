@@ -0,0 +1,15 @@
+import { getRbacPolicy, type Permission } from "../../config/index.js";
+import type { IPrincipal } from "../interfaces/access.interface.js";
+
+/**
+ * Whether the caller's role grants a permission under the RBAC policy (see rbac.config),
+ * and the caller's scopes, where it has them, include it
+ * @param principal - the caller
+ * @param permission
+ */
+export function hasPermission(principal: IPrincipal, permission: Permission): boolean {
+  return (
+    getRbacPolicy()[principal.userType].includes(permission) &&
+    (principal.scopes === undefined || principal.scopes.includes(permission))
+  );
+}
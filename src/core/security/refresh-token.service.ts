@@ -0,0 +1,142 @@
+import crypto from "crypto";
+import type { IPrincipal } from "../interfaces/access.interface.js";
+import type { ILogger } from "../interfaces/logger.interface.js";
+import type {
+  IIssuedRefreshToken,
+  IRefreshTokenRecord,
+  IRefreshTokenReuseHandler,
+  IRefreshTokenService,
+  IRefreshTokenStore,
+} from "../interfaces/refresh-token.interface.js";
+import { accessConfig } from "../../config/index.js";
+import { HttpError, toError } from "../utilities/error.utility.js";
+import { startPeriodic } from "../utilities/timer.utility.js";
+
+/**
+ * Opaque, single-use refresh tokens with rotation and reuse detection.  Each use hands
+ * back a successor in the same family; if an already rotated token is presented again
+ * it has been copied, so every token in the family is revoked and the holder (whoever
+ * it is) must log in again.  The reuse handler (the session service) then revokes the
+ * access tokens already issued to that session.
+ */
+export class RefreshTokenService implements IRefreshTokenService {
+  private logger: ILogger;
+  private store: IRefreshTokenStore;
+  private ttlSeconds: number;
+  private reuseHandler: IRefreshTokenReuseHandler | undefined;
+
+  /**
+   * @param logger - Logger instance
+   * @param store - Where token records (hashed) are kept
+   * @param ttlSeconds - Lifetime of each token; rotation starts a new one
+   */
+  constructor(logger: ILogger, store: IRefreshTokenStore, ttlSeconds: number = accessConfig.refresh.ttlSeconds) {
+    this.logger = logger;
+    this.store = store;
+    this.ttlSeconds = ttlSeconds;
+  }
+
+  /**
+   * Set who is told when a family is revoked for reuse.  Not a constructor argument
+   * because the session service, which handles it, is itself built with this service.
+   * @param handler
+   */
+  setReuseHandler(handler: IRefreshTokenReuseHandler): void {
+    this.reuseHandler = handler;
+  }
+
+  async issue(principal: IPrincipal, familyId?: string): Promise<IIssuedRefreshToken> {
+    return this.mint(principal, familyId ?? principal.sessionId ?? crypto.randomUUID());
+  }
+
+  async rotate(token: string): Promise<{ principal: IPrincipal; refreshToken: IIssuedRefreshToken }> {
+    const id = hashToken(token);
+    const record = await this.store.get(id);
+    if (!record || record.revokedAt) {
+      throw new HttpError(401, "Invalid refresh token");
+    }
+    if (record.replacedBy) {
+      return this.reused(record);
+    }
+    if (new Date(record.expiresAt).getTime() < Date.now()) {
+      throw new HttpError(401, "Refresh token expired");
+    }
+
+    // The successor is saved before the token is claimed, so that if a concurrent
+    // presentation wins the claim, the family revoked below already includes it
+    const principal: IPrincipal = { userId: record.userId, userType: record.userType, sessionId: record.familyId };
+    const refreshToken = await this.mint(principal, record.familyId);
+    if (!(await this.store.markReplaced(id, hashToken(refreshToken.token)))) {
+      return this.reused(record);
+    }
+    return { principal, refreshToken };
+  }
+
+  async revokeFamily(familyId: string): Promise<void> {
+    const revokedAt = new Date().toISOString();
+    for (const record of await this.store.listFamily(familyId)) {
+      if (!record.revokedAt) {
+        await this.store.save({ ...record, revokedAt });
+      }
+    }
+  }
+
+  /**
+   * Delete expired token records
+   * @returns how many were deleted
+   */
+  async purgeExpired(): Promise<number> {
+    const expired = await this.store.listExpired(new Date());
+    for (const record of expired) {
+      await this.store.delete(record.id);
+    }
+    if (expired.length > 0) {
+      this.logger.info(`RefreshTokenService purged ${expired.length} expired refresh tokens`);
+    }
+    return expired.length;
+  }
+
+  /**
+   * Periodically purge expired tokens
+   * @param intervalMs
+   * @returns the timer, so callers can stop it
+   */
+  startGarbageCollector(intervalMs: number = accessConfig.refresh.gcIntervalMs): NodeJS.Timeout {
+    return startPeriodic(this.logger, "RefreshTokenService.purgeExpired", () => this.purgeExpired(), intervalMs);
+  }
+
+  /**
+   * A token was presented after it had been (or while it was being) rotated: take its
+   * family and the session's access tokens down
+   * @throws {HttpError} 401, always
+   */
+  private async reused(record: IRefreshTokenRecord): Promise<never> {
+    this.logger.warn(`Refresh token reuse detected for user ${record.userId}; revoking family ${record.familyId}`);
+    await this.revokeFamily(record.familyId);
+    await this.reuseHandler?.familyReused(record.familyId).catch((error: unknown) => {
+      this.logger.error(`RefreshTokenService reuse handler failed for family ${record.familyId}:`, toError(error).message);
+    });
+    throw new HttpError(401, "Invalid refresh token");
+  }
+
+  private async mint(principal: IPrincipal, familyId: string): Promise<IIssuedRefreshToken> {
+    const token = crypto.randomBytes(32).toString("base64url");
+    const now = Date.now();
+    const expiresAt = new Date(now + this.ttlSeconds * 1000);
+
+    const record: IRefreshTokenRecord = {
+      id: hashToken(token),
+      familyId,
+      userId: principal.userId,
+      userType: principal.userType,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: expiresAt.toISOString(),
+    };
+    await this.store.save(record);
+    return { token, familyId, expiresAt };
+  }
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
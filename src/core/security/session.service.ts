@@ -0,0 +1,182 @@
+import type { ILogger } from "../interfaces/logger.interface.js";
+import type { IRefreshTokenReuseHandler, IRefreshTokenService } from "../interfaces/refresh-token.interface.js";
+import type {
+  IRevocationStore,
+  ISession,
+  ISessionService,
+  ISessionStore,
+  ISessionSummary,
+} from "../interfaces/session.interface.js";
+import type { ITokenClaims, ITokenRegistry } from "../interfaces/token.interface.js";
+import { accessConfig } from "../../config/index.js";
+import { startPeriodic } from "../utilities/timer.utility.js";
+
+// Keep revocations past their token's expiry, so they outlast any verifier clock tolerance
+const REVOCATION_GRACE_MS = 5 * 60 * 1000;
+
+/**
+ * Server-side sessions for the tokens this API issues.  Every access token is recorded
+ * against its session as it is signed; revoking a session puts its live tokens on the
+ * revocation list (keyed on jti, which the token service checks on every verify) and
+ * revokes its refresh token family.  A replayed refresh token revokes its session the
+ * same way.
+ */
+export class SessionService implements ISessionService, ITokenRegistry, IRefreshTokenReuseHandler {
+  private logger: ILogger;
+  private sessions: ISessionStore;
+  private revocations: IRevocationStore;
+  private refreshTokens: IRefreshTokenService | undefined;
+
+  /**
+   * @param logger - Logger instance
+   * @param sessions - Where sessions are kept
+   * @param revocations - The revocation list
+   * @param refreshTokens - Refresh token service, whose families share their session's id
+   */
+  constructor(
+    logger: ILogger,
+    sessions: ISessionStore,
+    revocations: IRevocationStore,
+    refreshTokens?: IRefreshTokenService
+  ) {
+    this.logger = logger;
+    this.sessions = sessions;
+    this.revocations = revocations;
+    this.refreshTokens = refreshTokens;
+  }
+
+  async registerToken(claims: ITokenClaims): Promise<void> {
+    const now = new Date();
+    const existing = await this.sessions.get(claims.sessionId);
+    const session: ISession = existing ?? {
+      id: claims.sessionId,
+      userId: claims.userId,
+      userType: claims.userType,
+      createdAt: now.toISOString(),
+      lastActiveAt: now.toISOString(),
+      expiresAt: claims.expiresAt.toISOString(),
+      tokens: [],
+    };
+
+    session.tokens = session.tokens.filter((token) => new Date(token.expiresAt) > now);
+    session.tokens.push({ jti: claims.jti, expiresAt: claims.expiresAt.toISOString() });
+    session.userType = claims.userType;
+    session.lastActiveAt = now.toISOString();
+    session.expiresAt = latest(session.expiresAt, claims.expiresAt).toISOString();
+    await this.sessions.save(session);
+
+    // Should never happen (its refresh tokens went with it), but never hand out a live token for a dead session
+    if (session.revokedAt) {
+      this.logger.warn(`SessionService: token ${claims.jti} issued for revoked session ${session.id}`);
+      await this.revokeTokens(session, session.revokedAt);
+    }
+  }
+
+  async isRevoked(jti: string): Promise<boolean> {
+    return (await this.revocations.get(jti)) !== undefined;
+  }
+
+  async extend(sessionId: string, until: Date): Promise<void> {
+    const session = await this.sessions.get(sessionId);
+    if (session) {
+      await this.sessions.save({ ...session, expiresAt: latest(session.expiresAt, until).toISOString() });
+    }
+  }
+
+  async listActive(userId: string): Promise<ISessionSummary[]> {
+    const now = Date.now();
+    return (await this.sessions.listByUser(userId))
+      .filter((session) => !session.revokedAt && new Date(session.expiresAt).getTime() > now)
+      .sort((a, b) => b.lastActiveAt.localeCompare(a.lastActiveAt))
+      .map((session) => ({
+        sessionId: session.id,
+        userId: session.userId,
+        userType: session.userType,
+        createdAt: session.createdAt,
+        lastActiveAt: session.lastActiveAt,
+        expiresAt: session.expiresAt,
+      }));
+  }
+
+  async revokeSession(sessionId: string): Promise<boolean> {
+    const session = await this.sessions.get(sessionId);
+    if (!session || session.revokedAt) {
+      return false;
+    }
+
+    const revokedAt = new Date().toISOString();
+    await this.revokeTokens(session, revokedAt);
+    await this.sessions.save({ ...session, revokedAt });
+    await this.refreshTokens?.revokeFamily(session.id);
+
+    this.logger.info(`SessionService revoked session ${session.id} of user ${session.userId}`);
+    return true;
+  }
+
+  async familyReused(familyId: string): Promise<void> {
+    // A family is its session; revoking the session covers the access tokens it issued
+    if (await this.revokeSession(familyId)) {
+      this.logger.warn(`SessionService revoked session ${familyId} after refresh token reuse`);
+    }
+  }
+
+  async revokeAll(userId: string): Promise<number> {
+    let revoked = 0;
+    for (const session of await this.sessions.listByUser(userId)) {
+      if (await this.revokeSession(session.id)) {
+        revoked++;
+      }
+    }
+    return revoked;
+  }
+
+  /**
+   * Delete sessions and revocation entries that have outlived their tokens
+   * @returns how many records were deleted
+   */
+  async purgeExpired(): Promise<number> {
+    const now = new Date();
+    const sessions = await this.sessions.listExpired(now);
+    const revoked = await this.revocations.listExpired(new Date(now.getTime() - REVOCATION_GRACE_MS));
+    for (const session of sessions) {
+      await this.sessions.delete(session.id);
+    }
+    for (const entry of revoked) {
+      await this.revocations.delete(entry.jti);
+    }
+
+    const purged = sessions.length + revoked.length;
+    if (purged > 0) {
+      this.logger.info(`SessionService purged ${sessions.length} sessions and ${revoked.length} revocations`);
+    }
+    return purged;
+  }
+
+  /**
+   * Periodically purge expired records
+   * @param intervalMs
+   * @returns the timer, so callers can stop it
+   */
+  startGarbageCollector(intervalMs: number = accessConfig.sessions.gcIntervalMs): NodeJS.Timeout {
+    return startPeriodic(this.logger, "SessionService.purgeExpired", () => this.purgeExpired(), intervalMs);
+  }
+
+  private async revokeTokens(session: ISession, revokedAt: string): Promise<void> {
+    const now = new Date();
+    for (const token of session.tokens) {
+      if (new Date(token.expiresAt) > now) {
+        await this.revocations.save({
+          jti: token.jti,
+          sessionId: session.id,
+          userId: session.userId,
+          revokedAt,
+          expiresAt: token.expiresAt,
+        });
+      }
+    }
+  }
+}
+
+function latest(iso: string, date: Date): Date {
+  return new Date(Math.max(new Date(iso).getTime(), date.getTime()));
+}
@@ -0,0 +1,162 @@
+import crypto from "crypto";
+import { SignJWT, errors, jwtVerify, type KeyInput } from "jose";
+import { PERMISSIONS, USER_TYPES, type Permission, type TokenConfig } from "../../config/index.js";
+import type { IPrincipal, UserType } from "../interfaces/access.interface.js";
+import type { ILogger } from "../interfaces/logger.interface.js";
+import type {
+  IIssuedToken,
+  ITokenClaims,
+  ITokenRegistry,
+  ITokenService,
+} from "../interfaces/token.interface.js";
+import { HttpError } from "../utilities/error.utility.js";
+
+/**
+ * Issues and verifies signed JWT access tokens carrying sub, userType, sid, iss, aud,
+ * iat, exp and jti, plus cid and scope for API clients.  Verification pins the configured algorithm, so a token signed any
+ * other way (including "none") is rejected, and consults the registry (when given) so
+ * revoked tokens are refused by every caller - authenticate and route guards alike.
+ */
+export class TokenService implements ITokenService {
+  private logger: ILogger;
+  private config: TokenConfig;
+  private registry: ITokenRegistry | undefined;
+  private signingKey: KeyInput | undefined;
+  private verificationKey: KeyInput;
+
+  /**
+   * @param logger - Logger instance
+   * @param config - Token configuration (see getTokenConfig)
+   * @param registry - Session registry and revocation list; omit for stateless tokens
+   * @throws {Error} If the configured keys are missing or do not suit the algorithm
+   */
+  constructor(logger: ILogger, config: TokenConfig, registry?: ITokenRegistry) {
+    this.logger = logger;
+    this.config = config;
+    this.registry = registry;
+
+    if (config.algorithm === "HS256") {
+      if (!config.secret) {
+        throw new Error("HS256 needs a secret");
+      }
+      this.signingKey = new TextEncoder().encode(config.secret);
+      this.verificationKey = this.signingKey;
+      return;
+    }
+
+    const privateKey = config.privateKey ? crypto.createPrivateKey(config.privateKey) : undefined;
+    const publicKey = config.publicKey
+      ? crypto.createPublicKey(config.publicKey)
+      : privateKey && crypto.createPublicKey(privateKey);
+    if (!publicKey) {
+      throw new Error(`${config.algorithm} needs a private or public key`);
+    }
+    this.checkKeyType(publicKey);
+    this.signingKey = privateKey;
+    this.verificationKey = publicKey;
+  }
+
+  async issue(principal: IPrincipal, sessionId?: string): Promise<IIssuedToken> {
+    if (!this.signingKey) {
+      throw new Error("Token signing key not configured");
+    }
+
+    const jti = crypto.randomUUID();
+    const sid = sessionId ?? crypto.randomUUID();
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const expiresAt = issuedAt + this.config.ttlSeconds;
+
+    const claims: Record<string, string> = { userType: principal.userType, sid };
+    if (principal.clientId) {
+      claims["cid"] = principal.clientId;
+    }
+    if (principal.scopes) {
+      claims["scope"] = principal.scopes.join(" "); // OAuth 2.0 style, space separated
+    }
+    const token = await new SignJWT(claims)
+      .setProtectedHeader({ alg: this.config.algorithm, typ: "JWT" })
+      .setSubject(principal.userId)
+      .setIssuer(this.config.issuer)
+      .setAudience(this.config.audience)
+      .setIssuedAt(issuedAt)
+      .setExpirationTime(expiresAt)
+      .setJti(jti)
+      .sign(this.signingKey);
+
+    const issued: IIssuedToken = { token, jti, sessionId: sid, expiresAt: new Date(expiresAt * 1000) };
+    await this.registry?.registerToken({
+      userId: principal.userId,
+      userType: principal.userType,
+      clientId: principal.clientId,
+      scopes: principal.scopes,
+      jti,
+      sessionId: sid,
+      issuedAt: new Date(issuedAt * 1000),
+      expiresAt: issued.expiresAt,
+    });
+    return issued;
+  }
+
+  async verify(token: string): Promise<ITokenClaims> {
+    let payload;
+    try {
+      ({ payload } = await jwtVerify(token, this.verificationKey, {
+        algorithms: [this.config.algorithm],
+        issuer: this.config.issuer,
+        audience: this.config.audience,
+        clockTolerance: this.config.clockToleranceSeconds,
+        requiredClaims: ["sub", "iat", "exp", "jti"],
+      }));
+    } catch (error: unknown) {
+      if (error instanceof errors.JWTExpired) {
+        throw new HttpError(401, "Token expired");
+      }
+      if (error instanceof errors.JOSEError) {
+        this.logger.warn(`Rejected access token: ${error.code} ${error.message}`);
+        throw new HttpError(401, "Invalid token");
+      }
+      throw error;
+    }
+
+    const userType = payload["userType"];
+    const sid = payload["sid"];
+    const cid = payload["cid"];
+    const scope = payload["scope"];
+    const scopes = typeof scope === "string" ? scope.split(" ").filter(Boolean) : undefined;
+    if (
+      !USER_TYPES.includes(userType as UserType) ||
+      typeof sid !== "string" ||
+      (cid !== undefined && typeof cid !== "string") ||
+      (scope !== undefined && !scopes?.every((s) => PERMISSIONS.includes(s as Permission)))
+    ) {
+      this.logger.warn(`Rejected access token ${payload.jti}: bad userType, sid, cid or scope claim`);
+      throw new HttpError(401, "Invalid token");
+    }
+    if (await this.registry?.isRevoked(payload.jti as string)) {
+      this.logger.warn(`Rejected revoked access token ${payload.jti} for ${payload.sub}`);
+      throw new HttpError(401, "Token revoked");
+    }
+
+    return {
+      userId: payload.sub as string,
+      userType: userType as UserType,
+      sessionId: sid,
+      clientId: cid,
+      scopes: scopes as Permission[] | undefined,
+      jti: payload.jti as string,
+      issuedAt: new Date((payload.iat as number) * 1000),
+      expiresAt: new Date((payload.exp as number) * 1000),
+    };
+  }
+
+  /**
+   * Fail at startup rather than on the first login if the key does not match the algorithm
+   */
+  private checkKeyType(key: crypto.KeyObject): void {
+    const expected = this.config.algorithm === "RS256" ? "rsa" : "ec";
+    const curve = key.asymmetricKeyDetails?.namedCurve;
+    if (key.asymmetricKeyType !== expected || (expected === "ec" && curve !== "prime256v1")) {
+      throw new Error(`${this.config.algorithm} key has the wrong type (${key.asymmetricKeyType} ${curve ?? ""})`);
+    }
+  }
+}
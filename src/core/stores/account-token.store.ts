@@ -0,0 +1,42 @@
+import type { IAccountToken, IAccountTokenStore } from "../interfaces/account.interface.js";
+import { JsonFileStore } from "./json-file.store.js";
+
+/**
+ * Account tokens persisted to a JSON file, keyed by the token's hash.  A database-backed
+ * store can replace it behind IAccountTokenStore.
+ */
+export class FileAccountTokenStore implements IAccountTokenStore {
+  private store: JsonFileStore<IAccountToken>;
+
+  /**
+   * @param filePath - JSON file the tokens are kept in
+   */
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<IAccountToken>(filePath);
+  }
+
+  async get(tokenHash: string): Promise<IAccountToken | undefined> {
+    return this.store.get(tokenHash);
+  }
+
+  async save(token: IAccountToken): Promise<void> {
+    await this.store.set(token.tokenHash, token);
+  }
+
+  async delete(tokenHash: string): Promise<void> {
+    await this.store.delete(tokenHash);
+  }
+
+  async list(): Promise<IAccountToken[]> {
+    return this.store.values();
+  }
+
+  async take(tokenHash: string): Promise<IAccountToken | undefined> {
+    // Nothing awaits between the lookup and the removal from memory, so no other call can see it in between
+    const token = this.store.get(tokenHash);
+    if (token) {
+      await this.store.delete(tokenHash);
+    }
+    return token;
+  }
+}
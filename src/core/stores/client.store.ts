@@ -0,0 +1,29 @@
+import type { IClientRecord, IClientStore } from "../interfaces/client.interface.js";
+import { JsonFileStore } from "./json-file.store.js";
+
+/**
+ * API clients persisted to a JSON file.  Revoked clients are kept so the record of who
+ * was issued what survives; a database-backed store can replace it behind IClientStore.
+ */
+export class FileClientStore implements IClientStore {
+  private store: JsonFileStore<IClientRecord>;
+
+  /**
+   * @param filePath - JSON file the clients are kept in
+   */
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<IClientRecord>(filePath);
+  }
+
+  async get(clientId: string): Promise<IClientRecord | undefined> {
+    return this.store.get(clientId);
+  }
+
+  async save(client: IClientRecord): Promise<void> {
+    await this.store.set(client.clientId, client);
+  }
+
+  async list(): Promise<IClientRecord[]> {
+    return this.store.values();
+  }
+}
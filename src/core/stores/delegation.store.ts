@@ -0,0 +1,68 @@
+import fs from "fs";
+import path from "path";
+import type {
+  IDelegatedAccessEntry,
+  IDelegatedAccessLog,
+  IDelegation,
+  IDelegationStore,
+} from "../interfaces/delegation.interface.js";
+import { JsonFileStore } from "./json-file.store.js";
+
+/**
+ * Delegations persisted to a JSON file.  Revoked and expired grants are kept, so the
+ * record of who could see what survives; a database-backed store can replace it
+ * behind IDelegationStore.
+ */
+export class FileDelegationStore implements IDelegationStore {
+  private store: JsonFileStore<IDelegation>;
+
+  /**
+   * @param filePath - JSON file the delegations are kept in
+   */
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<IDelegation>(filePath);
+  }
+
+  async get(id: string): Promise<IDelegation | undefined> {
+    return this.store.get(id);
+  }
+
+  async save(delegation: IDelegation): Promise<void> {
+    await this.store.set(delegation.id, delegation);
+  }
+
+  async listByPatient(patientId: string): Promise<IDelegation[]> {
+    return this.store.values().filter((delegation) => delegation.patientId === patientId);
+  }
+
+  async listByDelegate(delegateId: string): Promise<IDelegation[]> {
+    return this.store.values().filter((delegation) => delegation.delegateId === delegateId);
+  }
+}
+
+/**
+ * Delegated access log appended to a JSON lines file, one entry per line.  Unlike the
+ * record stores it is never rewritten, so it can grow without every write getting slower.
+ */
+export class FileDelegatedAccessLog implements IDelegatedAccessLog {
+  private filePath: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * @param filePath - file the entries are appended to; created on first write
+   */
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  record(entry: IDelegatedAccessEntry): Promise<void> {
+    const line = `${JSON.stringify(entry)}\n`;
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined) // a failed write must not wedge every later one
+      .then(async () => {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.appendFile(this.filePath, line, { mode: 0o600 });
+      });
+    return this.writeQueue;
+  }
+}
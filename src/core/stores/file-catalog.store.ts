@@ -0,0 +1,65 @@
+import type {
+  IFileCatalogStore,
+  IFileQuery,
+  IFileQueryResult,
+  IFileRecord,
+} from "../interfaces/file-catalog.interface.js";
+import { JsonFileStore } from "./json-file.store.js";
+
+/**
+ * File catalog persisted to a JSON file, keyed by file id.  Queries are answered by
+ * filtering the records in memory.
+ */
+export class FileCatalogStore implements IFileCatalogStore {
+  private store: JsonFileStore<IFileRecord>;
+
+  /**
+   * @param filePath - JSON file the catalog is kept in
+   */
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<IFileRecord>(filePath);
+  }
+
+  async get(id: string): Promise<IFileRecord | undefined> {
+    return this.store.get(id);
+  }
+
+  async findByStorageKey(storageKey: string): Promise<IFileRecord | undefined> {
+    return this.store.values().find((record) => record.storageKey === storageKey);
+  }
+
+  async save(record: IFileRecord): Promise<void> {
+    await this.store.set(record.id, record);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.store.delete(id);
+  }
+
+  async list(query: IFileQuery): Promise<IFileQueryResult> {
+    const from = query.from?.getTime() ?? -Infinity;
+    const to = query.to?.getTime() ?? Infinity;
+
+    const matches = this.store
+      .values()
+      .filter((record) => {
+        const created = new Date(record.createdAt).getTime();
+        return (
+          (query.ownerId === undefined || record.ownerId === query.ownerId) &&
+          (query.tag === undefined || (record.metadata.tags ?? []).includes(query.tag)) &&
+          (query.category === undefined || record.metadata.category === query.category) &&
+          created >= from &&
+          created <= to
+        );
+      })
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    const start = (query.page - 1) * query.limit;
+    return {
+      items: matches.slice(start, start + query.limit),
+      total: matches.length,
+      page: query.page,
+      limit: query.limit,
+    };
+  }
+}
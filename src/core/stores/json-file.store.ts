@@ -0,0 +1,93 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * Small keyed record store persisted as a single JSON file.  Intended for local,
+ * development and single-instance deployments: the whole set is held in memory,
+ * loaded once at construction and rewritten atomically (temp file + rename) on
+ * every change.  Writes are serialised so concurrent updates cannot interleave, and
+ * reads are synchronous, so a check followed by set or delete with no await in between
+ * is atomic.  The File*Store classes are built on it; a shared store (database, Redis)
+ * can replace any of them behind its interface when the API is scaled out.
+ */
+export class JsonFileStore<T> {
+  private filePath: string;
+  private records: Map<string, T>;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * @param filePath - JSON file to load from and persist to; created on first write
+   */
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.records = new Map(Object.entries(this.load()));
+  }
+
+  get(id: string): T | undefined {
+    return this.records.get(id);
+  }
+
+  values(): T[] {
+    return [...this.records.values()];
+  }
+
+  async set(id: string, record: T): Promise<void> {
+    this.records.set(id, record);
+    await this.persist();
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const existed = this.records.delete(id);
+    if (existed) {
+      await this.persist();
+    }
+    return existed;
+  }
+
+  /**
+   * Check the file can still be read and its directory written, as the next change
+   * will need; the records themselves stay in memory either way
+   * @throws {Error} The filesystem error if either fails
+   */
+  async healthCheck(): Promise<void> {
+    try {
+      await fs.promises.access(this.filePath, fs.constants.R_OK);
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+    }
+    const probePath = `${this.filePath}.${process.pid}.health`;
+    try {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.writeFile(probePath, "", { mode: 0o600 });
+    } finally {
+      await fs.promises.rm(probePath, { force: true }).catch(() => undefined);
+    }
+  }
+
+  private load(): Record<string, T> {
+    try {
+      return JSON.parse(fs.readFileSync(this.filePath, "utf8")) as Record<string, T>;
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return {};
+      }
+      throw new Error(`Unable to load store ${this.filePath}: ${(error as Error).message}`);
+    }
+  }
+
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify(Object.fromEntries(this.records), null, 2);
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined) // a failed write must not wedge every later one
+      .then(async () => {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.writeFile(tmpPath, snapshot, { mode: 0o600 });
+        await fs.promises.rename(tmpPath, this.filePath);
+      });
+    return this.writeQueue;
+  }
+}
@@ -0,0 +1,58 @@
+import type {
+  ILoginFailureRecord,
+  ILoginFailureStore,
+} from "../interfaces/lockout.interface.js";
+import { JsonFileStore } from "./json-file.store.js";
+
+/**
+ * Failure records held in memory; lost on restart, and not shared between instances
+ */
+export class MemoryLoginFailureStore implements ILoginFailureStore {
+  private records = new Map<string, ILoginFailureRecord>();
+
+  async get(username: string): Promise<ILoginFailureRecord | undefined> {
+    return this.records.get(username);
+  }
+
+  async save(record: ILoginFailureRecord): Promise<void> {
+    this.records.set(record.username, record);
+  }
+
+  async delete(username: string): Promise<void> {
+    this.records.delete(username);
+  }
+
+  async list(): Promise<ILoginFailureRecord[]> {
+    return [...this.records.values()];
+  }
+}
+
+/**
+ * Failure records persisted to a JSON file, so lockouts survive a restart
+ */
+export class FileLoginFailureStore implements ILoginFailureStore {
+  private store: JsonFileStore<ILoginFailureRecord>;
+
+  /**
+   * @param filePath - JSON file the records are kept in
+   */
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<ILoginFailureRecord>(filePath);
+  }
+
+  async get(username: string): Promise<ILoginFailureRecord | undefined> {
+    return this.store.get(username);
+  }
+
+  async save(record: ILoginFailureRecord): Promise<void> {
+    await this.store.set(record.username, record);
+  }
+
+  async delete(username: string): Promise<void> {
+    await this.store.delete(username);
+  }
+
+  async list(): Promise<ILoginFailureRecord[]> {
+    return this.store.values();
+  }
+}
@@ -0,0 +1,50 @@
+import type { IMfaRecord, IMfaStore } from "../interfaces/mfa.interface.js";
+import { JsonFileStore } from "./json-file.store.js";
+
+/**
+ * MFA enrolments persisted to a JSON file (written 0600, as it holds the TOTP secrets).
+ * A database or secrets-manager backed store can replace it behind IMfaStore.
+ */
+export class FileMfaStore implements IMfaStore {
+  private store: JsonFileStore<IMfaRecord>;
+
+  /**
+   * @param filePath - JSON file the enrolments are kept in
+   */
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<IMfaRecord>(filePath);
+  }
+
+  async get(userId: string): Promise<IMfaRecord | undefined> {
+    return this.store.get(userId);
+  }
+
+  async save(record: IMfaRecord): Promise<void> {
+    await this.store.set(record.userId, record);
+  }
+
+  async delete(userId: string): Promise<void> {
+    await this.store.delete(userId);
+  }
+
+  async useStep(userId: string, step: number): Promise<boolean> {
+    // Nothing awaits between the check and the update in memory, so no other call can slip in between
+    const record = this.store.get(userId);
+    if (!record || (record.lastUsedStep !== undefined && step <= record.lastUsedStep)) {
+      return false;
+    }
+    await this.store.set(userId, { ...record, lastUsedStep: step, updatedAt: new Date().toISOString() });
+    return true;
+  }
+
+  async takeRecoveryCode(userId: string, codeHash: string): Promise<number | undefined> {
+    // As in useStep, the check and the update happen with nothing awaited in between
+    const record = this.store.get(userId);
+    if (!record?.recoveryCodeHashes.includes(codeHash)) {
+      return undefined;
+    }
+    const recoveryCodeHashes = record.recoveryCodeHashes.filter((candidate) => candidate !== codeHash);
+    await this.store.set(userId, { ...record, recoveryCodeHashes, updatedAt: new Date().toISOString() });
+    return recoveryCodeHashes.length;
+  }
+}
@@ -0,0 +1,52 @@
+import type {
+  IRefreshTokenRecord,
+  IRefreshTokenStore,
+} from "../interfaces/refresh-token.interface.js";
+import { JsonFileStore } from "./json-file.store.js";
+
+/**
+ * Refresh tokens persisted to a JSON file so sessions survive a restart, keyed by the
+ * token's hash.
+ */
+export class FileRefreshTokenStore implements IRefreshTokenStore {
+  private store: JsonFileStore<IRefreshTokenRecord>;
+
+  /**
+   * @param filePath - JSON file the token records are kept in
+   */
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<IRefreshTokenRecord>(filePath);
+  }
+
+  async get(id: string): Promise<IRefreshTokenRecord | undefined> {
+    return this.store.get(id);
+  }
+
+  async save(record: IRefreshTokenRecord): Promise<void> {
+    await this.store.set(record.id, record);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.store.delete(id);
+  }
+
+  async markReplaced(id: string, replacedBy: string): Promise<boolean> {
+    // Nothing awaits between the check and the update in memory, so no other call can slip in between
+    const record = this.store.get(id);
+    if (!record || record.replacedBy || record.revokedAt) {
+      return false;
+    }
+    await this.store.set(id, { ...record, replacedBy });
+    return true;
+  }
+
+  async listFamily(familyId: string): Promise<IRefreshTokenRecord[]> {
+    return this.store.values().filter((record) => record.familyId === familyId);
+  }
+
+  async listExpired(now: Date): Promise<IRefreshTokenRecord[]> {
+    return this.store
+      .values()
+      .filter((record) => new Date(record.expiresAt).getTime() < now.getTime());
+  }
+}
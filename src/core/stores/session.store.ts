@@ -0,0 +1,75 @@
+import type {
+  IRevocationStore,
+  IRevokedToken,
+  ISession,
+  ISessionStore,
+} from "../interfaces/session.interface.js";
+import { JsonFileStore } from "./json-file.store.js";
+
+/**
+ * Sessions persisted to a JSON file, each with the access tokens issued for it.
+ */
+export class FileSessionStore implements ISessionStore {
+  private store: JsonFileStore<ISession>;
+
+  /**
+   * @param filePath - JSON file the sessions are kept in
+   */
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<ISession>(filePath);
+  }
+
+  async get(id: string): Promise<ISession | undefined> {
+    return this.store.get(id);
+  }
+
+  async save(session: ISession): Promise<void> {
+    await this.store.set(session.id, session);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.store.delete(id);
+  }
+
+  async listByUser(userId: string): Promise<ISession[]> {
+    return this.store.values().filter((session) => session.userId === userId);
+  }
+
+  async listExpired(now: Date): Promise<ISession[]> {
+    return this.store
+      .values()
+      .filter((session) => new Date(session.expiresAt).getTime() < now.getTime());
+  }
+}
+
+/**
+ * Revocation list persisted to a JSON file and answered from memory
+ */
+export class FileRevocationStore implements IRevocationStore {
+  private store: JsonFileStore<IRevokedToken>;
+
+  /**
+   * @param filePath - JSON file the revoked tokens are kept in
+   */
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<IRevokedToken>(filePath);
+  }
+
+  async get(jti: string): Promise<IRevokedToken | undefined> {
+    return this.store.get(jti);
+  }
+
+  async save(entry: IRevokedToken): Promise<void> {
+    await this.store.set(entry.jti, entry);
+  }
+
+  async delete(jti: string): Promise<void> {
+    await this.store.delete(jti);
+  }
+
+  async listExpired(now: Date): Promise<IRevokedToken[]> {
+    return this.store
+      .values()
+      .filter((entry) => new Date(entry.expiresAt).getTime() < now.getTime());
+  }
+}
@@ -0,0 +1,37 @@
+import type {
+  IUploadSession,
+  IUploadSessionStore,
+} from "../interfaces/upload-session.interface.js";
+import { JsonFileStore } from "./json-file.store.js";
+
+/**
+ * Upload sessions persisted to a JSON file so in-progress uploads survive a restart
+ */
+export class FileUploadSessionStore implements IUploadSessionStore {
+  private store: JsonFileStore<IUploadSession>;
+
+  /**
+   * @param filePath - JSON file the sessions are kept in
+   */
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<IUploadSession>(filePath);
+  }
+
+  async get(id: string): Promise<IUploadSession | undefined> {
+    return this.store.get(id);
+  }
+
+  async save(session: IUploadSession): Promise<void> {
+    await this.store.set(session.id, session);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.store.delete(id);
+  }
+
+  async listExpired(now: Date): Promise<IUploadSession[]> {
+    return this.store
+      .values()
+      .filter((session) => new Date(session.expiresAt).getTime() < now.getTime());
+  }
+}
@@ -0,0 +1,47 @@
+import type { IUserRecord, IUserStore } from "../interfaces/user.interface.js";
+import { JsonFileStore } from "./json-file.store.js";
+
+/**
+ * User accounts persisted to a JSON file, for development, testing and small on-prem
+ * deployments.  A directory or database backed store can replace it behind IUserStore.
+ */
+export class FileUserStore implements IUserStore {
+  private store: JsonFileStore<IUserRecord>;
+
+  /**
+   * @param filePath - JSON file the accounts are kept in
+   */
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<IUserRecord>(filePath);
+  }
+
+  async get(id: string): Promise<IUserRecord | undefined> {
+    return this.store.get(id);
+  }
+
+  async findByUsername(username: string): Promise<IUserRecord | undefined> {
+    const wanted = username.toLowerCase();
+    return this.store.values().find((user) => user.username === wanted);
+  }
+
+  async findByEmail(email: string): Promise<IUserRecord | undefined> {
+    const wanted = email.toLowerCase();
+    return this.store.values().find((user) => user.email === wanted);
+  }
+
+  async list(): Promise<IUserRecord[]> {
+    return this.store.values().sort((a, b) => a.username.localeCompare(b.username));
+  }
+
+  async save(user: IUserRecord): Promise<void> {
+    await this.store.set(user.id, user);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.store.delete(id);
+  }
+
+  healthCheck(): Promise<void> {
+    return this.store.healthCheck();
+  }
+}
@@ -0,0 +1,34 @@
+import { HttpError } from "../error.utility.js";
+import { parseFileMetadata } from "../file-metadata.utility.js";
+
+describe("File Metadata Utilities", () => {
+  describe("parseFileMetadata", () => {
+    it("should return empty metadata when nothing is sent", () => {
+      expect(parseFileMetadata(undefined)).toEqual({});
+      expect(parseFileMetadata({ description: "", tags: "", category: "" })).toEqual({});
+    });
+
+    it("should split comma separated tags and normalise case", () => {
+      const metadata = parseFileMetadata({ description: "MRI follow-up", tags: "Imaging, knee,imaging", category: "Radiology" });
+
+      expect(metadata).toEqual({ description: "MRI follow-up", tags: ["imaging", "knee"], category: "radiology" });
+    });
+
+    it("should accept tags as an array (repeated form fields or JSON)", () => {
+      expect(parseFileMetadata({ tags: ["lab", "blood work"] }).tags).toEqual(["lab", "blood work"]);
+    });
+
+    it("should reject malformed values with a 400", () => {
+      expect(() => parseFileMetadata({ tags: ["<script>"] })).toThrow(HttpError);
+      expect(() => parseFileMetadata({ category: 42 })).toThrow("category must be text");
+      expect(() => parseFileMetadata({ description: "x".repeat(1001) })).toThrow(HttpError);
+      expect(() => parseFileMetadata("tags")).toThrow("metadata must be an object");
+    });
+
+    it("should cap the number of tags", () => {
+      const tags = Array.from({ length: 21 }, (_, i) => `tag${i}`).join(",");
+
+      expect(() => parseFileMetadata({ tags })).toThrow("at most 20 tags are allowed");
+    });
+  });
+});
@@ -0,0 +1,32 @@
+import { jest } from "@jest/globals";
+import { startPeriodic } from "../timer.utility.js";
+import { mockLogger } from "../../../test/mocks.js";
+
+describe("startPeriodic", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should run the job every interval, logging failures and carrying on", async () => {
+    const logger = mockLogger();
+    let runs = 0;
+    const timer = startPeriodic(logger, "Test.job", async () => {
+      runs++;
+      if (runs === 1) {
+        throw new Error("store unavailable");
+      }
+    }, 1000);
+
+    await jest.advanceTimersByTimeAsync(2000);
+    clearInterval(timer);
+
+    expect(runs).toBe(2);
+    expect(logger.error).toHaveBeenCalledTimes(1);
+    expect(logger.error).toHaveBeenCalledWith("Test.job failed:", "store unavailable");
+    expect(timer.hasRef()).toBe(false);
+  });
+});
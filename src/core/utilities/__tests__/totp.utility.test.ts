@@ -0,0 +1,35 @@
+import { generateTotpSecret, matchTotp, totpCode, totpStep, totpUri } from "../totp.utility.js";
+
+// RFC 6238 appendix B seed "12345678901234567890", base32 encoded
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+describe("TOTP Utilities", () => {
+  it("should match the RFC 6238 SHA-1 test vectors", () => {
+    // 8-digit vectors from the RFC, truncated to the 6 digits apps use
+    expect(totpCode(RFC_SECRET, totpStep(59 * 1000))).toBe("287082");
+    expect(totpCode(RFC_SECRET, totpStep(1111111109 * 1000))).toBe("081804");
+    expect(totpCode(RFC_SECRET, totpStep(1234567890 * 1000))).toBe("005924");
+    expect(totpCode(RFC_SECRET, totpStep(2000000000 * 1000))).toBe("279037");
+  });
+
+  it("should accept the codes either side of now and nothing further", () => {
+    const secret = generateTotpSecret();
+    const now = totpStep();
+
+    expect(matchTotp(secret, totpCode(secret, now))).toBe(now);
+    expect(matchTotp(secret, totpCode(secret, now - 1))).toBe(now - 1);
+    expect(matchTotp(secret, totpCode(secret, now + 1))).toBe(now + 1);
+    expect(matchTotp(secret, totpCode(secret, now - 3))).toBeUndefined();
+    expect(matchTotp(secret, "12345")).toBeUndefined();
+  });
+
+  it("should build an otpauth URI authenticator apps can read", () => {
+    const uri = new URL(totpUri("JBSWY3DPEHPK3PXP", "Soleo Health", "jsmith"));
+
+    expect(uri.protocol).toBe("otpauth:");
+    expect(uri.host).toBe("totp");
+    expect(decodeURIComponent(uri.pathname)).toBe("/Soleo Health:jsmith");
+    expect(uri.searchParams.get("secret")).toBe("JBSWY3DPEHPK3PXP");
+    expect(uri.searchParams.get("issuer")).toBe("Soleo Health");
+  });
+});
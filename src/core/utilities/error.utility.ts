@@ -21,4 +21,21 @@ export function toError(maybeError: unknown): Error {
  */
 export function getErrorMessage(maybeError: unknown): string {
   return toError(maybeError).message;
-}
\ No newline at end of file
+}
+
+/**
+ * Error carrying the HTTP status it should be reported with.  The global error handler
+ * uses the status and, since the message is written for the client, passes it through
+ * even in production - along with any details, which must be just as client-safe.
+ */
+export class HttpError extends Error {
+  readonly statusCode: number;
+  readonly details: Record<string, unknown> | undefined;
+
+  constructor(statusCode: number, message: string, details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'HttpError';
+    this.statusCode = statusCode;
+    this.details = details;
+  }
+}
@@ -0,0 +1,75 @@
+import type { IFileDescriptiveMetadata } from "../interfaces/file-catalog.interface.js";
+import { HttpError } from "./error.utility.js";
+
+const MAX_DESCRIPTION_LENGTH = 1000;
+const MAX_TAGS = 20;
+const LABEL_PATTERN = /^[a-z0-9][a-z0-9 _-]{0,49}$/; // tags and category
+
+/**
+ * Validate and normalise the descriptive fields sent with an upload.  They arrive as
+ * multipart form fields (tags comma separated or repeated) or as a JSON object;
+ * tags and category are lower-cased so catalog filters match regardless of case.
+ * @param input - { description?, tags?, category? } in either form
+ * @returns the cleaned metadata (absent fields omitted)
+ * @throws {HttpError} 400 describing the first invalid field
+ */
+export function parseFileMetadata(input: unknown): IFileDescriptiveMetadata {
+  if (input === undefined || input === null) {
+    return {};
+  }
+  if (typeof input !== "object" || Array.isArray(input)) {
+    throw new HttpError(400, "metadata must be an object");
+  }
+  const { description, tags, category } = input as Record<string, unknown>;
+  const metadata: IFileDescriptiveMetadata = {};
+
+  if (description !== undefined && description !== "") {
+    if (typeof description !== "string" || description.length > MAX_DESCRIPTION_LENGTH) {
+      throw new HttpError(400, `description must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters`);
+    }
+    metadata.description = description;
+  }
+
+  if (tags !== undefined && tags !== "") {
+    const values = (Array.isArray(tags) ? tags : [tags]).flatMap((tag: unknown) =>
+      typeof tag === "string" ? tag.split(",") : [tag]
+    );
+    const parsed = new Set<string>();
+    for (const tag of values) {
+      const label = parseLabel(tag, "tags");
+      if (label) {
+        parsed.add(label);
+      }
+    }
+    if (parsed.size > MAX_TAGS) {
+      throw new HttpError(400, `at most ${MAX_TAGS} tags are allowed`);
+    }
+    metadata.tags = [...parsed];
+  }
+
+  if (category !== undefined && category !== "") {
+    const label = parseLabel(category, "category");
+    if (label) {
+      metadata.category = label;
+    }
+  }
+
+  return metadata;
+}
+
+/**
+ * Tags and categories share one format: up to 50 letters, digits, spaces, _ and -
+ */
+export function parseLabel(value: unknown, field: string): string | undefined {
+  if (typeof value !== "string") {
+    throw new HttpError(400, `${field} must be text`);
+  }
+  const label = value.trim().toLowerCase();
+  if (label === "") {
+    return undefined;
+  }
+  if (!LABEL_PATTERN.test(label)) {
+    throw new HttpError(400, `Invalid ${field} value: ${value.slice(0, 50)}`);
+  }
+  return label;
+}
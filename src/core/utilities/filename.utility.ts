@@ -0,0 +1,23 @@
+/**
+ * Replace anything outside [a-zA-Z0-9._-] so a client supplied name is safe to use as
+ * part of a storage key
+ */
+export function sanitizeFilename(filename: string): string {
+  return filename.replace(/[^a-zA-Z0-9._-]/g, "_");
+}
+
+/**
+ * Build the stored name for an upload: the sanitised original name with a timestamp
+ * prefix so repeat uploads of the same file don't collide
+ */
+export function toStorageFilename(sanitizedName: string): string {
+  return `${Date.now()}-${sanitizedName}`;
+}
+
+/**
+ * Storage key for a user's file: stored objects are namespaced by the owning user id
+ * so each user's uploads live under their own prefix
+ */
+export function toStorageKey(ownerId: string, storedName: string): string {
+  return `${sanitizeFilename(ownerId)}/${storedName}`;
+}
@@ -0,0 +1,123 @@
+import { Counter, Histogram, Registry, collectDefaultMetrics } from "prom-client";
+
+/**
+ * Every metric the API exposes, served in Prometheus text format by the metrics
+ * endpoint.  Process metrics (CPU, memory, handles, GC, event-loop lag) come from
+ * prom-client's defaults.  Labels only ever hold bounded values - route patterns rather
+ * than URLs, provider names, outcomes - never user ids or filenames.
+ */
+export const metricsRegistry = new Registry();
+
+collectDefaultMetrics({ register: metricsRegistry });
+
+const httpRequests = new Counter({
+  name: "http_requests_total",
+  help: "HTTP requests handled, by method, route pattern and status code",
+  labelNames: ["method", "route", "status"] as const,
+  registers: [metricsRegistry],
+});
+
+const httpRequestDuration = new Histogram({
+  name: "http_request_duration_seconds",
+  help: "Time from receiving an HTTP request to finishing its response",
+  labelNames: ["method", "route", "status"] as const,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [metricsRegistry],
+});
+
+const storageBytes = new Counter({
+  name: "storage_bytes_total",
+  help: "Bytes moved to (upload) or from (download) the storage provider",
+  labelNames: ["provider", "direction"] as const,
+  registers: [metricsRegistry],
+});
+
+const storageDuration = new Histogram({
+  name: "storage_operation_duration_seconds",
+  help: "Storage provider call durations; downloads run until the stream ends",
+  labelNames: ["provider", "operation", "outcome"] as const,
+  buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120],
+  registers: [metricsRegistry],
+});
+
+const integrityFailures = new Counter({
+  name: "storage_integrity_failures_total",
+  help: "Uploads that failed an integrity check (short chunk, checksum mismatch)",
+  labelNames: ["provider", "reason"] as const,
+  registers: [metricsRegistry],
+});
+
+const logins = new Counter({
+  name: "auth_logins_total",
+  help: "User login attempts by step (password or mfa) and outcome",
+  labelNames: ["step", "outcome"] as const,
+  registers: [metricsRegistry],
+});
+
+const rateLimitRejections = new Counter({
+  name: "rate_limit_rejections_total",
+  help: "Requests refused with 429 by a rate limiter",
+  labelNames: ["limiter"] as const,
+  registers: [metricsRegistry],
+});
+
+export type StorageDirection = "upload" | "download";
+export type OperationOutcome = "success" | "error";
+export type LoginStep = "password" | "mfa";
+export type LoginOutcome = "success" | "failure" | "mfa_challenge" | "throttled";
+
+/**
+ * @param method
+ * @param route - the matched route pattern, or "unmatched"
+ * @param status
+ * @param seconds
+ */
+export function recordHttpRequest(method: string, route: string, status: number, seconds: number): void {
+  const labels = { method, route, status: String(status) };
+  httpRequests.inc(labels);
+  httpRequestDuration.observe(labels, seconds);
+}
+
+/**
+ * @param provider - local, azure, s3 or gcs
+ * @param direction
+ * @param bytes
+ */
+export function recordStorageBytes(provider: string, direction: StorageDirection, bytes: number): void {
+  if (bytes > 0) {
+    storageBytes.inc({ provider, direction }, bytes);
+  }
+}
+
+/**
+ * @param provider
+ * @param operation - upload, download, chunk_upload, ...
+ * @param outcome
+ * @param seconds
+ */
+export function recordStorageOperation(provider: string, operation: string, outcome: OperationOutcome, seconds: number): void {
+  storageDuration.observe({ provider, operation, outcome }, seconds);
+}
+
+/**
+ * @param provider
+ * @param reason - e.g. chunk_truncated, checksum_mismatch
+ */
+export function recordIntegrityFailure(provider: string, reason: string): void {
+  integrityFailures.inc({ provider, reason });
+}
+
+/**
+ * @param step
+ * @param outcome
+ */
+export function recordLogin(step: LoginStep, outcome: LoginOutcome): void {
+  logins.inc({ step, outcome });
+}
+
+/**
+ * @param limiter - access, api, upload or download
+ */
+export function recordRateLimitRejection(limiter: string): void {
+  rateLimitRejections.inc({ limiter });
+}
@@ -0,0 +1,78 @@
+import crypto from "crypto";
+import { promisify } from "util";
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+// OWASP minimum for scrypt; encoded into each hash so it can be raised later
+const COST = { N: 2 ** 17, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+/**
+ * Rules a new password must meet
+ */
+export interface IPasswordPolicy {
+  minLength: number;
+  maxLength: number;
+  minCharacterClasses: number; // of lower case, upper case, digits and symbols
+}
+
+/**
+ * Hash a password with scrypt and a random salt
+ * @param password
+ * @returns `scrypt$N$r$p$salt$hash` with base64url salt and hash
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const hash = await derive(password, salt, COST.N, COST.r, COST.p);
+  return ["scrypt", COST.N, COST.r, COST.p, salt.toString("base64url"), hash.toString("base64url")].join("$");
+}
+
+/**
+ * Check a password against a hash from hashPassword, comparing in constant time
+ * @param password
+ * @param encoded
+ * @returns false for a wrong password or an unreadable hash
+ */
+export async function verifyPassword(password: string, encoded: string): Promise<boolean> {
+  const [scheme, n, r, p, salt, hash] = encoded.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, "base64url");
+  const actual = await derive(password, Buffer.from(salt, "base64url"), Number(n), Number(r), Number(p), expected.length);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+/**
+ * What is wrong with a new password under a strength policy
+ * @param password
+ * @param policy - see accessConfig.passwordPolicy
+ * @param username - the password may not contain it
+ * @returns one sentence per problem; empty if the password is acceptable
+ */
+export function checkPasswordStrength(password: string, policy: IPasswordPolicy, username?: string): string[] {
+  const problems: string[] = [];
+  if (password.length < policy.minLength || password.length > policy.maxLength) {
+    problems.push(`Password must be ${policy.minLength}-${policy.maxLength} characters`);
+  }
+  const classes = [/[a-z]/, /[A-Z]/, /[0-9]/, /[^a-zA-Z0-9]/].filter((pattern) => pattern.test(password)).length;
+  if (classes < policy.minCharacterClasses) {
+    problems.push(`Password must mix at least ${policy.minCharacterClasses} of lower case, upper case, digits and symbols`);
+  }
+  if (username && username.length >= 3 && password.toLowerCase().includes(username.toLowerCase())) {
+    problems.push("Password must not contain the username");
+  }
+  return problems;
+}
+
+function derive(password: string, salt: Buffer, N: number, r: number, p: number, keyLength = KEY_LENGTH): Promise<Buffer> {
+  // scrypt needs 128 * N * r bytes; leave headroom over the 32MB default limit
+  return scrypt(password.normalize("NFKC"), salt, keyLength, { N, r, p, maxmem: 256 * N * r });
+}
@@ -0,0 +1,152 @@
+import { AsyncLocalStorage } from "async_hooks";
+import crypto from "crypto";
+import { isSpanContextValid, trace } from "@opentelemetry/api";
+import type { IRequestContext, IRequestLogFields } from "../interfaces/request-context.interface.js";
+import { injectTraceContext, isTracingEnabled } from "./tracing.utility.js";
+
+const storage = new AsyncLocalStorage<IRequestContext>();
+
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+/**
+ * Run a request's handling inside its context
+ * @param context
+ * @param fn - everything called from here, synchronously or not, sees the context
+ */
+export function runWithRequestContext<T>(context: IRequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * @returns the context of the request being handled, or undefined outside one
+ */
+export function getRequestContext(): IRequestContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * The fields to tag a log line with
+ * @returns undefined outside a request
+ */
+export function getRequestLogFields(): IRequestLogFields | undefined {
+  const context = storage.getStore();
+  if (!context) {
+    return undefined;
+  }
+  const { req } = context;
+  return {
+    requestId: context.requestId,
+    traceId: context.traceId,
+    method: req.method,
+    route: getRoutePattern(req) ?? (req.originalUrl ?? req.url).split("?")[0] ?? "",
+    ...(req.principal ? { userId: req.principal.userId } : {}),
+    latencyMs: Number(process.hrtime.bigint() - context.startedAt) / 1e6,
+  };
+}
+
+const routePatterns = new WeakMap<IRequestContext["req"], string>();
+
+/**
+ * The pattern of the route that matched, with its parameters unfilled (/api/v1/files/:id)
+ * @param req
+ * @returns undefined until a route has matched, or if none did
+ */
+export function getRoutePattern(req: IRequestContext["req"]): string | undefined {
+  if (!req.route) {
+    return undefined;
+  }
+  return routePatterns.get(req) ?? describeRoute(req);
+}
+
+/**
+ * Remember each route pattern as it matches.  The router restores req.baseUrl when a
+ * request leaves it, so by the time an app-level error handler has answered, the mount
+ * path is gone from req and only this copy has it.  Installed once per request, by
+ * createRequestContext.
+ * @param req
+ */
+function trackRoutePattern(req: IRequestContext["req"]): void {
+  let route: unknown = req.route;
+  Object.defineProperty(req, "route", {
+    configurable: true,
+    enumerable: true,
+    get: () => route,
+    set: (value: unknown) => {
+      route = value;
+      if (value) {
+        routePatterns.set(req, describeRoute(req));
+      }
+    },
+  });
+}
+
+function describeRoute(req: IRequestContext["req"]): string {
+  // A route registered for several paths does not say which one matched
+  const paths: unknown[] = Array.isArray(req.route.path) ? req.route.path : [req.route.path];
+  return paths.map((path) => `${req.baseUrl}${String(path)}`).join("|");
+}
+
+/**
+ * Build the context for an incoming request, continuing the caller's trace and keeping
+ * its request id where they are well formed
+ * @param req
+ */
+export function createRequestContext(req: IRequestContext["req"]): IRequestContext {
+  const startedAt = process.hrtime.bigint();
+  trackRoutePattern(req);
+  const incomingId = req.get("X-Request-Id");
+  const parent = TRACEPARENT_PATTERN.exec(req.get("traceparent")?.trim().toLowerCase() ?? "");
+  // All-zero ids are invalid under the W3C spec
+  const traceId = parent?.[1] && !/^0+$/.test(parent[1]) ? parent[1] : crypto.randomBytes(16).toString("hex");
+  const parentSpanId = parent?.[2] && traceId === parent[1] && !/^0+$/.test(parent[2]) ? parent[2] : undefined;
+
+  const requestId = incomingId && REQUEST_ID_PATTERN.test(incomingId) ? incomingId : crypto.randomUUID();
+
+  // With tracing on, log lines carry the ids of the request's server span
+  const span = isTracingEnabled() ? trace.getActiveSpan()?.spanContext() : undefined;
+  if (span && isSpanContextValid(span)) {
+    return {
+      requestId,
+      traceId: span.traceId,
+      parentSpanId: span.traceId === traceId ? parentSpanId : undefined,
+      spanId: span.spanId,
+      traceFlags: span.traceFlags.toString(16).padStart(2, "0"),
+      startedAt,
+      req,
+    };
+  }
+
+  return {
+    requestId,
+    traceId,
+    parentSpanId,
+    spanId: crypto.randomBytes(8).toString("hex"),
+    traceFlags: parentSpanId && parent?.[3] ? parent[3] : "01",
+    startedAt,
+    req,
+  };
+}
+
+/**
+ * The W3C traceparent naming the current request's span; echoed on its response so a
+ * caller that sent none can still find the trace
+ * @returns undefined outside a request
+ */
+export function getTraceparent(): string | undefined {
+  const context = storage.getStore();
+  return context ? `00-${context.traceId}-${context.spanId}-${context.traceFlags}` : undefined;
+}
+
+/**
+ * Headers that carry the trace on to a call made on behalf of the current request: the
+ * active span's traceparent with tracing on, the request's own otherwise
+ * @returns no headers outside a request
+ */
+export function getTraceHeaders(): Record<string, string> {
+  if (isTracingEnabled()) {
+    return injectTraceContext({});
+  }
+  const traceparent = getTraceparent();
+  return traceparent ? { traceparent } : {};
+}
@@ -0,0 +1,32 @@
+import { Transform, type TransformCallback } from 'stream';
+import { HttpError } from './error.utility.js';
+
+/**
+ * Counts bytes as they pass and fails the stream as soon as the limit is crossed,
+ * so the provider sees an error (and aborts) instead of a silently truncated file.
+ */
+export class SizeLimitStream extends Transform {
+  private receivedBytes = 0;
+  private readonly limit: number;
+
+  constructor(limit: number) {
+    super();
+    this.limit = limit;
+  }
+
+  /**
+   * Bytes passed through so far
+   */
+  get received(): number {
+    return this.receivedBytes;
+  }
+
+  override _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.receivedBytes += chunk.length;
+    if (this.receivedBytes > this.limit) {
+      callback(new HttpError(413, `File size exceeds maximum allowed (${this.limit} bytes)`));
+      return;
+    }
+    callback(null, chunk);
+  }
+}
@@ -0,0 +1,26 @@
+import type { ILogger } from '../interfaces/logger.interface.js';
+import { toError } from './error.utility.js';
+
+/**
+ * Run a background job every intervalMs.  A failed run is logged and the next one goes
+ * ahead; the timer is unref'd so it never holds the process open on shutdown.
+ * @param logger - where failed runs are reported
+ * @param name - the job, as it should appear in the log (e.g. "SessionService.purgeExpired")
+ * @param job
+ * @param intervalMs
+ * @returns the timer, so callers can stop it
+ */
+export function startPeriodic(
+  logger: ILogger,
+  name: string,
+  job: () => Promise<unknown>,
+  intervalMs: number
+): NodeJS.Timeout {
+  const timer = setInterval(() => {
+    job().catch((error: unknown) => {
+      logger.error(`${name} failed:`, toError(error).message);
+    });
+  }, intervalMs);
+  timer.unref();
+  return timer;
+}
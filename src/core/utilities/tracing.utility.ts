@@ -0,0 +1,222 @@
+import {
+  SpanKind,
+  SpanStatusCode,
+  context,
+  propagation,
+  trace,
+  type Attributes,
+  type Context,
+  type Span,
+  type Tracer,
+} from "@opentelemetry/api";
+import { W3CTraceContextPropagator } from "@opentelemetry/core";
+import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
+import { resourceFromAttributes } from "@opentelemetry/resources";
+import {
+  BatchSpanProcessor,
+  ConsoleSpanExporter,
+  InMemorySpanExporter,
+  NodeTracerProvider,
+  ParentBasedSampler,
+  SimpleSpanProcessor,
+  TraceIdRatioBasedSampler,
+  type SpanProcessor,
+} from "@opentelemetry/sdk-trace-node";
+import { getTracingConfig, type TracingConfig } from "../../config/tracing.config.js";
+import { toError } from "./error.utility.js";
+
+/**
+ * OpenTelemetry tracing for the API.  Everything here is a no-op until startTracing has
+ * run with an exporter configured: no spans are created, nothing is wrapped, and
+ * traceLayer hands back the object it was given.
+ */
+let provider: NodeTracerProvider | undefined;
+let tracer: Tracer | undefined;
+let memoryExporter: InMemorySpanExporter | undefined;
+
+/**
+ * The architectural layer a span belongs to, recorded as app.layer
+ */
+export type TraceLayer = "controller" | "service" | "provider";
+
+/**
+ * Register the tracer provider, the W3C trace-context propagator and the async context
+ * manager, unless the exporter is none.  Safe to call more than once.
+ * @param config
+ * @returns whether tracing is on
+ */
+export function startTracing(config: TracingConfig = getTracingConfig()): boolean {
+  if (tracer || config.exporter === "none") {
+    return tracer !== undefined;
+  }
+
+  let processor: SpanProcessor;
+  switch (config.exporter) {
+    case "otlp":
+      processor = new BatchSpanProcessor(
+        new OTLPTraceExporter(config.otlpEndpoint ? { url: config.otlpEndpoint } : {})
+      );
+      break;
+    case "console":
+      processor = new SimpleSpanProcessor(new ConsoleSpanExporter());
+      break;
+    case "memory":
+      memoryExporter = new InMemorySpanExporter();
+      processor = new SimpleSpanProcessor(memoryExporter);
+      break;
+  }
+
+  provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({ "service.name": config.serviceName }),
+    // Keep the caller's decision for continued traces; sample new ones at the ratio
+    sampler: new ParentBasedSampler({ root: new TraceIdRatioBasedSampler(config.sampleRatio) }),
+    spanProcessors: [processor],
+  });
+  provider.register({ propagator: new W3CTraceContextPropagator() });
+  tracer = provider.getTracer(config.serviceName);
+  return true;
+}
+
+/**
+ * Flush the spans still queued and unregister everything startTracing registered
+ */
+export async function stopTracing(): Promise<void> {
+  await provider?.shutdown();
+  trace.disable();
+  context.disable();
+  propagation.disable();
+  provider = undefined;
+  tracer = undefined;
+  memoryExporter = undefined;
+}
+
+export function isTracingEnabled(): boolean {
+  return tracer !== undefined;
+}
+
+/**
+ * @returns the exporter holding finished spans when TRACING_EXPORTER=memory
+ */
+export function getMemorySpanExporter(): InMemorySpanExporter | undefined {
+  return memoryExporter;
+}
+
+/**
+ * The trace the incoming request belongs to, from its traceparent header
+ * @param headers - request headers
+ * @returns the context to start the request's span in
+ */
+export function extractTraceContext(headers: Record<string, string | string[] | undefined>): Context {
+  return propagation.extract(context.active(), headers);
+}
+
+/**
+ * Add traceparent for the current span to the headers of an outgoing request
+ * @param headers - modified in place
+ * @returns headers
+ */
+export function injectTraceContext<T extends Record<string, string>>(headers: T): T {
+  if (tracer) {
+    propagation.inject(context.active(), headers);
+  }
+  return headers;
+}
+
+/**
+ * Start a span as a child of the active one.  End it with endSpan.
+ * @param name
+ * @param attributes
+ * @param kind - INTERNAL unless it is the request's server span
+ * @param parent - defaults to the active context
+ * @returns undefined while tracing is off
+ */
+export function startSpan(
+  name: string,
+  attributes: Attributes = {},
+  kind: SpanKind = SpanKind.INTERNAL,
+  parent: Context = context.active()
+): Span | undefined {
+  return tracer?.startSpan(name, { kind, attributes }, parent);
+}
+
+/**
+ * End a span, marking it failed if there was an error
+ * @param span - from startSpan; undefined is ignored
+ * @param error
+ */
+export function endSpan(span: Span | undefined, error?: unknown): void {
+  if (!span) {
+    return;
+  }
+  if (error !== undefined) {
+    const err = toError(error);
+    span.recordException(err);
+    span.setStatus({ code: SpanStatusCode.ERROR, message: err.message });
+  }
+  span.end();
+}
+
+/**
+ * Run fn with span as the active span, so the spans fn starts become its children
+ * @param span - undefined just runs fn
+ * @param fn
+ */
+export function runInSpan<T>(span: Span | undefined, fn: () => T): T {
+  return span ? context.with(trace.setSpan(context.active(), span), fn) : fn();
+}
+
+/**
+ * Wrap an object so that every call to one of its methods from outside is a span named
+ * <Class>.<method>, ending when the returned promise settles.  Calls the object makes
+ * to itself are not traced.
+ * @param target - a controller, service or provider
+ * @param layer - recorded as app.layer
+ * @returns target itself while tracing is off
+ */
+export function traceLayer<T extends object>(target: T, layer: TraceLayer): T {
+  if (!tracer) {
+    return target;
+  }
+  const component = target.constructor.name;
+  const wrapped = new Map<string, (...args: unknown[]) => unknown>();
+
+  return new Proxy(target, {
+    get(obj, property) {
+      const value: unknown = Reflect.get(obj, property, obj);
+      if (typeof value !== "function" || typeof property !== "string" || property === "constructor") {
+        return value;
+      }
+      let method = wrapped.get(property);
+      if (!method) {
+        const name = `${component}.${property}`;
+        const attributes = { "app.layer": layer, "code.namespace": component, "code.function": property };
+        method = (...args: unknown[]) => {
+          const span = startSpan(name, attributes);
+          let result: unknown;
+          try {
+            result = runInSpan(span, () => value.apply(obj, args));
+          } catch (error: unknown) {
+            endSpan(span, error);
+            throw error;
+          }
+          if (result instanceof Promise) {
+            return result.then(
+              (resolved: unknown) => {
+                endSpan(span);
+                return resolved;
+              },
+              (error: unknown) => {
+                endSpan(span, error);
+                throw error;
+              }
+            );
+          }
+          endSpan(span);
+          return result;
+        };
+        wrapped.set(property, method);
+      }
+      return method;
+    },
+  });
+}
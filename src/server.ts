@@ -1,12 +1,14 @@
 import http from 'http';
 import https from 'https';
-import { createApp } from './app.js';
+import { createApp, createMetricsApp } from './app.js';
 import { LoggerFactory } from './core/factories/logger.factory.js';
 import { getServerConfig } from './config/server.config.js';
+import { getMetricsConfig } from './config/metrics.config.js';
 
 const logger = LoggerFactory.getLoggerProvider();
 const app = createApp();
 const config = getServerConfig();
+const metricsConfig = getMetricsConfig();
 
 /**
  * Start the HTTP or HTTPS server based on configuration
@@ -26,9 +28,21 @@ server.listen(config.port, () => {
   logger.info('  POST /api/v1/access/authorize\n');
 });
 
+/**
+ * Serve the metrics on their own port, which can be kept off the public network
+ */
+const metricsServer = metricsConfig.enabled && metricsConfig.port !== undefined
+  ? http.createServer(createMetricsApp())
+  : undefined;
+
+metricsServer?.listen(metricsConfig.port, () => {
+  logger.info(`  Metrics on http://localhost:${metricsConfig.port}${metricsConfig.path}`);
+});
+
 // Graceful shutdown
 process.on('SIGTERM', () => {
   logger.info('SIGTERM signal received: closing server');
+  metricsServer?.close();
   server.close(() => {
     logger.info('Server closed');
     process.exit(0);
@@ -37,6 +51,7 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   logger.info('\nSIGINT signal received: closing server');
+  metricsServer?.close();
   server.close(() => {
     logger.info('Server closed');
     process.exit(0);
@@ -0,0 +1,45 @@
+import crypto from 'crypto';
+import path from 'path';
+import request from 'supertest';
+import type { Express } from 'express';
+import type { UserType } from '../core/interfaces/access.interface.js';
+import { FileUserStore } from '../core/stores/user.store.js';
+import { hashPassword } from '../core/utilities/password.utility.js';
+import { totpCode } from '../core/utilities/totp.utility.js';
+
+/**
+ * Add LOCAL accounts with the password loginAs uses, for tests that need a role other
+ * than patient (the mock access provider makes everyone a patient).  Call it before the
+ * app is created: the app loads <storageRoot>/users/users.json once.
+ * @param storageRoot - the test's LOCAL_STORAGE_PATH
+ * @param users - username to user type
+ */
+export async function addUsers(storageRoot: string, users: Record<string, UserType>): Promise<void> {
+  const store = new FileUserStore(path.join(storageRoot, 'users', 'users.json'));
+  const passwordHash = await hashPassword('TestPass123');
+  const createdAt = new Date().toISOString();
+  for (const [username, userType] of Object.entries(users)) {
+    await store.save({ id: crypto.randomUUID(), username, passwordHash, userType, disabled: false, createdAt, updatedAt: createdAt });
+  }
+}
+
+/**
+ * Log in through the API and return the issued token.  The mock access provider
+ * accepts any username as a patient; other roles need LOCAL accounts (see addUsers).
+ * Roles that require MFA enrol on their first login; the code is computed from the
+ * secret that login hands back.
+ */
+export async function loginAs(app: Express, username: string): Promise<string> {
+  let response = await request(app)
+    .post('/api/v1/access/login')
+    .send({ username, password: 'TestPass123' });
+  if (response.status === 200 && response.body.mfaRequired && response.body.enrollment) {
+    response = await request(app)
+      .post('/api/v1/access/mfa/verify')
+      .send({ challengeToken: response.body.challengeToken, code: totpCode(response.body.enrollment.secret) });
+  }
+  if (response.status !== 200 || !response.body.token) {
+    throw new Error(`login as ${username} failed with ${response.status}`);
+  }
+  return response.body.token as string;
+}
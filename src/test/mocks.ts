@@ -6,7 +6,7 @@ import { jest } from '@jest/globals';
  * Create a mock Express Request object
  */
 export function mockRequest(overrides: Partial<Request> = {}): Partial<Request> {
-  return {
+  const req = {
     body: {},
     params: {},
     query: {},
@@ -15,6 +15,8 @@ export function mockRequest(overrides: Partial<Request> = {}): Partial<Request>
     path: '/',
     ...overrides,
   } as Partial<Request>;
+  req.get = ((name: string) => req.headers?.[name.toLowerCase()]) as Request['get'];
+  return req;
 }
 
 /**
@@ -28,6 +30,7 @@ export function mockResponse(): Partial<Response> {
   res.set = jest.fn().mockReturnValue(res);
   res.setHeader = jest.fn().mockReturnValue(res);
   res.cookie = jest.fn().mockReturnValue(res);
+  res.clearCookie = jest.fn().mockReturnValue(res);
   res.redirect = jest.fn().mockReturnValue(res);
   return res;
 }
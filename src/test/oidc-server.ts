@@ -0,0 +1,72 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { SignJWT, exportJWK, generateKeyPair, type CryptoKey, type JWK, type JWTPayload } from 'jose';
+
+interface ISigningKey {
+  kid: string;
+  privateKey: CryptoKey;
+  jwk: JWK;
+}
+
+/**
+ * Minimal OpenID provider for tests: serves a discovery document and a JWKS built from
+ * generated RS256 keys, and signs tokens with them.  rotateKey() publishes a new
+ * signing key the way a real issuer rolls its keys.
+ */
+export class MockOidcServer {
+  private server = http.createServer((req, res) => this.handle(req, res));
+  private keys: ISigningKey[] = [];
+  jwksRequests = 0;
+  traceparents: (string | undefined)[] = []; // the traceparent header of each request, in order
+  issuer = '';
+
+  get discoveryUrl(): string {
+    return `${this.issuer}/.well-known/openid-configuration`;
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    this.issuer = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    await this.rotateKey();
+  }
+
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  /**
+   * Add a fresh signing key; new tokens are signed with it
+   */
+  async rotateKey(): Promise<void> {
+    const { privateKey, publicKey } = await generateKeyPair('RS256');
+    const kid = `key-${this.keys.length + 1}`;
+    this.keys.push({ kid, privateKey, jwk: { ...(await exportJWK(publicKey)), kid, alg: 'RS256', use: 'sig' } });
+  }
+
+  /**
+   * Sign a token with the current key; claims override the defaults (iss, iat, exp in 5 min)
+   */
+  async sign(claims: JWTPayload, options: { kid?: string; expiresIn?: string } = {}): Promise<string> {
+    const key = options.kid ? this.keys.find((k) => k.kid === options.kid)! : this.keys[this.keys.length - 1]!;
+    return new SignJWT({ iss: this.issuer, ...claims })
+      .setProtectedHeader({ alg: 'RS256', kid: key.kid })
+      .setIssuedAt()
+      .setExpirationTime(options.expiresIn ?? '5m')
+      .sign(key.privateKey);
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    this.traceparents.push(req.headers['traceparent'] as string | undefined);
+    res.setHeader('Content-Type', 'application/json');
+    if (req.url === '/.well-known/openid-configuration') {
+      res.end(JSON.stringify({ issuer: this.issuer, jwks_uri: `${this.issuer}/keys` }));
+    } else if (req.url === '/keys') {
+      this.jwksRequests++;
+      res.end(JSON.stringify({ keys: this.keys.map((key) => key.jwk) }));
+    } else {
+      res.statusCode = 404;
+      res.end('{}');
+    }
+  }
+}